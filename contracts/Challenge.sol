@@ -2,351 +2,43 @@
 pragma solidity ^0.8.22;
 
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
-
-import {AggregatorV3Interface} from "@chainlink/contracts/src/v0.8/shared/interfaces/AggregatorV3Interface.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/NoncesUpgradeable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
+import "./ChallengeBase.sol";
 import "./interfaces/IChallenge.sol";
-import "./interfaces/IVault.sol";
-
-contract Challenge is
-    IChallenge,
-    UUPSUpgradeable,
-    ReentrancyGuardUpgradeable,
-    PausableUpgradeable,
-    OwnableUpgradeable
-{
-    // ============================ //
-    //             Enums            //
-    // ============================ //
-
-    /**
-     * @dev Enumerated values representing the type of health challenges available, subject to change as capability expands.
-     */
-    uint8 constant CHALLENGE_STEPS = 0;
-    uint8 constant CHALLENGE_MILEAGE = 1;
-    uint8 constant CHALLENGE_CYCLING_MILEAGE = 2;
-    uint8 constant CHALLENGE_CALORIES_BURNED = 3;
-
-    /**
-     * @dev Enumerated values representing the status of a challenge, subject to change as capability expands.
-     */
-    uint8 constant STATUS_INACTIVE = 0;
-    uint8 constant STATUS_ACTIVE = 1;
-    uint8 constant STATUS_EXPIRED = 2;
-    uint8 constant STATUS_CHALLENGER_WON = 3;
-    uint8 constant STATUS_CHALLENGER_LOST = 4;
-
-    // ============================ //
-    //      State Variables         //
-    // ============================ //
-
-    /// @notice the data feed allowing us to determine the current price of ETH to set a minimum amount of ETH required to fulfill the minimum USD value of the bet
-    AggregatorV3Interface internal dataFeed;
-
-    /// @notice the vault contract
-    IVault internal vault;
-
-    /// @notice the minimum number of total bettors on a challenge
-    uint256 constant MINIMUM_NUMBER_OF_BETTORS_AGAINST = 1;
-
-    /// @notice ETH/USD exchange rate on Base Mainnet
-    // address internal dataFeedAddress = 0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70;
-
-    /// @notice the minimum value in USD of a bet on a challenge, either from the challenger or someone betting against them
-    uint256 internal minimumUsdValueOfBet;
-
-    /// @notice the maximum number of bettors per challenge, default set to 100
-    uint32 internal maximumNumberOfBettorsPerChallenge;
-
-    /// @notice the maximum length of a challenge in seconds, default set to 30 days
-    uint32 internal maximumChallengeLengthInSeconds;
-
-    /// @notice the maximum number of metrics per challenge, default set to 3
-    uint8 internal maximumNumberOfChallengeMetrics;
-
-    /// @notice Whitelisted challengers who can participate in challenges
-    mapping(address => bool) public challengerWhitelist;
-
-    /// @notice Whitelisted bettors who can bet on challenges
-    mapping(address => bool) public bettorWhitelist;
-
-    // ==================================== //
-    // Challenger metadata data structures  //
-    // ==================================== //
-
-    /// @notice Mapping to get all of a challenger's challenges
-    mapping(address => uint256[]) internal challengerToChallenges;
-
-    /// @notice Mapping to get the challenge ID of a challenger's currently active challenge
-    /// @dev When a challenge finishes, we will change the value in the mapping back to 0
-    mapping(address => uint256) public challengerToActiveChallenge;
-
-    // ==================================== //
-    //  Challenge metadata data structures  //
-    // ==================================== //
-
-    uint256 public latestChallengeId;
-
-    /// @notice Mapping to get a challenge's owner by challenge ID
-    mapping(uint256 => address) public challengeToChallenger;
-
-    /// @notice Mapping to get whether or not a challenge's winnings have been paid
-    mapping(uint256 => uint256) public challengeToWinningsPaid;
-
-    /// @notice Mapping to get the target measurements for a challenge by challenge ID
-    mapping(uint256 => mapping(uint8 => uint256)) challengeToTargetMetricMeasurements;
-
-    /// @notice Mapping to get the final measurements for a challenge by challenge ID
-    mapping(uint256 => mapping(uint8 => uint256)) challengeToFinalMetricMeasurements;
-
-    /// @notice Mapping to get all challenge metrics included in a particular challenge
-    mapping(uint256 => uint8[]) challengeToIncludedMetrics;
-
-    /// @notice Mapping to get the challenge start time from by challenge ID
-    mapping(uint256 => uint256) public challengeToStartTime;
-
-    /// @notice Mapping to get the challenge length from by challenge ID
-    mapping(uint256 => uint256) public challengeToChallengeLength;
-
-    /// @notice Mapping to get a challenge's status by ID
-    mapping(uint256 => uint8) public challengeToChallengeStatus;
-
-    // ==================================== //
-    //  Challenge bet info data structures  //
-    // ==================================== //
-    mapping(uint256 => uint256) public challengeToTotalAmountBetFor;
-    mapping(uint256 => uint256) public challengeToTotalAmountBetAgainst;
-    mapping(uint256 => uint256) public challengeToNumberOfBettorsFor;
-    mapping(uint256 => uint256) public challengeToNumberOfBettorsAgainst;
-
-    mapping(uint256 => mapping(address => uint256)) public challengeToBetsFor;
-    mapping(uint256 => mapping(address => uint256))
-        public challengeToBetsAgainst;
-    mapping(uint256 => address[]) public challengeToBettors;
-
-    // ============================ //
-    //           Errors             //
-    // ============================ //
-
-    // errors for owner
-    /// @dev error thrown when the vault is not set
-    error VaultNotSet();
-
-    /// @dev error thrown when the challenge length is too short
-    error ChallengeLengthTooShort();
-
-    /// @dev error thrown when the maximum number of bettors per challenge is too small
-    error MaximumNumberOfBettorsPerChallengeTooSmall();
-
-    /// @dev error thrown when the maximum number of challenge metrics is too small
-    error MaximumNumberOfChallengeMetricsTooSmall();
-
-    /// @dev error thrown when the minimum USD value of a bet is too small
-    error MinimumUsdValueOfBetTooSmall();
-
-    // errors for challengers
-    /// @dev Error thrown when a non-whitelisted address attempts to do a challenger action
-    error ChallengerNotInWhitelist();
-
-    /// @dev Error thrown when attempting to whitelist an address already whitelisted as a challenger
-    error ChallengerAlreadyInWhitelist();
-
-    /// @dev Error thrown when a non-whitelisted address attempts to do a bettor action
-    error BettorNotInWhitelist();
-
-    /// @dev Error thrown when attempting to whitelist an address already whitelisted as a bettor
-    error BettorAlreadyInWhitelist();
-
-    /// @dev Error thrown when attempting to set a zero amount for the minimum USD value of a bet
-    error MinimumBetAmountTooSmall();
-
-    /// @dev Error thrown when a challenge is no longer allowed to be modified
-    error ChallengeCannotBeModified();
-
-    /// @dev Error thrown when a challenge is no longer allowed to be modified
-    error ChallengeCanOnlyBeModifiedByChallenger(
-        uint256 challengeId,
-        address caller,
-        address challenger
-    );
-
-    /// @dev Error thrown when a challenge is already active when it must be inactive for the action requested
-    error ChallengeIsActive(uint256 activeChallengeId);
-
-    /// @dev Error thrown when a challenge is not active when it must be active for the action requested
-    error ChallengeIsNotActive(uint256 challengeId, uint8 challengeStatus);
-
-    /// @dev Error thrown when a challenge is expired when it must not be expired for the action requested
-    error ChallengeIsExpired(uint256 challengeId);
-
-    /// @dev Error thrown when a challenge has not yet started when it must be active or complete for the action requested
-    error ChallengeNotYetStarted(uint256 challengeId);
-
-    /// @dev Error thrown when there is a mismatch between the number of challenge metrics and the number of measurements provided
-    error MalformedChallengeMetricsProvided();
-
-    /// @dev Error thrown when a challenge doesn't have anyone betting against it yet
-    error NobodyBettingAgainstChallenger();
-
-    /// @dev Error thrown when a challenge doesn't have anyone betting for it yet
-    error NobodyBettingForChallenger();
 
-    /// @dev Error thrown when a challenger attempts to bet against himself
-    error ChallengerCannotBetAgainstHimself();
-
-    /// @dev Error thrown when someone attempts to place a new bet when not allowed to do so
-    error BettorCannotUpdateBet();
-
-    /// @dev Error thrown when someone attempts to place a bet on a challenge that already has the maximum number of bettors
-    error TooManyBettors();
-
-    /// @dev Error thrown when the contract attempts to distribute winnings for a challenge from which the winnings have already been distributed
-    error WinningsAlreadyPaid(uint256 challengeId);
-
-    /// @dev Error thrown when a caller attempts to start someone else's challenge
-    error OnlyChallengerCanStartChallenge();
-
-    /// @dev Error thrown when a caller attempts to start a challenge with a length greater than the maximum allowed
-    error ChallengeLengthTooLong();
-
-    /// @dev Error thrown when a caller attempts to start a challenge with a greater number of metrics than the maximum allowed
-    error TooManyChallengeMetrics();
-
-    // price feed errors
-
-    /// @dev Error thrown when the price feed round is not complete
-    error PriceFeedRoundNotComplete();
-
-    /// @dev Error thrown when the price feed is stale
-    error StalePrice();
-
-    /// @dev Error thrown when the price feed is too old
-    error PriceFeedTooOld();
-
-    /// @dev Error thrown when the price feed is invalid
-    error InvalidPrice(); 
-
-    // ============================ //
-    //          Modifiers           //
-    // ============================ //
-
-    modifier onlyChallengers(address _address) {
-        if (!challengerWhitelist[_address]) revert ChallengerNotInWhitelist();
-        _;
-    }
-
-    modifier onlyBettors(address _address) {
-        if (!bettorWhitelist[_address]) revert BettorNotInWhitelist();
-        _;
-    }
-
-    modifier betIsGreaterThanOrEqualToMinimumBetValue() {
-        uint256 ethPrice = getLatestPrice();
-        uint256 betValueInUsd = (msg.value * ethPrice) / 1e8; // Adjust for price feed decimals
-        if (betValueInUsd < minimumUsdValueOfBet) revert MinimumBetAmountTooSmall();
-        _;
-    }
-
-    modifier checkBettingEligibility(uint256 _challengeId) {
-        if (!bettorWhitelist[msg.sender]) {
-            revert BettorNotInWhitelist();
-        }
-        if (address(vault) == address(0)) {
-            revert VaultNotSet();
-        }
-        if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE) {
-            revert ChallengeCannotBeModified();
-        }
-        _;
-    }
-
-    // ============================ //
-    //         Setters              //
-    // ============================ //
-
-    /// @notice Sets the vault contract
-    function setVault(address _vault) external onlyOwner whenNotPaused {
-        if (_vault == address(0)) revert VaultNotSet();
-        vault = IVault(_vault);
-    }
-
-    /// @notice Sets the maximum number of bettors per challenge
-    function setMaximumNumberOfBettorsPerChallenge(
-        uint32 _maximumNumberOfBettorsPerChallenge
-    ) external onlyOwner whenNotPaused {
-        if (_maximumNumberOfBettorsPerChallenge < (MINIMUM_NUMBER_OF_BETTORS_AGAINST + 1)) revert MaximumNumberOfBettorsPerChallengeTooSmall();
-        maximumNumberOfBettorsPerChallenge = _maximumNumberOfBettorsPerChallenge;
-        emit MaximumNumberOfBettorsPerChallengeSet(maximumNumberOfBettorsPerChallenge, _maximumNumberOfBettorsPerChallenge);
-    }
-
-     /// @notice Sets the maximum number of bettors per challenge
-    function setMaximumChallengeLength(
-        uint32 _maximumChallengeLengthInSeconds
-    ) external onlyOwner whenNotPaused {
-        if (_maximumChallengeLengthInSeconds == 0) revert ChallengeLengthTooShort();
-        maximumChallengeLengthInSeconds = _maximumChallengeLengthInSeconds;
-        emit MaximumChallengeLengthSet(maximumChallengeLengthInSeconds, _maximumChallengeLengthInSeconds);
-    }
-
-    /// @notice Sets the maximum number of challenge metrics
-    function setMaximumNumberOfChallengeMetrics(
-        uint8 _maximumNumberOfChallengeMetrics
-    ) external onlyOwner whenNotPaused {
-        if (_maximumNumberOfChallengeMetrics == 0) revert MaximumNumberOfChallengeMetricsTooSmall();
-        maximumNumberOfChallengeMetrics = _maximumNumberOfChallengeMetrics;
-        emit MaximumNumberOfChallengeMetricsSet(maximumNumberOfChallengeMetrics, _maximumNumberOfChallengeMetrics);
-    }
-
-    /**
-     * @inheritdoc IChallenge
-     */
-    function setMinimumBetValue(
-        uint256 _newMinimumValue
-    ) external virtual override onlyOwner whenNotPaused {
-        if (_newMinimumValue == 0) revert MinimumBetAmountTooSmall();
-        minimumUsdValueOfBet = _newMinimumValue;
-        emit MinimumBetValueSet(minimumUsdValueOfBet, _newMinimumValue);
-    }
-
-    // ============================ //
-    //         Getters              //
-    // ============================ //
-
-    /// @notice Gets the minimum USD value of a bet
-    function getMinimumUsdValueOfBet() external view returns (uint256) {
-        return minimumUsdValueOfBet;
-    }
-
-    /// @notice Gets the maximum number of bettors per challenge
-    function getMaximumNumberOfBettorsPerChallenge() external view returns (uint32) {
-        return maximumNumberOfBettorsPerChallenge;
-    }
-
-    /// @notice Gets the maximum challenge length
-    function getMaximumChallengeLength() external view returns (uint32) {
-        return maximumChallengeLengthInSeconds;
-    }
-
-    /// @notice Gets the maximum number of challenge metrics
-    function getMaximumNumberOfChallengeMetrics() external view returns (uint8) {
-        return maximumNumberOfChallengeMetrics;
-    }
+/**
+ * @title Challenge contract
+ * @author Branson Solutions LLC
+ * @notice Lets challengers stake on reaching their health goals and bettors bet for or against them.
+ * @dev The implementation behind the proxy. It whitelists participants, starts challenges and records their measurements,
+ * and its fallback delegates the rest of the interface to the extensions it is deployed with, starting at ChallengeBetting.
+ */
+contract Challenge is IChallenge, UUPSUpgradeable, EIP712Upgradeable, NoncesUpgradeable, ChallengeBase {
+    /// @notice EIP-712 type hash of a measurement attestation signed by a trusted data relayer
+    bytes32 public constant MEASUREMENT_ATTESTATION_TYPEHASH =
+        keccak256(
+            "MeasurementAttestation(uint256 challengeId,address participant,uint8[] metrics,uint256[] measurements,uint256 windowStart,uint256 windowEnd,uint256 nonce)"
+        );
 
     // ============================ //
     //         Initializer          //
     // ============================ //
 
     /// @custom:oz-upgrades-unsafe-allow constructor
-    constructor() {
+    constructor(address _extension) ChallengeBase(_extension) {
         _disableInitializers();
     }
 
     /**
      * @notice Initializes the Challenge contract to
-     * @dev This function replaces the constructor for upgradeable contracts. It can only be called once.
+     * @dev This function replaces the constructor for upgradeable contracts. It can only be called once, and leaves the
+     * proxy on the version of the latest migration so none of the migrations can run on it. The deployer is granted every
+     * role, and the ownership, which only authorizes the migrations, is renounced so the roles are the only authority
+     * over the contract.
      *
      * @param _minimumBetValue the minimum USD value for a bet for or against a challenger
      * @param _dataFeedAddress the smart contract address from which we want to get real-time cryptocurrency price information
@@ -361,16 +53,20 @@ contract Challenge is
         uint32 _maximumNumberOfBettorsPerChallenge,
         uint32 _maximumChallengeLengthInSeconds,
         uint8 _maximumNumberOfChallengeMetrics
-    ) public initializer {
+    ) public reinitializer(4) {
         if (_minimumBetValue == 0) revert MinimumBetAmountTooSmall();
         if (_maximumNumberOfBettorsPerChallenge < (MINIMUM_NUMBER_OF_BETTORS_AGAINST + 1)) revert MaximumNumberOfBettorsPerChallengeTooSmall();
         if (_maximumChallengeLengthInSeconds == 0) revert ChallengeLengthTooShort();
         if (_maximumNumberOfChallengeMetrics == 0) revert MaximumNumberOfChallengeMetricsTooSmall();
+        __UUPSUpgradeable_init();
+        __EIP712_init("Challenge", "1");
+        __Nonces_init();
         __ReentrancyGuard_init();
         __Pausable_init();
         __Ownable_init(msg.sender);
-        transferOwnership(msg.sender);
-        __UUPSUpgradeable_init();
+        __AccessControl_init();
+        _grantAdministrativeRoles(msg.sender);
+        _transferOwnership(address(0));
 
         minimumUsdValueOfBet = _minimumBetValue;
         maximumNumberOfBettorsPerChallenge = _maximumNumberOfBettorsPerChallenge;
@@ -383,32 +79,87 @@ contract Challenge is
         emit MaximumNumberOfBettorsPerChallengeSet(0, _maximumNumberOfBettorsPerChallenge);
         emit MaximumChallengeLengthSet(0, _maximumChallengeLengthInSeconds);
         emit MaximumNumberOfChallengeMetricsSet(0, _maximumNumberOfChallengeMetrics);
+
+        _registerDefaultMetrics();
     }
 
-    // ============================ //
-    //      Interface Functions     //
-    // ============================ //
+    /**
+     * @notice Sets up the EIP-712 domain for attested measurements on a proxy deployed before attestations existed
+     */
+    function initializeAttestations() external reinitializer(2) onlyOwner {
+        __EIP712_init("Challenge", "1");
+    }
 
     /**
-     * @inheritdoc IChallenge
+     * @notice Registers the default metrics on a proxy deployed before the metric registry existed
+     * @dev Metrics the owner already registered are left as they are. Also does what initializeAttestations does, since
+     * this reinitializer skips its version on a proxy still on the first release.
      */
-    function getChallengesForChallenger(
-        address challenger
-    ) external view returns (uint256[] memory) {
-        return challengerToChallenges[challenger];
+    function initializeMetricRegistry() external reinitializer(3) onlyOwner {
+        _registerDefaultMetrics();
+        __EIP712_init("Challenge", "1");
+    }
+
+    /**
+     * @notice Makes the owner of a proxy deployed before roles existed its default admin, grants it every role and
+     * renounces the ownership, so the roles are left as the only authority over the contract
+     * @dev Also does what initializeMetricRegistry does, since this reinitializer skips its version on a proxy still on
+     * an earlier release. Both steps leave a proxy that already ran it as it was.
+     */
+    function initializeAccessControl() external reinitializer(4) onlyOwner {
+        _registerDefaultMetrics();
+        __EIP712_init("Challenge", "1");
+        __AccessControl_init();
+        _grantAdministrativeRoles(owner());
+        _transferOwnership(address(0));
     }
 
+    /**
+     * @dev Grants an account the default admin role, which grants and revokes the others, and every administrative role
+     */
+    function _grantAdministrativeRoles(address _account) internal {
+        _grantRole(DEFAULT_ADMIN_ROLE, _account);
+        _grantRole(WHITELIST_MANAGER_ROLE, _account);
+        _grantRole(PARAMETER_ADMIN_ROLE, _account);
+        _grantRole(PAUSER_ROLE, _account);
+        _grantRole(SETTLER_ROLE, _account);
+        _grantRole(UPGRADER_ROLE, _account);
+    }
+
+    /**
+     * @dev Registers the metrics challenges have supported from the start, keeping their original IDs
+     */
+    function _registerDefaultMetrics() internal {
+        // the cumulative rule is opt-in, so submissions may correct a total downwards until the owner turns it on
+        _registerDefaultMetric(0, Metric("Steps", "steps", 0, DIRECTION_AT_LEAST, true, false, 0, 10_000_000));
+        _registerDefaultMetric(1, Metric("Mileage", "miles", 0, DIRECTION_AT_LEAST, true, false, 0, 10_000));
+        _registerDefaultMetric(2, Metric("Cycling mileage", "miles", 0, DIRECTION_AT_LEAST, true, false, 0, 50_000));
+        _registerDefaultMetric(3, Metric("Calories burned", "kcal", 0, DIRECTION_AT_LEAST, true, false, 0, 1_000_000));
+    }
+
+    function _registerDefaultMetric(uint8 _metric, Metric memory _settings) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (bytes($.metrics[_metric].name).length == 0) _setMetric(_metric, _settings);
+    }
+
+    // ============================ //
+    //      Interface Functions     //
+    // ============================ //
+
     /**
      * @inheritdoc IChallenge
      */
     function addNewChallenger(
         address challenger
-    ) public virtual override onlyOwner whenNotPaused {
+    ) public virtual override onlyRole(WHITELIST_MANAGER_ROLE) whenNotPaused {
+        _clearRevokedRegistration(challenger);
         if (challengerWhitelist[challenger])
             revert ChallengerAlreadyInWhitelist();
 
         challengerWhitelist[challenger] = true;
         bettorWhitelist[challenger] = true;
+        // whitelisting directly no longer ties the address's access to the allowlist it may have registered through
+        _getChallengeStorage().accountToAllowlistVersion[challenger] = 0;
 
         emit ChallengerJoined(challenger);
         emit BettorJoined(challenger); // a user allowed to create challenges is also by default allowed to bet
@@ -417,7 +168,8 @@ contract Challenge is
     /**
      * @inheritdoc IChallenge
      */
-    function addNewBettor(address bettor) public virtual override onlyOwner whenNotPaused {
+    function addNewBettor(address bettor) public virtual override onlyRole(WHITELIST_MANAGER_ROLE) whenNotPaused {
+        _clearRevokedRegistration(bettor);
         if (bettorWhitelist[bettor]) revert BettorAlreadyInWhitelist();
 
         bettorWhitelist[bettor] = true;
@@ -430,7 +182,8 @@ contract Challenge is
      */
     function removeChallenger(
         address challenger
-    ) external virtual override onlyOwner whenNotPaused {
+    ) external virtual override onlyRole(WHITELIST_MANAGER_ROLE) whenNotPaused {
+        _clearRevokedRegistration(challenger);
         if (!challengerWhitelist[challenger]) revert ChallengerNotInWhitelist();
 
         challengerWhitelist[challenger] = false;
@@ -439,68 +192,36 @@ contract Challenge is
     }
 
     /**
-     * @notice Creates a new challenge for a whitelisted challenger, but does not start a challenge until requirements are met
-     * @param _lengthOfChallenge The time length of the challenge in seconds
-     * @param _challengeMetrics The set of metrics the challenger wants to reach in the challenge time frame
-     * @param _targetMeasurementsForEachMetric The set of target measurements for each metric the challenger wants to achieve
-     *
-     * Requirements:
-     * - The caller is on the challenger whitelist
-     * - The challenger does not already have an active challenge
+     * @inheritdoc IChallenge
      */
-    function createChallenge(
-        uint256 _lengthOfChallenge,
-        uint8[] memory _challengeMetrics,
-        uint256[] memory _targetMeasurementsForEachMetric
-    )
-        public
-        virtual
-        nonReentrant
-        onlyChallengers(msg.sender)
-        whenNotPaused
-        returns (uint256)
-    {
-        if (_lengthOfChallenge > maximumChallengeLengthInSeconds)
-            revert ChallengeLengthTooLong();
-        if (_challengeMetrics.length == 0)
-            revert("At least one metric is required");
-        if (_challengeMetrics.length != _targetMeasurementsForEachMetric.length)
-            revert MalformedChallengeMetricsProvided();
-        if (_challengeMetrics.length > maximumNumberOfChallengeMetrics)
-            revert TooManyChallengeMetrics();
-
-        address challenger = msg.sender;
-        uint256 currentChallengeId = latestChallengeId;
-        unchecked {
-            latestChallengeId++;
+    function registerWithAllowlistProof(
+        uint256 _version,
+        uint8 _role,
+        bytes32[] calldata _proof
+    ) external virtual override whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        address account = msg.sender;
+        if (_role > ALLOWLIST_ROLE_CHALLENGER) revert InvalidAllowlistRole(_role);
+        bytes32 root = $.allowlistRoots[_version];
+        if (root == bytes32(0)) revert AllowlistVersionNotFound(_version);
+        if ($.allowlistVersionRevoked[_version]) revert AllowlistVersionRevoked(_version);
+        // leaves are hashed twice, the way OpenZeppelin's standard Merkle trees hash them
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(account, _role))));
+        if (!MerkleProof.verifyCalldata(_proof, root, leaf)) revert InvalidAllowlistProof();
+
+        _clearRevokedRegistration(account);
+        if (_role == ALLOWLIST_ROLE_CHALLENGER) {
+            if (challengerWhitelist[account]) revert ChallengerAlreadyInWhitelist();
+            challengerWhitelist[account] = true;
+            emit ChallengerJoined(account);
+        } else if (bettorWhitelist[account]) {
+            revert BettorAlreadyInWhitelist();
         }
+        bettorWhitelist[account] = true;
+        $.accountToAllowlistVersion[account] = _version;
 
-        challengeToChallenger[currentChallengeId] = challenger;
-        challengerToChallenges[challenger].push(currentChallengeId);
-
-        for (uint256 i = 0; i < _challengeMetrics.length; ) {
-            challengeToTargetMetricMeasurements[currentChallengeId][
-                _challengeMetrics[i]
-            ] = _targetMeasurementsForEachMetric[i];
-            challengeToIncludedMetrics[currentChallengeId].push(
-                _challengeMetrics[i]
-            );
-            unchecked {
-                i++;
-            }
-        }
-        challengeToChallengeLength[currentChallengeId] = _lengthOfChallenge;
-        challengeToChallengeStatus[currentChallengeId] = STATUS_INACTIVE;
-
-        emit ChallengeCreated(
-            challenger,
-            currentChallengeId,
-            _lengthOfChallenge,
-            _challengeMetrics,
-            _targetMeasurementsForEachMetric
-        );
-
-        return currentChallengeId;
+        emit BettorJoined(account);
+        emit AllowlistRegistered(_version, account, _role);
     }
 
     /**
@@ -509,324 +230,90 @@ contract Challenge is
     function startChallenge(
         uint256 _challengeId
     ) public virtual nonReentrant onlyChallengers(msg.sender) whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
         address challenger = msg.sender;
         if (challengeToChallenger[_challengeId] != challenger) {
             revert OnlyChallengerCanStartChallenge();
         }
         if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE)
             revert ChallengeIsActive(_challengeId);
-        if (challengeToTotalAmountBetAgainst[_challengeId] == 0)
-            revert NobodyBettingAgainstChallenger();
+        _checkStartDeadline(_challengeId);
+        // a commitment has no opponents, the challenger only stakes against their own goal
+        if (
+            challengeToTotalAmountBetAgainst[_challengeId] == 0 &&
+            $.challengeToCommitmentBeneficiary[_challengeId] == address(0)
+        ) revert NobodyBettingAgainstChallenger();
         if (challengeToTotalAmountBetFor[_challengeId] == 0)
             revert NobodyBettingForChallenger();
 
         challengeToChallengeStatus[_challengeId] = STATUS_ACTIVE;
         challengeToStartTime[_challengeId] = block.timestamp;
         challengerToActiveChallenge[challenger] = _challengeId;
-    }
-
-    // TODO: Refactor so that the value is locked in a vault rather than paid to the contract
-    /**
-     * @inheritdoc IChallenge
-     */
-    function placeBet(
-        uint256 _challengeId,
-        bool _bettingFor
-    ) public payable virtual override nonReentrant checkBettingEligibility(_challengeId) betIsGreaterThanOrEqualToMinimumBetValue whenNotPaused {
-        if (challengeToChallengeStatus[_challengeId] == STATUS_ACTIVE)
-            revert ChallengeIsActive(_challengeId);
-        if (msg.value < minimumUsdValueOfBet) revert MinimumBetAmountTooSmall();
-        if (address(vault) == address(0)) revert VaultNotSet();
-
-        unchecked {
-            uint256 totalBettorsOnChallenge = challengeToNumberOfBettorsFor[
-                _challengeId
-            ] + challengeToNumberOfBettorsAgainst[_challengeId];
-            if (totalBettorsOnChallenge >= maximumNumberOfBettorsPerChallenge)
-                revert TooManyBettors();
-        }
-
-        address caller = msg.sender;
-        if (challengeToChallenger[_challengeId] == caller && !_bettingFor)
-            revert ChallengerCannotBetAgainstHimself();
-        if (
-            challengeToBetsFor[_challengeId][caller] != 0 ||
-            challengeToBetsAgainst[_challengeId][caller] != 0
-        ) revert BettorCannotUpdateBet();
-
-        uint256 value = msg.value;
-        vault.depositETH{value: msg.value}();
-
-        if (_bettingFor) {
-            unchecked {
-                challengeToNumberOfBettorsFor[_challengeId] += 1;
-                challengeToTotalAmountBetFor[_challengeId] += uint256(value);
-            }
-            challengeToBetsFor[_challengeId][caller] = uint256(value);
-        } else {
-            unchecked {
-                challengeToNumberOfBettorsAgainst[_challengeId] += 1;
-                challengeToTotalAmountBetAgainst[_challengeId] += uint256(
-                    value
-                );
-            }
-            challengeToBetsAgainst[_challengeId][caller] = uint256(value);
-        }
-
-        challengeToBettors[_challengeId].push(caller);
-
-        emit BetPlaced(_challengeId, caller, _bettingFor, value);
+        _trackOpenChallenge(_challengeId);
     }
 
     /**
      * @inheritdoc IChallenge
      */
-    function cancelBet(
-        uint256 _challengeId
-    ) public payable virtual override nonReentrant checkBettingEligibility(_challengeId) whenNotPaused {
-        address caller = msg.sender;
-        if (
-            challengeToBetsFor[_challengeId][caller] == 0 &&
-            challengeToBetsAgainst[_challengeId][caller] == 0
-        ) revert BettorCannotUpdateBet();
-
-        if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE) {
-            revert ChallengeCannotBeModified();
-        }
-    }
-
-    /**
-     * @inheritdoc IChallenge
-     */
-    function changeBet(
+    function submitMeasurements(
         uint256 _challengeId,
-        bool _bettingFor
-    ) external payable virtual override nonReentrant onlyBettors(msg.sender) whenNotPaused {
+        uint256[] calldata _submittedMeasurements
+    ) external virtual override onlyChallengers(msg.sender) nonReentrant whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
         address caller = msg.sender;
-        if (
-            challengeToBetsFor[_challengeId][caller] == 0 &&
-            challengeToBetsAgainst[_challengeId][caller] == 0
-        ) revert BettorCannotUpdateBet();
-        if (msg.value < minimumUsdValueOfBet) revert MinimumBetAmountTooSmall();
-
-        if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE) {
-            revert ChallengeCannotBeModified();
+        _checkMeasurementParticipant(_challengeId, caller);
+        if ($.challengeToAttestationRequired[_challengeId])
+            revert AttestationRequired(_challengeId);
+
+        // self-reported measurements are totals from the start of the challenge, or of the current streak period, until now
+        uint256 windowStart = challengeToStartTime[_challengeId];
+        uint256 periodLength = $.challengeToStreakPeriodLength[_challengeId];
+        if (periodLength != 0 && block.timestamp > windowStart) {
+            windowStart += _streakPeriodAt(_challengeId, block.timestamp) * periodLength;
         }
+        _recordMeasurements(_challengeId, caller, _submittedMeasurements, windowStart, block.timestamp);
     }
 
     /**
      * @inheritdoc IChallenge
      */
-    function submitMeasurements(
+    function submitAttestedMeasurements(
         uint256 _challengeId,
-        uint256[] calldata _submittedMeasurements
-    ) external virtual override onlyChallengers(msg.sender) nonReentrant whenNotPaused {
-        address caller = msg.sender;
-        if (challengeToChallenger[_challengeId] != caller)
-            revert ChallengeCanOnlyBeModifiedByChallenger(
-                _challengeId,
-                caller,
-                challengeToChallenger[_challengeId]
-            );
-
+        address _participant,
+        uint256[] calldata _submittedMeasurements,
+        uint256 _windowStart,
+        uint256 _windowEnd,
+        uint256 _nonce,
+        bytes calldata _signature
+    ) external virtual override nonReentrant whenNotPaused {
+        _checkMeasurementParticipant(_challengeId, _participant);
+
+        uint256 challengeStartTime = challengeToStartTime[_challengeId];
         if (
-            challengeToIncludedMetrics[_challengeId].length !=
-            _submittedMeasurements.length
-        ) revert MalformedChallengeMetricsProvided();
-        if (challengeToChallengeStatus[_challengeId] != STATUS_ACTIVE)
-            revert ChallengeIsNotActive(
+            _windowStart > _windowEnd ||
+            _windowStart < challengeStartTime ||
+            _windowEnd > challengeStartTime + challengeToChallengeLength[_challengeId]
+        ) revert InvalidAttestationWindow(_windowStart, _windowEnd);
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                MEASUREMENT_ATTESTATION_TYPEHASH,
                 _challengeId,
-                challengeToChallengeStatus[_challengeId]
-            );
-
-        uint256 timestamp = block.timestamp;
-        if (
-            timestamp >=
-            (challengeToStartTime[_challengeId] +
-                challengeToChallengeLength[_challengeId])
-        ) {
-            challengeToChallengeStatus[_challengeId] = STATUS_EXPIRED;
-            revert ChallengeIsExpired(_challengeId);
-        }
-
-        for (uint256 i = 0; i < _submittedMeasurements.length; ) {
-            uint8 currentMetric = challengeToIncludedMetrics[_challengeId][i];
-            challengeToFinalMetricMeasurements[_challengeId][
-                currentMetric
-            ] = _submittedMeasurements[i];
-            unchecked {
-                i++;
-            }
-        }
-    }
-
-    function distributeWinnings(uint256 _challengeId) public virtual override onlyOwner whenNotPaused {
-        if (address(vault) == address(0)) revert VaultNotSet();
-
-        uint256 timestamp = block.timestamp;
-        if (
-            timestamp <
-            (challengeToStartTime[_challengeId] +
-                challengeToChallengeLength[_challengeId])
-        ) {
-            revert ChallengeIsActive(_challengeId);
-        }
-        
-        if (challengeToChallengeStatus[_challengeId] != STATUS_EXPIRED) {
-            challengeToChallengeStatus[_challengeId] = STATUS_EXPIRED;
-        }
-
-        if (challengeToWinningsPaid[_challengeId] > 0)
-            revert WinningsAlreadyPaid(_challengeId);
-
-        bool challengeWon = true;
-        
-        // Use local variables to reduce SLOADs
-        uint8[] memory metrics = challengeToIncludedMetrics[_challengeId];
-        uint256 metricsLength = metrics.length;
-        
-        for (uint8 i = 0; i < metricsLength; ) {
-            uint8 metricType = metrics[i];
-            if (
-                challengeToFinalMetricMeasurements[_challengeId][metricType] <
-                challengeToTargetMetricMeasurements[_challengeId][metricType]
-            ) {
-                challengeWon = false;
-                break;
-            }
-            unchecked {
-                i++;
-            }
-        }
-
-        uint256 totalAmountToSplit;
-        uint256 totalAmountBetCorrectly;
-        address[] memory bettors = challengeToBettors[_challengeId];
-        uint256 bettorsLength = bettors.length;
-
-        if (challengeWon) {
-            challengeToChallengeStatus[_challengeId] = STATUS_CHALLENGER_WON;
-            totalAmountToSplit = challengeToTotalAmountBetAgainst[_challengeId];
-            totalAmountBetCorrectly = challengeToTotalAmountBetFor[
-                _challengeId
-            ];
-        } else {
-            challengeToChallengeStatus[_challengeId] = STATUS_CHALLENGER_LOST;
-            totalAmountToSplit = challengeToTotalAmountBetFor[_challengeId];
-            totalAmountBetCorrectly = challengeToTotalAmountBetAgainst[
-                _challengeId
-            ];
-        }
-
-        // Make sure we avoid division by zero
-        if (totalAmountBetCorrectly == 0) {
-            challengeToWinningsPaid[_challengeId] = totalAmountToSplit;
-            return;
-        }
-
-        // Process bettors in batches to avoid hitting gas limits
-        uint256 batchSize = 10; // Can be adjusted based on gas analysis
-        uint256 numBatches = (bettorsLength + batchSize - 1) / batchSize;
-
-        for (uint256 batch = 0; batch < numBatches; ) {
-            uint256 startIdx = batch * batchSize;
-            uint256 endIdx = startIdx + batchSize;
-            if (endIdx > bettorsLength) {
-                endIdx = bettorsLength;
-            }
-
-            for (uint256 i = startIdx; i < endIdx; ) {
-                address bettor = bettors[i];
-                uint256 betAmount = challengeWon
-                    ? challengeToBetsFor[_challengeId][bettor]
-                    : challengeToBetsAgainst[_challengeId][bettor];
-                
-                if (betAmount > 0) {
-                    uint256 share = (betAmount * totalAmountToSplit) /
-                        totalAmountBetCorrectly;
-                    
-                    // Use a try/catch to handle potential failures during withdrawal
-                    try vault.withdrawFunds(payable(bettor), betAmount + share, false) {
-                        emit WinningsDistributed(_challengeId, bettor, share);
-                    } catch {
-                        // Log the failure but continue processing other bettors
-                        emit WinningsDistributionFailed(_challengeId, bettor, betAmount + share);
-                    }
-                }
-                unchecked {
-                    i++;
-                }
-            }
-            unchecked {
-                batch++;
-            }
-        }
-
-        challengeToWinningsPaid[_challengeId] = totalAmountToSplit;
-    }
-
-    // ============================ //
-    //      Contract Functions      //
-    // ============================ //
-
-    function getLatestPrice() public view returns (uint256) {
-        (
-            uint80 roundId,
-            int price,
-            uint startedAt,
-            uint timeStamp,
-            uint80 answeredInRound
-        ) = dataFeed.latestRoundData();
-        
-        // Check for stale data
-        if(timeStamp <= 0) {
-            revert PriceFeedRoundNotComplete();
-        }
-        if(answeredInRound < roundId) {
-            revert StalePrice();
-        }
-        
-        // Check if the price feed is stale (older than 24 hours)
-        if(block.timestamp - timeStamp > 24 hours) {
-            revert PriceFeedTooOld();
-        }
-        
-        // Price must be positive
-        if(price < 0) {
-            revert InvalidPrice();
-        }
-        
-        return uint256(price) * 1e6;
-    }
-
-    // ============================ //
-    //          Pausable            //
-    // ============================ //
+                _participant,
+                keccak256(abi.encodePacked(_toUint256Array(challengeToIncludedMetrics[_challengeId]))),
+                keccak256(abi.encodePacked(_submittedMeasurements)),
+                _windowStart,
+                _windowEnd,
+                _nonce
+            )
+        );
+        address signer = ECDSA.recover(_hashTypedDataV4(structHash), _signature);
+        if (!_getChallengeStorage().measurementAttesters[signer]) revert InvalidAttestationSigner(signer);
+        _useCheckedNonce(_participant, _nonce);
 
-    /**
-     * @notice Pauses the contract, disabling all state-changing functions.
-     * @dev Can only be called by an account with the admin role.
-     *
-     * @dev Pausing mechanisms are useful in emergency scenarios to prevent further interactions.
-     *
-     * Requirements:
-     * - The caller must have the admin role.
-     */
-    function pause() external onlyOwner whenNotPaused {
-        _pause();
-    }
+        _recordMeasurements(_challengeId, _participant, _submittedMeasurements, _windowStart, _windowEnd);
 
-    /**
-     * @notice Unpauses the contract, enabling all state-changing functions.
-     * @dev Can only be called by an account with the admin role.
-     *
-     * @dev Unpausing restores normal contract functionality after an emergency pause.
-     *
-     * Requirements:
-     * - The caller must have the admin role.
-     */
-    function unpause() external onlyOwner whenPaused {
-        _unpause();
+        emit MeasurementsAttested(_challengeId, _participant, signer, _nonce);
     }
 
     // ============================ //
@@ -838,9 +325,9 @@ contract Challenge is
      * @param newImplementation The address of the new contract implementation.
      *
      * Requirements:
-     * - The caller must have the admin role.
+     * - The caller must have the upgrader role.
      */
     function _authorizeUpgrade(
         address newImplementation
-    ) internal virtual override onlyOwner {}
+    ) internal virtual override onlyRole(UPGRADER_ROLE) {}
 }
@@ -0,0 +1,234 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "./ChallengeBase.sol";
+import "./interfaces/IChallengeAdministration.sol";
+
+/**
+ * @title Challenge administration extension
+ * @author Branson Solutions LLC
+ * @notice The contract parameters and pausing.
+ * @dev Only reached through the fallback of the contract before it in the chain, so it always runs on the proxy's storage.
+ */
+contract ChallengeAdministration is IChallengeAdministration, ChallengeBase {
+    constructor(address _extension) ChallengeBase(_extension) {}
+
+    // ============================ //
+    //         Setters              //
+    // ============================ //
+
+    /// @notice Sets the vault contract
+    function setVault(address _vault) external onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        if (_vault == address(0)) revert VaultNotSet();
+        vault = IVault(_vault);
+    }
+
+    /// @notice Sets the maximum number of bettors per challenge
+    function setMaximumNumberOfBettorsPerChallenge(
+        uint32 _maximumNumberOfBettorsPerChallenge
+    ) external onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        if (_maximumNumberOfBettorsPerChallenge < (MINIMUM_NUMBER_OF_BETTORS_AGAINST + 1)) revert MaximumNumberOfBettorsPerChallengeTooSmall();
+        maximumNumberOfBettorsPerChallenge = _maximumNumberOfBettorsPerChallenge;
+        emit MaximumNumberOfBettorsPerChallengeSet(maximumNumberOfBettorsPerChallenge, _maximumNumberOfBettorsPerChallenge);
+    }
+
+     /// @notice Sets the maximum number of bettors per challenge
+    function setMaximumChallengeLength(
+        uint32 _maximumChallengeLengthInSeconds
+    ) external onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        if (_maximumChallengeLengthInSeconds == 0) revert ChallengeLengthTooShort();
+        maximumChallengeLengthInSeconds = _maximumChallengeLengthInSeconds;
+        emit MaximumChallengeLengthSet(maximumChallengeLengthInSeconds, _maximumChallengeLengthInSeconds);
+    }
+
+    /// @notice Sets the maximum number of challenge metrics
+    function setMaximumNumberOfChallengeMetrics(
+        uint8 _maximumNumberOfChallengeMetrics
+    ) external onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        if (_maximumNumberOfChallengeMetrics == 0) revert MaximumNumberOfChallengeMetricsTooSmall();
+        maximumNumberOfChallengeMetrics = _maximumNumberOfChallengeMetrics;
+        emit MaximumNumberOfChallengeMetricsSet(maximumNumberOfChallengeMetrics, _maximumNumberOfChallengeMetrics);
+    }
+
+    /// @notice Registers or unregisters a key allowed to sign measurement attestations
+    function setMeasurementAttester(
+        address _attester,
+        bool _allowed
+    ) external onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        if (_attester == address(0)) revert InvalidAttester();
+        _getChallengeStorage().measurementAttesters[_attester] = _allowed;
+        emit MeasurementAttesterSet(_attester, _allowed);
+    }
+
+    /**
+     * @inheritdoc IChallengeAdministration
+     */
+    function setMinimumBetValue(
+        uint256 _newMinimumValue
+    ) external virtual override onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        if (_newMinimumValue == 0) revert MinimumBetAmountTooSmall();
+        minimumUsdValueOfBet = _newMinimumValue;
+        emit MinimumBetValueSet(minimumUsdValueOfBet, _newMinimumValue);
+    }
+
+    /// @notice Adds or removes an address from the list of beneficiaries commitment challenges can name
+    function setCommitmentBeneficiary(
+        address _beneficiary,
+        bool _allowed
+    ) external onlyRole(WHITELIST_MANAGER_ROLE) whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (_beneficiary == address(0)) revert InvalidBeneficiary();
+        $.commitmentBeneficiaries[_beneficiary] = _allowed;
+        emit CommitmentBeneficiarySet(_beneficiary, _allowed);
+    }
+
+    /// @notice Publishes a Merkle root of addresses and the whitelist roles they can register themselves with, as a new allowlist version
+    function publishAllowlistRoot(bytes32 _root) external onlyRole(WHITELIST_MANAGER_ROLE) whenNotPaused returns (uint256) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (_root == bytes32(0)) revert InvalidAllowlistRoot();
+        uint256 version = ++$.latestAllowlistVersion;
+        $.allowlistRoots[version] = _root;
+        emit AllowlistRootPublished(version, _root);
+        return version;
+    }
+
+    /// @notice Revokes an allowlist version, so nobody else can register with it and the addresses that did lose their access
+    function revokeAllowlistRoot(uint256 _version) external onlyRole(WHITELIST_MANAGER_ROLE) whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if ($.allowlistRoots[_version] == bytes32(0)) revert AllowlistVersionNotFound(_version);
+        if ($.allowlistVersionRevoked[_version]) revert AllowlistVersionRevoked(_version);
+        $.allowlistVersionRevoked[_version] = true;
+        emit AllowlistRootRevoked(_version);
+    }
+
+    /// @notice Appoints or removes an arbiter who resolves disputed outcomes
+    function setDisputeArbiter(
+        address _arbiter,
+        bool _allowed
+    ) external onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        if (_arbiter == address(0)) revert InvalidArbiter();
+        _getChallengeStorage().disputeArbiters[_arbiter] = _allowed;
+        emit DisputeArbiterSet(_arbiter, _allowed);
+    }
+
+    /// @notice Sets how long bettors have to dispute a proposed outcome, applying to outcomes proposed afterwards, 0 settles challenges straight away
+    function setDisputeWindow(uint32 _disputeWindowInSeconds) external onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        uint32 oldValue = $.disputeWindowInSeconds;
+        $.disputeWindowInSeconds = _disputeWindowInSeconds;
+        emit DisputeWindowSet(oldValue, _disputeWindowInSeconds);
+    }
+
+    /// @notice Sets the bond a dispute has to post, in basis points of the challenge's total pot
+    function setDisputeBond(uint16 _disputeBondBps) external onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (_disputeBondBps > BPS_DENOMINATOR) revert DisputeBondTooHigh(_disputeBondBps, BPS_DENOMINATOR);
+        uint16 oldValue = $.disputeBondBps;
+        $.disputeBondBps = _disputeBondBps;
+        emit DisputeBondSet(oldValue, _disputeBondBps);
+    }
+
+    /// @notice Sets how long a challenger has to start a challenge after creating it, applying to challenges created afterwards
+    function setChallengeStartWindow(
+        uint32 _challengeStartWindowInSeconds
+    ) external onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (_challengeStartWindowInSeconds == 0) revert ChallengeStartWindowTooShort();
+        uint32 oldValue = _challengeStartWindow();
+        $.challengeStartWindowInSeconds = _challengeStartWindowInSeconds;
+        emit ChallengeStartWindowSet(oldValue, _challengeStartWindowInSeconds);
+    }
+
+    /// @notice Sets how many bettors each distributeWinnings call pays out, so a challenge with many bettors is paid over several calls
+    function setDistributionBatchSize(uint16 _batchSize) external onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (_batchSize == 0) revert DistributionBatchSizeTooSmall();
+        uint16 oldValue = _distributionBatchSize();
+        $.distributionBatchSize = _batchSize;
+        emit DistributionBatchSizeSet(oldValue, _batchSize);
+    }
+
+    /// @notice Sets the protocol fee taken from the losing side's pot when a challenge is settled
+    function setProtocolFee(uint16 _protocolFeeBps) external onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (_protocolFeeBps > MAXIMUM_PROTOCOL_FEE_BPS) revert ProtocolFeeTooHigh(_protocolFeeBps, MAXIMUM_PROTOCOL_FEE_BPS);
+        uint16 oldValue = $.protocolFeeBps;
+        $.protocolFeeBps = _protocolFeeBps;
+        emit ProtocolFeeSet(oldValue, _protocolFeeBps);
+    }
+
+    /**
+     * @inheritdoc IChallengeAdministration
+     */
+    function setMetric(
+        uint8 _metric,
+        string calldata _name,
+        string calldata _unit,
+        uint8 _decimals,
+        uint8 _defaultDirection,
+        uint256 _minimumValue,
+        uint256 _maximumValue,
+        bool _enabled,
+        bool _cumulative
+    ) external override onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        _setMetric(_metric, Metric(_name, _unit, _decimals, _defaultDirection, _enabled, _cumulative, _minimumValue, _maximumValue));
+    }
+
+    /**
+     * @inheritdoc IChallengeAdministration
+     */
+    function setMetricEnabled(uint8 _metric, bool _enabled) external override onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        Metric memory metric = $.metrics[_metric];
+        if (bytes(metric.name).length == 0) revert InvalidMetric(_metric);
+        metric.enabled = _enabled;
+        _setMetric(_metric, metric);
+    }
+
+    /**
+     * @inheritdoc IChallengeAdministration
+     */
+    function setBetToken(
+        address _token,
+        bool _allowed,
+        address _priceFeed
+    ) external override onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (_token == address(0)) revert InvalidBetToken(_token);
+        uint8 decimals = IERC20Metadata(_token).decimals();
+        if (decimals > 18) revert InvalidBetToken(_token);
+
+        $.betTokens[_token] = BetToken(_allowed, decimals, AggregatorV3Interface(_priceFeed));
+        emit BetTokenSet(_token, _allowed, _priceFeed);
+    }
+
+    // ============================ //
+    //          Pausable            //
+    // ============================ //
+
+    /**
+     * @notice Pauses the contract, disabling all state-changing functions.
+     * @dev Can only be called by an account with the pauser role.
+     *
+     * @dev Pausing mechanisms are useful in emergency scenarios to prevent further interactions.
+     *
+     * Requirements:
+     * - The caller must have the pauser role.
+     */
+    function pause() external onlyRole(PAUSER_ROLE) whenNotPaused {
+        _pause();
+    }
+
+    /**
+     * @notice Unpauses the contract, enabling all state-changing functions.
+     * @dev Can only be called by an account with the pauser role.
+     *
+     * @dev Unpausing restores normal contract functionality after an emergency pause.
+     *
+     * Requirements:
+     * - The caller must have the pauser role.
+     */
+    function unpause() external onlyRole(PAUSER_ROLE) whenPaused {
+        _unpause();
+    }
+}
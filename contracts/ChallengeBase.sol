@@ -0,0 +1,1296 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+import {AggregatorV3Interface} from "@chainlink/contracts/src/v0.8/shared/interfaces/AggregatorV3Interface.sol";
+
+import "./interfaces/IChallengeBase.sol";
+import "./interfaces/IVault.sol";
+
+/**
+ * @title Challenge base contract
+ * @author Branson Solutions LLC
+ * @notice The storage, modifiers and internal logic shared by Challenge and its extensions.
+ * @dev Challenge is too large to deploy as one contract, so the proxy points at Challenge and every call to a function
+ * it does not have falls through to the next contract in a chain of extensions: ChallengeBetting, ChallengeSettlement,
+ * ChallengeAdministration and ChallengeViews. Each one runs on the proxy's storage, so all of them inherit this contract.
+ * The state variables declared here are the ones deployed proxies already hold, in their original order. State added
+ * since lives in the ERC-7201 namespaced ChallengeStorage struct, so it never moves the variables of derived contracts.
+ */
+abstract contract ChallengeBase is
+    IChallengeBase,
+    ReentrancyGuardUpgradeable,
+    PausableUpgradeable,
+    OwnableUpgradeable,
+    AccessControlUpgradeable
+{
+    using SafeERC20 for IERC20;
+
+    // ============================ //
+    //             Enums            //
+    // ============================ //
+
+    /**
+     * @dev Enumerated values representing how a metric's measurement is compared against its goal.
+     * AT_LEAST and AT_MOST compare against the target measurement, WITHIN_RANGE treats the target as an inclusive
+     * lower bound and requires a separate inclusive upper bound.
+     */
+    uint8 constant DIRECTION_AT_LEAST = 0;
+    uint8 constant DIRECTION_AT_MOST = 1;
+    uint8 constant DIRECTION_WITHIN_RANGE = 2;
+
+    /**
+     * @dev Enumerated values representing the status of a challenge, subject to change as capability expands.
+     */
+    uint8 constant STATUS_INACTIVE = 0;
+    uint8 constant STATUS_ACTIVE = 1;
+    uint8 constant STATUS_EXPIRED = 2;
+    uint8 constant STATUS_CHALLENGER_WON = 3;
+    uint8 constant STATUS_CHALLENGER_LOST = 4;
+    uint8 constant STATUS_CANCELLED = 5;
+
+    /**
+     * @dev Enumerated values representing the whitelist role an allowlist entry registers an address with.
+     */
+    uint8 constant ALLOWLIST_ROLE_BETTOR = 0;
+    uint8 constant ALLOWLIST_ROLE_CHALLENGER = 1;
+
+    /// @notice the time a challenger has to start a challenge after creating it, used until the owner sets a different window
+    uint32 constant DEFAULT_CHALLENGE_START_WINDOW_IN_SECONDS = 7 days;
+
+    /// @notice the highest protocol fee the owner can set, in basis points of the losing side's pot
+    uint16 public constant MAXIMUM_PROTOCOL_FEE_BPS = 1_000;
+
+    uint256 constant BPS_DENOMINATOR = 10_000;
+
+    /// @notice the number of bettors a distributeWinnings call pays out, used until the owner sets a different batch size
+    uint16 constant DEFAULT_DISTRIBUTION_BATCH_SIZE = 100;
+
+    /// @notice the number of open challenges an upkeep scans when it was registered without check data
+    uint256 constant DEFAULT_UPKEEP_SCAN_LIMIT = 50;
+
+    /// @notice the price assumed for a bet token without a USD price feed, $1.00000000 scaled the same way as getLatestPrice
+    uint256 constant STABLECOIN_PRICE = 1e8 * 1e6;
+
+    /**
+     * @dev Settings for an ERC-20 token that challenges can be denominated in.
+     * @param allowed Whether new challenges can be created in the token
+     * @param decimals The token's decimals, read when the token is allowlisted
+     * @param priceFeed The token's USD price feed, or the zero address to treat the token as a 1:1 USD stablecoin
+     */
+    struct BetToken {
+        bool allowed;
+        uint8 decimals;
+        AggregatorV3Interface priceFeed;
+    }
+
+    /**
+     * @dev How a settled challenge pays back its bettors' stakes. Each bettor's payout is worked out when they are paid,
+     * so settling does not have to go through every bettor.
+     * @param paysBetsFor Whether stakes for the challenger are paid back
+     * @param paysBetsAgainst Whether stakes against the challenger are paid back, both sides being paid back when voided
+     * @param amountToSplit The losing side's stakes after the protocol fee, split across the stakes paid back in proportion to them
+     * @param stakeToPay The total of the stakes amountToSplit is split across
+     * @param stakePaid The stakes credited a share of amountToSplit so far
+     * @param amountSplit The shares of amountToSplit credited so far, so the last one can send the rounding dust to the protocol
+     */
+    struct StakePayout {
+        bool paysBetsFor;
+        bool paysBetsAgainst;
+        uint256 amountToSplit;
+        uint256 stakeToPay;
+        uint256 stakePaid;
+        uint256 amountSplit;
+    }
+
+    // ============================ //
+    //            Roles             //
+    // ============================ //
+
+    /// @notice the role that adds and removes challengers, bettors and commitment beneficiaries, and publishes allowlists
+    bytes32 public constant WHITELIST_MANAGER_ROLE = keccak256("WHITELIST_MANAGER_ROLE");
+
+    /// @notice the role that sets the contract parameters, the vault, bet tokens, metrics, attesters and dispute arbiters
+    bytes32 public constant PARAMETER_ADMIN_ROLE = keccak256("PARAMETER_ADMIN_ROLE");
+
+    /// @notice the role that pauses and unpauses the contract
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
+    /// @notice the role that pushes winnings out to bettors with distributeWinnings
+    bytes32 public constant SETTLER_ROLE = keccak256("SETTLER_ROLE");
+
+    /// @notice the role that upgrades the implementation behind the proxy
+    bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
+
+    // ============================ //
+    //      State Variables         //
+    // ============================ //
+
+    /// @notice the data feed allowing us to determine the current price of ETH to set a minimum amount of ETH required to fulfill the minimum USD value of the bet
+    AggregatorV3Interface internal dataFeed;
+
+    /// @notice the vault contract
+    IVault internal vault;
+
+    /// @notice the minimum number of total bettors on a challenge
+    uint256 constant MINIMUM_NUMBER_OF_BETTORS_AGAINST = 1;
+
+    /// @notice ETH/USD exchange rate on Base Mainnet
+    // address internal dataFeedAddress = 0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70;
+
+    /// @notice the minimum value in USD of a bet on a challenge, either from the challenger or someone betting against them
+    uint256 internal minimumUsdValueOfBet;
+
+    /// @notice the maximum number of bettors per challenge, default set to 100
+    uint32 internal maximumNumberOfBettorsPerChallenge;
+
+    /// @notice the maximum length of a challenge in seconds, default set to 30 days
+    uint32 internal maximumChallengeLengthInSeconds;
+
+    /// @notice the maximum number of metrics per challenge, default set to 3
+    uint8 internal maximumNumberOfChallengeMetrics;
+
+    /// @notice Whitelisted challengers who can participate in challenges
+    mapping(address => bool) public challengerWhitelist;
+
+    /// @notice Whitelisted bettors who can bet on challenges
+    mapping(address => bool) public bettorWhitelist;
+
+    // ==================================== //
+    // Challenger metadata data structures  //
+    // ==================================== //
+
+    /// @notice Mapping to get all of a challenger's challenges
+    mapping(address => uint256[]) internal challengerToChallenges;
+
+    /// @notice Mapping to get the challenge ID of a challenger's currently active challenge
+    /// @dev When a challenge finishes, we will change the value in the mapping back to 0
+    mapping(address => uint256) public challengerToActiveChallenge;
+
+    // ==================================== //
+    //  Challenge metadata data structures  //
+    // ==================================== //
+
+    uint256 public latestChallengeId;
+
+    /// @notice Mapping to get a challenge's owner by challenge ID
+    mapping(uint256 => address) public challengeToChallenger;
+
+    /// @notice Mapping to get whether or not a challenge's winnings have been paid
+    mapping(uint256 => uint256) public challengeToWinningsPaid;
+
+    /// @notice Mapping to get the target measurements for a challenge by challenge ID
+    mapping(uint256 => mapping(uint8 => uint256)) challengeToTargetMetricMeasurements;
+
+    /// @notice Mapping to get the final measurements for a challenge by challenge ID
+    mapping(uint256 => mapping(uint8 => uint256)) challengeToFinalMetricMeasurements;
+
+    /// @notice Mapping to get all challenge metrics included in a particular challenge
+    mapping(uint256 => uint8[]) challengeToIncludedMetrics;
+
+    /// @notice Mapping to get the challenge start time from by challenge ID
+    mapping(uint256 => uint256) public challengeToStartTime;
+
+    /// @notice Mapping to get the challenge length from by challenge ID
+    mapping(uint256 => uint256) public challengeToChallengeLength;
+
+    /// @notice Mapping to get a challenge's status by ID
+    mapping(uint256 => uint8) public challengeToChallengeStatus;
+
+    // ==================================== //
+    //  Challenge bet info data structures  //
+    // ==================================== //
+    mapping(uint256 => uint256) public challengeToTotalAmountBetFor;
+    mapping(uint256 => uint256) public challengeToTotalAmountBetAgainst;
+    mapping(uint256 => uint256) public challengeToNumberOfBettorsFor;
+    mapping(uint256 => uint256) public challengeToNumberOfBettorsAgainst;
+
+    mapping(uint256 => mapping(address => uint256)) public challengeToBetsFor;
+    mapping(uint256 => mapping(address => uint256))
+        public challengeToBetsAgainst;
+    mapping(uint256 => address[]) public challengeToBettors;
+
+    // ============================ //
+    //      Namespaced Storage      //
+    // ============================ //
+
+    /// @custom:storage-location erc7201:challenge.storage.Challenge
+    struct ChallengeStorage {
+        // Keys trusted to sign measurement attestations, e.g. the Fitbit ingestion backend
+        mapping(address => bool) measurementAttesters;
+
+        // Mapping to get whether a challenge only accepts measurements signed by a trusted attester
+        mapping(uint256 => bool) challengeToAttestationRequired;
+
+        // Mapping to get whether a challenge's outcome has been settled
+        mapping(uint256 => bool) challengeToSettled;
+
+        // Mapping to get the payout a winner can still claim from a settled challenge
+        mapping(uint256 => mapping(address => uint256)) challengeToClaimableWinnings;
+
+        // the time a challenger has to start a challenge after creating it, 0 means the default window applies
+        uint32 challengeStartWindowInSeconds;
+
+        // Mapping to get the time after which a challenge can no longer be started and its bettors can be refunded
+        mapping(uint256 => uint256) challengeToStartDeadline;
+
+        // Mapping to get whether any measurements were recorded for a challenge
+        mapping(uint256 => bool) challengeToMeasurementsSubmitted;
+
+        // the share of the losing side's pot kept by the protocol, in basis points
+        uint16 protocolFeeBps;
+
+        // Mapping to get the protocol fee taken when a challenge was settled, including rounding dust
+        mapping(uint256 => uint256) challengeToProtocolFee;
+
+        // ERC-20 tokens the owner has allowlisted for betting, with the settings used to value bets
+        mapping(address => BetToken) betTokens;
+
+        // Mapping to get the ERC-20 token a challenge is denominated in, the zero address meaning ETH
+        mapping(uint256 => address) challengeToBetToken;
+
+        // Mapping to get how each metric of a challenge is compared against its target, AT_LEAST by default
+        mapping(uint256 => mapping(uint8 => uint8)) challengeToMetricDirections;
+
+        // Mapping to get the inclusive upper bound of each WITHIN_RANGE metric of a challenge
+        mapping(uint256 => mapping(uint8 => uint256)) challengeToMetricUpperBounds;
+
+        // Mapping to get the settings of a metric by its ID
+        mapping(uint8 => Metric) metrics;
+
+        // the IDs of every registered metric, in registration order
+        uint8[] registeredMetricIds;
+
+        // Mapping to get every set of measurements submitted for a participant in a challenge, oldest first
+        mapping(uint256 => mapping(address => MeasurementRecord[])) challengeToMeasurementHistory;
+
+        // Mapping to get the length in seconds of each period of a streak challenge, 0 for challenges that are not streaks
+        mapping(uint256 => uint256) challengeToStreakPeriodLength;
+
+        // Mapping to get how many periods of a streak challenge can be missed without losing it
+        mapping(uint256 => uint256) challengeToStreakAllowedMisses;
+
+        // Mapping to get whether the latest submission for a period of a streak challenge met every target
+        mapping(uint256 => mapping(uint256 => bool)) challengeToStreakPeriodCompleted;
+
+        // Mapping to get how many periods of a streak challenge have been completed so far
+        mapping(uint256 => uint256) challengeToStreakPeriodsCompleted;
+
+        // Mapping to check whether an address is on the owner-curated list of beneficiaries for commitment challenges
+        mapping(address => bool) commitmentBeneficiaries;
+
+        // Mapping to get the beneficiary a commitment challenge's stake goes to if it fails, the zero address for other challenges
+        mapping(uint256 => address) challengeToCommitmentBeneficiary;
+
+        // the time bettors have to dispute a proposed outcome before it is settled, 0 settles challenges straight away
+        uint32 disputeWindowInSeconds;
+
+        // the bond a dispute has to post, in basis points of the challenge's total pot
+        uint16 disputeBondBps;
+
+        // Addresses the owner has appointed to resolve disputed outcomes
+        mapping(address => bool) disputeArbiters;
+
+        // Mapping to get the outcome proposed for a challenge with a dispute window, and the dispute against it if any
+        mapping(uint256 => OutcomeProposal) challengeToOutcomeProposal;
+
+        // the IDs of every started challenge that has not been settled or voided yet, in no particular order
+        uint256[] openChallenges;
+
+        // Mapping to get the position of a challenge in openChallenges plus one, 0 for challenges that are not open
+        mapping(uint256 => uint256) openChallengeIndex;
+
+        // the number of bettors a distributeWinnings call pays out, 0 means the default batch size applies
+        uint16 distributionBatchSize;
+
+        // Mapping to get how many of a challenge's bettors distributeWinnings has paid out so far
+        mapping(uint256 => uint256) challengeToDistributionCursor;
+
+        // Mapping to get whether distributeWinnings has paid out every one of a challenge's bettors
+        mapping(uint256 => bool) challengeToWinningsDistributed;
+
+        // Mapping to get how a settled challenge pays back its bettors' stakes
+        mapping(uint256 => StakePayout) challengeToStakePayout;
+
+        // Mapping to get whether a bettor's stake payout has been added to their claimable winnings, by challenge then bettor
+        mapping(uint256 => mapping(address => bool)) challengeToStakePayoutCredited;
+
+        // Mapping to get a published allowlist Merkle root by its version, versions counting up from 1
+        mapping(uint256 => bytes32) allowlistRoots;
+
+        // the version of the most recently published allowlist root, 0 before any is published
+        uint256 latestAllowlistVersion;
+
+        // Mapping to get whether an allowlist version has been revoked
+        mapping(uint256 => bool) allowlistVersionRevoked;
+
+        // Mapping to get the allowlist version an address registered through, 0 for addresses whitelisted directly
+        mapping(address => uint256) accountToAllowlistVersion;
+
+        // Mapping to get whether only a challenge's challenger and the addresses they invited can bet on or join it
+        mapping(uint256 => bool) challengeToInviteOnly;
+
+        // Mapping to get whether an address is invited to an invite-only challenge, by challenge then address
+        mapping(uint256 => mapping(address => bool)) challengeToInvited;
+
+        // Mapping to get the address derived from an invite-only challenge's invite code, the zero address if it has none
+        mapping(uint256 => address) challengeToInviteSigner;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("challenge.storage.Challenge")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant CHALLENGE_STORAGE_LOCATION = 0x218724c86b0c3d37b8787b82c47ab17bcab64a9f8581ab863ebc8e68430d0200;
+
+    function _getChallengeStorage() internal pure returns (ChallengeStorage storage $) {
+        assembly {
+            $.slot := CHALLENGE_STORAGE_LOCATION
+        }
+    }
+
+    // ============================ //
+    //          Extension           //
+    // ============================ //
+
+    /// @notice the next contract in the chain, which calls to functions this contract does not have are delegated to
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    address private immutable extension;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address _extension) {
+        extension = _extension;
+    }
+
+    /**
+     * @dev Delegates a call to a function this contract does not have to the next extension, which runs it on the same
+     * storage and returns or reverts with its result. The last extension in the chain has no next one and reverts.
+     */
+    fallback() external payable {
+        address target = extension;
+        if (target == address(0)) revert FunctionNotFound(msg.sig);
+        // copies through free memory rather than from offset 0, so the compiler may still move variables to memory
+        assembly ("memory-safe") {
+            let ptr := mload(0x40)
+            calldatacopy(ptr, 0, calldatasize())
+            let result := delegatecall(gas(), target, ptr, calldatasize(), 0, 0)
+            returndatacopy(ptr, 0, returndatasize())
+            switch result
+            case 0 {
+                revert(ptr, returndatasize())
+            }
+            default {
+                return(ptr, returndatasize())
+            }
+        }
+    }
+
+    // ============================ //
+    //          Modifiers           //
+    // ============================ //
+
+    modifier onlyChallengers(address _address) {
+        if (!challengerWhitelist[_address] || _isRegistrationRevoked(_address)) revert ChallengerNotInWhitelist();
+        _;
+    }
+
+    modifier onlyBettors(address _address) {
+        if (!bettorWhitelist[_address] || _isRegistrationRevoked(_address)) revert BettorNotInWhitelist();
+        _;
+    }
+
+    modifier betIsGreaterThanOrEqualToMinimumBetValue(uint256 _challengeId, uint256 _betAmount) {
+        _checkMinimumBetValue(_challengeId, _betAmount);
+        _;
+    }
+
+    modifier checkBettingEligibility(uint256 _challengeId) {
+        if (!bettorWhitelist[msg.sender] || _isRegistrationRevoked(msg.sender)) {
+            revert BettorNotInWhitelist();
+        }
+        if (address(vault) == address(0)) {
+            revert VaultNotSet();
+        }
+        if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE) {
+            revert ChallengeCannotBeModified();
+        }
+        _checkStartDeadline(_challengeId);
+        _;
+    }
+
+    // ============================ //
+    //      Contract Functions      //
+    // ============================ //
+
+    /// @dev Checks whether an address was whitelisted through an allowlist version that has since been revoked
+    function _isRegistrationRevoked(address _account) internal view returns (bool) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        uint256 version = $.accountToAllowlistVersion[_account];
+        return version != 0 && $.allowlistVersionRevoked[version];
+    }
+
+    /**
+     * @dev Takes an address that was whitelisted through a revoked allowlist version off both whitelists, so it can be
+     * whitelisted again from scratch
+     */
+    function _clearRevokedRegistration(address _account) internal {
+        if (!_isRegistrationRevoked(_account)) return;
+        challengerWhitelist[_account] = false;
+        bettorWhitelist[_account] = false;
+        _getChallengeStorage().accountToAllowlistVersion[_account] = 0;
+    }
+
+    /// @dev Checks whether an address may bet on or join a challenge, which is always the case unless it is invite-only
+    function _isInvited(uint256 _challengeId, address _account) internal view returns (bool) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        return
+            !$.challengeToInviteOnly[_challengeId] ||
+            challengeToChallenger[_challengeId] == _account ||
+            $.challengeToInvited[_challengeId][_account];
+    }
+
+    /// @dev Gets how long a challenger has to start a challenge after creating it
+    function _challengeStartWindow() internal view returns (uint32) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if ($.challengeStartWindowInSeconds == 0) return DEFAULT_CHALLENGE_START_WINDOW_IN_SECONDS;
+        return $.challengeStartWindowInSeconds;
+    }
+
+    /// @dev Gets how many bettors a distributeWinnings call pays out
+    function _distributionBatchSize() internal view returns (uint16) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if ($.distributionBatchSize == 0) return DEFAULT_DISTRIBUTION_BATCH_SIZE;
+        return $.distributionBatchSize;
+    }
+
+    /**
+     * @dev Records a bet from the caller and moves the stake into the vault in the challenge's denomination.
+     * @param _challengeId The challenge being bet on
+     * @param _bettingFor Whether the bet is placed for the challenger
+     * @param _amount The amount of ETH sent, or of the challenge's ERC-20 token to transfer from the caller
+     */
+    function _placeBet(
+        uint256 _challengeId,
+        bool _bettingFor,
+        uint256 _amount
+    ) internal checkBettingEligibility(_challengeId) betIsGreaterThanOrEqualToMinimumBetValue(_challengeId, _amount) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (challengeToChallengeStatus[_challengeId] == STATUS_ACTIVE)
+            revert ChallengeIsActive(_challengeId);
+
+        unchecked {
+            uint256 totalBettorsOnChallenge = challengeToNumberOfBettorsFor[
+                _challengeId
+            ] + challengeToNumberOfBettorsAgainst[_challengeId];
+            if (totalBettorsOnChallenge >= maximumNumberOfBettorsPerChallenge)
+                revert TooManyBettors();
+        }
+
+        address caller = msg.sender;
+        if (challengeToChallenger[_challengeId] == caller && !_bettingFor)
+            revert ChallengerCannotBetAgainstHimself();
+        if (
+            $.challengeToCommitmentBeneficiary[_challengeId] != address(0) &&
+            challengeToChallenger[_challengeId] != caller
+        ) revert CommitmentChallengeClosedToBettors(_challengeId);
+        if (!_isInvited(_challengeId, caller)) revert NotInvitedToChallenge(_challengeId, caller);
+        if (
+            challengeToBetsFor[_challengeId][caller] != 0 ||
+            challengeToBetsAgainst[_challengeId][caller] != 0
+        ) revert BettorCannotUpdateBet();
+
+        _depositStake(_challengeId, caller, _amount);
+
+        if (_bettingFor) {
+            unchecked {
+                challengeToNumberOfBettorsFor[_challengeId] += 1;
+                challengeToTotalAmountBetFor[_challengeId] += _amount;
+            }
+            challengeToBetsFor[_challengeId][caller] = _amount;
+        } else {
+            unchecked {
+                challengeToNumberOfBettorsAgainst[_challengeId] += 1;
+                challengeToTotalAmountBetAgainst[_challengeId] += _amount;
+            }
+            challengeToBetsAgainst[_challengeId][caller] = _amount;
+        }
+
+        challengeToBettors[_challengeId].push(caller);
+
+        emit BetPlaced(_challengeId, caller, _bettingFor, _amount);
+    }
+
+    /**
+     * @dev Denominates a newly created challenge in an allowlisted ERC-20 token.
+     * @param _challengeId The challenge to denominate
+     * @param _betToken The ERC-20 token bets must be placed in
+     */
+    function _setChallengeBetToken(uint256 _challengeId, address _betToken) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (!$.betTokens[_betToken].allowed) revert BetTokenNotAllowed(_betToken);
+        $.challengeToBetToken[_challengeId] = _betToken;
+        emit ChallengeDenominationSet(_challengeId, _betToken);
+    }
+
+    /**
+     * @dev Moves a stake into the vault. ETH is forwarded from the call's value, while ERC-20 tokens are
+     * pulled from the bettor, who must have approved this contract.
+     */
+    function _depositStake(uint256 _challengeId, address _from, uint256 _amount) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        address betToken = $.challengeToBetToken[_challengeId];
+        if (betToken == address(0)) {
+            vault.depositETH{value: _amount}();
+            return;
+        }
+
+        IERC20(betToken).safeTransferFrom(_from, address(this), _amount);
+        IERC20(betToken).forceApprove(address(vault), _amount);
+        vault.depositERC20(betToken, _amount);
+    }
+
+    /**
+     * @dev Pays an amount out of the vault in the asset the challenge is denominated in.
+     */
+    function _withdrawStake(uint256 _challengeId, address _to, uint256 _amount) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        address betToken = $.challengeToBetToken[_challengeId];
+        if (betToken == address(0)) {
+            vault.withdrawFunds(payable(_to), _amount, false);
+        } else {
+            vault.withdrawERC20(betToken, _to, _amount);
+        }
+    }
+
+    /**
+     * @dev Same as _withdrawStake, but returns false instead of reverting if the vault cannot pay the recipient.
+     */
+    function _tryWithdrawStake(uint256 _challengeId, address _to, uint256 _amount) internal returns (bool) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        address betToken = $.challengeToBetToken[_challengeId];
+        if (betToken == address(0)) {
+            try vault.withdrawFunds(payable(_to), _amount, false) {
+                return true;
+            } catch {
+                return false;
+            }
+        }
+        try vault.withdrawERC20(betToken, _to, _amount) {
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * @dev Removes a bettor from a challenge's list of bettors by swapping them with the last entry,
+     * so the list never has gaps when it is iterated during winnings distribution.
+     * @param _challengeId The challenge from which the bettor should be removed
+     * @param _bettor The address of the bettor to remove
+     */
+    function _removeBettor(uint256 _challengeId, address _bettor) internal {
+        address[] storage bettors = challengeToBettors[_challengeId];
+        uint256 length = bettors.length;
+        for (uint256 i = 0; i < length; ) {
+            if (bettors[i] == _bettor) {
+                bettors[i] = bettors[length - 1];
+                bettors.pop();
+                return;
+            }
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    /**
+     * @dev Determines the outcome of a challenge whose time has run out and records every winner's payout as claimable.
+     * @param _challengeId The challenge to settle
+     */
+    function _settleChallenge(uint256 _challengeId) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (address(vault) == address(0)) revert VaultNotSet();
+        if ($.challengeToSettled[_challengeId]) revert WinningsAlreadyPaid(_challengeId);
+        if (challengeToChallengeStatus[_challengeId] == STATUS_INACTIVE)
+            revert ChallengeNotYetStarted(_challengeId);
+
+        // a streak that has already missed more periods than it allows cannot be won, so it can be settled straight away
+        uint256 timestamp = block.timestamp;
+        if (
+            timestamp <
+            (challengeToStartTime[_challengeId] +
+                challengeToChallengeLength[_challengeId]) &&
+            !_isStreakFailureLockedIn(_challengeId)
+        ) {
+            revert ChallengeIsActive(_challengeId);
+        }
+
+        // Missing data must not be read as a failed attempt, so everyone gets their stake back instead
+        if (!$.challengeToMeasurementsSubmitted[_challengeId]) {
+            _voidChallenge(_challengeId);
+            return;
+        }
+
+        OutcomeProposal storage proposal = $.challengeToOutcomeProposal[_challengeId];
+        if (proposal.disputeDeadline == 0) {
+            if ($.disputeWindowInSeconds != 0 && _isOutcomeDisputable(_challengeId)) {
+                _proposeOutcome(_challengeId);
+                return;
+            }
+        } else {
+            if (proposal.disputer != address(0)) revert OutcomeUnderDispute(_challengeId, proposal.disputer);
+            if (timestamp <= proposal.disputeDeadline) revert DisputeWindowOpen(_challengeId, proposal.disputeDeadline);
+        }
+
+        _finalizeSettlement(_challengeId);
+    }
+
+    /**
+     * @dev Records the outcome of a challenge that has to wait out the dispute window before it is settled. The challenge
+     * expires, so no more measurements can change it while it can be disputed.
+     * @param _challengeId The challenge whose outcome is proposed
+     */
+    function _proposeOutcome(uint256 _challengeId) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        OutcomeProposal storage proposal = $.challengeToOutcomeProposal[_challengeId];
+        challengeToChallengeStatus[_challengeId] = STATUS_EXPIRED;
+        proposal.challengerWon = _isChallengeWon(_challengeId);
+        proposal.disputeDeadline = uint64(block.timestamp + $.disputeWindowInSeconds);
+
+        emit OutcomeProposed(_challengeId, proposal.challengerWon, proposal.disputeDeadline);
+    }
+
+    /**
+     * @dev Sets the final status of a challenge and records every winner's payout as claimable
+     * @param _challengeId The challenge to settle
+     */
+    function _finalizeSettlement(uint256 _challengeId) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        challengeToChallengeStatus[_challengeId] = STATUS_EXPIRED;
+        $.challengeToSettled[_challengeId] = true;
+        _untrackOpenChallenge(_challengeId);
+
+        uint256 totalWinnings = _recordWinnings(_challengeId);
+        challengeToWinningsPaid[_challengeId] = totalWinnings;
+
+        emit ChallengeSettled(_challengeId, challengeToChallengeStatus[_challengeId], totalWinnings);
+    }
+
+    /**
+     * @dev Returns whether settling a challenge would go through, so upkeeps can skip the ones that are not due yet.
+     * A challenge is due once its time has run out, or its streak can no longer be won, and any outcome proposed
+     * for it was left undisputed until its dispute window closed.
+     * @param _challengeId The challenge to check
+     */
+    function _isSettlementDue(uint256 _challengeId) internal view returns (bool) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (address(vault) == address(0) || $.challengeToSettled[_challengeId]) return false;
+        if (challengeToChallengeStatus[_challengeId] == STATUS_INACTIVE) return false;
+        if (
+            block.timestamp < challengeToStartTime[_challengeId] + challengeToChallengeLength[_challengeId] &&
+            !_isStreakFailureLockedIn(_challengeId)
+        ) return false;
+
+        OutcomeProposal storage proposal = $.challengeToOutcomeProposal[_challengeId];
+        return
+            proposal.disputeDeadline == 0 ||
+            (proposal.disputer == address(0) && block.timestamp > proposal.disputeDeadline);
+    }
+
+    /**
+     * @dev Adds a challenge that was just started to the open challenges upkeeps scan for settlement
+     * @param _challengeId The challenge that was started
+     */
+    function _trackOpenChallenge(uint256 _challengeId) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if ($.openChallengeIndex[_challengeId] != 0) return;
+        $.openChallenges.push(_challengeId);
+        $.openChallengeIndex[_challengeId] = $.openChallenges.length;
+    }
+
+    /**
+     * @dev Removes a settled or voided challenge from the open challenges, moving the last one into its place
+     * @param _challengeId The challenge that was settled or voided
+     */
+    function _untrackOpenChallenge(uint256 _challengeId) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        uint256 index = $.openChallengeIndex[_challengeId];
+        if (index == 0) return;
+
+        uint256 lastChallengeId = $.openChallenges[$.openChallenges.length - 1];
+        $.openChallenges[index - 1] = lastChallengeId;
+        $.openChallengeIndex[lastChallengeId] = index;
+        $.openChallenges.pop();
+        delete $.openChallengeIndex[_challengeId];
+    }
+
+    /**
+     * @dev Returns whether a challenge's outcome is proposed and open to disputes before it is settled, when the
+     * dispute window is set. Single player challenges always are, since a losing side can contest the measurements.
+     */
+    function _isOutcomeDisputable(uint256) internal view virtual returns (bool) {
+        return true;
+    }
+
+    /**
+     * @dev Reverts unless a challenge was never started before its start deadline, or ran out without any measurements.
+     * @param _challengeId The challenge to check
+     */
+    function _checkChallengeCanBeVoided(uint256 _challengeId) internal view {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (address(vault) == address(0)) revert VaultNotSet();
+        if ($.challengeToSettled[_challengeId]) revert WinningsAlreadyPaid(_challengeId);
+
+        uint256 timestamp = block.timestamp;
+        if (challengeToChallengeStatus[_challengeId] == STATUS_INACTIVE) {
+            uint256 startDeadline = $.challengeToStartDeadline[_challengeId];
+            // challenges created before start deadlines existed have none and cannot be voided this way
+            if (startDeadline == 0 || timestamp <= startDeadline)
+                revert ChallengeCannotBeVoided(_challengeId);
+        } else if (
+            $.challengeToMeasurementsSubmitted[_challengeId] ||
+            timestamp <
+            (challengeToStartTime[_challengeId] +
+                challengeToChallengeLength[_challengeId])
+        ) {
+            revert ChallengeCannotBeVoided(_challengeId);
+        }
+    }
+
+    /**
+     * @dev Cancels a challenge so every bettor's stake is refunded when they claim it or distributeWinnings reaches them.
+     * @param _challengeId The challenge to void
+     */
+    function _voidChallenge(uint256 _challengeId) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        challengeToChallengeStatus[_challengeId] = STATUS_CANCELLED;
+        $.challengeToSettled[_challengeId] = true;
+        _untrackOpenChallenge(_challengeId);
+
+        StakePayout storage payout = $.challengeToStakePayout[_challengeId];
+        payout.paysBetsFor = true;
+        payout.paysBetsAgainst = true;
+
+        emit ChallengeVoided(_challengeId);
+    }
+
+    /**
+     * @dev Reverts if a challenge's start deadline has passed.
+     * @param _challengeId The challenge to check
+     */
+    function _checkStartDeadline(uint256 _challengeId) internal view {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        uint256 startDeadline = $.challengeToStartDeadline[_challengeId];
+        if (startDeadline != 0 && block.timestamp > startDeadline)
+            revert ChallengeStartDeadlinePassed(_challengeId, startDeadline);
+    }
+
+    /**
+     * @dev Sets the final status of a single player challenge and splits the losing side's stakes between
+     * the winning side's bettors in proportion to their bets, after the protocol fee. Each bettor's share is
+     * worked out when they are paid, and the last share sends the rounding dust to the protocol, so payouts and
+     * fee always add up to the whole pot.
+     * @param _challengeId The challenge being settled
+     * @return totalAmountToSplit The amount of money taken from the losing side
+     */
+    function _recordWinnings(uint256 _challengeId) internal virtual returns (uint256 totalAmountToSplit) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        // a proposed outcome is the one settled on, as an arbiter may have overturned it
+        OutcomeProposal storage proposal = $.challengeToOutcomeProposal[_challengeId];
+        bool challengeWon = proposal.disputeDeadline == 0 ? _isChallengeWon(_challengeId) : proposal.challengerWon;
+
+        uint256 totalAmountBetCorrectly;
+        if (challengeWon) {
+            challengeToChallengeStatus[_challengeId] = STATUS_CHALLENGER_WON;
+            totalAmountToSplit = challengeToTotalAmountBetAgainst[_challengeId];
+            totalAmountBetCorrectly = challengeToTotalAmountBetFor[_challengeId];
+        } else {
+            challengeToChallengeStatus[_challengeId] = STATUS_CHALLENGER_LOST;
+            totalAmountToSplit = challengeToTotalAmountBetFor[_challengeId];
+            totalAmountBetCorrectly = challengeToTotalAmountBetAgainst[_challengeId];
+        }
+
+        if ($.challengeToCommitmentBeneficiary[_challengeId] != address(0)) {
+            _recordCommitmentOutcome(_challengeId, challengeWon);
+            return totalAmountToSplit;
+        }
+
+        // Make sure we avoid division by zero
+        if (totalAmountBetCorrectly == 0) return totalAmountToSplit;
+
+        uint256 fee = _calculateProtocolFee(totalAmountToSplit);
+        StakePayout storage payout = $.challengeToStakePayout[_challengeId];
+        payout.paysBetsFor = challengeWon;
+        payout.paysBetsAgainst = !challengeWon;
+        payout.amountToSplit = totalAmountToSplit - fee;
+        payout.stakeToPay = totalAmountBetCorrectly;
+        _accrueProtocolFee(_challengeId, fee);
+    }
+
+    /**
+     * @dev Returns whether a single player challenge's final measurements meet every goal, or a streak missed no more
+     * periods than it allows
+     */
+    function _isChallengeWon(uint256 _challengeId) internal view returns (bool) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if ($.challengeToStreakPeriodLength[_challengeId] != 0) {
+            return _streakMissedPeriods(_challengeId) <= $.challengeToStreakAllowedMisses[_challengeId];
+        }
+
+        // Use local variables to reduce SLOADs
+        uint8[] memory metrics = challengeToIncludedMetrics[_challengeId];
+        uint256 metricsLength = metrics.length;
+
+        for (uint8 i = 0; i < metricsLength; ) {
+            uint8 metricType = metrics[i];
+            if (
+                !_isMetricGoalMet(
+                    _challengeId,
+                    metricType,
+                    challengeToFinalMetricMeasurements[_challengeId][metricType]
+                )
+            ) return false;
+            unchecked {
+                i++;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * @dev Returns a commitment challenge's stake to the challenger if they met their goal. Otherwise the stake, less the
+     * protocol fee, is sent to the beneficiary straight away, or left for it to claim if the transfer fails.
+     */
+    function _recordCommitmentOutcome(uint256 _challengeId, bool _challengeWon) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        address challenger = challengeToChallenger[_challengeId];
+        uint256 stake = challengeToBetsFor[_challengeId][challenger];
+        if (_challengeWon) {
+            _addClaimableWinnings(_challengeId, challenger, stake);
+            return;
+        }
+
+        address beneficiary = $.challengeToCommitmentBeneficiary[_challengeId];
+        uint256 fee = _calculateProtocolFee(stake);
+        uint256 donation = stake - fee;
+        _accrueProtocolFee(_challengeId, fee);
+        if (!_tryWithdrawStake(_challengeId, beneficiary, donation)) {
+            _addClaimableWinnings(_challengeId, beneficiary, donation);
+        }
+
+        emit CommitmentForfeited(_challengeId, challenger, beneficiary, donation);
+    }
+
+    /**
+     * @dev Validates and stores a metric's settings, adding the metric to the registry the first time it is set
+     */
+    function _setMetric(uint8 _metric, Metric memory _settings) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        // a range needs bounds of its own, so it cannot be a metric's default
+        if (
+            bytes(_settings.name).length == 0 ||
+            _settings.defaultDirection > DIRECTION_AT_MOST ||
+            _settings.minimumValue > _settings.maximumValue
+        ) revert InvalidMetric(_metric);
+
+        if (bytes($.metrics[_metric].name).length == 0) $.registeredMetricIds.push(_metric);
+        $.metrics[_metric] = _settings;
+
+        emit MetricSet(
+            _metric,
+            _settings.name,
+            _settings.unit,
+            _settings.decimals,
+            _settings.defaultDirection,
+            _settings.minimumValue,
+            _settings.maximumValue,
+            _settings.enabled,
+            _settings.cumulative
+        );
+    }
+
+    /**
+     * @dev Reverts unless a metric is enabled and a goal's target, and upper bound for a range, are within its sane values
+     */
+    function _checkMetricGoal(
+        uint8 _metric,
+        uint8 _direction,
+        uint256 _target,
+        uint256 _upperBound
+    ) internal view virtual {
+        Metric storage metric = _checkMetricEnabled(_metric);
+        _checkMetricValue(_metric, metric, _target);
+        if (_direction == DIRECTION_WITHIN_RANGE) _checkMetricValue(_metric, metric, _upperBound);
+    }
+
+    function _checkMetricEnabled(uint8 _metric) internal view returns (Metric storage metric) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        metric = $.metrics[_metric];
+        if (!metric.enabled) revert MetricNotEnabled(_metric);
+    }
+
+    function _checkMetricValue(uint8 _metric, Metric storage _settings, uint256 _value) internal view {
+        if (_value < _settings.minimumValue || _value > _settings.maximumValue)
+            revert MetricValueOutOfBounds(_metric, _value, _settings.minimumValue, _settings.maximumValue);
+    }
+
+    /**
+     * @dev Returns whether a measurement meets a metric's goal in the direction set for the challenge
+     */
+    function _isMetricGoalMet(
+        uint256 _challengeId,
+        uint8 _metric,
+        uint256 _measurement
+    ) internal view returns (bool) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        uint8 direction = $.challengeToMetricDirections[_challengeId][_metric];
+        uint256 target = challengeToTargetMetricMeasurements[_challengeId][_metric];
+
+        if (direction == DIRECTION_AT_MOST) return _measurement <= target;
+        if (direction == DIRECTION_WITHIN_RANGE)
+            return _measurement >= target && _measurement <= $.challengeToMetricUpperBounds[_challengeId][_metric];
+        return _measurement >= target;
+    }
+
+    /**
+     * @dev Returns the protocol fee owed on a losing side's pot, rounded down
+     */
+    function _calculateProtocolFee(uint256 _losingPot) internal view returns (uint256) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        return (_losingPot * $.protocolFeeBps) / BPS_DENOMINATOR;
+    }
+
+    /**
+     * @dev Records the fee taken from a settled challenge and moves it into the vault's treasury.
+     */
+    function _accrueProtocolFee(uint256 _challengeId, uint256 _fee) internal {
+        if (_fee == 0) return;
+        ChallengeStorage storage $ = _getChallengeStorage();
+        $.challengeToProtocolFee[_challengeId] += _fee;
+        address betToken = $.challengeToBetToken[_challengeId];
+        if (betToken == address(0)) {
+            vault.accrueFees(_fee, false);
+        } else {
+            vault.accrueERC20Fees(betToken, _fee);
+        }
+        emit ProtocolFeeAccrued(_challengeId, _fee);
+    }
+
+    /**
+     * @dev Credits a winner's payout so it can be pushed by distributeWinnings or pulled with claimWinnings
+     */
+    function _addClaimableWinnings(uint256 _challengeId, address _bettor, uint256 _amount) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        $.challengeToClaimableWinnings[_challengeId][_bettor] += _amount;
+        emit WinningsClaimable(_challengeId, _bettor, _amount);
+    }
+
+    /**
+     * @dev Returns the stake a settled challenge pays back to a bettor and their share of the losing side's stakes, or
+     * nothing once they have been added to the bettor's claimable winnings
+     */
+    function _pendingStakePayout(uint256 _challengeId, address _bettor) internal view returns (uint256 stake, uint256 share) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if ($.challengeToStakePayoutCredited[_challengeId][_bettor]) return (0, 0);
+
+        StakePayout storage payout = $.challengeToStakePayout[_challengeId];
+        if (payout.paysBetsFor) stake += challengeToBetsFor[_challengeId][_bettor];
+        if (payout.paysBetsAgainst) stake += challengeToBetsAgainst[_challengeId][_bettor];
+        if (payout.amountToSplit > 0) share = (stake * payout.amountToSplit) / payout.stakeToPay;
+    }
+
+    /**
+     * @dev Adds a bettor's stake payout to their claimable winnings. Once every winning stake has its share, what is left
+     * of the losing side's stakes is rounding dust and goes to the protocol.
+     */
+    function _creditStakePayout(uint256 _challengeId, address _bettor) internal {
+        (uint256 stake, uint256 share) = _pendingStakePayout(_challengeId, _bettor);
+        if (stake == 0) return;
+
+        ChallengeStorage storage $ = _getChallengeStorage();
+        $.challengeToStakePayoutCredited[_challengeId][_bettor] = true;
+        _addClaimableWinnings(_challengeId, _bettor, stake + share);
+
+        StakePayout storage payout = $.challengeToStakePayout[_challengeId];
+        if (payout.amountToSplit == 0) return;
+        payout.stakePaid += stake;
+        payout.amountSplit += share;
+        if (payout.stakePaid == payout.stakeToPay) _accrueProtocolFee(_challengeId, payout.amountToSplit - payout.amountSplit);
+    }
+
+    /**
+     * @dev Clears a bettor's claimable payout for a challenge and returns it, emitting a claim event if anything was owed
+     */
+    function _takeClaimableWinnings(uint256 _challengeId, address _bettor) internal returns (uint256 amount) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        _creditStakePayout(_challengeId, _bettor);
+        amount = $.challengeToClaimableWinnings[_challengeId][_bettor];
+        if (amount == 0) return 0;
+
+        delete $.challengeToClaimableWinnings[_challengeId][_bettor];
+        emit WinningsClaimed(_challengeId, _bettor, amount);
+    }
+
+    /**
+     * @dev Reverts if an address is not allowed to have measurements recorded for a challenge.
+     * In a single player challenge, only the challenger's own measurements count.
+     * @param _challengeId The challenge to which the measurements apply
+     * @param _participant The address whose measurements are being submitted
+     */
+    function _checkMeasurementParticipant(uint256 _challengeId, address _participant) internal view virtual {
+        if (challengeToChallenger[_challengeId] != _participant)
+            revert ChallengeCanOnlyBeModifiedByChallenger(
+                _challengeId,
+                _participant,
+                challengeToChallenger[_challengeId]
+            );
+    }
+
+    /**
+     * @dev Stores measurements for a participant once the challenge is confirmed to be active and not expired.
+     * @param _challengeId The challenge to which the measurements apply
+     * @param _participant The address whose measurements are being recorded
+     * @param _submittedMeasurements A value for each metric included in the challenge
+     * @param _windowStart The start of the period the measurements cover
+     * @param _windowEnd The end of the period the measurements cover
+     */
+    function _recordMeasurements(
+        uint256 _challengeId,
+        address _participant,
+        uint256[] calldata _submittedMeasurements,
+        uint256 _windowStart,
+        uint256 _windowEnd
+    ) internal virtual {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (
+            challengeToIncludedMetrics[_challengeId].length !=
+            _submittedMeasurements.length
+        ) revert MalformedChallengeMetricsProvided();
+        _checkChallengeIsOngoing(_challengeId);
+        $.challengeToMeasurementsSubmitted[_challengeId] = true;
+
+        for (uint256 i = 0; i < _submittedMeasurements.length; ) {
+            uint8 currentMetric = challengeToIncludedMetrics[_challengeId][i];
+            challengeToFinalMetricMeasurements[_challengeId][
+                currentMetric
+            ] = _submittedMeasurements[i];
+            unchecked {
+                i++;
+            }
+        }
+        if ($.challengeToStreakPeriodLength[_challengeId] != 0) {
+            _recordStreakPeriod(_challengeId, _submittedMeasurements, _windowStart, _windowEnd);
+        }
+        _appendMeasurementHistory(_challengeId, _participant, _submittedMeasurements, _windowStart, _windowEnd);
+    }
+
+    /**
+     * @dev Records whether the measurements for a period of a streak challenge meet every target. The period is the one
+     * the measurement window starts in, and the window must not run past its end. A later submission for the same period
+     * replaces the earlier one, so a period only counts as completed if its latest measurements meet every target.
+     */
+    function _recordStreakPeriod(
+        uint256 _challengeId,
+        uint256[] calldata _submittedMeasurements,
+        uint256 _windowStart,
+        uint256 _windowEnd
+    ) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        uint256 period = _streakPeriodAt(_challengeId, _windowStart);
+        uint256 periodEnd = challengeToStartTime[_challengeId] + (period + 1) * $.challengeToStreakPeriodLength[_challengeId];
+        if (_windowEnd > periodEnd) revert InvalidAttestationWindow(_windowStart, _windowEnd);
+
+        bool completed = true;
+        for (uint256 i = 0; i < _submittedMeasurements.length; ) {
+            if (!_isMetricGoalMet(_challengeId, challengeToIncludedMetrics[_challengeId][i], _submittedMeasurements[i])) {
+                completed = false;
+                break;
+            }
+            unchecked {
+                i++;
+            }
+        }
+
+        bool wasCompleted = $.challengeToStreakPeriodCompleted[_challengeId][period];
+        if (completed && !wasCompleted) {
+            $.challengeToStreakPeriodsCompleted[_challengeId] += 1;
+        } else if (!completed && wasCompleted) {
+            $.challengeToStreakPeriodsCompleted[_challengeId] -= 1;
+        }
+        $.challengeToStreakPeriodCompleted[_challengeId][period] = completed;
+
+        emit StreakPeriodRecorded(_challengeId, period, completed);
+    }
+
+    /**
+     * @dev Returns the index of the streak period a timestamp falls in, counting from the start of the challenge
+     */
+    function _streakPeriodAt(uint256 _challengeId, uint256 _timestamp) internal view returns (uint256) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        return (_timestamp - challengeToStartTime[_challengeId]) / $.challengeToStreakPeriodLength[_challengeId];
+    }
+
+    /**
+     * @dev Returns how many periods of a started streak challenge have ended without being completed
+     */
+    function _streakMissedPeriods(uint256 _challengeId) internal view returns (uint256) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        uint256 totalPeriods = challengeToChallengeLength[_challengeId] / $.challengeToStreakPeriodLength[_challengeId];
+        uint256 endedPeriods = _streakPeriodAt(_challengeId, block.timestamp);
+        uint256 completedPeriods = $.challengeToStreakPeriodsCompleted[_challengeId];
+
+        if (endedPeriods >= totalPeriods) return totalPeriods - completedPeriods;
+        // the current period may already be completed, but it cannot have been missed yet
+        if ($.challengeToStreakPeriodCompleted[_challengeId][endedPeriods]) completedPeriods -= 1;
+        return endedPeriods - completedPeriods;
+    }
+
+    /**
+     * @dev Returns whether a streak challenge has missed more periods than it allows. A streak nobody submitted
+     * measurements for is never locked in, so that missing data voids it at the end as it would any other challenge.
+     */
+    function _isStreakFailureLockedIn(uint256 _challengeId) internal view returns (bool) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        return
+            $.challengeToStreakPeriodLength[_challengeId] != 0 &&
+            $.challengeToMeasurementsSubmitted[_challengeId] &&
+            _streakMissedPeriods(_challengeId) > $.challengeToStreakAllowedMisses[_challengeId];
+    }
+
+    /**
+     * @dev Adds a submission to a participant's measurement history, reverting if it lowers a cumulative metric
+     * below the participant's previous submission.
+     */
+    function _appendMeasurementHistory(
+        uint256 _challengeId,
+        address _participant,
+        uint256[] calldata _submittedMeasurements,
+        uint256 _windowStart,
+        uint256 _windowEnd
+    ) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        MeasurementRecord[] storage history = $.challengeToMeasurementHistory[_challengeId][_participant];
+        // every period of a streak is measured from scratch, so cumulative totals only have to grow within a period
+        if (
+            history.length > 0 &&
+            ($.challengeToStreakPeriodLength[_challengeId] == 0 ||
+                _streakPeriodAt(_challengeId, history[history.length - 1].windowStart) ==
+                _streakPeriodAt(_challengeId, _windowStart))
+        ) {
+            uint256[] storage previousMeasurements = history[history.length - 1].measurements;
+            for (uint256 i = 0; i < _submittedMeasurements.length; ) {
+                uint8 metric = challengeToIncludedMetrics[_challengeId][i];
+                if ($.metrics[metric].cumulative && _submittedMeasurements[i] < previousMeasurements[i])
+                    revert CumulativeMeasurementDecreased(metric, previousMeasurements[i], _submittedMeasurements[i]);
+                unchecked {
+                    i++;
+                }
+            }
+        }
+
+        history.push(
+            MeasurementRecord(uint64(block.timestamp), uint64(_windowStart), uint64(_windowEnd), _submittedMeasurements)
+        );
+
+        emit MeasurementsRecorded(_challengeId, _participant, _submittedMeasurements, _windowStart, _windowEnd, history.length - 1);
+    }
+
+    /**
+     * @dev Reverts if a challenge is not active or its time has run out.
+     * @param _challengeId The challenge to check
+     */
+    function _checkChallengeIsOngoing(uint256 _challengeId) internal {
+        if (challengeToChallengeStatus[_challengeId] != STATUS_ACTIVE)
+            revert ChallengeIsNotActive(
+                _challengeId,
+                challengeToChallengeStatus[_challengeId]
+            );
+
+        uint256 timestamp = block.timestamp;
+        if (
+            timestamp >=
+            (challengeToStartTime[_challengeId] +
+                challengeToChallengeLength[_challengeId])
+        ) {
+            challengeToChallengeStatus[_challengeId] = STATUS_EXPIRED;
+            revert ChallengeIsExpired(_challengeId);
+        }
+    }
+
+    /**
+     * @dev Widens metric IDs so they can be hashed the way EIP-712 encodes a uint8[]
+     */
+    function _toUint256Array(uint8[] storage _values) internal view returns (uint256[] memory widened) {
+        widened = new uint256[](_values.length);
+        for (uint256 i = 0; i < _values.length; ) {
+            widened[i] = _values[i];
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    /**
+     * @dev Reverts if the USD value of a bet is below the minimum USD value of a bet. Token amounts are scaled
+     * to 18 decimals so they are valued the same way as ETH, using the token's own price feed or a 1:1 USD price.
+     * @param _challengeId The challenge being bet on, which determines the asset
+     * @param _betAmount The amount of ETH or of the challenge's token being bet
+     */
+    function _checkMinimumBetValue(uint256 _challengeId, uint256 _betAmount) internal view {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        address betToken = $.challengeToBetToken[_challengeId];
+        BetToken memory betTokenSettings = $.betTokens[betToken];
+        uint256 normalizedAmount = betToken == address(0)
+            ? _betAmount
+            : _betAmount * 10 ** (18 - betTokenSettings.decimals);
+        if (normalizedAmount < minimumUsdValueOfBet) revert MinimumBetAmountTooSmall();
+
+        uint256 price;
+        if (betToken == address(0)) {
+            price = _getValidatedPrice(dataFeed);
+        } else if (address(betTokenSettings.priceFeed) == address(0)) {
+            price = STABLECOIN_PRICE;
+        } else {
+            price = _getValidatedPrice(betTokenSettings.priceFeed);
+        }
+        uint256 betValueInUsd = (normalizedAmount * price) / 1e8; // Adjust for price feed decimals
+        if (betValueInUsd < minimumUsdValueOfBet) revert MinimumBetAmountTooSmall();
+    }
+
+    /**
+     * @dev Reads a USD price feed with 8 decimals, rejecting incomplete, stale, or negative answers.
+     */
+    function _getValidatedPrice(AggregatorV3Interface _priceFeed) internal view returns (uint256) {
+        (
+            uint80 roundId,
+            int price,
+            ,
+            uint timeStamp,
+            uint80 answeredInRound
+        ) = _priceFeed.latestRoundData();
+        
+        // Check for stale data
+        if(timeStamp <= 0) {
+            revert PriceFeedRoundNotComplete();
+        }
+        if(answeredInRound < roundId) {
+            revert StalePrice();
+        }
+        
+        // Check if the price feed is stale (older than 24 hours)
+        if(block.timestamp - timeStamp > 24 hours) {
+            revert PriceFeedTooOld();
+        }
+        
+        // Price must be positive
+        if(price < 0) {
+            revert InvalidPrice();
+        }
+        
+        return uint256(price) * 1e6;
+    }
+}
@@ -0,0 +1,506 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "./ChallengeBase.sol";
+import "./interfaces/IChallengeBetting.sol";
+
+/**
+ * @title Challenge betting extension
+ * @author Branson Solutions LLC
+ * @notice Creating challenges and placing, changing and cancelling bets on them.
+ * @dev Only reached through the fallback of the contract before it in the chain, so it always runs on the proxy's storage.
+ */
+contract ChallengeBetting is IChallengeBetting, EIP712Upgradeable, ChallengeBase {
+    /// @notice EIP-712 type hash of an invite code redemption, signed with the key derived from the invite code
+    bytes32 public constant INVITE_CODE_REDEMPTION_TYPEHASH =
+        keccak256("InviteCodeRedemption(uint256 challengeId,address account)");
+
+    constructor(address _extension) ChallengeBase(_extension) {}
+
+    // ============================ //
+    //      Interface Functions     //
+    // ============================ //
+
+    /**
+     * @notice Creates a new challenge for a whitelisted challenger, but does not start a challenge until requirements are met
+     * @param _lengthOfChallenge The time length of the challenge in seconds
+     * @param _challengeMetrics The set of metrics the challenger wants to reach in the challenge time frame
+     * @param _targetMeasurementsForEachMetric The set of target measurements for each metric the challenger wants to achieve
+     *
+     * Requirements:
+     * - The caller is on the challenger whitelist
+     * - The challenger does not already have an active challenge
+     */
+    function createChallenge(
+        uint256 _lengthOfChallenge,
+        uint8[] memory _challengeMetrics,
+        uint256[] memory _targetMeasurementsForEachMetric
+    )
+        public
+        virtual
+        nonReentrant
+        onlyChallengers(msg.sender)
+        whenNotPaused
+        returns (uint256)
+    {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        // every metric is compared in its registered default direction, with no upper bound
+        uint8[] memory metricDirections = new uint8[](_challengeMetrics.length);
+        for (uint256 i = 0; i < _challengeMetrics.length; ) {
+            metricDirections[i] = $.metrics[_challengeMetrics[i]].defaultDirection;
+            unchecked {
+                i++;
+            }
+        }
+        return _createChallenge(
+            _lengthOfChallenge,
+            _challengeMetrics,
+            _targetMeasurementsForEachMetric,
+            metricDirections,
+            new uint256[](_challengeMetrics.length)
+        );
+    }
+
+    /**
+     * @inheritdoc IChallengeBetting
+     */
+    function createChallengeWithDirections(
+        uint256 _lengthOfChallenge,
+        uint8[] memory _challengeMetrics,
+        uint256[] memory _targetMeasurementsForEachMetric,
+        uint8[] memory _metricDirections,
+        uint256[] memory _upperBoundsForEachMetric
+    )
+        public
+        virtual
+        override
+        nonReentrant
+        onlyChallengers(msg.sender)
+        whenNotPaused
+        returns (uint256)
+    {
+        return _createChallenge(
+            _lengthOfChallenge,
+            _challengeMetrics,
+            _targetMeasurementsForEachMetric,
+            _metricDirections,
+            _upperBoundsForEachMetric
+        );
+    }
+
+    /**
+     * @dev Validates and stores a new challenge's goals. Each metric's target is compared with its direction,
+     * and is the lower bound of a WITHIN_RANGE metric whose upper bound is given in `_upperBoundsForEachMetric`.
+     */
+    function _createChallenge(
+        uint256 _lengthOfChallenge,
+        uint8[] memory _challengeMetrics,
+        uint256[] memory _targetMeasurementsForEachMetric,
+        uint8[] memory _metricDirections,
+        uint256[] memory _upperBoundsForEachMetric
+    ) internal returns (uint256) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (_lengthOfChallenge > maximumChallengeLengthInSeconds)
+            revert ChallengeLengthTooLong();
+        if (_challengeMetrics.length == 0)
+            revert("At least one metric is required");
+        if (
+            _challengeMetrics.length != _targetMeasurementsForEachMetric.length ||
+            _challengeMetrics.length != _metricDirections.length ||
+            _challengeMetrics.length != _upperBoundsForEachMetric.length
+        ) revert MalformedChallengeMetricsProvided();
+        if (_challengeMetrics.length > maximumNumberOfChallengeMetrics)
+            revert TooManyChallengeMetrics();
+
+        address challenger = msg.sender;
+        uint256 currentChallengeId = latestChallengeId;
+        unchecked {
+            latestChallengeId++;
+        }
+
+        challengeToChallenger[currentChallengeId] = challenger;
+        challengerToChallenges[challenger].push(currentChallengeId);
+
+        for (uint256 i = 0; i < _challengeMetrics.length; ) {
+            uint8 metric = _challengeMetrics[i];
+            uint8 direction = _metricDirections[i];
+            uint256 target = _targetMeasurementsForEachMetric[i];
+            uint256 upperBound = _upperBoundsForEachMetric[i];
+            if (direction > DIRECTION_WITHIN_RANGE) revert InvalidMetricDirection(direction);
+            if (direction == DIRECTION_WITHIN_RANGE ? upperBound < target : upperBound != 0)
+                revert InvalidMetricRange(target, upperBound);
+            _checkMetricGoal(metric, direction, target, upperBound);
+
+            challengeToTargetMetricMeasurements[currentChallengeId][metric] = target;
+            $.challengeToMetricDirections[currentChallengeId][metric] = direction;
+            $.challengeToMetricUpperBounds[currentChallengeId][metric] = upperBound;
+            challengeToIncludedMetrics[currentChallengeId].push(metric);
+            unchecked {
+                i++;
+            }
+        }
+        challengeToChallengeLength[currentChallengeId] = _lengthOfChallenge;
+        challengeToChallengeStatus[currentChallengeId] = STATUS_INACTIVE;
+        $.challengeToStartDeadline[currentChallengeId] = block.timestamp + _challengeStartWindow();
+
+        emit ChallengeCreated(
+            challenger,
+            currentChallengeId,
+            _lengthOfChallenge,
+            _challengeMetrics,
+            _targetMeasurementsForEachMetric,
+            _metricDirections,
+            _upperBoundsForEachMetric
+        );
+
+        return currentChallengeId;
+    }
+
+    /**
+     * @inheritdoc IChallengeBetting
+     */
+    function createAttestedChallenge(
+        uint256 _lengthOfChallenge,
+        uint8[] memory _challengeMetrics,
+        uint256[] memory _targetMeasurementsForEachMetric
+    ) external virtual override returns (uint256) {
+        uint256 challengeId = createChallenge(
+            _lengthOfChallenge,
+            _challengeMetrics,
+            _targetMeasurementsForEachMetric
+        );
+        _getChallengeStorage().challengeToAttestationRequired[challengeId] = true;
+        emit ChallengeRequiresAttestation(challengeId);
+
+        return challengeId;
+    }
+
+    /**
+     * @inheritdoc IChallengeBetting
+     */
+    function createTokenChallenge(
+        uint256 _lengthOfChallenge,
+        uint8[] memory _challengeMetrics,
+        uint256[] memory _targetMeasurementsForEachMetric,
+        address _betToken
+    ) external virtual override returns (uint256) {
+        uint256 challengeId = createChallenge(
+            _lengthOfChallenge,
+            _challengeMetrics,
+            _targetMeasurementsForEachMetric
+        );
+        _setChallengeBetToken(challengeId, _betToken);
+
+        return challengeId;
+    }
+
+    /**
+     * @inheritdoc IChallengeBetting
+     */
+    function createStreakChallenge(
+        uint256 _lengthOfChallenge,
+        uint8[] memory _challengeMetrics,
+        uint256[] memory _targetMeasurementsForEachMetric,
+        uint256 _periodLength,
+        uint256 _allowedMisses
+    ) external virtual override returns (uint256) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (
+            _periodLength == 0 ||
+            _lengthOfChallenge % _periodLength != 0 ||
+            _allowedMisses >= _lengthOfChallenge / _periodLength
+        ) revert InvalidStreak(_periodLength, _allowedMisses);
+
+        uint256 challengeId = createChallenge(
+            _lengthOfChallenge,
+            _challengeMetrics,
+            _targetMeasurementsForEachMetric
+        );
+        $.challengeToStreakPeriodLength[challengeId] = _periodLength;
+        $.challengeToStreakAllowedMisses[challengeId] = _allowedMisses;
+        emit StreakChallengeCreated(challengeId, _periodLength, _allowedMisses);
+
+        return challengeId;
+    }
+
+    /**
+     * @inheritdoc IChallengeBetting
+     */
+    function createCommitmentChallenge(
+        uint256 _lengthOfChallenge,
+        uint8[] memory _challengeMetrics,
+        uint256[] memory _targetMeasurementsForEachMetric,
+        address _beneficiary
+    ) external virtual override returns (uint256) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (!$.commitmentBeneficiaries[_beneficiary]) revert BeneficiaryNotAllowed(_beneficiary);
+
+        uint256 challengeId = createChallenge(
+            _lengthOfChallenge,
+            _challengeMetrics,
+            _targetMeasurementsForEachMetric
+        );
+        $.challengeToCommitmentBeneficiary[challengeId] = _beneficiary;
+        emit CommitmentChallengeCreated(challengeId, _beneficiary);
+
+        return challengeId;
+    }
+
+    /**
+     * @inheritdoc IChallengeBetting
+     */
+    function createInviteOnlyChallenge(
+        uint256 _lengthOfChallenge,
+        uint8[] memory _challengeMetrics,
+        uint256[] memory _targetMeasurementsForEachMetric,
+        address[] calldata _invitees,
+        address _inviteSigner
+    ) external virtual override returns (uint256) {
+        uint256 challengeId = createChallenge(
+            _lengthOfChallenge,
+            _challengeMetrics,
+            _targetMeasurementsForEachMetric
+        );
+        _makeInviteOnly(challengeId, _invitees, _inviteSigner);
+
+        return challengeId;
+    }
+
+    /**
+     * @inheritdoc IChallengeBetting
+     */
+    function setChallengeInvites(
+        uint256 _challengeId,
+        address[] calldata _accounts,
+        bool _invited
+    ) external virtual override whenNotPaused {
+        _checkInviteManager(_challengeId);
+        _setChallengeInvites(_challengeId, _accounts, _invited);
+    }
+
+    /**
+     * @inheritdoc IChallengeBetting
+     */
+    function setChallengeInviteCode(
+        uint256 _challengeId,
+        address _inviteSigner
+    ) external virtual override whenNotPaused {
+        _checkInviteManager(_challengeId);
+        _getChallengeStorage().challengeToInviteSigner[_challengeId] = _inviteSigner;
+        emit ChallengeInviteCodeSet(_challengeId, _inviteSigner);
+    }
+
+    /**
+     * @inheritdoc IChallengeBetting
+     */
+    function redeemInviteCode(
+        uint256 _challengeId,
+        bytes calldata _signature
+    ) external virtual override whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (!$.challengeToInviteOnly[_challengeId]) revert ChallengeNotInviteOnly(_challengeId);
+
+        // the signature covers the caller, so one seen in the mempool cannot be redeemed by anyone else
+        address caller = msg.sender;
+        bytes32 structHash = keccak256(abi.encode(INVITE_CODE_REDEMPTION_TYPEHASH, _challengeId, caller));
+        address inviteSigner = $.challengeToInviteSigner[_challengeId];
+        if (inviteSigner == address(0) || ECDSA.recover(_hashTypedDataV4(structHash), _signature) != inviteSigner)
+            revert InvalidInviteCode(_challengeId);
+
+        $.challengeToInvited[_challengeId][caller] = true;
+        emit ChallengeInviteCodeRedeemed(_challengeId, caller);
+    }
+
+    /**
+     * @dev Closes a challenge that was just created to everyone but its challenger and the addresses they invite,
+     * directly or through an invite code whose signer is given, the zero address for none.
+     */
+    function _makeInviteOnly(
+        uint256 _challengeId,
+        address[] calldata _invitees,
+        address _inviteSigner
+    ) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        $.challengeToInviteOnly[_challengeId] = true;
+        emit InviteOnlyChallengeCreated(_challengeId);
+
+        _setChallengeInvites(_challengeId, _invitees, true);
+        if (_inviteSigner != address(0)) {
+            $.challengeToInviteSigner[_challengeId] = _inviteSigner;
+            emit ChallengeInviteCodeSet(_challengeId, _inviteSigner);
+        }
+    }
+
+    /// @dev Invites addresses to a challenge or withdraws their invitations
+    function _setChallengeInvites(uint256 _challengeId, address[] calldata _accounts, bool _invited) internal {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        for (uint256 i = 0; i < _accounts.length; ) {
+            $.challengeToInvited[_challengeId][_accounts[i]] = _invited;
+            emit ChallengeInviteSet(_challengeId, _accounts[i], _invited);
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    /// @dev Checks that the caller is the challenger of an invite-only challenge that has not started yet
+    function _checkInviteManager(uint256 _challengeId) internal view {
+        if (challengeToChallenger[_challengeId] != msg.sender)
+            revert ChallengeCanOnlyBeModifiedByChallenger(
+                _challengeId,
+                msg.sender,
+                challengeToChallenger[_challengeId]
+            );
+        if (!_getChallengeStorage().challengeToInviteOnly[_challengeId]) revert ChallengeNotInviteOnly(_challengeId);
+        if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE) revert ChallengeCannotBeModified();
+    }
+
+    /**
+     * @inheritdoc IChallengeBetting
+     */
+    function placeBet(
+        uint256 _challengeId,
+        bool _bettingFor
+    ) public payable virtual override nonReentrant whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if ($.challengeToBetToken[_challengeId] != address(0))
+            revert ChallengeDenominationMismatch(_challengeId, $.challengeToBetToken[_challengeId]);
+
+        _placeBet(_challengeId, _bettingFor, msg.value);
+    }
+
+    /**
+     * @inheritdoc IChallengeBetting
+     */
+    function placeTokenBet(
+        uint256 _challengeId,
+        bool _bettingFor,
+        uint256 _amount
+    ) public virtual override nonReentrant whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if ($.challengeToBetToken[_challengeId] == address(0))
+            revert ChallengeDenominationMismatch(_challengeId, address(0));
+
+        _placeBet(_challengeId, _bettingFor, _amount);
+    }
+
+    /**
+     * @inheritdoc IChallengeBetting
+     */
+    function placeTokenBetWithPermit(
+        uint256 _challengeId,
+        bool _bettingFor,
+        uint256 _amount,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external virtual override {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        address betToken = $.challengeToBetToken[_challengeId];
+        if (betToken == address(0))
+            revert ChallengeDenominationMismatch(_challengeId, address(0));
+
+        // A permit can be front-run by anyone who copies it from the mempool, in which case the allowance is already in place
+        try IERC20Permit(betToken).permit(msg.sender, address(this), _amount, _deadline, _v, _r, _s) {} catch {}
+
+        placeTokenBet(_challengeId, _bettingFor, _amount);
+    }
+
+    /**
+     * @inheritdoc IChallengeBetting
+     */
+    function cancelBet(
+        uint256 _challengeId
+    ) public virtual override nonReentrant checkBettingEligibility(_challengeId) whenNotPaused {
+        address caller = msg.sender;
+        if (
+            challengeToBetsFor[_challengeId][caller] == 0 &&
+            challengeToBetsAgainst[_challengeId][caller] == 0
+        ) revert BettorCannotUpdateBet();
+
+        if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE) {
+            revert ChallengeCannotBeModified();
+        }
+
+        bool bettingFor = challengeToBetsFor[_challengeId][caller] != 0;
+        uint256 amount;
+        if (bettingFor) {
+            amount = challengeToBetsFor[_challengeId][caller];
+            challengeToBetsFor[_challengeId][caller] = 0;
+            challengeToNumberOfBettorsFor[_challengeId] -= 1;
+            challengeToTotalAmountBetFor[_challengeId] -= amount;
+        } else {
+            amount = challengeToBetsAgainst[_challengeId][caller];
+            challengeToBetsAgainst[_challengeId][caller] = 0;
+            challengeToNumberOfBettorsAgainst[_challengeId] -= 1;
+            challengeToTotalAmountBetAgainst[_challengeId] -= amount;
+        }
+
+        _removeBettor(_challengeId, caller);
+
+        _withdrawStake(_challengeId, caller, amount);
+
+        emit BetCancelled(_challengeId, caller, bettingFor, amount);
+    }
+
+    /**
+     * @inheritdoc IChallengeBetting
+     */
+    function changeBet(
+        uint256 _challengeId,
+        bool _bettingFor,
+        uint256 _newBetAmount
+    ) public payable virtual override nonReentrant checkBettingEligibility(_challengeId) whenNotPaused {
+        address caller = msg.sender;
+        uint256 oldBetAmount;
+        bool wasBettingFor = challengeToBetsFor[_challengeId][caller] != 0;
+        if (wasBettingFor) {
+            oldBetAmount = challengeToBetsFor[_challengeId][caller];
+        } else {
+            oldBetAmount = challengeToBetsAgainst[_challengeId][caller];
+        }
+        if (oldBetAmount == 0) revert BettorCannotUpdateBet();
+        if (challengeToChallenger[_challengeId] == caller && !_bettingFor)
+            revert ChallengerCannotBetAgainstHimself();
+
+        _checkMinimumBetValue(_challengeId, _newBetAmount);
+
+        // an increase to a token bet is pulled from the bettor, so no ETH should be sent with it
+        uint256 expectedValue = _newBetAmount > oldBetAmount && _getChallengeStorage().challengeToBetToken[_challengeId] == address(0)
+            ? _newBetAmount - oldBetAmount
+            : 0;
+        if (msg.value != expectedValue) revert IncorrectBetChangeValue(expectedValue, msg.value);
+
+        if (wasBettingFor) {
+            challengeToBetsFor[_challengeId][caller] = 0;
+            challengeToNumberOfBettorsFor[_challengeId] -= 1;
+            challengeToTotalAmountBetFor[_challengeId] -= oldBetAmount;
+        } else {
+            challengeToBetsAgainst[_challengeId][caller] = 0;
+            challengeToNumberOfBettorsAgainst[_challengeId] -= 1;
+            challengeToTotalAmountBetAgainst[_challengeId] -= oldBetAmount;
+        }
+
+        if (_bettingFor) {
+            challengeToBetsFor[_challengeId][caller] = _newBetAmount;
+            challengeToNumberOfBettorsFor[_challengeId] += 1;
+            challengeToTotalAmountBetFor[_challengeId] += _newBetAmount;
+        } else {
+            challengeToBetsAgainst[_challengeId][caller] = _newBetAmount;
+            challengeToNumberOfBettorsAgainst[_challengeId] += 1;
+            challengeToTotalAmountBetAgainst[_challengeId] += _newBetAmount;
+        }
+
+        if (_newBetAmount > oldBetAmount) {
+            _depositStake(_challengeId, caller, _newBetAmount - oldBetAmount);
+        } else if (_newBetAmount < oldBetAmount) {
+            _withdrawStake(_challengeId, caller, oldBetAmount - _newBetAmount);
+        }
+
+        emit BetChanged(_challengeId, caller, wasBettingFor, _bettingFor, oldBetAmount, _newBetAmount);
+    }
+}
@@ -0,0 +1,257 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "./ChallengeBase.sol";
+import "./interfaces/IChallengeSettlement.sol";
+
+/**
+ * @title Challenge settlement extension
+ * @author Branson Solutions LLC
+ * @notice Settling challenges and paying out their winnings.
+ * @dev Only reached through the fallback of the contract before it in the chain, so it always runs on the proxy's storage.
+ */
+contract ChallengeSettlement is IChallengeSettlement, ChallengeBase {
+    constructor(address _extension) ChallengeBase(_extension) {}
+
+    // ============================ //
+    //      Interface Functions     //
+    // ============================ //
+
+    /**
+     * @inheritdoc IChallengeSettlement
+     */
+    function previewNetPayout(
+        uint256 _challengeId,
+        address _bettor
+    ) public view virtual override returns (uint256) {
+        uint256 betFor = challengeToBetsFor[_challengeId][_bettor];
+        uint256 betAgainst = challengeToBetsAgainst[_challengeId][_bettor];
+        if (betFor == 0 && betAgainst == 0) return 0;
+
+        uint256 betAmount = betFor > 0 ? betFor : betAgainst;
+        uint256 totalAmountBetCorrectly = betFor > 0
+            ? challengeToTotalAmountBetFor[_challengeId]
+            : challengeToTotalAmountBetAgainst[_challengeId];
+        uint256 totalAmountToSplit = betFor > 0
+            ? challengeToTotalAmountBetAgainst[_challengeId]
+            : challengeToTotalAmountBetFor[_challengeId];
+
+        uint256 amountToSplitAfterFee = totalAmountToSplit - _calculateProtocolFee(totalAmountToSplit);
+        return betAmount + (betAmount * amountToSplitAfterFee) / totalAmountBetCorrectly;
+    }
+
+    /**
+     * @inheritdoc IChallengeSettlement
+     */
+    function settleChallenge(uint256 _challengeId) external override nonReentrant whenNotPaused {
+        _settleChallenge(_challengeId);
+    }
+
+    /**
+     * @inheritdoc IChallengeSettlement
+     */
+    function checkUpkeep(
+        bytes calldata _checkData
+    ) external view override returns (bool upkeepNeeded, bytes memory performData) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        (uint256 offset, uint256 limit) = _checkData.length == 0
+            ? (0, DEFAULT_UPKEEP_SCAN_LIMIT)
+            : abi.decode(_checkData, (uint256, uint256));
+
+        uint256 openCount = $.openChallenges.length;
+        uint256 end = offset >= openCount || limit > openCount - offset ? openCount : offset + limit;
+        uint256[] memory dueChallengeIds = new uint256[](end > offset ? end - offset : 0);
+        uint256 dueCount;
+        for (uint256 i = offset; i < end; ) {
+            uint256 challengeId = $.openChallenges[i];
+            if (_isSettlementDue(challengeId)) {
+                dueChallengeIds[dueCount] = challengeId;
+                dueCount++;
+            }
+            unchecked {
+                i++;
+            }
+        }
+
+        // trims the array to the challenges that are due
+        assembly ("memory-safe") {
+            mstore(dueChallengeIds, dueCount)
+        }
+        return (dueCount > 0, abi.encode(dueChallengeIds));
+    }
+
+    /**
+     * @inheritdoc IChallengeSettlement
+     */
+    function performUpkeep(bytes calldata _performData) external override nonReentrant whenNotPaused {
+        uint256[] memory challengeIds = abi.decode(_performData, (uint256[]));
+        for (uint256 i = 0; i < challengeIds.length; ) {
+            if (_isSettlementDue(challengeIds[i])) _settleChallenge(challengeIds[i]);
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    /**
+     * @inheritdoc IChallengeSettlement
+     */
+    function disputeOutcome(uint256 _challengeId) external payable override nonReentrant whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        OutcomeProposal storage proposal = $.challengeToOutcomeProposal[_challengeId];
+        if ($.challengeToSettled[_challengeId]) revert WinningsAlreadyPaid(_challengeId);
+        if (proposal.disputeDeadline == 0) revert NoOutcomeToDispute(_challengeId);
+        if (block.timestamp > proposal.disputeDeadline)
+            revert DisputeWindowClosed(_challengeId, proposal.disputeDeadline);
+        if (proposal.disputer != address(0)) revert OutcomeUnderDispute(_challengeId, proposal.disputer);
+
+        address caller = _msgSender();
+        uint256 losingBet = proposal.challengerWon
+            ? challengeToBetsAgainst[_challengeId][caller]
+            : challengeToBetsFor[_challengeId][caller];
+        if (losingBet == 0) revert NotOnLosingSide(_challengeId, caller);
+
+        uint256 bond = ((challengeToTotalAmountBetFor[_challengeId] + challengeToTotalAmountBetAgainst[_challengeId]) *
+            $.disputeBondBps) / BPS_DENOMINATOR;
+        // a token bond is pulled from the disputer, so no ETH should be sent with it
+        uint256 expectedValue = $.challengeToBetToken[_challengeId] == address(0) ? bond : 0;
+        if (msg.value != expectedValue) revert IncorrectDisputeBond(expectedValue, msg.value);
+        if (bond > 0) _depositStake(_challengeId, caller, bond);
+
+        proposal.disputer = caller;
+        proposal.bond = bond;
+
+        emit OutcomeDisputed(_challengeId, caller, bond);
+    }
+
+    /**
+     * @inheritdoc IChallengeSettlement
+     */
+    function resolveDispute(uint256 _challengeId, bool _upheld) external override nonReentrant whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        address caller = _msgSender();
+        if (!$.disputeArbiters[caller]) revert NotDisputeArbiter(caller);
+        if ($.challengeToSettled[_challengeId]) revert WinningsAlreadyPaid(_challengeId);
+        OutcomeProposal storage proposal = $.challengeToOutcomeProposal[_challengeId];
+        if (proposal.disputer == address(0)) revert NoDisputeToResolve(_challengeId);
+
+        if (_upheld) {
+            proposal.challengerWon = !proposal.challengerWon;
+            proposal.disputeUpheld = true;
+            if (proposal.bond > 0) _addClaimableWinnings(_challengeId, proposal.disputer, proposal.bond);
+        } else {
+            _accrueProtocolFee(_challengeId, proposal.bond);
+        }
+
+        emit DisputeResolved(_challengeId, caller, _upheld);
+        _finalizeSettlement(_challengeId);
+    }
+
+    /**
+     * @inheritdoc IChallengeSettlement
+     */
+    function voidChallenge(uint256 _challengeId) external override nonReentrant whenNotPaused {
+        _checkChallengeCanBeVoided(_challengeId);
+        _voidChallenge(_challengeId);
+    }
+
+    /**
+     * @inheritdoc IChallengeSettlement
+     */
+    function claimRefund(uint256 _challengeId) external override nonReentrant whenNotPaused {
+        if (challengeToChallengeStatus[_challengeId] != STATUS_CANCELLED) {
+            _checkChallengeCanBeVoided(_challengeId);
+            _voidChallenge(_challengeId);
+        }
+
+        address caller = _msgSender();
+        uint256 amount = _takeClaimableWinnings(_challengeId, caller);
+        if (amount == 0) revert NoWinningsToClaim(caller);
+
+        _withdrawStake(_challengeId, caller, amount);
+    }
+
+    /**
+     * @inheritdoc IChallengeSettlement
+     */
+    function claimWinnings(uint256 _challengeId) external override nonReentrant whenNotPaused {
+        address caller = _msgSender();
+        uint256 amount = _takeClaimableWinnings(_challengeId, caller);
+        if (amount == 0) revert NoWinningsToClaim(caller);
+
+        _withdrawStake(_challengeId, caller, amount);
+    }
+
+    /**
+     * @inheritdoc IChallengeSettlement
+     */
+    function claimWinningsBatch(uint256[] calldata _challengeIds) external override nonReentrant whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        address caller = _msgSender();
+        uint256 totalAmount;
+        uint256 totalEthAmount;
+        for (uint256 i = 0; i < _challengeIds.length; ) {
+            uint256 challengeId = _challengeIds[i];
+            uint256 amount = _takeClaimableWinnings(challengeId, caller);
+            totalAmount += amount;
+            // ETH payouts are combined into one transfer, token payouts are paid per challenge in their own token
+            if ($.challengeToBetToken[challengeId] == address(0)) {
+                totalEthAmount += amount;
+            } else if (amount > 0) {
+                _withdrawStake(challengeId, caller, amount);
+            }
+            unchecked {
+                i++;
+            }
+        }
+        if (totalAmount == 0) revert NoWinningsToClaim(caller);
+
+        if (totalEthAmount > 0) {
+            vault.withdrawFunds(payable(caller), totalEthAmount, false);
+        }
+    }
+
+    /**
+     * @inheritdoc IChallengeSettlement
+     */
+    function distributeWinnings(uint256 _challengeId) public virtual override onlyRole(SETTLER_ROLE) nonReentrant whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if (!$.challengeToSettled[_challengeId]) {
+            _settleChallenge(_challengeId);
+            // with a dispute window the outcome was only proposed, and nothing is paid until it is settled
+            if (!$.challengeToSettled[_challengeId]) return;
+        }
+        if ($.challengeToWinningsDistributed[_challengeId]) revert WinningsAlreadyDistributed(_challengeId);
+
+        // pays out the next batch of bettors from where the previous call stopped
+        address[] storage bettors = challengeToBettors[_challengeId];
+        uint256 bettorsLength = bettors.length;
+        uint256 cursor = $.challengeToDistributionCursor[_challengeId];
+        uint256 end = cursor + _distributionBatchSize();
+        if (end > bettorsLength) end = bettorsLength;
+        for (uint256 i = cursor; i < end; ) {
+            address bettor = bettors[i];
+            _creditStakePayout(_challengeId, bettor);
+            uint256 amount = $.challengeToClaimableWinnings[_challengeId][bettor];
+            if (amount > 0) {
+                delete $.challengeToClaimableWinnings[_challengeId][bettor];
+
+                // A bettor that cannot receive the payout must not block everyone else
+                if (_tryWithdrawStake(_challengeId, bettor, amount)) {
+                    emit WinningsDistributed(_challengeId, bettor, amount);
+                } else {
+                    // The payout stays claimable so the bettor can pull it later
+                    $.challengeToClaimableWinnings[_challengeId][bettor] = amount;
+                    emit WinningsDistributionFailed(_challengeId, bettor, amount);
+                }
+            }
+            unchecked {
+                i++;
+            }
+        }
+
+        $.challengeToDistributionCursor[_challengeId] = end;
+        if (end == bettorsLength) $.challengeToWinningsDistributed[_challengeId] = true;
+        emit WinningsDistributionProgress(_challengeId, end, bettorsLength);
+    }
+}
@@ -0,0 +1,330 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "./ChallengeBase.sol";
+import "./interfaces/IChallengeViews.sol";
+
+/**
+ * @title Challenge views extension
+ * @author Branson Solutions LLC
+ * @notice Read access to the contract parameters and the state of challenges.
+ * @dev Only reached through the fallback of the contract before it in the chain, so it always runs on the proxy's storage.
+ */
+contract ChallengeViews is IChallengeViews, ChallengeBase {
+    constructor(address _extension) ChallengeBase(_extension) {}
+
+    // ============================ //
+    //         Getters              //
+    // ============================ //
+
+    /// @notice Gets the minimum USD value of a bet
+    function getMinimumUsdValueOfBet() external view returns (uint256) {
+        return minimumUsdValueOfBet;
+    }
+
+    /// @notice Gets the maximum number of bettors per challenge
+    function getMaximumNumberOfBettorsPerChallenge() external view returns (uint32) {
+        return maximumNumberOfBettorsPerChallenge;
+    }
+
+    /// @notice Gets the maximum challenge length
+    function getMaximumChallengeLength() external view returns (uint32) {
+        return maximumChallengeLengthInSeconds;
+    }
+
+    /// @notice Gets the maximum number of challenge metrics
+    function getMaximumNumberOfChallengeMetrics() external view returns (uint8) {
+        return maximumNumberOfChallengeMetrics;
+    }
+
+    /// @notice Gets the protocol fee in basis points
+    function getProtocolFee() external view returns (uint16) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        return $.protocolFeeBps;
+    }
+
+    /// @notice Gets the settings of a metric, with an empty name if the metric is unregistered
+    function getMetric(uint8 _metric) external view returns (Metric memory) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        return $.metrics[_metric];
+    }
+
+    /// @notice Gets every registered metric, enabled or not, with its ID
+    function getMetrics() external view returns (uint8[] memory metricIds, Metric[] memory metricSettings) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        metricIds = $.registeredMetricIds;
+        metricSettings = new Metric[](metricIds.length);
+        for (uint256 i = 0; i < metricIds.length; ) {
+            metricSettings[i] = $.metrics[metricIds[i]];
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    /// @notice Gets how many sets of measurements were submitted for a participant in a challenge
+    function getMeasurementHistoryLength(uint256 _challengeId, address _participant) external view returns (uint256) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        return $.challengeToMeasurementHistory[_challengeId][_participant].length;
+    }
+
+    /**
+     * @notice Gets a page of the measurements submitted for a participant in a challenge, oldest first
+     * @param _offset The index of the first submission to return
+     * @param _limit The maximum number of submissions to return
+     */
+    function getMeasurementHistory(
+        uint256 _challengeId,
+        address _participant,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (MeasurementRecord[] memory page) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        MeasurementRecord[] storage history = $.challengeToMeasurementHistory[_challengeId][_participant];
+        if (_offset >= history.length) return page;
+
+        // compared against what is left rather than added to the offset, so a limit of type(uint256).max means all of them
+        uint256 end = _limit > history.length - _offset ? history.length : _offset + _limit;
+        page = new MeasurementRecord[](end - _offset);
+        for (uint256 i = _offset; i < end; ) {
+            page[i - _offset] = history[i];
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    /**
+     * @notice Gets how far along a streak challenge is
+     * @return totalPeriods The number of periods in the challenge
+     * @return completedPeriods How many periods met every target so far
+     * @return missedPeriods How many periods have ended without meeting every target
+     */
+    function getStreakProgress(
+        uint256 _challengeId
+    ) external view returns (uint256 totalPeriods, uint256 completedPeriods, uint256 missedPeriods) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        uint256 periodLength = $.challengeToStreakPeriodLength[_challengeId];
+        if (periodLength == 0) return (0, 0, 0);
+
+        totalPeriods = challengeToChallengeLength[_challengeId] / periodLength;
+        completedPeriods = $.challengeToStreakPeriodsCompleted[_challengeId];
+        if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE) {
+            missedPeriods = _streakMissedPeriods(_challengeId);
+        }
+    }
+
+    /// @notice Gets how long a challenger has to start a challenge after creating it
+    function getChallengeStartWindow() external view returns (uint32) {
+        return _challengeStartWindow();
+    }
+
+    /// @notice Gets how long bettors have to dispute a proposed outcome, 0 if challenges are settled straight away
+    function getDisputeWindow() external view returns (uint32) {
+        return _getChallengeStorage().disputeWindowInSeconds;
+    }
+
+    /// @notice Gets the bond a dispute has to post, in basis points of the challenge's total pot
+    function getDisputeBond() external view returns (uint16) {
+        return _getChallengeStorage().disputeBondBps;
+    }
+
+    /// @notice Gets how many bettors each distributeWinnings call pays out
+    function getDistributionBatchSize() external view returns (uint16) {
+        return _distributionBatchSize();
+    }
+
+    /// @notice Checks whether an address is an arbiter appointed to resolve disputed outcomes
+    function disputeArbiters(address _account) external view returns (bool) {
+        return _getChallengeStorage().disputeArbiters[_account];
+    }
+
+    /// @notice Gets the outcome proposed for a challenge with a dispute window, and the dispute against it if any
+    function challengeToOutcomeProposal(uint256 _challengeId) external view returns (OutcomeProposal memory) {
+        return _getChallengeStorage().challengeToOutcomeProposal[_challengeId];
+    }
+
+    /// @notice Gets how many started challenges are waiting to be settled, which upkeeps page through
+    function getOpenChallengeCount() external view returns (uint256) {
+        return _getChallengeStorage().openChallenges.length;
+    }
+
+    /// @notice Keys trusted to sign measurement attestations, e.g. the Fitbit ingestion backend
+    function measurementAttesters(address _account) external view returns (bool) {
+        return _getChallengeStorage().measurementAttesters[_account];
+    }
+
+    /// @notice Gets whether a challenge only accepts measurements signed by a trusted attester
+    function challengeToAttestationRequired(uint256 _challengeId) external view returns (bool) {
+        return _getChallengeStorage().challengeToAttestationRequired[_challengeId];
+    }
+
+    /// @notice Gets whether a challenge's outcome has been settled
+    function challengeToSettled(uint256 _challengeId) external view returns (bool) {
+        return _getChallengeStorage().challengeToSettled[_challengeId];
+    }
+
+    /// @notice Gets the payout a winner can still claim from a settled challenge
+    function challengeToClaimableWinnings(uint256 _challengeId, address _bettor) external view returns (uint256) {
+        (uint256 stake, uint256 share) = _pendingStakePayout(_challengeId, _bettor);
+        return _getChallengeStorage().challengeToClaimableWinnings[_challengeId][_bettor] + stake + share;
+    }
+
+    /// @notice Gets the time after which a challenge can no longer be started and its bettors can be refunded
+    function challengeToStartDeadline(uint256 _challengeId) external view returns (uint256) {
+        return _getChallengeStorage().challengeToStartDeadline[_challengeId];
+    }
+
+    /// @notice Gets whether any measurements were recorded for a challenge
+    function challengeToMeasurementsSubmitted(uint256 _challengeId) external view returns (bool) {
+        return _getChallengeStorage().challengeToMeasurementsSubmitted[_challengeId];
+    }
+
+    /// @notice Gets how many of a challenge's bettors distributeWinnings has paid out so far
+    function challengeToDistributionCursor(uint256 _challengeId) external view returns (uint256) {
+        return _getChallengeStorage().challengeToDistributionCursor[_challengeId];
+    }
+
+    /// @notice Gets whether distributeWinnings has paid out every one of a challenge's bettors
+    function challengeToWinningsDistributed(uint256 _challengeId) external view returns (bool) {
+        return _getChallengeStorage().challengeToWinningsDistributed[_challengeId];
+    }
+
+    /// @notice Gets the protocol fee taken when a challenge was settled, including rounding dust
+    function challengeToProtocolFee(uint256 _challengeId) external view returns (uint256) {
+        return _getChallengeStorage().challengeToProtocolFee[_challengeId];
+    }
+
+    /// @notice ERC-20 tokens the owner has allowlisted for betting, with the settings used to value bets
+    function betTokens(address _token) external view returns (bool allowed, uint8 decimals, AggregatorV3Interface priceFeed) {
+        BetToken storage betToken = _getChallengeStorage().betTokens[_token];
+        return (betToken.allowed, betToken.decimals, betToken.priceFeed);
+    }
+
+    /// @notice Gets the ERC-20 token a challenge is denominated in, the zero address meaning ETH
+    function challengeToBetToken(uint256 _challengeId) external view returns (address) {
+        return _getChallengeStorage().challengeToBetToken[_challengeId];
+    }
+
+    /// @notice Gets the length in seconds of each period of a streak challenge, 0 for challenges that are not streaks
+    function challengeToStreakPeriodLength(uint256 _challengeId) external view returns (uint256) {
+        return _getChallengeStorage().challengeToStreakPeriodLength[_challengeId];
+    }
+
+    /// @notice Gets how many periods of a streak challenge can be missed without losing it
+    function challengeToStreakAllowedMisses(uint256 _challengeId) external view returns (uint256) {
+        return _getChallengeStorage().challengeToStreakAllowedMisses[_challengeId];
+    }
+
+    /// @notice Gets whether the latest submission for a period of a streak challenge met every target
+    function challengeToStreakPeriodCompleted(uint256 _challengeId, uint256 _period) external view returns (bool) {
+        return _getChallengeStorage().challengeToStreakPeriodCompleted[_challengeId][_period];
+    }
+
+    /// @notice Gets how many periods of a streak challenge have been completed so far
+    function challengeToStreakPeriodsCompleted(uint256 _challengeId) external view returns (uint256) {
+        return _getChallengeStorage().challengeToStreakPeriodsCompleted[_challengeId];
+    }
+
+    /// @notice Checks whether an address is on the owner-curated list of beneficiaries for commitment challenges
+    function commitmentBeneficiaries(address _account) external view returns (bool) {
+        return _getChallengeStorage().commitmentBeneficiaries[_account];
+    }
+
+    /// @notice Gets the beneficiary a commitment challenge's stake goes to if it fails, the zero address for other challenges
+    function challengeToCommitmentBeneficiary(uint256 _challengeId) external view returns (address) {
+        return _getChallengeStorage().challengeToCommitmentBeneficiary[_challengeId];
+    }
+
+    /// @notice Gets the version of the most recently published allowlist root, 0 before any is published
+    function getLatestAllowlistVersion() external view returns (uint256) {
+        return _getChallengeStorage().latestAllowlistVersion;
+    }
+
+    /// @notice Gets a published allowlist Merkle root by its version
+    function allowlistRoots(uint256 _version) external view returns (bytes32) {
+        return _getChallengeStorage().allowlistRoots[_version];
+    }
+
+    /// @notice Checks whether an allowlist version has been revoked
+    function allowlistVersionRevoked(uint256 _version) external view returns (bool) {
+        return _getChallengeStorage().allowlistVersionRevoked[_version];
+    }
+
+    /// @notice Gets the allowlist version an address registered through, 0 for addresses whitelisted directly
+    function accountToAllowlistVersion(address _account) external view returns (uint256) {
+        return _getChallengeStorage().accountToAllowlistVersion[_account];
+    }
+
+    /// @notice Gets whether only a challenge's challenger and the addresses they invited can bet on or join it
+    function challengeToInviteOnly(uint256 _challengeId) external view returns (bool) {
+        return _getChallengeStorage().challengeToInviteOnly[_challengeId];
+    }
+
+    /// @notice Gets whether an address has been invited to an invite-only challenge, directly or with its invite code
+    function challengeToInvited(uint256 _challengeId, address _account) external view returns (bool) {
+        return _getChallengeStorage().challengeToInvited[_challengeId][_account];
+    }
+
+    /// @notice Gets the address derived from an invite-only challenge's invite code, the zero address if it has none
+    function challengeToInviteSigner(uint256 _challengeId) external view returns (address) {
+        return _getChallengeStorage().challengeToInviteSigner[_challengeId];
+    }
+
+    /**
+     * @notice Checks whether an address may bet on or join a challenge: it has to be a whitelisted bettor, and the
+     * challenger or invited if the challenge is invite-only. Whether the challenge still takes bets is not checked.
+     */
+    function canParticipateInChallenge(uint256 _challengeId, address _account) external view returns (bool) {
+        return bettorWhitelist[_account] && !_isRegistrationRevoked(_account) && _isInvited(_challengeId, _account);
+    }
+
+    // ============================ //
+    //      Interface Functions     //
+    // ============================ //
+
+    /**
+     * @inheritdoc IChallengeViews
+     */
+    function getChallengesForChallenger(
+        address challenger
+    ) external view returns (uint256[] memory) {
+        return challengerToChallenges[challenger];
+    }
+
+    /**
+     * @inheritdoc IChallengeViews
+     */
+    function getChallengeMetrics(
+        uint256 _challengeId
+    ) external view returns (uint8[] memory) {
+        return challengeToIncludedMetrics[_challengeId];
+    }
+
+    /**
+     * @inheritdoc IChallengeViews
+     */
+    function getChallengeMetricDirections(
+        uint256 _challengeId
+    ) external view override returns (uint8[] memory directions, uint256[] memory upperBounds) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        uint8[] memory metrics = challengeToIncludedMetrics[_challengeId];
+        directions = new uint8[](metrics.length);
+        upperBounds = new uint256[](metrics.length);
+        for (uint256 i = 0; i < metrics.length; ) {
+            directions[i] = $.challengeToMetricDirections[_challengeId][metrics[i]];
+            upperBounds[i] = $.challengeToMetricUpperBounds[_challengeId][metrics[i]];
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    // ============================ //
+    //      Contract Functions      //
+    // ============================ //
+
+    function getLatestPrice() public view returns (uint256) {
+        return _getValidatedPrice(dataFeed);
+    }
+}
@@ -2,6 +2,7 @@
 pragma solidity ^0.8.22;
 
 import "./Challenge.sol";
+import "./MultiplayerChallengeBase.sol";
 import "./interfaces/IMultiplayerChallenge.sol";
 
 /**
@@ -11,63 +12,13 @@ import "./interfaces/IMultiplayerChallenge.sol";
  * (up to the global maximum) and is automatically added as the first competitor. Competitors can join until the cap is reached.
  * When any competitor submits their measurements, their aggregated score is compared against the current leader's score
  * and the leader is updated if they have a higher score.
+ * @dev The implementation behind the proxy. Its fallback delegates the rest of the interface to the extensions it is
+ * deployed with: MultiplayerChallengeBetting, MultiplayerChallengeSettlement, ChallengeAdministration, ChallengeViews and
+ * MultiplayerChallengeExtension.
  */
-contract MultiplayerChallenge is Challenge, IMultiplayerChallenge {
-    /// @notice Contract-level maximum allowed competitors per challenge.
-    uint256 public maximumNumberOfChallengeCompetitors;
-
-    /// @notice Mapping from challenge ID to the maximum competitors allowed (chosen at creation).
-    mapping(uint256 => uint256) public challengeToMaxCompetitors;
-
-    /// @notice Mapping from challenge ID to list of competitor addresses.
-    mapping(uint256 => address[]) public challengeCompetitors;
-
-    /// @notice Mapping from challenge ID to a competitor's participation flag.
-    mapping(uint256 => mapping(address => bool)) public challengeHasCompetitor;
-
-    /// @notice Mapping from challenge ID to the current leader's address.
-    mapping(uint256 => address) public challengeLeader;
-
-    /// @notice Mapping from challenge ID to the current leader's score.
-    mapping(uint256 => mapping(address => uint256))
-        public challengeToCompetitorMeasurements;
-
-    // ============================ //
-    //           Errors             //
-    // ============================ //
-
-    /// @dev Error thrown when a caller attempts to start a challenge with less than 2 competitors.
-    error NotEnoughCompetitors();
-
-    /// @dev Error thrown when a caller attempts to start a challenge with more competitors than the global maximum.
-    error ExceedsGlobalMaxCompetitors();
-
-    /// @dev Error thrown when a caller attempts to join a challenge that is not active.
-    error ChallengeCompetitorNotJoined(uint256 challengeId, address competitor);
-
-    /// @dev Error when a challenger leaves a challenge with only one competitor
-    error ChallengeHasOnlyOneCompetitor(uint256 challengeId);
-
-    /// @dev Error thrown when a caller attempts to join a challenge that is full.
-    error ChallengeIsFull(uint256 challengeId);
-
-    /// @dev Error thrown when a caller attempts to join a challenge they have already joined.
-    error ChallengeCompetitorAlreadyJoined(uint256 challengeId);
-
-    /// @dev Error thrown when a caller attempts to submit an invalid number of measurements.
-    error InvalidNumberOfMeasurements();
-
-    /**
-     * @notice Sets the global maximum number of competitors allowed per challenge.
-     * @param _maxNum The new maximum number.
-     */
-    function setMaximumNumberOfChallengeCompetitors(
-        uint256 _maxNum
-    ) external override onlyOwner whenNotPaused {
-        uint256 oldValue = maximumNumberOfChallengeCompetitors;
-        maximumNumberOfChallengeCompetitors = _maxNum;
-        emit MaximumNumberOfChallengeCompetitorsUpdated(oldValue, _maxNum);
-    }
+contract MultiplayerChallenge is IMultiplayerChallenge, Challenge, MultiplayerChallengeBase {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address _extension) Challenge(_extension) {}
 
     // ============================ //
     //         Initializer          //
@@ -79,7 +30,8 @@ contract MultiplayerChallenge is Challenge, IMultiplayerChallenge {
         uint32 _maximumNumberOfBettorsPerChallenge,
         uint32 _maximumChallengeLengthInSeconds,
         uint8 _maximumNumberOfChallengeMetrics
-    ) external initializer {
+    ) external {
+        // initialize can only run once, so neither can this
         super.initialize(
             _minimumBetValue,
             _dataFeedAddress,
@@ -91,138 +43,9 @@ contract MultiplayerChallenge is Challenge, IMultiplayerChallenge {
         maximumNumberOfChallengeCompetitors = _maximumNumberOfChallengeCompetitors;
     }
 
-    /**
-     * @notice Creates a new multiplayer challenge.
-     * The creator selects the challenge length, metrics, target measurements, and the maximum number of competitors allowed.
-     * The creator is automatically added as the first competitor and set as the initial leader with a score of 0.
-     * @param _lengthOfChallenge The challenge duration in seconds.
-     * @param _challengeMetric The metric for the challenge, there can only be one due to potential differences and weights of values.
-     * @param _maxCompetitors The maximum number of competitors for this challenge.
-     * @return challengeId The newly created challenge's ID.
-     */
-    function createMultiplayerChallenge(
-        uint256 _lengthOfChallenge,
-        uint8 _challengeMetric,
-        uint256 _maxCompetitors
-    )
-        external
-        payable
-        override
-        onlyChallengers(msg.sender)
-        whenNotPaused
-        returns (uint256)
-    {
-        if (_maxCompetitors <= 1) {
-            revert NotEnoughCompetitors();
-        }
-        if (_maxCompetitors > maximumNumberOfChallengeCompetitors) {
-            revert ExceedsGlobalMaxCompetitors();
-        }
-        uint8[] memory challengeMetrics = new uint8[](1);
-        challengeMetrics[0] = _challengeMetric;
-        // the target in multiplayer challenges is not used, so we can set it to 0
-        uint256 placeholderTargetMeasurement = 0;
-        uint256[] memory targetMeasurements = new uint256[](1);
-        targetMeasurements[0] = placeholderTargetMeasurement;
-
-        uint256 challengeId = super.createChallenge(
-            _lengthOfChallenge,
-            challengeMetrics,
-            targetMeasurements
-        );
-        super.placeBet(challengeId, true);
-
-        challengeToMaxCompetitors[challengeId] = _maxCompetitors;
-
-        address challenger = msg.sender;
-        challengeCompetitors[challengeId].push(challenger);
-        challengeHasCompetitor[challengeId][challenger] = true;
-
-        challengeLeader[challengeId] = challenger;
-
-        return challengeId;
-    }
-
-    /**
-     * @notice Allows a user to join an existing challenge as a competitor.
-     * @param _challengeId The ID of the challenge.
-     */
-    function joinChallenge(
-        uint256 _challengeId
-    ) external payable override whenNotPaused {
-        // Ensure the challenge is still inactive (i.e. has not started yet).
-        super.placeBet(_challengeId, true);
-
-        if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE) {
-            revert ChallengeIsActive(_challengeId);
-        }
-        // Ensure there is room for more competitors.
-        if (
-            challengeCompetitors[_challengeId].length >=
-            challengeToMaxCompetitors[_challengeId]
-        ) {
-            revert ChallengeIsFull(_challengeId);
-        }
-        address caller = msg.sender;
-        // Ensure the caller has not already joined.
-        if (challengeHasCompetitor[_challengeId][caller]) {
-            revert ChallengeCompetitorAlreadyJoined(_challengeId);
-        }
-
-        challengeCompetitors[_challengeId].push(caller);
-        challengeHasCompetitor[_challengeId][caller] = true;
-
-        emit ChallengeCompetitorJoined(_challengeId, caller);
-    }
-
-    /**
-     * @notice Allows a user to join an existing challenge as a competitor.
-     * @param _challengeId The ID of the challenge.
-     */
-    function leaveChallenge(
-        uint256 _challengeId
-    ) external virtual override(IMultiplayerChallenge) whenNotPaused {
-        if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE) {
-            revert ChallengeIsActive(_challengeId);
-        }
-        if (challengeCompetitors[_challengeId].length == 1) {
-            revert ChallengeHasOnlyOneCompetitor(_challengeId);
-        }
-
-        address caller = msg.sender;
-        bool removed = false;
-        uint256 length = challengeCompetitors[_challengeId].length;
-        for (uint256 i = 0; i < length; i++) {
-            if (challengeCompetitors[_challengeId][i] == caller) {
-                if (i != length - 1) {
-                    address followingCompetitor = challengeCompetitors[
-                        _challengeId
-                    ][i + 1];
-                    challengeCompetitors[_challengeId][
-                        length - 1
-                    ] = challengeCompetitors[_challengeId][i];
-                    challengeCompetitors[_challengeId][i] = followingCompetitor;
-                }
-                challengeCompetitors[_challengeId].pop();
-
-                removed = true;
-                break;
-            }
-        }
-        if (!removed) {
-            revert ChallengeCompetitorNotJoined(_challengeId, caller);
-        }
-        challengeHasCompetitor[_challengeId][caller] = false;
-
-        emit ChallengeCompetitorLeft(_challengeId, caller);
-
-        // if the challenger leaves, we need to set the first competitor as the new challenger
-        if (challengeToChallenger[_challengeId] == caller) {
-            address newChallenger = challengeCompetitors[_challengeId][0];
-            challengeToChallenger[_challengeId] = newChallenger;
-            emit ChallengerChanged(_challengeId, caller, newChallenger);
-        }
-    }
+    // ============================ //
+    //      Interface Functions     //
+    // ============================ //
 
     /**
      * @inheritdoc IMultiplayerChallenge
@@ -239,110 +62,58 @@ contract MultiplayerChallenge is Challenge, IMultiplayerChallenge {
     {
         // Ensure the sender is a competitor in this challenge.
         address caller = msg.sender;
-        if (!challengeHasCompetitor[_challengeId][caller]) {
-            revert ChallengeCompetitorNotJoined(_challengeId, caller);
+        _checkMeasurementParticipant(_challengeId, caller);
+        if (_getChallengeStorage().challengeToAttestationRequired[_challengeId]) {
+            revert AttestationRequired(_challengeId);
         }
 
-        // For multiplayer, we only use the first measurement
-        if (_submittedMeasurements.length != 1) {
-            revert InvalidNumberOfMeasurements();
-        }
-
-        if (challengeToChallengeStatus[_challengeId] != STATUS_ACTIVE) {
-            revert ChallengeIsNotActive(
-                _challengeId,
-                challengeToChallengeStatus[_challengeId]
-            );
-        }
-
-        uint256 timestamp = block.timestamp;
-        if (
-            timestamp >=
-            (challengeToStartTime[_challengeId] +
-                challengeToChallengeLength[_challengeId])
-        ) {
-            challengeToChallengeStatus[_challengeId] = STATUS_EXPIRED;
-            revert ChallengeIsExpired(_challengeId);
-        }
-
-        challengeToCompetitorMeasurements[_challengeId][
-            caller
-        ] = _submittedMeasurements[0];
-        address incumbentLeader = challengeLeader[_challengeId];
-
-        if (
-            challengeToCompetitorMeasurements[_challengeId][incumbentLeader] <
-            _submittedMeasurements[0]
-        ) {
-            challengeLeader[_challengeId] = caller;
-            emit LeaderUpdated(_challengeId, caller, _submittedMeasurements[0]);
-        } else {
-            uint256 measurementToBeat = challengeToCompetitorMeasurements[
-                _challengeId
-            ][incumbentLeader];
-            emit LeaderNotUpdated(
-                _challengeId,
-                caller,
-                incumbentLeader,
-                measurementToBeat
-            );
-        }
+        _recordMeasurements(_challengeId, caller, _submittedMeasurements, challengeToStartTime[_challengeId], block.timestamp);
     }
 
     /**
-     * @inheritdoc IMultiplayerChallenge
+     * @notice Optionally override startChallenge if multiplayer-specific requirements are needed.
+     * Here we require that at least two competitors are present before starting.
+     * @param _challengeId The challenge ID.
      */
-    function distributeWinnings(
+    function startChallenge(
         uint256 _challengeId
     )
         public
-        virtual
-        override(Challenge, IMultiplayerChallenge)
-        onlyOwner
+        override(Challenge, IChallenge)
+        onlyChallengers(msg.sender)
         whenNotPaused
     {
-        if (address(vault) == address(0)) revert VaultNotSet();
-
-        uint256 timestamp = block.timestamp;
-        if (
-            timestamp <
-            (challengeToStartTime[_challengeId] +
-                challengeToChallengeLength[_challengeId])
-        ) {
+        if (challengeToChallenger[_challengeId] != msg.sender) {
+            revert ChallengeCanOnlyBeModifiedByChallenger(
+                _challengeId,
+                msg.sender,
+                challengeToChallenger[_challengeId]
+            );
+        }
+        if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE) {
             revert ChallengeIsActive(_challengeId);
         }
-        if (challengeToChallengeStatus[_challengeId] != STATUS_EXPIRED) {
-            challengeToChallengeStatus[_challengeId] = STATUS_EXPIRED;
+        _checkStartDeadline(_challengeId);
+        if (challengeCompetitors[_challengeId].length < 2) {
+            revert NotEnoughCompetitors();
         }
-
-        if (challengeToWinningsPaid[_challengeId] > 0)
-            revert WinningsAlreadyPaid(_challengeId);
-
-        address winner = challengeLeader[_challengeId];
-        uint256 totalWinnings = challengeToTotalAmountBetFor[_challengeId];
-        try vault.withdrawFunds(payable(winner), totalWinnings, false) {
-            challengeToWinningsPaid[_challengeId] = totalWinnings;
-            emit WinningsDistributed(_challengeId, winner, totalWinnings);
-        } catch {
-            // Log the failure but continue processing other bettors
-            emit WinningsDistributionFailed(
-                _challengeId,
-                winner,
-                totalWinnings
-            );
+        challengeToChallengeStatus[_challengeId] = STATUS_ACTIVE;
+        challengeToStartTime[_challengeId] = block.timestamp;
+        challengerToActiveChallenge[msg.sender] = _challengeId;
+        _trackOpenChallenge(_challengeId);
+        for (uint8 i = 0; i < challengeCompetitors[_challengeId].length; ) {
+            challengerToActiveChallenge[
+                challengeCompetitors[_challengeId][i]
+            ] = _challengeId;
+            unchecked {
+                i++;
+            }
         }
     }
 
-    /**
-     * @notice Returns the list of competitors for a given challenge.
-     * @param _challengeId The challenge ID.
-     * @return An array of competitor addresses.
-     */
-    function getCompetitors(
-        uint256 _challengeId
-    ) external view override returns (address[] memory) {
-        return challengeCompetitors[_challengeId];
-    }
+    // ============================ //
+    //         Getters              //
+    // ============================ //
 
     /**
      * @notice Returns the current leader's address for a challenge.
@@ -355,77 +126,85 @@ contract MultiplayerChallenge is Challenge, IMultiplayerChallenge {
         return challengeLeader[_challengeId];
     }
 
+    // ============================ //
+    //      Contract Functions      //
+    // ============================ //
+
     /**
-     * @notice Returns the current leader's score for a challenge.
-     * @param _challengeId The challenge ID.
-     * @return The leader's score.
+     * @dev Only competitors in the challenge can have measurements recorded.
      */
-    function getLeaderScore(
-        uint256 _challengeId
-    ) external view returns (uint256) {
-        address leader = challengeLeader[_challengeId];
-        return challengeToCompetitorMeasurements[_challengeId][leader];
+    function _checkMeasurementParticipant(
+        uint256 _challengeId,
+        address _participant
+    ) internal view virtual override {
+        if (!challengeHasCompetitor[_challengeId][_participant]) {
+            revert ChallengeCompetitorNotJoined(_challengeId, _participant);
+        }
     }
 
     /**
-     * @notice Gets a specific competitor's score
-     * @param _challengeId The challenge ID
-     * @param _competitor The competitor's address
-     * @return The competitor's score
+     * @dev Stores a competitor's single aggregated measurement and updates the leader if it beats the current leader's score.
      */
-    function getCompetitorScore(
+    function _recordMeasurements(
         uint256 _challengeId,
-        address _competitor
-    ) external view returns (uint256) {
-        if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE) {
-            revert ChallengeNotYetStarted(_challengeId);
+        address _participant,
+        uint256[] calldata _submittedMeasurements,
+        uint256 _windowStart,
+        uint256 _windowEnd
+    ) internal virtual override {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        // For multiplayer, we only use the first measurement
+        if (_submittedMeasurements.length != 1) {
+            revert InvalidNumberOfMeasurements();
         }
-        if (!challengeHasCompetitor[_challengeId][_competitor]) {
-            revert ChallengeCompetitorNotJoined(_challengeId, _competitor);
+
+        _checkChallengeIsOngoing(_challengeId);
+        _getChallengeStorage().challengeToMeasurementsSubmitted[_challengeId] = true;
+
+        uint256 previousMeasurement = challengeToCompetitorMeasurements[_challengeId][_participant];
+        bool hadSubmitted = $.challengeToCompetitorHasSubmitted[_challengeId][_participant];
+        challengeToCompetitorMeasurements[_challengeId][
+            _participant
+        ] = _submittedMeasurements[0];
+        $.challengeToCompetitorHasSubmitted[_challengeId][_participant] = true;
+        _appendMeasurementHistory(_challengeId, _participant, _submittedMeasurements, _windowStart, _windowEnd);
+
+        // in a team challenge only team scores are ranked, so there is no individual leader to update
+        uint256 teamIndex = $.challengeToCompetitorTeam[_challengeId][_participant];
+        if (teamIndex != 0) {
+            uint256 team = teamIndex - 1;
+            if (!hadSubmitted) {
+                $.challengeToTeamFinishers[_challengeId][team] += 1;
+            }
+            $.challengeToTeamTotal[_challengeId][team] =
+                $.challengeToTeamTotal[_challengeId][team] - previousMeasurement + _submittedMeasurements[0];
+            emit TeamScoreUpdated(_challengeId, team, _participant, _teamScore(_challengeId, team));
+            return;
         }
-        return challengeToCompetitorMeasurements[_challengeId][_competitor];
-    }
 
-    /**
-     * @notice Optionally override startChallenge if multiplayer-specific requirements are needed.
-     * Here we require that at least two competitors are present before starting.
-     * @param _challengeId The challenge ID.
-     */
-    function startChallenge(
-        uint256 _challengeId
-    )
-        public
-        override(Challenge, IChallenge)
-        onlyChallengers(msg.sender)
-        whenNotPaused
-    {
-        if (challengeToChallenger[_challengeId] != msg.sender) {
-            revert ChallengeCanOnlyBeModifiedByChallenger(
+        address incumbentLeader = challengeLeader[_challengeId];
+
+        if (
+            incumbentLeader != _participant &&
+            (!$.challengeToCompetitorHasSubmitted[_challengeId][incumbentLeader] ||
+                _isBetterScore(
+                    _challengeId,
+                    _submittedMeasurements[0],
+                    challengeToCompetitorMeasurements[_challengeId][incumbentLeader]
+                ))
+        ) {
+            challengeLeader[_challengeId] = _participant;
+            emit LeaderUpdated(_challengeId, _participant, _submittedMeasurements[0]);
+        } else {
+            uint256 measurementToBeat = challengeToCompetitorMeasurements[
+                _challengeId
+            ][incumbentLeader];
+            emit LeaderNotUpdated(
                 _challengeId,
-                msg.sender,
-                challengeToChallenger[_challengeId]
+                _participant,
+                incumbentLeader,
+                measurementToBeat
             );
         }
-        if (challengeCompetitors[_challengeId].length < 2) {
-            revert NotEnoughCompetitors();
-        }
-        challengeToChallengeStatus[_challengeId] = STATUS_ACTIVE;
-        challengeToStartTime[_challengeId] = block.timestamp;
-        challengerToActiveChallenge[msg.sender] = _challengeId;
-        for (uint8 i = 0; i < challengeCompetitors[_challengeId].length; ) {
-            challengerToActiveChallenge[
-                challengeCompetitors[_challengeId][i]
-            ] = _challengeId;
-            unchecked {
-                i++;
-            }
-        }
     }
-
-    /**
-     * @dev Authorizes contract upgrades.
-     */
-    function _authorizeUpgrade(
-        address newImplementation
-    ) internal override onlyOwner {}
 }
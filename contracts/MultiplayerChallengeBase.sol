@@ -0,0 +1,219 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "./ChallengeBase.sol";
+import "./interfaces/IMultiplayerChallengeBase.sol";
+
+/**
+ * @title MultiplayerChallenge base contract
+ * @author Branson Solutions LLC
+ * @notice The storage and internal logic MultiplayerChallenge and its extensions add to those of Challenge.
+ * @dev MultiplayerChallenge is split the same way as Challenge, and shares ChallengeAdministration and ChallengeViews with
+ * it. The state variables declared here follow Challenge's in deployed proxies, so they keep their original order, and
+ * state added since lives in the ERC-7201 namespaced MultiplayerChallengeStorage struct.
+ */
+abstract contract MultiplayerChallengeBase is IMultiplayerChallengeBase, ChallengeBase {
+    /// @notice Contract-level maximum allowed competitors per challenge.
+    uint256 public maximumNumberOfChallengeCompetitors;
+
+    /// @notice Mapping from challenge ID to the maximum competitors allowed (chosen at creation).
+    mapping(uint256 => uint256) public challengeToMaxCompetitors;
+
+    /// @notice Mapping from challenge ID to list of competitor addresses.
+    mapping(uint256 => address[]) public challengeCompetitors;
+
+    /// @notice Mapping from challenge ID to a competitor's participation flag.
+    mapping(uint256 => mapping(address => bool)) public challengeHasCompetitor;
+
+    /// @notice Mapping from challenge ID to the current leader's address.
+    mapping(uint256 => address) public challengeLeader;
+
+    /// @notice Mapping from challenge ID to the current leader's score.
+    mapping(uint256 => mapping(address => uint256))
+        public challengeToCompetitorMeasurements;
+
+    /// @dev Values for how members' scores roll up into their team's score.
+    uint8 constant TEAM_SCORE_TOTAL = 0;
+    uint8 constant TEAM_SCORE_AVERAGE = 1;
+
+    // ============================ //
+    //      Namespaced Storage      //
+    // ============================ //
+
+    /// @custom:storage-location erc7201:challenge.storage.MultiplayerChallenge
+    struct MultiplayerChallengeStorage {
+        // Mapping from challenge ID to whether a competitor has submitted a score, since an unsubmitted 0 must not lead a lower-is-better challenge.
+        mapping(uint256 => mapping(address => bool)) challengeToCompetitorHasSubmitted;
+
+        // Mapping from challenge ID to the share of the pot paid to each finishing position, in basis points, empty if the leader takes it all.
+        mapping(uint256 => uint16[]) challengeToPayoutScheduleBps;
+
+        // Mapping from challenge ID to the total staked by spectators, kept apart from the competitors' entry pot.
+        mapping(uint256 => uint256) challengeToSpectatorPool;
+
+        // Mapping from challenge ID to the total spectators staked on each competitor.
+        mapping(uint256 => mapping(address => uint256)) challengeToSpectatorStakeOnCompetitor;
+
+        // Mapping from challenge ID to what each spectator staked on each competitor, by spectator then competitor.
+        mapping(uint256 => mapping(address => mapping(address => uint256))) challengeToSpectatorBets;
+
+        // Mapping from challenge ID to whether an address has bet as a spectator, which keeps it from competing.
+        mapping(uint256 => mapping(address => bool)) challengeToIsSpectator;
+
+        // Mapping from challenge ID to whether spectator bets on a competitor were voided because the competitor left.
+        mapping(uint256 => mapping(address => bool)) challengeToSpectatorBetsVoided;
+
+        // Mapping from challenge ID to whether a competitor won the spectator pool, set at settlement.
+        mapping(uint256 => mapping(address => bool)) challengeToSpectatorWinner;
+
+        // Mapping from challenge ID to the total spectators staked on the winning competitors, set at settlement.
+        mapping(uint256 => uint256) challengeToSpectatorWinningStake;
+
+        // Mapping from challenge ID to the spectator pool left to split among winning spectators after the fee, set at settlement.
+        mapping(uint256 => uint256) challengeToSpectatorPayoutPool;
+
+        // Mapping from challenge ID to the winning spectator stakes claimed so far, so the last claim can settle the rounding dust.
+        mapping(uint256 => uint256) challengeToSpectatorClaimedStake;
+
+        // Mapping from challenge ID to the share of the spectator payout pool paid out to claims so far.
+        mapping(uint256 => uint256) challengeToSpectatorPaidOut;
+
+        // Mapping from challenge ID to the member cap of each team, empty unless it is a team challenge.
+        mapping(uint256 => uint256[]) challengeToTeamCaps;
+
+        // Mapping from challenge ID to how members' scores roll up into a team score: TEAM_SCORE_TOTAL or TEAM_SCORE_AVERAGE.
+        mapping(uint256 => uint8) challengeToTeamAggregation;
+
+        // Mapping from challenge ID to each competitor's team index plus one, 0 for competitors not on a team.
+        mapping(uint256 => mapping(address => uint256)) challengeToCompetitorTeam;
+
+        // Mapping from challenge ID to the number of members of each team.
+        mapping(uint256 => mapping(uint256 => uint256)) challengeToTeamSize;
+
+        // Mapping from challenge ID to the sum of each team's members' latest scores.
+        mapping(uint256 => mapping(uint256 => uint256)) challengeToTeamTotal;
+
+        // Mapping from challenge ID to how many members of each team have submitted a score, since a team nobody scored for cannot win.
+        mapping(uint256 => mapping(uint256 => uint256)) challengeToTeamFinishers;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("challenge.storage.MultiplayerChallenge")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant MULTIPLAYER_CHALLENGE_STORAGE_LOCATION =
+        0xa5bd2f5940b5e3794e67928e4998b403c22860ffe258548c6bb5cd5057062100;
+
+    function _getMultiplayerChallengeStorage() internal pure returns (MultiplayerChallengeStorage storage $) {
+        assembly {
+            $.slot := MULTIPLAYER_CHALLENGE_STORAGE_LOCATION
+        }
+    }
+
+    // ============================ //
+    //      Contract Functions      //
+    // ============================ //
+
+    /**
+     * @dev Returns a team's score: its members' total, or the total divided by the number of members who have submitted,
+     * rounded down, so members who stay silent cannot pull a lower-is-better average down.
+     */
+    function _teamScore(uint256 _challengeId, uint256 _team) internal view returns (uint256) {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        uint256 total = $.challengeToTeamTotal[_challengeId][_team];
+        if ($.challengeToTeamAggregation[_challengeId] == TEAM_SCORE_TOTAL) return total;
+
+        uint256 finishers = $.challengeToTeamFinishers[_challengeId][_team];
+        return finishers == 0 ? 0 : total / finishers;
+    }
+
+    /**
+     * @dev Returns the competitors ordered from best to worst score, with those who never submitted after the finishers in
+     * the order they joined. Competitors with equal scores keep the order they joined in.
+     */
+    function _rankCompetitors(
+        uint256 _challengeId
+    ) internal view returns (address[] memory ranked, uint256 finishers) {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        address[] memory competitors = challengeCompetitors[_challengeId];
+        ranked = new address[](competitors.length);
+
+        for (uint256 i = 0; i < competitors.length; i++) {
+            if ($.challengeToCompetitorHasSubmitted[_challengeId][competitors[i]]) {
+                ranked[finishers++] = competitors[i];
+            }
+        }
+        uint256 unranked = finishers;
+        for (uint256 i = 0; i < competitors.length; i++) {
+            if (!$.challengeToCompetitorHasSubmitted[_challengeId][competitors[i]]) {
+                ranked[unranked++] = competitors[i];
+            }
+        }
+
+        // insertion sort, as the number of competitors is capped by maximumNumberOfChallengeCompetitors
+        for (uint256 i = 1; i < finishers; i++) {
+            address competitor = ranked[i];
+            uint256 score = challengeToCompetitorMeasurements[_challengeId][competitor];
+            uint256 j = i;
+            while (
+                j > 0 &&
+                _isBetterScore(_challengeId, score, challengeToCompetitorMeasurements[_challengeId][ranked[j - 1]])
+            ) {
+                ranked[j] = ranked[j - 1];
+                j--;
+            }
+            ranked[j] = competitor;
+        }
+    }
+
+    /**
+     * @dev Returns the position after the last finisher tied with the finisher at `_position` in a ranking.
+     */
+    function _tieGroupEnd(
+        uint256 _challengeId,
+        address[] memory _ranked,
+        uint256 _position,
+        uint256 _finishers
+    ) internal view returns (uint256 groupEnd) {
+        uint256 score = challengeToCompetitorMeasurements[_challengeId][_ranked[_position]];
+        groupEnd = _position + 1;
+        while (
+            groupEnd < _finishers &&
+            !_isBetterScore(_challengeId, score, challengeToCompetitorMeasurements[_challengeId][_ranked[groupEnd]])
+        ) {
+            groupEnd++;
+        }
+    }
+
+    /**
+     * @dev Returns whether a score strictly beats another in the challenge's direction. In a range challenge the
+     * score closer to the range wins, and every score inside the range is equally good, so the incumbent keeps the lead.
+     */
+    function _isBetterScore(
+        uint256 _challengeId,
+        uint256 _score,
+        uint256 _scoreToBeat
+    ) internal view returns (bool) {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        uint8 metric = challengeToIncludedMetrics[_challengeId][0];
+        uint8 direction = $.challengeToMetricDirections[_challengeId][metric];
+
+        if (direction == DIRECTION_AT_MOST) return _score < _scoreToBeat;
+        if (direction == DIRECTION_WITHIN_RANGE) {
+            uint256 lowerBound = challengeToTargetMetricMeasurements[_challengeId][metric];
+            uint256 upperBound = $.challengeToMetricUpperBounds[_challengeId][metric];
+            return _distanceToRange(_score, lowerBound, upperBound) < _distanceToRange(_scoreToBeat, lowerBound, upperBound);
+        }
+        return _score > _scoreToBeat;
+    }
+
+    /**
+     * @dev Returns how far a score is outside an inclusive range, 0 if it is inside.
+     */
+    function _distanceToRange(
+        uint256 _score,
+        uint256 _lowerBound,
+        uint256 _upperBound
+    ) internal pure returns (uint256) {
+        if (_score < _lowerBound) return _lowerBound - _score;
+        if (_score > _upperBound) return _score - _upperBound;
+        return 0;
+    }
+}
@@ -0,0 +1,511 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "./ChallengeBetting.sol";
+import "./MultiplayerChallengeBase.sol";
+import "./interfaces/IMultiplayerChallengeBetting.sol";
+
+/**
+ * @title MultiplayerChallenge betting extension
+ * @author Branson Solutions LLC
+ * @notice Creating multiplayer challenges, and joining and leaving them as a competitor.
+ * @dev Only reached through the fallback of the contract before it in the chain, so it always runs on the proxy's storage.
+ */
+contract MultiplayerChallengeBetting is IMultiplayerChallengeBetting, ChallengeBetting, MultiplayerChallengeBase {
+    constructor(address _extension) ChallengeBetting(_extension) {}
+
+    // ============================ //
+    //      Interface Functions     //
+    // ============================ //
+
+    /**
+     * @notice Creates a new multiplayer challenge.
+     * The creator selects the challenge length, metrics, target measurements, and the maximum number of competitors allowed.
+     * The creator is automatically added as the first competitor and set as the initial leader with a score of 0.
+     * @param _lengthOfChallenge The challenge duration in seconds.
+     * @param _challengeMetric The metric for the challenge, there can only be one due to potential differences and weights of values.
+     * @param _maxCompetitors The maximum number of competitors for this challenge.
+     * @return challengeId The newly created challenge's ID.
+     */
+    function createMultiplayerChallenge(
+        uint256 _lengthOfChallenge,
+        uint8 _challengeMetric,
+        uint256 _maxCompetitors
+    )
+        public
+        payable
+        override
+        onlyChallengers(msg.sender)
+        whenNotPaused
+        returns (uint256)
+    {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        uint256 challengeId = _createMultiplayerChallenge(
+            _lengthOfChallenge,
+            _challengeMetric,
+            _maxCompetitors,
+            $.metrics[_challengeMetric].defaultDirection,
+            0,
+            0
+        );
+        super.placeBet(challengeId, true);
+
+        return challengeId;
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeBetting
+     */
+    function createMultiplayerChallengeWithDirection(
+        uint256 _lengthOfChallenge,
+        uint8 _challengeMetric,
+        uint256 _maxCompetitors,
+        uint8 _metricDirection,
+        uint256 _lowerBound,
+        uint256 _upperBound
+    )
+        external
+        payable
+        override
+        onlyChallengers(msg.sender)
+        whenNotPaused
+        returns (uint256)
+    {
+        if (_metricDirection != DIRECTION_WITHIN_RANGE && _lowerBound != 0)
+            revert InvalidMetricRange(_lowerBound, _upperBound);
+
+        uint256 challengeId = _createMultiplayerChallenge(
+            _lengthOfChallenge,
+            _challengeMetric,
+            _maxCompetitors,
+            _metricDirection,
+            _lowerBound,
+            _upperBound
+        );
+        super.placeBet(challengeId, true);
+
+        return challengeId;
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeBetting
+     */
+    function createMultiplayerChallengeWithPayouts(
+        uint256 _lengthOfChallenge,
+        uint8 _challengeMetric,
+        uint256 _maxCompetitors,
+        uint16[] calldata _payoutScheduleBps
+    )
+        external
+        payable
+        override
+        onlyChallengers(msg.sender)
+        whenNotPaused
+        returns (uint256)
+    {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        if (_payoutScheduleBps.length == 0 || _payoutScheduleBps.length > _maxCompetitors) {
+            revert InvalidPayoutSchedule();
+        }
+        uint256 totalBps;
+        for (uint256 i = 0; i < _payoutScheduleBps.length; ) {
+            if (_payoutScheduleBps[i] == 0 || (i > 0 && _payoutScheduleBps[i] > _payoutScheduleBps[i - 1])) {
+                revert InvalidPayoutSchedule();
+            }
+            totalBps += _payoutScheduleBps[i];
+            unchecked {
+                i++;
+            }
+        }
+        if (totalBps != BPS_DENOMINATOR) {
+            revert InvalidPayoutSchedule();
+        }
+
+        uint256 challengeId = _createMultiplayerChallenge(
+            _lengthOfChallenge,
+            _challengeMetric,
+            _maxCompetitors,
+            _getChallengeStorage().metrics[_challengeMetric].defaultDirection,
+            0,
+            0
+        );
+        $.challengeToPayoutScheduleBps[challengeId] = _payoutScheduleBps;
+        emit PayoutScheduleSet(challengeId, _payoutScheduleBps);
+        super.placeBet(challengeId, true);
+
+        return challengeId;
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeBetting
+     */
+    function createTeamChallenge(
+        uint256 _lengthOfChallenge,
+        uint8 _challengeMetric,
+        uint256[] calldata _teamCaps,
+        uint8 _aggregation,
+        uint256 _creatorTeam
+    )
+        external
+        payable
+        override
+        onlyChallengers(msg.sender)
+        whenNotPaused
+        returns (uint256)
+    {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        if (_teamCaps.length < 2 || _aggregation > TEAM_SCORE_AVERAGE) {
+            revert InvalidTeamConfiguration();
+        }
+        // a silent member adds nothing to a total, which would only help a team when lower scores are better
+        if (
+            _aggregation == TEAM_SCORE_TOTAL &&
+            _getChallengeStorage().metrics[_challengeMetric].defaultDirection != DIRECTION_AT_LEAST
+        ) {
+            revert InvalidTeamConfiguration();
+        }
+        uint256 maxCompetitors;
+        for (uint256 i = 0; i < _teamCaps.length; i++) {
+            if (_teamCaps[i] == 0) {
+                revert InvalidTeamConfiguration();
+            }
+            maxCompetitors += _teamCaps[i];
+        }
+
+        uint256 challengeId = _createMultiplayerChallenge(
+            _lengthOfChallenge,
+            _challengeMetric,
+            maxCompetitors,
+            _getChallengeStorage().metrics[_challengeMetric].defaultDirection,
+            0,
+            0
+        );
+        $.challengeToTeamCaps[challengeId] = _teamCaps;
+        $.challengeToTeamAggregation[challengeId] = _aggregation;
+        emit TeamChallengeCreated(challengeId, _teamCaps, _aggregation);
+
+        super.placeBet(challengeId, true);
+        _addToTeam(challengeId, msg.sender, _creatorTeam);
+
+        return challengeId;
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeBetting
+     */
+    function createTokenMultiplayerChallenge(
+        uint256 _lengthOfChallenge,
+        uint8 _challengeMetric,
+        uint256 _maxCompetitors,
+        address _betToken,
+        uint256 _amount
+    )
+        external
+        override
+        onlyChallengers(msg.sender)
+        whenNotPaused
+        returns (uint256)
+    {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        uint256 challengeId = _createMultiplayerChallenge(
+            _lengthOfChallenge,
+            _challengeMetric,
+            _maxCompetitors,
+            $.metrics[_challengeMetric].defaultDirection,
+            0,
+            0
+        );
+        _setChallengeBetToken(challengeId, _betToken);
+        super.placeTokenBet(challengeId, true, _amount);
+
+        return challengeId;
+    }
+
+    /**
+     * @dev Creates the challenge and registers its creator as the first competitor and leader, without placing their stake.
+     * The lower bound is stored as the metric's target, which is otherwise unused in multiplayer challenges.
+     */
+    function _createMultiplayerChallenge(
+        uint256 _lengthOfChallenge,
+        uint8 _challengeMetric,
+        uint256 _maxCompetitors,
+        uint8 _metricDirection,
+        uint256 _lowerBound,
+        uint256 _upperBound
+    ) internal returns (uint256) {
+        if (_maxCompetitors <= 1) {
+            revert NotEnoughCompetitors();
+        }
+        if (_maxCompetitors > maximumNumberOfChallengeCompetitors) {
+            revert ExceedsGlobalMaxCompetitors();
+        }
+        uint8[] memory challengeMetrics = new uint8[](1);
+        challengeMetrics[0] = _challengeMetric;
+        uint256[] memory targetMeasurements = new uint256[](1);
+        targetMeasurements[0] = _lowerBound;
+        uint8[] memory metricDirections = new uint8[](1);
+        metricDirections[0] = _metricDirection;
+        uint256[] memory upperBounds = new uint256[](1);
+        upperBounds[0] = _upperBound;
+
+        uint256 challengeId = super.createChallengeWithDirections(
+            _lengthOfChallenge,
+            challengeMetrics,
+            targetMeasurements,
+            metricDirections,
+            upperBounds
+        );
+
+        challengeToMaxCompetitors[challengeId] = _maxCompetitors;
+
+        address challenger = msg.sender;
+        challengeCompetitors[challengeId].push(challenger);
+        challengeHasCompetitor[challengeId][challenger] = true;
+
+        challengeLeader[challengeId] = challenger;
+
+        return challengeId;
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeBetting
+     */
+    function createAttestedMultiplayerChallenge(
+        uint256 _lengthOfChallenge,
+        uint8 _challengeMetric,
+        uint256 _maxCompetitors
+    ) external payable override returns (uint256) {
+        uint256 challengeId = createMultiplayerChallenge(
+            _lengthOfChallenge,
+            _challengeMetric,
+            _maxCompetitors
+        );
+        _getChallengeStorage().challengeToAttestationRequired[challengeId] = true;
+        emit ChallengeRequiresAttestation(challengeId);
+
+        return challengeId;
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeBetting
+     */
+    function createInviteOnlyMultiplayerChallenge(
+        uint256 _lengthOfChallenge,
+        uint8 _challengeMetric,
+        uint256 _maxCompetitors,
+        address[] calldata _invitees,
+        address _inviteSigner
+    ) external payable override returns (uint256) {
+        uint256 challengeId = createMultiplayerChallenge(
+            _lengthOfChallenge,
+            _challengeMetric,
+            _maxCompetitors
+        );
+        _makeInviteOnly(challengeId, _invitees, _inviteSigner);
+
+        return challengeId;
+    }
+
+    /**
+     * @notice Allows a user to join an existing challenge as a competitor.
+     * @param _challengeId The ID of the challenge.
+     */
+    function joinChallenge(
+        uint256 _challengeId
+    ) external payable override whenNotPaused {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        if ($.challengeToTeamCaps[_challengeId].length > 0) {
+            revert TeamRequired(_challengeId);
+        }
+        // Ensure the challenge is still inactive (i.e. has not started yet).
+        super.placeBet(_challengeId, true);
+        _joinChallenge(_challengeId);
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeBetting
+     */
+    function joinTeam(
+        uint256 _challengeId,
+        uint256 _team
+    ) external payable override whenNotPaused {
+        super.placeBet(_challengeId, true);
+        _joinChallenge(_challengeId);
+        _addToTeam(_challengeId, msg.sender, _team);
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeBetting
+     */
+    function joinTokenChallenge(
+        uint256 _challengeId,
+        uint256 _amount
+    ) external override whenNotPaused {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        if ($.challengeToTeamCaps[_challengeId].length > 0) {
+            revert TeamRequired(_challengeId);
+        }
+        super.placeTokenBet(_challengeId, true, _amount);
+        _joinChallenge(_challengeId);
+    }
+
+    /**
+     * @dev Puts a competitor who just joined a team challenge on a team with room left.
+     */
+    function _addToTeam(uint256 _challengeId, address _competitor, uint256 _team) internal {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        uint256[] storage teamCaps = $.challengeToTeamCaps[_challengeId];
+        if (_team >= teamCaps.length) {
+            revert InvalidTeam(_challengeId, _team);
+        }
+        if ($.challengeToTeamSize[_challengeId][_team] >= teamCaps[_team]) {
+            revert TeamIsFull(_challengeId, _team);
+        }
+
+        $.challengeToTeamSize[_challengeId][_team] += 1;
+        $.challengeToCompetitorTeam[_challengeId][_competitor] = _team + 1;
+
+        emit TeamJoined(_challengeId, _team, _competitor);
+    }
+
+    /**
+     * @dev Adds the caller as a competitor once their stake has been placed.
+     */
+    function _joinChallenge(uint256 _challengeId) internal {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE) {
+            revert ChallengeIsActive(_challengeId);
+        }
+        // Ensure there is room for more competitors.
+        if (
+            challengeCompetitors[_challengeId].length >=
+            challengeToMaxCompetitors[_challengeId]
+        ) {
+            revert ChallengeIsFull(_challengeId);
+        }
+        address caller = msg.sender;
+        // Ensure the caller has not already joined.
+        if (challengeHasCompetitor[_challengeId][caller]) {
+            revert ChallengeCompetitorAlreadyJoined(_challengeId);
+        }
+        if ($.challengeToIsSpectator[_challengeId][caller]) {
+            revert SpectatorCannotCompete(_challengeId, caller);
+        }
+
+        challengeCompetitors[_challengeId].push(caller);
+        challengeHasCompetitor[_challengeId][caller] = true;
+
+        emit ChallengeCompetitorJoined(_challengeId, caller);
+    }
+
+    /**
+     * @notice Allows a user to join an existing challenge as a competitor.
+     * @param _challengeId The ID of the challenge.
+     */
+    function leaveChallenge(
+        uint256 _challengeId
+    ) external virtual override(IMultiplayerChallengeBetting) whenNotPaused {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE) {
+            revert ChallengeIsActive(_challengeId);
+        }
+        if (challengeCompetitors[_challengeId].length == 1) {
+            revert ChallengeHasOnlyOneCompetitor(_challengeId);
+        }
+
+        address caller = msg.sender;
+        bool removed = false;
+        uint256 length = challengeCompetitors[_challengeId].length;
+        for (uint256 i = 0; i < length; i++) {
+            if (challengeCompetitors[_challengeId][i] == caller) {
+                // everyone after the leaver moves up one slot, keeping the join order that ties and the challenger handover go by
+                for (uint256 j = i; j < length - 1; j++) {
+                    challengeCompetitors[_challengeId][j] = challengeCompetitors[_challengeId][j + 1];
+                }
+                challengeCompetitors[_challengeId].pop();
+
+                removed = true;
+                break;
+            }
+        }
+        if (!removed) {
+            revert ChallengeCompetitorNotJoined(_challengeId, caller);
+        }
+        challengeHasCompetitor[_challengeId][caller] = false;
+
+        // whoever backed the competitor can take their stake back, and it no longer counts towards the spectator pool
+        if (!$.challengeToSpectatorBetsVoided[_challengeId][caller]) {
+            $.challengeToSpectatorBetsVoided[_challengeId][caller] = true;
+            $.challengeToSpectatorPool[_challengeId] -= $.challengeToSpectatorStakeOnCompetitor[_challengeId][caller];
+            delete $.challengeToSpectatorStakeOnCompetitor[_challengeId][caller];
+        }
+
+        emit ChallengeCompetitorLeft(_challengeId, caller);
+
+        uint256 teamIndex = $.challengeToCompetitorTeam[_challengeId][caller];
+        if (teamIndex != 0) {
+            $.challengeToTeamSize[_challengeId][teamIndex - 1] -= 1;
+            delete $.challengeToCompetitorTeam[_challengeId][caller];
+            emit TeamLeft(_challengeId, teamIndex - 1, caller);
+        }
+
+        // if the challenger leaves, we need to set the first competitor as the new challenger
+        if (challengeToChallenger[_challengeId] == caller) {
+            address newChallenger = challengeCompetitors[_challengeId][0];
+            challengeToChallenger[_challengeId] = newChallenger;
+            emit ChallengerChanged(_challengeId, caller, newChallenger);
+        }
+    }
+
+    /**
+     * @notice Cancels a bet placed directly on a multiplayer challenge. Competitors cannot take their entry stake back
+     * while they stay in the challenge, so they have to leave it instead.
+     * @param _challengeId The ID of the challenge.
+     */
+    function cancelBet(uint256 _challengeId) public override {
+        _checkNotCompetitor(_challengeId);
+        super.cancelBet(_challengeId);
+    }
+
+    /**
+     * @notice Changes a bet placed directly on a multiplayer challenge. Competitors cannot change their entry stake.
+     * @param _challengeId The ID of the challenge.
+     * @param _bettingFor A boolean to indicate betting for (true) or against (false) the challenger.
+     * @param _newBetAmount The total amount the caller wants to have bet after the change.
+     */
+    function changeBet(uint256 _challengeId, bool _bettingFor, uint256 _newBetAmount) public payable override {
+        _checkNotCompetitor(_challengeId);
+        super.changeBet(_challengeId, _bettingFor, _newBetAmount);
+    }
+
+    // ============================ //
+    //      Contract Functions      //
+    // ============================ //
+
+    /**
+     * @dev Reverts if the caller competes in the challenge, since competing for the pot without an entry stake at risk
+     * would let them win the others' stakes for free.
+     */
+    function _checkNotCompetitor(uint256 _challengeId) internal view {
+        if (challengeHasCompetitor[_challengeId][msg.sender]) {
+            revert CompetitorCannotUpdateStake(_challengeId, msg.sender);
+        }
+    }
+
+    /**
+     * @dev The target of a multiplayer metric is only a placeholder unless it is the lower bound of a range, since competitors
+     * are ranked against each other, so only a range's bounds are checked against the metric's sane values.
+     */
+    function _checkMetricGoal(
+        uint8 _metric,
+        uint8 _direction,
+        uint256 _target,
+        uint256 _upperBound
+    ) internal view override {
+        if (_direction != DIRECTION_WITHIN_RANGE) {
+            _checkMetricEnabled(_metric);
+            return;
+        }
+        super._checkMetricGoal(_metric, _direction, _target, _upperBound);
+    }
+}
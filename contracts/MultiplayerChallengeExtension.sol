@@ -0,0 +1,364 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "./MultiplayerChallengeBase.sol";
+import "./interfaces/IMultiplayerChallengeExtension.sol";
+
+/**
+ * @title MultiplayerChallenge extension
+ * @author Branson Solutions LLC
+ * @notice The competitor limit, spectator betting and read access to the competitors, teams and standings of challenges.
+ * @dev The last contract in the chain behind MultiplayerChallenge, after the ChallengeViews it shares with Challenge.
+ */
+contract MultiplayerChallengeExtension is IMultiplayerChallengeExtension, MultiplayerChallengeBase {
+    constructor(address _extension) ChallengeBase(_extension) {}
+
+    // ============================ //
+    //         Setters              //
+    // ============================ //
+
+    /**
+     * @notice Sets the global maximum number of competitors allowed per challenge.
+     * @param _maxNum The new maximum number.
+     */
+    function setMaximumNumberOfChallengeCompetitors(
+        uint256 _maxNum
+    ) external override onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
+        uint256 oldValue = maximumNumberOfChallengeCompetitors;
+        maximumNumberOfChallengeCompetitors = _maxNum;
+        emit MaximumNumberOfChallengeCompetitorsUpdated(oldValue, _maxNum);
+    }
+
+    // ============================ //
+    //          Spectators          //
+    // ============================ //
+
+    /**
+     * @inheritdoc IMultiplayerChallengeExtension
+     */
+    function placeSpectatorBet(
+        uint256 _challengeId,
+        address _competitor
+    ) external payable override nonReentrant whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if ($.challengeToBetToken[_challengeId] != address(0))
+            revert ChallengeDenominationMismatch(_challengeId, $.challengeToBetToken[_challengeId]);
+
+        _placeSpectatorBet(_challengeId, _competitor, msg.value);
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeExtension
+     */
+    function placeTokenSpectatorBet(
+        uint256 _challengeId,
+        address _competitor,
+        uint256 _amount
+    ) external override nonReentrant whenNotPaused {
+        ChallengeStorage storage $ = _getChallengeStorage();
+        if ($.challengeToBetToken[_challengeId] == address(0))
+            revert ChallengeDenominationMismatch(_challengeId, address(0));
+
+        _placeSpectatorBet(_challengeId, _competitor, _amount);
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeExtension
+     */
+    function claimSpectatorWinnings(
+        uint256 _challengeId,
+        address _competitor
+    ) external override nonReentrant whenNotPaused {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        address caller = _msgSender();
+        uint256 stake = $.challengeToSpectatorBets[_challengeId][caller][_competitor];
+        if (
+            stake == 0 ||
+            !$.challengeToSpectatorWinner[_challengeId][_competitor] ||
+            $.challengeToSpectatorWinningStake[_challengeId] == 0 ||
+            $.challengeToSpectatorBetsVoided[_challengeId][_competitor]
+        ) revert NoWinningsToClaim(caller);
+
+        uint256 payoutPool = $.challengeToSpectatorPayoutPool[_challengeId];
+        uint256 winningStake = $.challengeToSpectatorWinningStake[_challengeId];
+        uint256 amount = (stake * payoutPool) / winningStake;
+        delete $.challengeToSpectatorBets[_challengeId][caller][_competitor];
+        $.challengeToSpectatorClaimedStake[_challengeId] += stake;
+        $.challengeToSpectatorPaidOut[_challengeId] += amount;
+        _withdrawStake(_challengeId, caller, amount);
+
+        // once every winning stake is claimed, the rounding dust left in the pool goes to the protocol like the entry pot's
+        if ($.challengeToSpectatorClaimedStake[_challengeId] == winningStake) {
+            _accrueProtocolFee(_challengeId, payoutPool - $.challengeToSpectatorPaidOut[_challengeId]);
+        }
+
+        emit SpectatorWinningsClaimed(_challengeId, caller, _competitor, amount);
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeExtension
+     */
+    function claimSpectatorRefund(
+        uint256 _challengeId,
+        address _competitor
+    ) external override nonReentrant whenNotPaused {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        if (
+            !$.challengeToSpectatorBetsVoided[_challengeId][_competitor] &&
+            challengeToChallengeStatus[_challengeId] != STATUS_CANCELLED
+        ) {
+            if (_getChallengeStorage().challengeToSettled[_challengeId]) {
+                if ($.challengeToSpectatorWinningStake[_challengeId] != 0) {
+                    revert SpectatorBetNotRefundable(_challengeId, _competitor);
+                }
+            } else {
+                _checkChallengeCanBeVoided(_challengeId);
+                _voidChallenge(_challengeId);
+            }
+        }
+
+        address caller = _msgSender();
+        uint256 stake = $.challengeToSpectatorBets[_challengeId][caller][_competitor];
+        if (stake == 0) revert NoWinningsToClaim(caller);
+
+        delete $.challengeToSpectatorBets[_challengeId][caller][_competitor];
+        _withdrawStake(_challengeId, caller, stake);
+
+        emit SpectatorBetRefunded(_challengeId, caller, _competitor, stake);
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeExtension
+     */
+    function getSpectatorOdds(
+        uint256 _challengeId
+    )
+        external
+        view
+        override
+        returns (address[] memory competitors, uint256[] memory stakes, uint256[] memory decimalOdds)
+    {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        competitors = challengeCompetitors[_challengeId];
+        stakes = new uint256[](competitors.length);
+        decimalOdds = new uint256[](competitors.length);
+        uint256 pool = $.challengeToSpectatorPool[_challengeId];
+
+        for (uint256 i = 0; i < competitors.length; i++) {
+            uint256 stake = $.challengeToSpectatorStakeOnCompetitor[_challengeId][competitors[i]];
+            stakes[i] = stake;
+            if (stake > 0) {
+                uint256 losingStakes = pool - stake;
+                decimalOdds[i] = ((pool - _calculateProtocolFee(losingStakes)) * 1e18) / stake;
+            }
+        }
+    }
+
+    /**
+     * @dev Records a spectator's stake on a competitor, adding to any earlier stake of theirs on the same competitor.
+     */
+    function _placeSpectatorBet(
+        uint256 _challengeId,
+        address _competitor,
+        uint256 _amount
+    ) internal checkBettingEligibility(_challengeId) betIsGreaterThanOrEqualToMinimumBetValue(_challengeId, _amount) {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        address caller = msg.sender;
+        if (challengeHasCompetitor[_challengeId][caller]) {
+            revert SpectatorCannotCompete(_challengeId, caller);
+        }
+        if (!_isInvited(_challengeId, caller)) {
+            revert NotInvitedToChallenge(_challengeId, caller);
+        }
+        if ($.challengeToSpectatorBetsVoided[_challengeId][_competitor]) {
+            revert SpectatorBetsVoided(_challengeId, _competitor);
+        }
+        if (!challengeHasCompetitor[_challengeId][_competitor]) {
+            revert ChallengeCompetitorNotJoined(_challengeId, _competitor);
+        }
+
+        _depositStake(_challengeId, caller, _amount);
+
+        $.challengeToSpectatorPool[_challengeId] += _amount;
+        $.challengeToSpectatorStakeOnCompetitor[_challengeId][_competitor] += _amount;
+        $.challengeToSpectatorBets[_challengeId][caller][_competitor] += _amount;
+        $.challengeToIsSpectator[_challengeId][caller] = true;
+
+        emit SpectatorBetPlaced(_challengeId, caller, _competitor, _amount);
+    }
+
+    // ============================ //
+    //         Getters              //
+    // ============================ //
+
+    /**
+     * @notice Returns the list of competitors for a given challenge.
+     * @param _challengeId The challenge ID.
+     * @return An array of competitor addresses.
+     */
+    function getCompetitors(
+        uint256 _challengeId
+    ) external view override returns (address[] memory) {
+        return challengeCompetitors[_challengeId];
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeExtension
+     */
+    function getStandings(
+        uint256 _challengeId
+    )
+        external
+        view
+        override
+        returns (address[] memory competitors, uint256[] memory scores, uint256 finishers)
+    {
+        (competitors, finishers) = _rankCompetitors(_challengeId);
+        scores = new uint256[](competitors.length);
+        for (uint256 i = 0; i < finishers; i++) {
+            scores[i] = challengeToCompetitorMeasurements[_challengeId][competitors[i]];
+        }
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeExtension
+     */
+    function getTeams(
+        uint256 _challengeId
+    )
+        external
+        view
+        override
+        returns (uint256[] memory caps, uint256[] memory sizes, uint256[] memory scores)
+    {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        caps = $.challengeToTeamCaps[_challengeId];
+        sizes = new uint256[](caps.length);
+        scores = new uint256[](caps.length);
+        for (uint256 team = 0; team < caps.length; team++) {
+            sizes[team] = $.challengeToTeamSize[_challengeId][team];
+            scores[team] = _teamScore(_challengeId, team);
+        }
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeExtension
+     */
+    function getCompetitorTeam(
+        uint256 _challengeId,
+        address _competitor
+    ) external view override returns (uint256) {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        uint256 teamIndex = $.challengeToCompetitorTeam[_challengeId][_competitor];
+        if (teamIndex == 0) {
+            revert ChallengeCompetitorNotJoined(_challengeId, _competitor);
+        }
+        return teamIndex - 1;
+    }
+
+    /**
+     * @inheritdoc IMultiplayerChallengeExtension
+     */
+    function getPayoutSchedule(
+        uint256 _challengeId
+    ) external view override returns (uint16[] memory) {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        return $.challengeToPayoutScheduleBps[_challengeId];
+    }
+
+    /**
+     * @notice Returns the current leader's score for a challenge.
+     * @param _challengeId The challenge ID.
+     * @return The leader's score.
+     */
+    function getLeaderScore(
+        uint256 _challengeId
+    ) external view returns (uint256) {
+        address leader = challengeLeader[_challengeId];
+        return challengeToCompetitorMeasurements[_challengeId][leader];
+    }
+
+    /**
+     * @notice Gets a specific competitor's score
+     * @param _challengeId The challenge ID
+     * @param _competitor The competitor's address
+     * @return The competitor's score
+     */
+    function getCompetitorScore(
+        uint256 _challengeId,
+        address _competitor
+    ) external view returns (uint256) {
+        if (challengeToChallengeStatus[_challengeId] != STATUS_INACTIVE) {
+            revert ChallengeNotYetStarted(_challengeId);
+        }
+        if (!challengeHasCompetitor[_challengeId][_competitor]) {
+            revert ChallengeCompetitorNotJoined(_challengeId, _competitor);
+        }
+        return challengeToCompetitorMeasurements[_challengeId][_competitor];
+    }
+
+    /// @notice Gets, by challenge ID, whether a competitor has submitted a score, since an unsubmitted 0 must not lead a lower-is-better challenge.
+    function challengeToCompetitorHasSubmitted(uint256 _challengeId, address _competitor) external view returns (bool) {
+        return _getMultiplayerChallengeStorage().challengeToCompetitorHasSubmitted[_challengeId][_competitor];
+    }
+
+    /// @notice Gets, by challenge ID, the total staked by spectators, kept apart from the competitors' entry pot.
+    function challengeToSpectatorPool(uint256 _challengeId) external view returns (uint256) {
+        return _getMultiplayerChallengeStorage().challengeToSpectatorPool[_challengeId];
+    }
+
+    /// @notice Gets, by challenge ID, the total spectators staked on each competitor.
+    function challengeToSpectatorStakeOnCompetitor(uint256 _challengeId, address _competitor) external view returns (uint256) {
+        return _getMultiplayerChallengeStorage().challengeToSpectatorStakeOnCompetitor[_challengeId][_competitor];
+    }
+
+    /// @notice Gets, by challenge ID, what each spectator staked on each competitor, by spectator then competitor.
+    function challengeToSpectatorBets(uint256 _challengeId, address _spectator, address _competitor) external view returns (uint256) {
+        return _getMultiplayerChallengeStorage().challengeToSpectatorBets[_challengeId][_spectator][_competitor];
+    }
+
+    /// @notice Gets, by challenge ID, whether an address has bet as a spectator, which keeps it from competing.
+    function challengeToIsSpectator(uint256 _challengeId, address _account) external view returns (bool) {
+        return _getMultiplayerChallengeStorage().challengeToIsSpectator[_challengeId][_account];
+    }
+
+    /// @notice Gets, by challenge ID, whether spectator bets on a competitor were voided because the competitor left.
+    function challengeToSpectatorBetsVoided(uint256 _challengeId, address _competitor) external view returns (bool) {
+        return _getMultiplayerChallengeStorage().challengeToSpectatorBetsVoided[_challengeId][_competitor];
+    }
+
+    /// @notice Gets, by challenge ID, whether a competitor won the spectator pool, set at settlement.
+    function challengeToSpectatorWinner(uint256 _challengeId, address _competitor) external view returns (bool) {
+        return _getMultiplayerChallengeStorage().challengeToSpectatorWinner[_challengeId][_competitor];
+    }
+
+    /// @notice Gets, by challenge ID, the total spectators staked on the winning competitors, set at settlement.
+    function challengeToSpectatorWinningStake(uint256 _challengeId) external view returns (uint256) {
+        return _getMultiplayerChallengeStorage().challengeToSpectatorWinningStake[_challengeId];
+    }
+
+    /// @notice Gets, by challenge ID, the spectator pool left to split among winning spectators after the fee, set at settlement.
+    function challengeToSpectatorPayoutPool(uint256 _challengeId) external view returns (uint256) {
+        return _getMultiplayerChallengeStorage().challengeToSpectatorPayoutPool[_challengeId];
+    }
+
+    /// @notice Gets, by challenge ID, how members' scores roll up into a team score: TEAM_SCORE_TOTAL or TEAM_SCORE_AVERAGE.
+    function challengeToTeamAggregation(uint256 _challengeId) external view returns (uint8) {
+        return _getMultiplayerChallengeStorage().challengeToTeamAggregation[_challengeId];
+    }
+
+    /// @notice Gets, by challenge ID, the number of members of each team.
+    function challengeToTeamSize(uint256 _challengeId, uint256 _team) external view returns (uint256) {
+        return _getMultiplayerChallengeStorage().challengeToTeamSize[_challengeId][_team];
+    }
+
+    /// @notice Gets, by challenge ID, the sum of each team's members' latest scores.
+    function challengeToTeamTotal(uint256 _challengeId, uint256 _team) external view returns (uint256) {
+        return _getMultiplayerChallengeStorage().challengeToTeamTotal[_challengeId][_team];
+    }
+
+    /// @notice Gets, by challenge ID, how many members of each team have submitted a score, since a team nobody scored for cannot win.
+    function challengeToTeamFinishers(uint256 _challengeId, uint256 _team) external view returns (uint256) {
+        return _getMultiplayerChallengeStorage().challengeToTeamFinishers[_challengeId][_team];
+    }
+}
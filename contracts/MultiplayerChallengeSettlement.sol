@@ -0,0 +1,222 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "./ChallengeSettlement.sol";
+import "./MultiplayerChallengeBase.sol";
+
+/**
+ * @title MultiplayerChallenge settlement extension
+ * @author Branson Solutions LLC
+ * @notice Settling multiplayer challenges, paying out the leader, the paid finishers or the winning teams and the spectators.
+ * @dev Only reached through the fallback of the contract before it in the chain, so it always runs on the proxy's storage.
+ */
+contract MultiplayerChallengeSettlement is ChallengeSettlement, MultiplayerChallengeBase {
+    constructor(address _extension) ChallengeSettlement(_extension) {}
+
+    // ============================ //
+    //      Interface Functions     //
+    // ============================ //
+
+    /**
+     * @notice Calculates what a competitor would receive if they finish as the leader, after the current protocol fee.
+     * @dev The fee is only taken from the other competitors' stakes. With a payout schedule this assumes they finish first
+     * alone and every slot is filled, and since the other paid finishers' stakes are exempt from the fee too, it is a lower bound.
+     */
+    function previewNetPayout(
+        uint256 _challengeId,
+        address _bettor
+    ) public view virtual override returns (uint256) {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        uint256 stake = challengeToBetsFor[_challengeId][_bettor];
+        if (stake == 0) return 0;
+
+        uint256 totalWinnings = challengeToTotalAmountBetFor[_challengeId];
+        uint256 netPayout = totalWinnings - _calculateProtocolFee(totalWinnings - stake);
+        uint16[] memory payoutSchedule = $.challengeToPayoutScheduleBps[_challengeId];
+        if (payoutSchedule.length == 0) return netPayout;
+        return (netPayout * payoutSchedule[0]) / BPS_DENOMINATOR;
+    }
+
+    // ============================ //
+    //      Contract Functions      //
+    // ============================ //
+
+    /**
+     * @dev Multiplayer challenges are always settled straight away, since there is no single losing side to dispute the outcome.
+     */
+    function _isOutcomeDisputable(uint256) internal view virtual override returns (bool) {
+        return false;
+    }
+
+    /**
+     * @dev The leader at the end of the challenge is owed every competitor's stake, less the protocol fee
+     * taken from the other competitors' stakes.
+     */
+    function _recordWinnings(
+        uint256 _challengeId
+    ) internal virtual override returns (uint256 totalWinnings) {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        if ($.challengeToTeamCaps[_challengeId].length > 0) {
+            totalWinnings = _recordTeamWinnings(_challengeId);
+        } else if ($.challengeToPayoutScheduleBps[_challengeId].length > 0) {
+            totalWinnings = _recordScheduledWinnings(_challengeId);
+        } else {
+            address winner = challengeLeader[_challengeId];
+            totalWinnings = challengeToTotalAmountBetFor[_challengeId];
+            if (winner != address(0)) {
+                uint256 fee = _calculateProtocolFee(totalWinnings - challengeToBetsFor[_challengeId][winner]);
+                _addClaimableWinnings(_challengeId, winner, totalWinnings - fee);
+                _accrueProtocolFee(_challengeId, fee);
+            }
+        }
+
+        _settleSpectatorPool(_challengeId);
+    }
+
+    /**
+     * @dev Settles the spectator pool on the competitors who won the entry pot's top prize: the leader, or everyone tied for
+     * first place when the challenge has a payout schedule. Winning spectators split the pool in proportion to their stakes,
+     * less the protocol fee taken from the stakes on everyone else. If nobody backed a winner, every spectator is refunded.
+     * Claims round down, and the last one sends what is left of the pool to the protocol.
+     */
+    function _settleSpectatorPool(uint256 _challengeId) internal {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        uint256 pool = $.challengeToSpectatorPool[_challengeId];
+        if (pool == 0) return;
+
+        uint256 winningStake;
+        if ($.challengeToTeamCaps[_challengeId].length > 0) {
+            bool[] memory winningTeams = _winningTeams(_challengeId);
+            address[] memory competitors = challengeCompetitors[_challengeId];
+            for (uint256 i = 0; i < competitors.length; i++) {
+                if (winningTeams[$.challengeToCompetitorTeam[_challengeId][competitors[i]] - 1]) {
+                    $.challengeToSpectatorWinner[_challengeId][competitors[i]] = true;
+                    winningStake += $.challengeToSpectatorStakeOnCompetitor[_challengeId][competitors[i]];
+                }
+            }
+        } else if ($.challengeToPayoutScheduleBps[_challengeId].length == 0) {
+            address leader = challengeLeader[_challengeId];
+            $.challengeToSpectatorWinner[_challengeId][leader] = true;
+            winningStake = $.challengeToSpectatorStakeOnCompetitor[_challengeId][leader];
+        } else {
+            (address[] memory ranked, uint256 finishers) = _rankCompetitors(_challengeId);
+            uint256 firstPlaceEnd = _tieGroupEnd(_challengeId, ranked, 0, finishers);
+            for (uint256 i = 0; i < firstPlaceEnd; i++) {
+                $.challengeToSpectatorWinner[_challengeId][ranked[i]] = true;
+                winningStake += $.challengeToSpectatorStakeOnCompetitor[_challengeId][ranked[i]];
+            }
+        }
+        if (winningStake == 0) return;
+
+        uint256 fee = _calculateProtocolFee(pool - winningStake);
+        $.challengeToSpectatorWinningStake[_challengeId] = winningStake;
+        $.challengeToSpectatorPayoutPool[_challengeId] = pool - fee;
+        _accrueProtocolFee(_challengeId, fee);
+    }
+
+    /**
+     * @dev Splits the pot across the top finishers by the challenge's payout schedule. Competitors tied on a score split the
+     * slots they cover evenly, so a tie at the cutoff shares the last paid slot. When fewer competitors submitted than there
+     * are slots, the unfilled slots' shares go to the finishers in proportion to their own. The fee is only taken from the
+     * stakes of competitors who are not paid, and rounding dust goes to the protocol with it.
+     */
+    function _recordScheduledWinnings(
+        uint256 _challengeId
+    ) internal returns (uint256 totalWinnings) {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        uint16[] memory payoutSchedule = $.challengeToPayoutScheduleBps[_challengeId];
+        (address[] memory ranked, uint256 finishers) = _rankCompetitors(_challengeId);
+        totalWinnings = challengeToTotalAmountBetFor[_challengeId];
+
+        uint256 filledSlots = finishers < payoutSchedule.length ? finishers : payoutSchedule.length;
+        uint256 filledBps;
+        for (uint256 i = 0; i < filledSlots; i++) {
+            filledBps += payoutSchedule[i];
+        }
+
+        // a tie at the cutoff can pay competitors beyond the last slot, so find where the paid groups end first
+        uint256 paidStakes;
+        uint256 paidEnd;
+        while (paidEnd < filledSlots) {
+            uint256 groupEnd = _tieGroupEnd(_challengeId, ranked, paidEnd, finishers);
+            for (; paidEnd < groupEnd; paidEnd++) {
+                paidStakes += challengeToBetsFor[_challengeId][ranked[paidEnd]];
+            }
+        }
+
+        uint256 netWinnings = totalWinnings - _calculateProtocolFee(totalWinnings - paidStakes);
+        uint256 amountSplit;
+        uint256 position;
+        while (position < paidEnd) {
+            uint256 groupEnd = _tieGroupEnd(_challengeId, ranked, position, finishers);
+            uint256 groupBps;
+            for (uint256 slot = position; slot < groupEnd && slot < filledSlots; slot++) {
+                groupBps += payoutSchedule[slot];
+            }
+            uint256 share = (netWinnings * groupBps) / (filledBps * (groupEnd - position));
+            for (; position < groupEnd; position++) {
+                amountSplit += share;
+                _addClaimableWinnings(_challengeId, ranked[position], share);
+            }
+        }
+
+        _accrueProtocolFee(_challengeId, totalWinnings - amountSplit);
+    }
+
+    /**
+     * @dev Splits the pot among the members of the best scoring team pro rata to their stakes, or of every team tied for the
+     * best score. The fee is only taken from the stakes of members of the other teams, and rounding dust goes to the protocol with it.
+     */
+    function _recordTeamWinnings(
+        uint256 _challengeId
+    ) internal returns (uint256 totalWinnings) {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        bool[] memory winningTeams = _winningTeams(_challengeId);
+        address[] memory competitors = challengeCompetitors[_challengeId];
+        totalWinnings = challengeToTotalAmountBetFor[_challengeId];
+
+        uint256 winningStake;
+        for (uint256 i = 0; i < competitors.length; i++) {
+            if (winningTeams[$.challengeToCompetitorTeam[_challengeId][competitors[i]] - 1]) {
+                winningStake += challengeToBetsFor[_challengeId][competitors[i]];
+            }
+        }
+
+        uint256 netWinnings = totalWinnings - _calculateProtocolFee(totalWinnings - winningStake);
+        uint256 amountSplit;
+        for (uint256 i = 0; i < competitors.length; i++) {
+            if (winningTeams[$.challengeToCompetitorTeam[_challengeId][competitors[i]] - 1]) {
+                uint256 share = (netWinnings * challengeToBetsFor[_challengeId][competitors[i]]) / winningStake;
+                amountSplit += share;
+                _addClaimableWinnings(_challengeId, competitors[i], share);
+            }
+        }
+
+        _accrueProtocolFee(_challengeId, totalWinnings - amountSplit);
+    }
+
+    /**
+     * @dev Returns which teams have the best team score among the teams at least one member submitted a score for.
+     */
+    function _winningTeams(uint256 _challengeId) internal view returns (bool[] memory winningTeams) {
+        MultiplayerChallengeStorage storage $ = _getMultiplayerChallengeStorage();
+        uint256 teams = $.challengeToTeamCaps[_challengeId].length;
+        winningTeams = new bool[](teams);
+
+        bool found;
+        uint256 bestScore;
+        for (uint256 team = 0; team < teams; team++) {
+            if ($.challengeToTeamFinishers[_challengeId][team] == 0) continue;
+            uint256 score = _teamScore(_challengeId, team);
+            if (!found || _isBetterScore(_challengeId, score, bestScore)) {
+                found = true;
+                bestScore = score;
+            }
+        }
+        for (uint256 team = 0; team < teams; team++) {
+            winningTeams[team] =
+                $.challengeToTeamFinishers[_challengeId][team] != 0 &&
+                !_isBetterScore(_challengeId, bestScore, _teamScore(_challengeId, team));
+        }
+    }
+}
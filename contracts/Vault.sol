@@ -2,8 +2,10 @@
 pragma solidity ^0.8.22;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol"; 
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 
@@ -13,46 +15,154 @@ import "./interfaces/IChallenge.sol";
  * @title Vault
  * @notice An upgradeable vault for holding bets. It supports ETH deposits by default
  * and can optionally support an ERC-20 token once the owner sets its address.
+ * Several game contracts can share one vault. The owner keeps a registry of authorized consumers,
+ * and each consumer can only withdraw the funds it deposited itself.
+ * Protocol fees taken by consumers are moved into a treasury balance that only the default admin can withdraw.
+ * Besides ETH and the legacy bet token, consumers can hold any ERC-20 they accept bets in, tracked per token.
+ * Administration is split into roles, so the consumers and token can be managed without the key that upgrades the vault.
  */
 contract Vault is 
     IVault,
     UUPSUpgradeable, 
     OwnableUpgradeable, 
+    AccessControlUpgradeable,
     PausableUpgradeable, 
     ReentrancyGuardUpgradeable 
 {
+    using SafeERC20 for IERC20;
+
+    /// @notice The role that adds and removes consumers and sets the bet token.
+    bytes32 public constant PARAMETER_ADMIN_ROLE = keccak256("PARAMETER_ADMIN_ROLE");
+
+    /// @notice The role that upgrades the implementation behind the proxy.
+    bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
+
     /// @notice ERC-20 token used for bets. When unset (address(0)) only ETH bets are supported.
     IERC20 public token;
 
-    /// @notice The challenge contract that is using the vault.
+    /// @notice The challenge contract the vault was initialized with, which is also registered as its first consumer.
     IChallenge internal challengeContract;
 
+    /// @notice Contracts allowed to deposit into and withdraw from the vault.
+    mapping(address => bool) public authorizedConsumers;
+
+    /// @notice ETH held in the vault on behalf of each consumer.
+    mapping(address => uint256) public consumerToEthBalance;
+
+    /// @notice ERC-20 tokens held in the vault on behalf of each consumer.
+    mapping(address => uint256) public consumerToTokenBalance;
+
+    /// @notice ETH protocol fees accrued by all consumers, withdrawable by the default admin.
+    uint256 public treasuryEthBalance;
+
+    /// @notice ERC-20 protocol fees accrued by all consumers, withdrawable by the default admin.
+    uint256 public treasuryTokenBalance;
+
+    /// @notice ERC-20 balances held on behalf of each consumer, by consumer and then by token.
+    mapping(address => mapping(address => uint256)) public consumerToErc20Balance;
+
+    /// @notice ERC-20 protocol fees accrued by all consumers, by token, withdrawable by the default admin.
+    mapping(address => uint256) public treasuryErc20Balance;
+
     // ============================ //
     //           Errors             //
     // ============================ //
 
     error UnauthorizedCaller();
 
+    /// @dev Error thrown when an admin attempts to register the zero address as a consumer
+    error InvalidConsumer();
+
+    /// @dev Error thrown when an admin attempts to register a consumer that is already authorized
+    error ConsumerAlreadyAuthorized(address consumer);
+
+    /// @dev Error thrown when an admin attempts to remove a consumer that is not authorized
+    error ConsumerNotAuthorized(address consumer);
+
+    /// @dev Error thrown when a consumer attempts to withdraw more than it has deposited
+    error InsufficientConsumerBalance(address consumer, uint256 balance, uint256 amount);
+
+    /// @dev Error thrown when an admin attempts to withdraw more than the treasury holds
+    error InsufficientTreasuryBalance(uint256 balance, uint256 amount);
+
+    // ============================ //
+    //          Modifiers           //
+    // ============================ //
+
+    modifier onlyConsumers() {
+        if (!authorizedConsumers[msg.sender]) revert UnauthorizedCaller();
+        _;
+    }
+
     /**
      * @notice Initializes the vault.
-     * @dev The token remains unset (address(0)) so that bets default to ETH.
+     * @dev The token remains unset (address(0)) so that bets default to ETH. Leaves the proxy on the version of the
+     * latest migration so none of the migrations can run on it, and renounces the ownership, which only authorizes the
+     * migrations, so the roles are the only authority over the vault.
      */
-    function initialize(address _challengeContract) external initializer {
+    function initialize(address _challengeContract) external reinitializer(3) {
         __Ownable_init(msg.sender);
-        transferOwnership(msg.sender);
+        __AccessControl_init();
         __Pausable_init();
         __ReentrancyGuard_init();
         __UUPSUpgradeable_init();
+        _grantAdministrativeRoles(msg.sender);
+        _transferOwnership(address(0));
         
         challengeContract = IChallenge(_challengeContract);
+        _addConsumer(_challengeContract);
+    }
+
+    /**
+     * @notice Registers the challenge contract of a vault deployed before consumers existed as its first consumer,
+     * crediting it with the ETH and tokens the vault holds.
+     * @dev Can only be called by the owner, once, as part of the upgrade that introduces consumers.
+     * See _migrateFirstReleaseConsumer.
+     */
+    function initializeConsumers() external reinitializer(2) onlyOwner {
+        _migrateFirstReleaseConsumer();
+    }
+
+    /**
+     * @notice Makes the owner of a vault deployed before roles existed its default admin, grants it every role and
+     * renounces the ownership, so the roles are left as the only authority over the vault.
+     * @dev Can only be called by the owner, once, as part of the upgrade that introduces roles. Also does what
+     * initializeConsumers does, since this reinitializer skips its version on a vault still on the first release.
+     */
+    function initializeAccessControl() external reinitializer(3) onlyOwner {
+        __AccessControl_init();
+        _grantAdministrativeRoles(owner());
+        _transferOwnership(address(0));
+        _migrateFirstReleaseConsumer();
+    }
+
+    /**
+     * @notice Authorizes a contract to deposit into and withdraw from the vault.
+     * @dev Can only be called by an account with the parameter admin role.
+     * @param consumer The address of the game contract to authorize.
+     */
+    function addConsumer(address consumer) external onlyRole(PARAMETER_ADMIN_ROLE) {
+        _addConsumer(consumer);
+    }
+
+    /**
+     * @notice Revokes a contract's access to the vault.
+     * @dev Can only be called by an account with the parameter admin role. Funds deposited by the consumer stay
+     * attributed to it and become available again if it is re-authorized.
+     * @param consumer The address of the game contract to remove.
+     */
+    function removeConsumer(address consumer) external onlyRole(PARAMETER_ADMIN_ROLE) {
+        if (!authorizedConsumers[consumer]) revert ConsumerNotAuthorized(consumer);
+        authorizedConsumers[consumer] = false;
+        emit ConsumerRemoved(consumer);
     }
 
     /**
      * @notice Sets the ERC-20 token to be used for bets.
-     * @dev Can only be called by the owner. It can only be set once.
+     * @dev Can only be called by an account with the parameter admin role. It can only be set once.
      * @param tokenAddress The address of the ERC-20 token contract.
      */
-    function setTokenAddress(address tokenAddress) external onlyOwner {
+    function setTokenAddress(address tokenAddress) external onlyRole(PARAMETER_ADMIN_ROLE) {
         require(address(token) == address(0), "Token already set");
         require(tokenAddress != address(0), "Token address cannot be zero");
         token = IERC20(tokenAddress);
@@ -62,8 +172,9 @@ contract Vault is
     /**
      * @notice Deposit ETH into the vault.
      */
-    function depositETH() external payable nonReentrant whenNotPaused {
+    function depositETH() external payable nonReentrant whenNotPaused onlyConsumers {
         require(msg.value > 0, "Must send ETH");
+        consumerToEthBalance[msg.sender] += msg.value;
         emit Deposited(msg.sender, msg.value, false);
     }
 
@@ -73,34 +184,38 @@ contract Vault is
      * The sender must have approved the vault to transfer tokens.
      * @param amount The amount of tokens to deposit.
      */
-    function depositToken(uint256 amount) external nonReentrant whenNotPaused {
+    function depositToken(uint256 amount) external nonReentrant whenNotPaused onlyConsumers {
         require(address(token) != address(0), "Token not set");
         require(amount > 0, "Amount must be > 0");
         bool success = token.transferFrom(msg.sender, address(this), amount);
         require(success, "Token transfer failed");
+        consumerToTokenBalance[msg.sender] += amount;
         emit Deposited(msg.sender, amount, true);
     }
 
     /**
      * @notice Withdraw funds from the vault.
-     * @dev Only callable by the owner (e.g. from your Challenge contract logic).
+     * @dev Only callable by an authorized consumer, and only up to the amount that consumer has deposited.
      * @param recipient The address to receive the funds.
      * @param amount The amount to withdraw.
      * @param isToken If true, withdraw tokens; otherwise, withdraw ETH.
      */
-    function withdrawFunds(address payable recipient, uint256 amount, bool isToken) external nonReentrant whenNotPaused {
-        if (msg.sender != address(challengeContract)) {
-            revert UnauthorizedCaller();
-        }
+    function withdrawFunds(address payable recipient, uint256 amount, bool isToken) external nonReentrant whenNotPaused onlyConsumers {
         require(recipient != address(0), "Recipient cannot be zero");
         require(amount > 0, "Amount must be > 0");
+        uint256 consumerBalance = isToken ? consumerToTokenBalance[msg.sender] : consumerToEthBalance[msg.sender];
+        if (amount > consumerBalance) {
+            revert InsufficientConsumerBalance(msg.sender, consumerBalance, amount);
+        }
         if (isToken) {
             require(address(token) != address(0), "Token not set");
+            consumerToTokenBalance[msg.sender] = consumerBalance - amount;
             uint256 tokenBalance = token.balanceOf(address(this));
             require(amount <= tokenBalance, "Insufficient token balance");
             bool success = token.transfer(recipient, amount);
             require(success, "Token transfer failed");
         } else {
+            consumerToEthBalance[msg.sender] = consumerBalance - amount;
             uint256 ethBalance = address(this).balance;
             require(amount <= ethBalance, "Insufficient ETH balance");
             (bool success, ) = recipient.call{value: amount}("");
@@ -109,6 +224,122 @@ contract Vault is
         emit Withdrawn(recipient, amount, isToken);
     }
 
+    /**
+     * @notice Moves protocol fees out of the calling consumer's balance into the treasury.
+     * @dev Only callable by an authorized consumer, and only up to the amount that consumer has deposited.
+     * @param amount The amount of fees to accrue.
+     * @param isToken If true, the fees are in tokens; otherwise, they are in ETH.
+     */
+    function accrueFees(uint256 amount, bool isToken) external whenNotPaused onlyConsumers {
+        require(amount > 0, "Amount must be > 0");
+        uint256 consumerBalance = isToken ? consumerToTokenBalance[msg.sender] : consumerToEthBalance[msg.sender];
+        if (amount > consumerBalance) {
+            revert InsufficientConsumerBalance(msg.sender, consumerBalance, amount);
+        }
+        if (isToken) {
+            consumerToTokenBalance[msg.sender] = consumerBalance - amount;
+            treasuryTokenBalance += amount;
+        } else {
+            consumerToEthBalance[msg.sender] = consumerBalance - amount;
+            treasuryEthBalance += amount;
+        }
+        emit FeesAccrued(msg.sender, amount, isToken);
+    }
+
+    /**
+     * @notice Withdraws accrued protocol fees from the treasury.
+     * @dev Can only be called by the default admin.
+     * @param recipient The address to receive the fees.
+     * @param amount The amount to withdraw.
+     * @param isToken If true, withdraw tokens; otherwise, withdraw ETH.
+     */
+    function withdrawTreasury(address payable recipient, uint256 amount, bool isToken) external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(recipient != address(0), "Recipient cannot be zero");
+        require(amount > 0, "Amount must be > 0");
+        uint256 treasuryBalance = isToken ? treasuryTokenBalance : treasuryEthBalance;
+        if (amount > treasuryBalance) {
+            revert InsufficientTreasuryBalance(treasuryBalance, amount);
+        }
+        if (isToken) {
+            treasuryTokenBalance = treasuryBalance - amount;
+            bool success = token.transfer(recipient, amount);
+            require(success, "Token transfer failed");
+        } else {
+            treasuryEthBalance = treasuryBalance - amount;
+            (bool success, ) = recipient.call{value: amount}("");
+            require(success, "ETH transfer failed");
+        }
+        emit TreasuryWithdrawn(recipient, amount, isToken);
+    }
+
+    /**
+     * @notice Deposit any ERC-20 token into the vault on behalf of the calling consumer.
+     * @dev The consumer must have approved the vault to transfer the tokens.
+     * @param asset The address of the ERC-20 token.
+     * @param amount The amount of tokens to deposit.
+     */
+    function depositERC20(address asset, uint256 amount) external nonReentrant whenNotPaused onlyConsumers {
+        require(asset != address(0), "Token address cannot be zero");
+        require(amount > 0, "Amount must be > 0");
+        IERC20(asset).safeTransferFrom(msg.sender, address(this), amount);
+        consumerToErc20Balance[msg.sender][asset] += amount;
+        emit ERC20Deposited(msg.sender, asset, amount);
+    }
+
+    /**
+     * @notice Withdraw ERC-20 tokens deposited with depositERC20.
+     * @dev Only callable by an authorized consumer, and only up to the amount of the token that consumer has deposited.
+     * @param asset The address of the ERC-20 token.
+     * @param recipient The address to receive the tokens.
+     * @param amount The amount to withdraw.
+     */
+    function withdrawERC20(address asset, address recipient, uint256 amount) external nonReentrant whenNotPaused onlyConsumers {
+        require(recipient != address(0), "Recipient cannot be zero");
+        require(amount > 0, "Amount must be > 0");
+        uint256 consumerBalance = consumerToErc20Balance[msg.sender][asset];
+        if (amount > consumerBalance) {
+            revert InsufficientConsumerBalance(msg.sender, consumerBalance, amount);
+        }
+        consumerToErc20Balance[msg.sender][asset] = consumerBalance - amount;
+        IERC20(asset).safeTransfer(recipient, amount);
+        emit ERC20Withdrawn(recipient, asset, amount);
+    }
+
+    /**
+     * @notice Moves ERC-20 protocol fees out of the calling consumer's balance of that token into the treasury.
+     * @param asset The address of the ERC-20 token.
+     * @param amount The amount of fees to accrue.
+     */
+    function accrueERC20Fees(address asset, uint256 amount) external whenNotPaused onlyConsumers {
+        require(amount > 0, "Amount must be > 0");
+        uint256 consumerBalance = consumerToErc20Balance[msg.sender][asset];
+        if (amount > consumerBalance) {
+            revert InsufficientConsumerBalance(msg.sender, consumerBalance, amount);
+        }
+        consumerToErc20Balance[msg.sender][asset] = consumerBalance - amount;
+        treasuryErc20Balance[asset] += amount;
+        emit ERC20FeesAccrued(msg.sender, asset, amount);
+    }
+
+    /**
+     * @notice Withdraws accrued ERC-20 protocol fees from the treasury.
+     * @dev Can only be called by the default admin.
+     * @param asset The address of the ERC-20 token.
+     * @param recipient The address to receive the fees.
+     * @param amount The amount to withdraw.
+     */
+    function withdrawTreasuryERC20(address asset, address recipient, uint256 amount) external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(recipient != address(0), "Recipient cannot be zero");
+        require(amount > 0, "Amount must be > 0");
+        uint256 treasuryBalance = treasuryErc20Balance[asset];
+        if (amount > treasuryBalance) {
+            revert InsufficientTreasuryBalance(treasuryBalance, amount);
+        }
+        treasuryErc20Balance[asset] = treasuryBalance - amount;
+        IERC20(asset).safeTransfer(recipient, amount);
+        emit ERC20TreasuryWithdrawn(recipient, asset, amount);
+    }
+
     /**
      * @notice Returns the vault balance.
      * @param isToken If true, returns the token balance; otherwise, returns the ETH balance.
@@ -121,9 +352,56 @@ contract Vault is
         }
     }
 
+    /**
+     * @notice Returns the funds held in the vault on behalf of a consumer.
+     * @param consumer The address of the game contract.
+     * @param isToken If true, returns the token balance; otherwise, returns the ETH balance.
+     */
+    function getConsumerBalance(address consumer, bool isToken) external view returns (uint256) {
+        return isToken ? consumerToTokenBalance[consumer] : consumerToEthBalance[consumer];
+    }
+
+    /**
+     * @dev Registers a consumer. Shared by the initializers and addConsumer.
+     */
+    function _addConsumer(address consumer) internal {
+        if (consumer == address(0)) revert InvalidConsumer();
+        if (authorizedConsumers[consumer]) revert ConsumerAlreadyAuthorized(consumer);
+        authorizedConsumers[consumer] = true;
+        emit ConsumerAdded(consumer);
+    }
+
+    /**
+     * @dev Registers the challenge contract of a first release vault as a consumer and credits it with the ETH and tokens
+     * the vault holds. The first release tracked no balances and only let the challenge contract withdraw, so everything
+     * in the vault is its to withdraw. Vaults that already track their challenge contract are left as they are.
+     */
+    function _migrateFirstReleaseConsumer() internal {
+        address consumer = address(challengeContract);
+        if (
+            consumer == address(0) ||
+            authorizedConsumers[consumer] ||
+            consumerToEthBalance[consumer] != 0 ||
+            consumerToTokenBalance[consumer] != 0
+        ) return;
+
+        _addConsumer(consumer);
+        consumerToEthBalance[consumer] = address(this).balance;
+        if (address(token) != address(0)) consumerToTokenBalance[consumer] = token.balanceOf(address(this));
+    }
+
+    /**
+     * @dev Grants an account the default admin role, which grants and revokes the others, and every other role.
+     */
+    function _grantAdministrativeRoles(address account) internal {
+        _grantRole(DEFAULT_ADMIN_ROLE, account);
+        _grantRole(PARAMETER_ADMIN_ROLE, account);
+        _grantRole(UPGRADER_ROLE, account);
+    }
+
     /**
      * @dev Authorizes upgrades of the contract.
-     * Only the owner is allowed to upgrade.
+     * Only accounts with the upgrader role are allowed to upgrade.
      */
-    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(UPGRADER_ROLE) {}
 }
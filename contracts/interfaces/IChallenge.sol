@@ -1,118 +1,20 @@
 // SPDX-License-Identifier: Apache-2.0
 pragma solidity ^0.8.22;
 
+import "./IChallengeBase.sol";
+
 /**
  * @title Challenge contract interface
  * @author Branson Solutions LLC
  * @notice Interface for allowing users to start health challenges.
  */
-interface IChallenge {
-    /**
-     * @dev Emitted when the maximum number of bettors per challenge is set.
-     * @param oldValue The previous maximum number of bettors per challenge.
-     * @param newValue The new maximum number of bettors per challenge.
-     */
-    event MaximumNumberOfBettorsPerChallengeSet(uint256 oldValue, uint256 newValue);
-
-    /**
-     * @dev Emitted when the maximum challenge length is set.
-     * @param oldValue The previous maximum challenge length.
-     * @param newValue The new maximum challenge length.
-     */
-    event MaximumChallengeLengthSet(uint256 oldValue, uint256 newValue);
-    
-    /**
-     * @dev Emitted when the maximum number of challenge metrics is set.
-     * @param oldValue The previous maximum number of challenge metrics.
-     * @param newValue The new maximum number of challenge metrics.
-     */
-    event MaximumNumberOfChallengeMetricsSet(uint256 oldValue, uint256 newValue);
-
-    /**
-     * @dev Emitted when the minimum bet value is set.
-     * @param oldValue The previous minimum bet value.
-     * @param newValue The new minimum bet value.
-     */
-    event MinimumBetValueSet(uint256 oldValue, uint256 newValue);
-
-    /**
-     * @dev Emitted when a new challenger is allowed to create challenges.
-     * @param challenger The address of the eligible challenger.
-     */
-    event ChallengerJoined(address indexed challenger);
-
-    /**
-     * @dev Emitted when a new bettor is allowed to bet on challenges.
-     * @param bettor The address of the eligible bettor.
-     */
-    event BettorJoined(address indexed bettor);
-
-    /**
-     * @dev Emitted when a new challenger is blocked from creating challenges.
-     * @param challenger The address of the removed challenger.
-     */
-    event ChallengerRemoved(address indexed challenger);
-
-    /**
-     * @dev Emitted when a challenger creates a challenge.
-     * @param challenger The address of challenger who created the challenge.
-     * @param challengeId The ID of the challenge
-     * @param lengthOfChallenge The length of the challenge in seconds
-     * @param challengeMetrics The metrics of the challenge
-     * @param targetMeasurementsForEachMetric The target measurements for each metric
-     */
-    event ChallengeCreated(address indexed challenger, uint256 indexed challengeId, uint256 lengthOfChallenge, uint8[] challengeMetrics, uint256[] targetMeasurementsForEachMetric);
-
-    /**
-     * @dev Emitted when a challenger starts a challenge.
-     * @param challenger The address of challenger who created the challenge.
-     * @param challengeId The ID of the challenge
-     */
-    event ChallengeStarted(address indexed challenger, uint256 indexed challengeId);
-
-    /**
-     * @dev Emitted when a user makes a bet
-     * @param challengeId The challenge ID
-     * @param bettor The address that placed the bet
-     * @param bettingForChallenger true if the bet was placed in hopes that the challenger will win
-     * @param betAmount the amount of money bet for the challenger
-     */
-    event BetPlaced(uint256 challengeId, address bettor, bool bettingForChallenger, uint256 betAmount);
-
-    /**
-     * @dev Emitted when the gas used to distribute winnings is logged
-     * @param gasUsed The amount of gas used to distribute winnings
-     */
-    event GasUsed(address indexed bettor, uint256 gasUsed);
-
-    /**
-     * @dev Emitted when the winnings are distributed
-     * @param challengeId The challenge ID
-     * @param bettor The address that received the winnings
-     * @param share The amount of winnings received
-     */
-    event WinningsDistributed(uint256 challengeId, address bettor, uint256 share);
-
-    /**
-     * @dev Emitted when a winnings distribution fails for a particular bettor
-     * @param challengeId The challenge ID
-     * @param bettor The address that failed to receive winnings
-     * @param amount The amount of winnings that failed to be distributed
-     */
-    event WinningsDistributionFailed(uint256 indexed challengeId, address indexed bettor, uint256 amount);
-
-    /**
-    * @notice Retrieves all challenge IDs for a specific challenger.
-    * @param challenger The address of the challenger.
-    * @return An array of challenge IDs created by the challenger.
-    */
-    function getChallengesForChallenger(address challenger) external view returns (uint256[] memory);
-
+interface IChallenge is IChallengeBase {
     /**
      * @notice Whitelists an address to begin creating challenges.
      * @param _challenger The address that wants to start creating challenges.
      *
      * Requirements:
+     * - The caller has the whitelist manager role.
      * - The caller is not already on the challenger whitelist.
      */
     function addNewChallenger(address _challenger) external;
@@ -122,6 +24,7 @@ interface IChallenge {
      * @param _challenger The address that needs to be prevented from creating challenges.
      *
      * Requirements:
+     * - The caller has the whitelist manager role.
      * - The caller exists in the challenger whitelist.
      */
     function removeChallenger(address _challenger) external;
@@ -131,21 +34,25 @@ interface IChallenge {
      * @param _bettor The address that wants to start betting on challenges.
      *
      * Requirements:
+     * - The caller has the whitelist manager role.
      * - The caller is not already on the bettor whitelist.
      */
     function addNewBettor(address _bettor) external;
 
     /**
-     * @notice Updates the minimum USD value of a bet on a fitness challenge.
-     * @param _newMinimumValue The new minimum USD value of a bet for or against someone in a challenge.
+     * @notice Whitelists the caller with a proof that it is on a published allowlist, so it needs no transaction from a
+     * whitelist manager. An address registered this way loses its access if the allowlist version is revoked.
+     * @param _version The allowlist version the proof is for.
+     * @param _role The role the caller is listed with, 0 for a bettor or 1 for a challenger, who is also a bettor.
+     * @param _proof The Merkle proof of the caller's entry, as written by scripts/allowlist/buildAllowlist.ts.
      *
      * Requirements:
-     * - The caller owns the contract
-     * - The value is greater than 0
+     * - The allowlist version has been published and not revoked.
+     * - The proof places the caller and role in the version's tree.
+     * - The caller is not already on the whitelist of the role.
      */
-    function setMinimumBetValue(uint256 _newMinimumValue) external;
+    function registerWithAllowlistProof(uint256 _version, uint8 _role, bytes32[] calldata _proof) external;
 
-    
     /** 
      * @notice Provides the information necessary to start a challenge once requirements are met
      * @param _challengeId The ID of the challenge to start
@@ -157,41 +64,6 @@ interface IChallenge {
      */
     function startChallenge(uint256 _challengeId) external;
 
-    /** 
-     * @notice Place a bet for or against a challenge
-     * @param _challengeId The challenge on which you want to bet
-     * @param _bettingFor A boolean to indicate betting for (true) or against (false) the challenger
-     *
-     * Requirements:
-     * - The caller is on the bettor whitelist
-     * - The challenge on which the caller wants to bet exists and has not yet started
-     * - The maximum number of bettors per bet has not been reached
-     * - If the caller is the challenger, he is not betting against himself
-     * - The caller has not already placed a bet
-     */
-    function placeBet(uint256 _challengeId, bool _bettingFor) external payable;
-
-    /** 
-     * @notice Allows someone who has already bet to modify his existing bet
-     * @param _challengeId The challenge on which you want to bet
-     * @param _bettingFor A boolean to indicate betting for (true) or against (false) the challenger
-     *
-     * Requirements:
-     * - The caller is on the bettor whitelist
-     * - The challenge on which the caller wants to change his bet exists and has not yet started
-     * - If the caller is the challenger, he is not betting against himself
-     */
-    function changeBet(uint256 _challengeId, bool _bettingFor) external payable;
-
-    /**
-     * @notice Allows someone who has already bet to cancel their bet
-     * @param _challengeId The challenge on which you want to cancel your bet
-     *
-     * Requirements:
-     * - The caller is on the bettor whitelist 
-     */
-    function cancelBet(uint256 _challengeId) external payable;
-
      /** 
      * @notice Provides data to determine if a challenger has succeeded
      * @param _challengeId The challenge to which the measurements apply
@@ -205,8 +77,28 @@ interface IChallenge {
     function submitMeasurements(uint256 _challengeId, uint256[] calldata _submittedMeasurements) external;
 
     /**
-     * @notice Distributes the winnings for a challenge.
-     * @param _challengeId The ID of the challenge to distribute winnings for.
-     */
-    function distributeWinnings(uint256 _challengeId) external;
-}
\ No newline at end of file
+     * @notice Records measurements signed by a registered attester. Anyone can relay the attestation.
+     * @param _challengeId The challenge to which the measurements apply
+     * @param _participant The address whose measurements are being submitted
+     * @param _submittedMeasurements A value for each metric included in the challenge
+     * @param _windowStart The start timestamp of the data window the measurements cover
+     * @param _windowEnd The end timestamp of the data window the measurements cover
+     * @param _nonce The participant's current nonce, which is consumed to prevent replays
+     * @param _signature The attester's EIP-712 signature over the measurement attestation
+     *
+     * Requirements:
+     * - The participant is allowed to submit measurements for the challenge
+     * - The data window lies within the challenge period
+     * - The signature was produced by a registered attester
+     * - The nonce matches the participant's current nonce
+     */
+    function submitAttestedMeasurements(
+        uint256 _challengeId,
+        address _participant,
+        uint256[] calldata _submittedMeasurements,
+        uint256 _windowStart,
+        uint256 _windowEnd,
+        uint256 _nonce,
+        bytes calldata _signature
+    ) external;
+}
@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "./IChallengeBase.sol";
+
+/**
+ * @title Challenge administration interface
+ * @author Branson Solutions LLC
+ * @notice Interface for the parameters of health challenges, served by the ChallengeAdministration extension.
+ */
+interface IChallengeAdministration is IChallengeBase {
+    /**
+     * @notice Updates the minimum USD value of a bet on a fitness challenge.
+     * @param _newMinimumValue The new minimum USD value of a bet for or against someone in a challenge.
+     *
+     * Requirements:
+     * - The caller owns the contract
+     * - The value is greater than 0
+     */
+    function setMinimumBetValue(uint256 _newMinimumValue) external;
+
+    /**
+     * @notice Allowlists an ERC-20 token for betting, or updates or removes it.
+     * @param _token The address of the ERC-20 token.
+     * @param _allowed Whether new challenges can be denominated in the token.
+     * @param _priceFeed The token's USD price feed with 8 decimals, or the zero address to value it 1:1 with USD.
+     *
+     * Requirements:
+     * - The caller owns the contract
+     * - The token has at most 18 decimals
+     */
+    function setBetToken(address _token, bool _allowed, address _priceFeed) external;
+
+    /**
+     * @notice Registers a metric challenges can be created with, or updates an existing one.
+     * @param _metric The metric ID.
+     * @param _name The human-readable name of the metric.
+     * @param _unit The unit measurements of the metric are recorded in.
+     * @param _decimals The number of decimals measurements of the metric are scaled by.
+     * @param _defaultDirection How the metric is compared when no direction is given: 0 at least, 1 at most.
+     * @param _minimumValue The lowest target or bound challenges can set for the metric.
+     * @param _maximumValue The highest target or bound challenges can set for the metric.
+     * @param _enabled Whether new challenges can use the metric.
+     * @param _cumulative Whether a participant's submissions for the metric may never go down within a challenge.
+     *
+     * Requirements:
+     * - The caller owns the contract
+     * - The name is not empty and the minimum value is at most the maximum value
+     */
+    function setMetric(
+        uint8 _metric,
+        string calldata _name,
+        string calldata _unit,
+        uint8 _decimals,
+        uint8 _defaultDirection,
+        uint256 _minimumValue,
+        uint256 _maximumValue,
+        bool _enabled,
+        bool _cumulative
+    ) external;
+
+    /**
+     * @notice Enables or disables a registered metric for new challenges, leaving existing challenges untouched.
+     * @param _metric The metric ID.
+     * @param _enabled Whether new challenges can use the metric.
+     *
+     * Requirements:
+     * - The caller owns the contract
+     * - The metric is registered
+     */
+    function setMetricEnabled(uint8 _metric, bool _enabled) external;
+}
@@ -0,0 +1,696 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+/**
+ * @title Challenge base interface
+ * @author Branson Solutions LLC
+ * @notice The events and errors of the Challenge contract and its extensions.
+ */
+interface IChallengeBase {
+    /**
+     * @dev A health metric challenges can be created with, registered by the owner.
+     * @param name The human-readable name of the metric, empty while the metric is unregistered
+     * @param unit The unit measurements of the metric are recorded in
+     * @param decimals The number of decimals measurements of the metric are scaled by
+     * @param defaultDirection How the metric is compared against its target when a challenge gives no direction
+     * @param enabled Whether new challenges can use the metric
+     * @param cumulative Whether the metric is a running total, so a participant's submissions may never go down within a challenge
+     * @param minimumValue The lowest target or bound a challenge can set for the metric
+     * @param maximumValue The highest target or bound a challenge can set for the metric
+     */
+    struct Metric {
+        string name;
+        string unit;
+        uint8 decimals;
+        uint8 defaultDirection;
+        bool enabled;
+        bool cumulative;
+        uint256 minimumValue;
+        uint256 maximumValue;
+    }
+
+    /**
+     * @dev A set of measurements submitted for a participant, kept so progress can be audited and charted.
+     * @param timestamp The time the measurements were recorded on-chain
+     * @param windowStart The start of the period the measurements cover
+     * @param windowEnd The end of the period the measurements cover
+     * @param measurements A value for each metric included in the challenge, in the challenge's metric order
+     */
+    struct MeasurementRecord {
+        uint64 timestamp;
+        uint64 windowStart;
+        uint64 windowEnd;
+        uint256[] measurements;
+    }
+
+    /**
+     * @dev The outcome proposed when a challenge with a dispute window is settled, and the dispute against it if any.
+     * @param challengerWon Whether the challenger met their goal, overturned if a dispute is upheld
+     * @param disputeDeadline The last moment a bettor on the losing side can dispute the outcome, 0 if none was proposed
+     * @param disputer The bettor who disputed the outcome, the zero address while it is undisputed
+     * @param disputeUpheld Whether an arbiter upheld the dispute
+     * @param bond The bond the disputer posted, in the challenge's denomination
+     */
+    struct OutcomeProposal {
+        bool challengerWon;
+        uint64 disputeDeadline;
+        address disputer;
+        bool disputeUpheld;
+        uint256 bond;
+    }
+
+    /**
+     * @dev Emitted when the maximum number of bettors per challenge is set.
+     * @param oldValue The previous maximum number of bettors per challenge.
+     * @param newValue The new maximum number of bettors per challenge.
+     */
+    event MaximumNumberOfBettorsPerChallengeSet(uint256 oldValue, uint256 newValue);
+
+    /**
+     * @dev Emitted when the maximum challenge length is set.
+     * @param oldValue The previous maximum challenge length.
+     * @param newValue The new maximum challenge length.
+     */
+    event MaximumChallengeLengthSet(uint256 oldValue, uint256 newValue);
+    
+    /**
+     * @dev Emitted when the maximum number of challenge metrics is set.
+     * @param oldValue The previous maximum number of challenge metrics.
+     * @param newValue The new maximum number of challenge metrics.
+     */
+    event MaximumNumberOfChallengeMetricsSet(uint256 oldValue, uint256 newValue);
+
+    /**
+     * @dev Emitted when the minimum bet value is set.
+     * @param oldValue The previous minimum bet value.
+     * @param newValue The new minimum bet value.
+     */
+    event MinimumBetValueSet(uint256 oldValue, uint256 newValue);
+
+    /**
+     * @dev Emitted when the window a challenger has to start a new challenge is set.
+     * @param oldValue The previous start window in seconds.
+     * @param newValue The new start window in seconds.
+     */
+    event ChallengeStartWindowSet(uint256 oldValue, uint256 newValue);
+
+    /**
+     * @dev Emitted when the protocol fee is set.
+     * @param oldValue The previous protocol fee in basis points.
+     * @param newValue The new protocol fee in basis points.
+     */
+    event ProtocolFeeSet(uint256 oldValue, uint256 newValue);
+
+    /**
+     * @dev Emitted when the window bettors have to dispute a proposed outcome is set.
+     * @param oldValue The previous dispute window in seconds.
+     * @param newValue The new dispute window in seconds.
+     */
+    event DisputeWindowSet(uint256 oldValue, uint256 newValue);
+
+    /**
+     * @dev Emitted when the bond a dispute has to post is set.
+     * @param oldValue The previous dispute bond in basis points of the challenge's pot.
+     * @param newValue The new dispute bond in basis points of the challenge's pot.
+     */
+    event DisputeBondSet(uint256 oldValue, uint256 newValue);
+
+    /**
+     * @dev Emitted when the number of bettors a distributeWinnings call pays out is set.
+     * @param oldValue The previous batch size.
+     * @param newValue The new batch size.
+     */
+    event DistributionBatchSizeSet(uint256 oldValue, uint256 newValue);
+
+    /**
+     * @dev Emitted when an ERC-20 token is allowlisted for betting or its settings change.
+     * @param token The address of the ERC-20 token.
+     * @param allowed Whether new challenges can be denominated in the token.
+     * @param priceFeed The token's USD price feed, or the zero address if it is valued 1:1 with USD.
+     */
+    event BetTokenSet(address indexed token, bool allowed, address priceFeed);
+
+    /**
+     * @dev Emitted when a metric is registered or its settings change.
+     * @param metric The metric ID used when creating challenges.
+     * @param name The human-readable name of the metric.
+     * @param unit The unit measurements of the metric are recorded in.
+     * @param decimals The number of decimals measurements of the metric are scaled by.
+     * @param defaultDirection How the metric is compared against its target when no direction is given: 0 at least, 1 at most.
+     * @param minimumValue The lowest target or bound challenges can set for the metric.
+     * @param maximumValue The highest target or bound challenges can set for the metric.
+     * @param enabled Whether new challenges can use the metric.
+     * @param cumulative Whether a participant's submissions for the metric may never go down within a challenge.
+     */
+    event MetricSet(
+        uint8 indexed metric,
+        string name,
+        string unit,
+        uint8 decimals,
+        uint8 defaultDirection,
+        uint256 minimumValue,
+        uint256 maximumValue,
+        bool enabled,
+        bool cumulative
+    );
+
+    /**
+     * @dev Emitted when a set of measurements is recorded for a participant, in single player and multiplayer challenges alike.
+     * @param challengeId The challenge ID
+     * @param participant The address whose measurements were recorded
+     * @param measurements A value for each metric included in the challenge
+     * @param windowStart The start of the period the measurements cover
+     * @param windowEnd The end of the period the measurements cover
+     * @param historyIndex The index of the submission in the participant's measurement history
+     */
+    event MeasurementsRecorded(
+        uint256 indexed challengeId,
+        address indexed participant,
+        uint256[] measurements,
+        uint256 windowStart,
+        uint256 windowEnd,
+        uint256 historyIndex
+    );
+
+    /**
+     * @dev Emitted when a challenge is created as a streak, whose targets have to be met in each period rather than once.
+     * @param challengeId The challenge ID
+     * @param periodLength The length of each period in seconds
+     * @param allowedMisses How many periods can be missed without losing the challenge
+     */
+    event StreakChallengeCreated(uint256 indexed challengeId, uint256 periodLength, uint256 allowedMisses);
+
+    /**
+     * @dev Emitted when measurements are recorded for a period of a streak challenge.
+     * @param challengeId The challenge ID
+     * @param period The index of the period, counting from the start of the challenge
+     * @param completed Whether the measurements met every target of the challenge
+     */
+    event StreakPeriodRecorded(uint256 indexed challengeId, uint256 indexed period, bool completed);
+
+    /**
+     * @dev Emitted when a challenge is created in an ERC-20 token rather than ETH.
+     * @param challengeId The challenge ID
+     * @param betToken The ERC-20 token that bets and payouts are made in
+     */
+    event ChallengeDenominationSet(uint256 indexed challengeId, address indexed betToken);
+
+    /**
+     * @dev Emitted when a new challenger is allowed to create challenges.
+     * @param challenger The address of the eligible challenger.
+     */
+    event ChallengerJoined(address indexed challenger);
+
+    /**
+     * @dev Emitted when a new bettor is allowed to bet on challenges.
+     * @param bettor The address of the eligible bettor.
+     */
+    event BettorJoined(address indexed bettor);
+
+    /**
+     * @dev Emitted when a new challenger is blocked from creating challenges.
+     * @param challenger The address of the removed challenger.
+     */
+    event ChallengerRemoved(address indexed challenger);
+
+    /**
+     * @dev Emitted when a Merkle root of allowlisted addresses and their whitelist roles is published.
+     * @param version The version the root was published as, counting up from 1
+     * @param root The Merkle root
+     */
+    event AllowlistRootPublished(uint256 indexed version, bytes32 root);
+
+    /**
+     * @dev Emitted when an allowlist version is revoked, taking away the access of every address registered through it.
+     * @param version The revoked version
+     */
+    event AllowlistRootRevoked(uint256 indexed version);
+
+    /**
+     * @dev Emitted when an address whitelists itself with a proof of its place in an allowlist.
+     * @param version The allowlist version the proof was checked against
+     * @param account The registered address
+     * @param role 0 for a bettor, 1 for a challenger, who is also a bettor
+     */
+    event AllowlistRegistered(uint256 indexed version, address indexed account, uint8 role);
+
+    /**
+     * @dev Emitted when a challenger creates a challenge.
+     * @param challenger The address of challenger who created the challenge.
+     * @param challengeId The ID of the challenge
+     * @param lengthOfChallenge The length of the challenge in seconds
+     * @param challengeMetrics The metrics of the challenge
+     * @param targetMeasurementsForEachMetric The target measurements for each metric, the lower bound for a range
+     * @param metricDirections How each metric is compared against its target: 0 at least, 1 at most, 2 within range
+     * @param upperBoundsForEachMetric The inclusive upper bound of each range metric, 0 for other directions
+     */
+    event ChallengeCreated(
+        address indexed challenger,
+        uint256 indexed challengeId,
+        uint256 lengthOfChallenge,
+        uint8[] challengeMetrics,
+        uint256[] targetMeasurementsForEachMetric,
+        uint8[] metricDirections,
+        uint256[] upperBoundsForEachMetric
+    );
+
+    /**
+     * @dev Emitted when a challenge is created in attested mode, so it only accepts signed measurements.
+     * @param challengeId The ID of the challenge
+     */
+    event ChallengeRequiresAttestation(uint256 indexed challengeId);
+
+    /**
+     * @dev Emitted when the owner registers or unregisters a key trusted to sign measurement attestations.
+     * @param attester The address of the signing key
+     * @param allowed true if the key may sign attestations
+     */
+    event MeasurementAttesterSet(address indexed attester, bool allowed);
+
+    /**
+     * @dev Emitted when the owner adds or removes an address from the list of commitment beneficiaries.
+     * @param beneficiary The charity or other address failed commitments can be paid to
+     * @param allowed true if new commitment challenges may name the beneficiary
+     */
+    event CommitmentBeneficiarySet(address indexed beneficiary, bool allowed);
+
+    /**
+     * @dev Emitted when the owner appoints or removes an arbiter of disputed outcomes.
+     * @param arbiter The address of the arbiter
+     * @param allowed true if the arbiter may resolve disputes
+     */
+    event DisputeArbiterSet(address indexed arbiter, bool allowed);
+
+    /**
+     * @dev Emitted when a challenger creates a commitment challenge, staking on their own goal without opponents.
+     * @param challengeId The challenge ID
+     * @param beneficiary The address the stake goes to if the challenger fails
+     */
+    event CommitmentChallengeCreated(uint256 indexed challengeId, address indexed beneficiary);
+
+    /**
+     * @dev Emitted when a failed commitment challenge's stake is paid to its beneficiary, serving as the challenger's receipt.
+     * @param challengeId The challenge ID
+     * @param challenger The challenger who made the commitment
+     * @param beneficiary The address the stake was paid to, or left claimable for if the transfer failed
+     * @param amount The amount the beneficiary receives, after the protocol fee
+     */
+    event CommitmentForfeited(uint256 indexed challengeId, address indexed challenger, address indexed beneficiary, uint256 amount);
+
+    /**
+     * @dev Emitted when a challenger creates an invite-only challenge, which only they and the addresses they invite can bet on or join.
+     * @param challengeId The challenge ID
+     */
+    event InviteOnlyChallengeCreated(uint256 indexed challengeId);
+
+    /**
+     * @dev Emitted when the challenger of an invite-only challenge invites an address to it or withdraws the invitation.
+     * @param challengeId The challenge ID
+     * @param account The invited address
+     * @param invited true if the address may bet on or join the challenge
+     */
+    event ChallengeInviteSet(uint256 indexed challengeId, address indexed account, bool invited);
+
+    /**
+     * @dev Emitted when the challenger of an invite-only challenge sets or clears its invite code.
+     * @param challengeId The challenge ID
+     * @param inviteSigner The address derived from the invite code, the zero address if the challenge no longer has one
+     */
+    event ChallengeInviteCodeSet(uint256 indexed challengeId, address inviteSigner);
+
+    /**
+     * @dev Emitted when an address invites itself to an invite-only challenge with the challenge's invite code.
+     * @param challengeId The challenge ID
+     * @param account The address that redeemed the code
+     */
+    event ChallengeInviteCodeRedeemed(uint256 indexed challengeId, address indexed account);
+
+    /**
+     * @dev Emitted when signed measurements are accepted for a participant
+     * @param challengeId The challenge ID
+     * @param participant The address whose measurements were recorded
+     * @param attester The key that signed the measurements
+     * @param nonce The participant's nonce consumed by the attestation
+     */
+    event MeasurementsAttested(uint256 indexed challengeId, address indexed participant, address indexed attester, uint256 nonce);
+
+    /**
+     * @dev Emitted when a challenger starts a challenge.
+     * @param challenger The address of challenger who created the challenge.
+     * @param challengeId The ID of the challenge
+     */
+    event ChallengeStarted(address indexed challenger, uint256 indexed challengeId);
+
+    /**
+     * @dev Emitted when a user makes a bet
+     * @param challengeId The challenge ID
+     * @param bettor The address that placed the bet
+     * @param bettingForChallenger true if the bet was placed in hopes that the challenger will win
+     * @param betAmount the amount of money bet for the challenger
+     */
+    event BetPlaced(uint256 challengeId, address bettor, bool bettingForChallenger, uint256 betAmount);
+
+    /**
+     * @dev Emitted when a user changes the side or amount of an existing bet
+     * @param challengeId The challenge ID
+     * @param bettor The address that changed the bet
+     * @param oldBettingForChallenger true if the bet was previously placed for the challenger
+     * @param newBettingForChallenger true if the bet is now placed for the challenger
+     * @param oldBetAmount the amount of money previously bet
+     * @param newBetAmount the amount of money now bet
+     */
+    event BetChanged(uint256 indexed challengeId, address indexed bettor, bool oldBettingForChallenger, bool newBettingForChallenger, uint256 oldBetAmount, uint256 newBetAmount);
+
+    /**
+     * @dev Emitted when a user cancels a bet and is refunded
+     * @param challengeId The challenge ID
+     * @param bettor The address that cancelled the bet
+     * @param bettingForChallenger true if the cancelled bet was placed for the challenger
+     * @param betAmount the amount of money refunded to the bettor
+     */
+    event BetCancelled(uint256 indexed challengeId, address indexed bettor, bool bettingForChallenger, uint256 betAmount);
+
+    /**
+     * @dev Emitted when the gas used to distribute winnings is logged
+     * @param gasUsed The amount of gas used to distribute winnings
+     */
+    event GasUsed(address indexed bettor, uint256 gasUsed);
+
+    /**
+     * @dev Emitted when the winnings are distributed
+     * @param challengeId The challenge ID
+     * @param bettor The address that received the winnings
+     * @param share The amount of winnings received
+     */
+    event WinningsDistributed(uint256 challengeId, address bettor, uint256 share);
+
+    /**
+     * @dev Emitted when a winnings distribution fails for a particular bettor
+     * @param challengeId The challenge ID
+     * @param bettor The address that failed to receive winnings
+     * @param amount The amount of winnings that failed to be distributed
+     */
+    event WinningsDistributionFailed(uint256 indexed challengeId, address indexed bettor, uint256 amount);
+
+    /**
+     * @dev Emitted after each batch of a challenge's bettors is paid out
+     * @param challengeId The challenge ID
+     * @param distributedBettors How many of the challenge's bettors have been paid out so far
+     * @param totalBettors How many bettors the challenge has, so the distribution is complete once both are equal
+     */
+    event WinningsDistributionProgress(uint256 indexed challengeId, uint256 distributedBettors, uint256 totalBettors);
+
+    /**
+     * @dev Emitted when a challenge's outcome is settled and its winners' payouts are recorded
+     * @param challengeId The challenge ID
+     * @param challengeStatus The final status of the challenge
+     * @param totalWinnings The amount of money taken from the losing side
+     */
+    event ChallengeSettled(uint256 indexed challengeId, uint8 challengeStatus, uint256 totalWinnings);
+
+    /**
+     * @dev Emitted when a winner's payout is recorded as claimable, during settlement or, for the payout of a bettor's
+     * stakes, when the bettor is first paid
+     * @param challengeId The challenge ID
+     * @param bettor The address that can claim the payout
+     * @param amount The stake plus winnings owed to the bettor
+     */
+    event WinningsClaimable(uint256 indexed challengeId, address indexed bettor, uint256 amount);
+
+    /**
+     * @dev Emitted when a winner withdraws a claimable payout
+     * @param challengeId The challenge ID
+     * @param bettor The address that claimed the payout
+     * @param amount The amount of money claimed
+     */
+    event WinningsClaimed(uint256 indexed challengeId, address indexed bettor, uint256 amount);
+
+    /**
+     * @dev Emitted when a challenge is cancelled and every bettor's stake becomes claimable as a refund
+     * @param challengeId The challenge ID
+     */
+    event ChallengeVoided(uint256 indexed challengeId);
+
+    /**
+     * @dev Emitted when a challenge's outcome is proposed, after which it can be disputed until the deadline
+     * @param challengeId The challenge ID
+     * @param challengerWon Whether the final measurements meet the challenger's goal
+     * @param disputeDeadline The last moment the outcome can be disputed
+     */
+    event OutcomeProposed(uint256 indexed challengeId, bool challengerWon, uint256 disputeDeadline);
+
+    /**
+     * @dev Emitted when a bettor on the losing side disputes a proposed outcome
+     * @param challengeId The challenge ID
+     * @param disputer The bettor disputing the outcome
+     * @param bond The bond posted with the dispute
+     */
+    event OutcomeDisputed(uint256 indexed challengeId, address indexed disputer, uint256 bond);
+
+    /**
+     * @dev Emitted when an arbiter resolves a disputed outcome, just before the challenge is settled
+     * @param challengeId The challenge ID
+     * @param arbiter The arbiter who resolved the dispute
+     * @param upheld true if the outcome was overturned and the bond returned, false if the bond was slashed
+     */
+    event DisputeResolved(uint256 indexed challengeId, address indexed arbiter, bool upheld);
+
+    /**
+     * @dev Emitted when the protocol fee taken from a settled challenge is moved to the vault's treasury
+     * @param challengeId The challenge ID
+     * @param amount The fee taken, including rounding dust from splitting the pot
+     */
+    event ProtocolFeeAccrued(uint256 indexed challengeId, uint256 amount);
+
+    // errors for owner
+    /// @dev error thrown when the vault is not set
+    error VaultNotSet();
+
+    /// @dev error thrown when the challenge length is too short
+    error ChallengeLengthTooShort();
+
+    /// @dev error thrown when the maximum number of bettors per challenge is too small
+    error MaximumNumberOfBettorsPerChallengeTooSmall();
+
+    /// @dev error thrown when the maximum number of challenge metrics is too small
+    error MaximumNumberOfChallengeMetricsTooSmall();
+
+    /// @dev error thrown when the minimum USD value of a bet is too small
+    error MinimumUsdValueOfBetTooSmall();
+
+    // errors for challengers
+    /// @dev Error thrown when a non-whitelisted address attempts to do a challenger action
+    error ChallengerNotInWhitelist();
+
+    /// @dev Error thrown when attempting to whitelist an address already whitelisted as a challenger
+    error ChallengerAlreadyInWhitelist();
+
+    /// @dev Error thrown when a non-whitelisted address attempts to do a bettor action
+    error BettorNotInWhitelist();
+
+    /// @dev Error thrown when attempting to whitelist an address already whitelisted as a bettor
+    error BettorAlreadyInWhitelist();
+
+    /// @dev Error thrown when attempting to publish an empty allowlist root
+    error InvalidAllowlistRoot();
+
+    /// @dev Error thrown when registering with an allowlist role that does not exist
+    error InvalidAllowlistRole(uint8 role);
+
+    /// @dev Error thrown when an allowlist version has not been published
+    error AllowlistVersionNotFound(uint256 version);
+
+    /// @dev Error thrown when registering with, or revoking, an allowlist version that has been revoked
+    error AllowlistVersionRevoked(uint256 version);
+
+    /// @dev Error thrown when a proof does not place the caller and role in the allowlist
+    error InvalidAllowlistProof();
+
+    /// @dev Error thrown when attempting to set a zero amount for the minimum USD value of a bet
+    error MinimumBetAmountTooSmall();
+
+    /// @dev Error thrown when a challenge is no longer allowed to be modified
+    error ChallengeCannotBeModified();
+
+    /// @dev Error thrown when a challenge is no longer allowed to be modified
+    error ChallengeCanOnlyBeModifiedByChallenger(
+        uint256 challengeId,
+        address caller,
+        address challenger
+    );
+
+    /// @dev Error thrown when a challenge is already active when it must be inactive for the action requested
+    error ChallengeIsActive(uint256 activeChallengeId);
+
+    /// @dev Error thrown when a challenge is not active when it must be active for the action requested
+    error ChallengeIsNotActive(uint256 challengeId, uint8 challengeStatus);
+
+    /// @dev Error thrown when a challenge is expired when it must not be expired for the action requested
+    error ChallengeIsExpired(uint256 challengeId);
+
+    /// @dev Error thrown when a challenge has not yet started when it must be active or complete for the action requested
+    error ChallengeNotYetStarted(uint256 challengeId);
+
+    /// @dev Error thrown when there is a mismatch between the number of challenge metrics and the number of measurements provided
+    error MalformedChallengeMetricsProvided();
+
+    /// @dev Error thrown when a metric is given a comparison direction that does not exist
+    error InvalidMetricDirection(uint8 direction);
+
+    /// @dev Error thrown when a range's upper bound is below its lower bound, or an upper bound is given for a metric that is not a range
+    error InvalidMetricRange(uint256 lowerBound, uint256 upperBound);
+
+    /// @dev Error thrown when a metric's settings are invalid or an unregistered metric is updated
+    error InvalidMetric(uint8 metric);
+
+    /// @dev Error thrown when a challenge uses a metric that is unregistered or disabled
+    error MetricNotEnabled(uint8 metric);
+
+    /// @dev Error thrown when a challenge's target or bound is outside the metric's sane values
+    error MetricValueOutOfBounds(uint8 metric, uint256 value, uint256 minimumValue, uint256 maximumValue);
+
+    /// @dev Error thrown when a submission lowers a cumulative metric below the participant's previous submission
+    error CumulativeMeasurementDecreased(uint8 metric, uint256 previousMeasurement, uint256 submittedMeasurement);
+
+    /// @dev Error thrown when the owner attempts to list the zero address as a commitment beneficiary
+    error InvalidBeneficiary();
+
+    /// @dev Error thrown when a commitment challenge names a beneficiary that is not on the curated list
+    error BeneficiaryNotAllowed(address beneficiary);
+
+    /// @dev Error thrown when anyone but the challenger tries to bet on a commitment challenge
+    error CommitmentChallengeClosedToBettors(uint256 challengeId);
+
+    /// @dev Error thrown when an address that was not invited tries to bet on or join an invite-only challenge
+    error NotInvitedToChallenge(uint256 challengeId, address account);
+
+    /// @dev Error thrown when the invitations of a challenge that is open to every whitelisted bettor are managed
+    error ChallengeNotInviteOnly(uint256 challengeId);
+
+    /// @dev Error thrown when an invite code redemption is not signed by the address stored for the challenge
+    error InvalidInviteCode(uint256 challengeId);
+
+    /// @dev Error thrown when a streak's periods do not evenly divide the challenge, or allow missing every period
+    error InvalidStreak(uint256 periodLength, uint256 allowedMisses);
+
+    /// @dev Error thrown when a challenge doesn't have anyone betting against it yet
+    error NobodyBettingAgainstChallenger();
+
+    /// @dev Error thrown when a challenge doesn't have anyone betting for it yet
+    error NobodyBettingForChallenger();
+
+    /// @dev Error thrown when a challenger attempts to bet against himself
+    error ChallengerCannotBetAgainstHimself();
+
+    /// @dev Error thrown when someone attempts to place a new bet when not allowed to do so
+    error BettorCannotUpdateBet();
+
+    /// @dev Error thrown when the ETH sent with a bet change does not cover exactly the difference between the old and new bet amounts
+    error IncorrectBetChangeValue(uint256 expectedValue, uint256 providedValue);
+
+    /// @dev Error thrown when someone attempts to place a bet on a challenge that already has the maximum number of bettors
+    error TooManyBettors();
+
+    /// @dev Error thrown when the contract attempts to distribute winnings for a challenge from which the winnings have already been distributed
+    error WinningsAlreadyPaid(uint256 challengeId);
+
+    /// @dev Error thrown when the owner attempts to distribute winnings to a challenge's bettors once every one of them has been paid out
+    error WinningsAlreadyDistributed(uint256 challengeId);
+
+    /// @dev Error thrown when a caller attempts to bet on or start a challenge after its start deadline has passed
+    error ChallengeStartDeadlinePassed(uint256 challengeId, uint256 startDeadline);
+
+    /// @dev Error thrown when a caller attempts to void a challenge that can still be started or was completed with measurements
+    error ChallengeCannotBeVoided(uint256 challengeId);
+
+    /// @dev Error thrown when the owner attempts to set a zero length start window
+    error ChallengeStartWindowTooShort();
+
+    /// @dev Error thrown when the owner attempts to set a zero distribution batch size
+    error DistributionBatchSizeTooSmall();
+
+    /// @dev Error thrown when the owner attempts to set a protocol fee above the hard cap
+    error ProtocolFeeTooHigh(uint256 feeBps, uint256 maximumFeeBps);
+
+    /// @dev Error thrown when the owner attempts to allowlist a token that cannot be used for bets
+    error InvalidBetToken(address token);
+
+    /// @dev Error thrown when a challenger attempts to create a challenge in a token that is not allowlisted
+    error BetTokenNotAllowed(address token);
+
+    /// @dev Error thrown when a bet is paid in a different asset than the challenge is denominated in
+    error ChallengeDenominationMismatch(uint256 challengeId, address betToken);
+
+    /// @dev Error thrown when the owner attempts to set a dispute bond above the whole pot
+    error DisputeBondTooHigh(uint256 bondBps, uint256 maximumBondBps);
+
+    /// @dev Error thrown when the owner attempts to appoint the zero address as a dispute arbiter
+    error InvalidArbiter();
+
+    /// @dev Error thrown when anyone but an appointed arbiter attempts to resolve a dispute
+    error NotDisputeArbiter(address account);
+
+    /// @dev Error thrown when a challenge is settled before its proposed outcome's dispute window has closed
+    error DisputeWindowOpen(uint256 challengeId, uint256 disputeDeadline);
+
+    /// @dev Error thrown when a caller attempts to dispute an outcome after its dispute window has closed
+    error DisputeWindowClosed(uint256 challengeId, uint256 disputeDeadline);
+
+    /// @dev Error thrown when a challenge is settled or disputed again while a dispute against its outcome awaits an arbiter
+    error OutcomeUnderDispute(uint256 challengeId, address disputer);
+
+    /// @dev Error thrown when a caller attempts to dispute a challenge that has no proposed outcome
+    error NoOutcomeToDispute(uint256 challengeId);
+
+    /// @dev Error thrown when an arbiter attempts to resolve a challenge whose outcome was not disputed
+    error NoDisputeToResolve(uint256 challengeId);
+
+    /// @dev Error thrown when anyone but a bettor on the losing side of a proposed outcome attempts to dispute it
+    error NotOnLosingSide(uint256 challengeId, address account);
+
+    /// @dev Error thrown when a dispute is sent with a different amount of ETH than its bond
+    error IncorrectDisputeBond(uint256 expectedValue, uint256 providedValue);
+
+    /// @dev Error thrown when a caller attempts to claim winnings when nothing is owed to them
+    error NoWinningsToClaim(address bettor);
+
+    /// @dev Error thrown when a caller attempts to start someone else's challenge
+    error OnlyChallengerCanStartChallenge();
+
+    /// @dev Error thrown when a caller attempts to start a challenge with a length greater than the maximum allowed
+    error ChallengeLengthTooLong();
+
+    /// @dev Error thrown when a caller attempts to start a challenge with a greater number of metrics than the maximum allowed
+    error TooManyChallengeMetrics();
+
+    // attestation errors
+
+    /// @dev Error thrown when unsigned measurements are submitted for a challenge created in attested mode
+    error AttestationRequired(uint256 challengeId);
+
+    /// @dev Error thrown when a measurement attestation is not signed by a registered attester
+    error InvalidAttestationSigner(address signer);
+
+    /// @dev Error thrown when the data window of a measurement attestation is not within the challenge period
+    error InvalidAttestationWindow(uint256 windowStart, uint256 windowEnd);
+
+    /// @dev Error thrown when the owner attempts to register the zero address as an attester
+    error InvalidAttester();
+
+    // price feed errors
+
+    /// @dev Error thrown when the price feed round is not complete
+    error PriceFeedRoundNotComplete();
+
+    /// @dev Error thrown when the price feed is stale
+    error StalePrice();
+
+    /// @dev Error thrown when the price feed is too old
+    error PriceFeedTooOld();
+
+    /// @dev Error thrown when the price feed is invalid
+    error InvalidPrice();
+
+    /// @dev Error thrown when a call matches no function of the contract or any of its extensions
+    error FunctionNotFound(bytes4 selector);
+}
@@ -0,0 +1,241 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "./IChallengeBase.sol";
+
+/**
+ * @title Challenge betting interface
+ * @author Branson Solutions LLC
+ * @notice Interface for creating health challenges and betting on them, served by the ChallengeBetting extension.
+ */
+interface IChallengeBetting is IChallengeBase {
+    /**
+     * @notice Creates a challenge that only accepts measurements signed by a registered attester
+     * @param _lengthOfChallenge The time length of the challenge in seconds
+     * @param _challengeMetrics The set of metrics the challenger wants to reach in the challenge time frame
+     * @param _targetMeasurementsForEachMetric The set of target measurements for each metric the challenger wants to achieve
+     * @return The challenge ID
+     *
+     * Requirements:
+     * - The caller is on the challenger whitelist
+     */
+    function createAttestedChallenge(
+        uint256 _lengthOfChallenge,
+        uint8[] memory _challengeMetrics,
+        uint256[] memory _targetMeasurementsForEachMetric
+    ) external returns (uint256);
+
+    /**
+     * @notice Creates a challenge whose bets and payouts are made in an allowlisted ERC-20 token instead of ETH
+     * @param _lengthOfChallenge The time length of the challenge in seconds
+     * @param _challengeMetrics The set of metrics the challenger wants to reach in the challenge time frame
+     * @param _targetMeasurementsForEachMetric The set of target measurements for each metric the challenger wants to achieve
+     * @param _betToken The ERC-20 token the challenge is denominated in
+     * @return The challenge ID
+     *
+     * Requirements:
+     * - The caller is on the challenger whitelist
+     * - The token is allowlisted
+     */
+    function createTokenChallenge(
+        uint256 _lengthOfChallenge,
+        uint8[] memory _challengeMetrics,
+        uint256[] memory _targetMeasurementsForEachMetric,
+        address _betToken
+    ) external returns (uint256);
+
+    /**
+     * @notice Creates a challenge whose metrics can be lower-is-better or need to land within a range
+     * @param _lengthOfChallenge The time length of the challenge in seconds
+     * @param _challengeMetrics The set of metrics the challenger wants to reach in the challenge time frame
+     * @param _targetMeasurementsForEachMetric The target measurement of each metric, or the inclusive lower bound of a range
+     * @param _metricDirections How each metric is compared against its target: 0 at least, 1 at most, 2 within range
+     * @param _upperBoundsForEachMetric The inclusive upper bound of each range metric, which must be 0 for other directions
+     * @return The challenge ID
+     *
+     * Requirements:
+     * - The caller is on the challenger whitelist
+     * - Every metric is registered and enabled, and its targets and bounds are within the metric's sane values
+     * - Every range's upper bound is at least its lower bound
+     */
+    function createChallengeWithDirections(
+        uint256 _lengthOfChallenge,
+        uint8[] memory _challengeMetrics,
+        uint256[] memory _targetMeasurementsForEachMetric,
+        uint8[] memory _metricDirections,
+        uint256[] memory _upperBoundsForEachMetric
+    ) external returns (uint256);
+
+    /**
+     * @notice Creates a commitment challenge, where the challenger stakes on their own goal with nobody betting against them.
+     * The challenger gets the stake back if they meet the goal, and otherwise it is paid to the beneficiary they named.
+     * @param _lengthOfChallenge The time length of the challenge in seconds
+     * @param _challengeMetrics The set of metrics the challenger wants to reach in the challenge time frame
+     * @param _targetMeasurementsForEachMetric The set of target measurements for each metric the challenger wants to achieve
+     * @param _beneficiary The address the stake is paid to if the challenger fails
+     * @return The challenge ID
+     *
+     * Requirements:
+     * - The caller is on the challenger whitelist
+     * - The beneficiary is on the owner-curated list of commitment beneficiaries
+     */
+    function createCommitmentChallenge(
+        uint256 _lengthOfChallenge,
+        uint8[] memory _challengeMetrics,
+        uint256[] memory _targetMeasurementsForEachMetric,
+        address _beneficiary
+    ) external returns (uint256);
+
+    /**
+     * @notice Creates a streak challenge, where the targets have to be met in every period of the challenge rather than by its end,
+     * e.g. 10,000 steps every day for 21 days. Measurements are submitted per period, and the challenge can be settled as soon as
+     * more periods have been missed than allowed.
+     * @param _lengthOfChallenge The time length of the challenge in seconds
+     * @param _challengeMetrics The set of metrics the challenger wants to reach in each period
+     * @param _targetMeasurementsForEachMetric The target measurement of each metric for a single period
+     * @param _periodLength The length of each period in seconds
+     * @param _allowedMisses How many periods can be missed without losing the challenge
+     * @return The challenge ID
+     *
+     * Requirements:
+     * - The caller is on the challenger whitelist
+     * - The period length evenly divides the challenge length
+     * - Fewer periods are allowed to be missed than the challenge has
+     */
+    function createStreakChallenge(
+        uint256 _lengthOfChallenge,
+        uint8[] memory _challengeMetrics,
+        uint256[] memory _targetMeasurementsForEachMetric,
+        uint256 _periodLength,
+        uint256 _allowedMisses
+    ) external returns (uint256);
+
+    /**
+     * @notice Creates a challenge that only the challenger and the addresses they invite can bet on. Addresses can be invited
+     * by the challenger, or invite themselves with an invite code the challenger shares, whose derived address is stored on-chain.
+     * @param _lengthOfChallenge The time length of the challenge in seconds
+     * @param _challengeMetrics The set of metrics the challenger wants to reach in the challenge time frame
+     * @param _targetMeasurementsForEachMetric The set of target measurements for each metric the challenger wants to achieve
+     * @param _invitees The addresses invited to the challenge
+     * @param _inviteSigner The address of the key derived from the challenge's invite code, or the zero address for no invite code
+     * @return The challenge ID
+     *
+     * Requirements:
+     * - The caller is on the challenger whitelist
+     */
+    function createInviteOnlyChallenge(
+        uint256 _lengthOfChallenge,
+        uint8[] memory _challengeMetrics,
+        uint256[] memory _targetMeasurementsForEachMetric,
+        address[] calldata _invitees,
+        address _inviteSigner
+    ) external returns (uint256);
+
+    /**
+     * @notice Invites addresses to an invite-only challenge, or withdraws their invitations.
+     * Withdrawing an invitation keeps the address from betting again, but leaves any bet it already placed in place.
+     * @param _challengeId The invite-only challenge
+     * @param _accounts The addresses to invite or uninvite
+     * @param _invited true to invite the addresses, false to withdraw their invitations
+     *
+     * Requirements:
+     * - The caller is the challenger
+     * - The challenge is invite-only and has not yet started
+     */
+    function setChallengeInvites(uint256 _challengeId, address[] calldata _accounts, bool _invited) external;
+
+    /**
+     * @notice Sets the code an invite-only challenge's invitees can invite themselves with, replacing any earlier one
+     * @dev The code itself is never sent on-chain: it is the seed of a private key, and only that key's address is stored.
+     * @param _challengeId The invite-only challenge
+     * @param _inviteSigner The address of the key derived from the invite code, or the zero address to stop accepting invite codes
+     *
+     * Requirements:
+     * - The caller is the challenger
+     * - The challenge is invite-only and has not yet started
+     */
+    function setChallengeInviteCode(uint256 _challengeId, address _inviteSigner) external;
+
+    /**
+     * @notice Invites the caller to an invite-only challenge with the invite code the challenger shared
+     * @param _challengeId The invite-only challenge
+     * @param _signature The EIP-712 signature of an InviteCodeRedemption of the challenge ID and the caller, made with the
+     * key derived from the invite code. It only invites the caller, so it is of no use to anyone who copies it.
+     */
+    function redeemInviteCode(uint256 _challengeId, bytes calldata _signature) external;
+
+    /** 
+     * @notice Place a bet for or against a challenge
+     * @param _challengeId The challenge on which you want to bet
+     * @param _bettingFor A boolean to indicate betting for (true) or against (false) the challenger
+     *
+     * Requirements:
+     * - The caller is on the bettor whitelist
+     * - The challenge on which the caller wants to bet exists and has not yet started
+     * - The maximum number of bettors per bet has not been reached
+     * - If the caller is the challenger, he is not betting against himself
+     * - The caller has not already placed a bet
+     * - If the challenge is invite-only, the caller is its challenger or invited to it
+     */
+    function placeBet(uint256 _challengeId, bool _bettingFor) external payable;
+
+    /**
+     * @notice Place a bet in the ERC-20 token a challenge is denominated in
+     * @dev The caller must have approved this contract to transfer the amount.
+     * @param _challengeId The challenge on which you want to bet
+     * @param _bettingFor A boolean to indicate betting for (true) or against (false) the challenger
+     * @param _amount The amount of tokens to bet
+     *
+     * Requirements:
+     * - The same as placeBet
+     * - The challenge is denominated in an ERC-20 token
+     */
+    function placeTokenBet(uint256 _challengeId, bool _bettingFor, uint256 _amount) external;
+
+    /**
+     * @notice Place a token bet using an ERC-2612 permit instead of a prior approval
+     * @param _challengeId The challenge on which you want to bet
+     * @param _bettingFor A boolean to indicate betting for (true) or against (false) the challenger
+     * @param _amount The amount of tokens to bet, which is also the permitted allowance
+     * @param _deadline The permit's expiry timestamp
+     * @param _v The recovery byte of the permit signature
+     * @param _r Half of the permit signature
+     * @param _s Half of the permit signature
+     */
+    function placeTokenBetWithPermit(
+        uint256 _challengeId,
+        bool _bettingFor,
+        uint256 _amount,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external;
+
+    /** 
+     * @notice Allows someone who has already bet to modify his existing bet.
+     * When raising the bet, the difference must be sent along with the call. When lowering it, the difference is refunded.
+     * @param _challengeId The challenge on which you want to bet
+     * @param _bettingFor A boolean to indicate betting for (true) or against (false) the challenger
+     * @param _newBetAmount The total amount the caller wants to have bet after the change
+     *
+     * Requirements:
+     * - The caller is on the bettor whitelist
+     * - The challenge on which the caller wants to change his bet exists and has not yet started
+     * - If the caller is the challenger, he is not betting against himself
+     * - The new bet amount is worth at least the minimum USD value of a bet
+     * - The ETH sent equals the increase in the bet amount, or zero if the bet is not increased
+     */
+    function changeBet(uint256 _challengeId, bool _bettingFor, uint256 _newBetAmount) external payable;
+
+    /**
+     * @notice Allows someone who has already bet to cancel their bet and get their stake back from the vault
+     * @param _challengeId The challenge on which you want to cancel your bet
+     *
+     * Requirements:
+     * - The caller is on the bettor whitelist 
+     * - The caller has placed a bet on the challenge
+     * - The challenge has not yet started
+     */
+    function cancelBet(uint256 _challengeId) external;
+}
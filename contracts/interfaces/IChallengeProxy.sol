@@ -0,0 +1,424 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/access/IAccessControl.sol";
+import "@openzeppelin/contracts/interfaces/IERC5267.sol";
+import "@openzeppelin/contracts/interfaces/draft-IERC1822.sol";
+
+import "./IChallenge.sol";
+import "./IChallengeAdministration.sol";
+import "./IChallengeBetting.sol";
+import "./IChallengeSettlement.sol";
+import "./IChallengeViews.sol";
+
+/**
+ * @title Challenge proxy interface
+ * @author Branson Solutions LLC
+ * @notice Everything a Challenge proxy answers to: the functions of Challenge and of every extension behind it.
+ * @dev No contract implements this interface, since its functions are spread across the chain of extensions. It is what
+ * callers of a proxy should use, and a test checks it matches the ABIs of Challenge and its extensions.
+ */
+interface IChallengeProxy is
+    IChallenge,
+    IChallengeBetting,
+    IChallengeSettlement,
+    IChallengeAdministration,
+    IChallengeViews,
+    IAccessControl,
+    IERC1822Proxiable,
+    IERC5267
+{
+    // ============================ //
+    //           Constants          //
+    // ============================ //
+
+    /// @notice EIP-712 type hash of an invite code redemption, signed with the key derived from the invite code
+    function INVITE_CODE_REDEMPTION_TYPEHASH() external view returns (bytes32);
+
+    /// @notice the highest protocol fee the owner can set, in basis points of the losing side's pot
+    function MAXIMUM_PROTOCOL_FEE_BPS() external view returns (uint16);
+
+    /// @notice EIP-712 type hash of a measurement attestation signed by a trusted data relayer
+    function MEASUREMENT_ATTESTATION_TYPEHASH() external view returns (bytes32);
+
+    /// @notice the role that sets the contract parameters, the vault, bet tokens, metrics, attesters and dispute arbiters
+    function PARAMETER_ADMIN_ROLE() external view returns (bytes32);
+
+    /// @notice the role that pauses and unpauses the contract
+    function PAUSER_ROLE() external view returns (bytes32);
+
+    /// @notice the role that pushes winnings out to bettors with distributeWinnings
+    function SETTLER_ROLE() external view returns (bytes32);
+
+    /// @notice the role that upgrades the implementation behind the proxy
+    function UPGRADER_ROLE() external view returns (bytes32);
+
+    /// @notice the role that adds and removes challengers, bettors and commitment beneficiaries, and publishes allowlists
+    function WHITELIST_MANAGER_ROLE() external view returns (bytes32);
+
+    // ============================ //
+    //        State Variables       //
+    // ============================ //
+
+    /// @notice Whitelisted bettors who can bet on challenges
+    function bettorWhitelist(address) external view returns (bool);
+
+    function challengeToBetsAgainst(uint256, address) external view returns (uint256);
+
+    function challengeToBetsFor(uint256, address) external view returns (uint256);
+
+    function challengeToBettors(uint256, uint256) external view returns (address);
+
+    /// @notice Mapping to get the challenge length from by challenge ID
+    function challengeToChallengeLength(uint256) external view returns (uint256);
+
+    /// @notice Mapping to get a challenge's status by ID
+    function challengeToChallengeStatus(uint256) external view returns (uint8);
+
+    /// @notice Mapping to get a challenge's owner by challenge ID
+    function challengeToChallenger(uint256) external view returns (address);
+
+    function challengeToNumberOfBettorsAgainst(uint256) external view returns (uint256);
+
+    function challengeToNumberOfBettorsFor(uint256) external view returns (uint256);
+
+    /// @notice Mapping to get the challenge start time from by challenge ID
+    function challengeToStartTime(uint256) external view returns (uint256);
+
+    function challengeToTotalAmountBetAgainst(uint256) external view returns (uint256);
+
+    function challengeToTotalAmountBetFor(uint256) external view returns (uint256);
+
+    /// @notice Mapping to get whether or not a challenge's winnings have been paid
+    function challengeToWinningsPaid(uint256) external view returns (uint256);
+
+    /// @notice Mapping to get the challenge ID of a challenger's currently active challenge
+    /// @dev When a challenge finishes, we will change the value in the mapping back to 0
+    function challengerToActiveChallenge(address) external view returns (uint256);
+
+    /// @notice Whitelisted challengers who can participate in challenges
+    function challengerWhitelist(address) external view returns (bool);
+
+    function latestChallengeId() external view returns (uint256);
+
+    // ============================ //
+    //          Initializer         //
+    // ============================ //
+
+    /**
+     * @notice Initializes the Challenge contract to
+     * @dev This function replaces the constructor for upgradeable contracts. It can only be called once.
+     *
+     * @param _minimumBetValue the minimum USD value for a bet for or against a challenger
+     * @param _dataFeedAddress the smart contract address from which we want to get real-time cryptocurrency price information
+     *
+     * Requirements:
+     *
+     * - _minimumBetValue is greater than 0
+     */
+    function initialize(
+        uint256 _minimumBetValue,
+        address _dataFeedAddress,
+        uint32 _maximumNumberOfBettorsPerChallenge,
+        uint32 _maximumChallengeLengthInSeconds,
+        uint8 _maximumNumberOfChallengeMetrics
+    ) external;
+
+    /**
+     * @notice Makes the owner of a proxy deployed before roles existed its default admin, grants it every role and
+     * renounces the ownership, so the roles are left as the only authority over the contract
+     * @dev Also does what initializeMetricRegistry does, since this reinitializer skips its version on a proxy still on
+     * an earlier release.
+     */
+    function initializeAccessControl() external;
+
+    /**
+     * @notice Sets up the EIP-712 domain for attested measurements on a proxy deployed before attestations existed
+     */
+    function initializeAttestations() external;
+
+    /**
+     * @notice Registers the default metrics on a proxy deployed before the metric registry existed
+     * @dev Metrics the owner already registered are left as they are. Also does what initializeAttestations does, since
+     * this reinitializer skips its version on a proxy still on the first release.
+     */
+    function initializeMetricRegistry() external;
+
+    // ============================ //
+    //            Betting           //
+    // ============================ //
+
+    /**
+     * @notice Creates a new challenge for a whitelisted challenger, but does not start a challenge until requirements are met
+     * @param _lengthOfChallenge The time length of the challenge in seconds
+     * @param _challengeMetrics The set of metrics the challenger wants to reach in the challenge time frame
+     * @param _targetMeasurementsForEachMetric The set of target measurements for each metric the challenger wants to achieve
+     *
+     * Requirements:
+     * - The caller is on the challenger whitelist
+     * - The challenger does not already have an active challenge
+     */
+    function createChallenge(
+        uint256 _lengthOfChallenge,
+        uint8[] calldata _challengeMetrics,
+        uint256[] calldata _targetMeasurementsForEachMetric
+    ) external returns (uint256);
+
+    // ============================ //
+    //        Administration        //
+    // ============================ //
+
+    /**
+     * @notice Pauses the contract, disabling all state-changing functions.
+     * @dev Can only be called by an account with the pauser role.
+     *
+     * @dev Pausing mechanisms are useful in emergency scenarios to prevent further interactions.
+     *
+     * Requirements:
+     * - The caller must have the pauser role.
+     */
+    function pause() external;
+
+    /// @notice Publishes a Merkle root of addresses and the whitelist roles they can register themselves with, as a new allowlist version
+    function publishAllowlistRoot(bytes32 _root) external returns (uint256);
+
+    /// @notice Revokes an allowlist version, so nobody else can register with it and the addresses that did lose their access
+    function revokeAllowlistRoot(uint256 _version) external;
+
+    /// @notice Sets how long a challenger has to start a challenge after creating it, applying to challenges created afterwards
+    function setChallengeStartWindow(uint32 _challengeStartWindowInSeconds) external;
+
+    /// @notice Adds or removes an address from the list of beneficiaries commitment challenges can name
+    function setCommitmentBeneficiary(address _beneficiary, bool _allowed) external;
+
+    /// @notice Appoints or removes an arbiter who resolves disputed outcomes
+    function setDisputeArbiter(address _arbiter, bool _allowed) external;
+
+    /// @notice Sets the bond a dispute has to post, in basis points of the challenge's total pot
+    function setDisputeBond(uint16 _disputeBondBps) external;
+
+    /// @notice Sets how long bettors have to dispute a proposed outcome, applying to outcomes proposed afterwards, 0 settles challenges straight away
+    function setDisputeWindow(uint32 _disputeWindowInSeconds) external;
+
+    /// @notice Sets how many bettors each distributeWinnings call pays out, so a challenge with many bettors is paid over several calls
+    function setDistributionBatchSize(uint16 _batchSize) external;
+
+    /// @notice Sets the maximum number of bettors per challenge
+    function setMaximumChallengeLength(uint32 _maximumChallengeLengthInSeconds) external;
+
+    /// @notice Sets the maximum number of bettors per challenge
+    function setMaximumNumberOfBettorsPerChallenge(uint32 _maximumNumberOfBettorsPerChallenge) external;
+
+    /// @notice Sets the maximum number of challenge metrics
+    function setMaximumNumberOfChallengeMetrics(uint8 _maximumNumberOfChallengeMetrics) external;
+
+    /// @notice Registers or unregisters a key allowed to sign measurement attestations
+    function setMeasurementAttester(address _attester, bool _allowed) external;
+
+    /// @notice Sets the protocol fee taken from the losing side's pot when a challenge is settled
+    function setProtocolFee(uint16 _protocolFeeBps) external;
+
+    /// @notice Sets the vault contract
+    function setVault(address _vault) external;
+
+    /**
+     * @notice Unpauses the contract, enabling all state-changing functions.
+     * @dev Can only be called by an account with the pauser role.
+     *
+     * @dev Unpausing restores normal contract functionality after an emergency pause.
+     *
+     * Requirements:
+     * - The caller must have the pauser role.
+     */
+    function unpause() external;
+
+    // ============================ //
+    //            Getters           //
+    // ============================ //
+
+    /// @notice Gets the allowlist version an address registered through, 0 for addresses whitelisted directly
+    function accountToAllowlistVersion(address _account) external view returns (uint256);
+
+    /// @notice Gets a published allowlist Merkle root by its version
+    function allowlistRoots(uint256 _version) external view returns (bytes32);
+
+    /// @notice Checks whether an allowlist version has been revoked
+    function allowlistVersionRevoked(uint256 _version) external view returns (bool);
+
+    /// @notice ERC-20 tokens the owner has allowlisted for betting, with the settings used to value bets
+    function betTokens(address _token) external view returns (bool allowed, uint8 decimals, address priceFeed);
+
+    /**
+     * @notice Checks whether an address may bet on or join a challenge: it has to be a whitelisted bettor, and the
+     * challenger or invited if the challenge is invite-only. Whether the challenge still takes bets is not checked.
+     */
+    function canParticipateInChallenge(uint256 _challengeId, address _account) external view returns (bool);
+
+    /// @notice Gets whether a challenge only accepts measurements signed by a trusted attester
+    function challengeToAttestationRequired(uint256 _challengeId) external view returns (bool);
+
+    /// @notice Gets the ERC-20 token a challenge is denominated in, the zero address meaning ETH
+    function challengeToBetToken(uint256 _challengeId) external view returns (address);
+
+    /// @notice Gets the payout a winner can still claim from a settled challenge
+    function challengeToClaimableWinnings(uint256 _challengeId, address _bettor) external view returns (uint256);
+
+    /// @notice Gets the beneficiary a commitment challenge's stake goes to if it fails, the zero address for other challenges
+    function challengeToCommitmentBeneficiary(uint256 _challengeId) external view returns (address);
+
+    /// @notice Gets how many of a challenge's bettors distributeWinnings has paid out so far
+    function challengeToDistributionCursor(uint256 _challengeId) external view returns (uint256);
+
+    /// @notice Gets whether only a challenge's challenger and the addresses they invited can bet on or join it
+    function challengeToInviteOnly(uint256 _challengeId) external view returns (bool);
+
+    /// @notice Gets the address derived from an invite-only challenge's invite code, the zero address if it has none
+    function challengeToInviteSigner(uint256 _challengeId) external view returns (address);
+
+    /// @notice Gets whether an address has been invited to an invite-only challenge, directly or with its invite code
+    function challengeToInvited(uint256 _challengeId, address _account) external view returns (bool);
+
+    /// @notice Gets whether any measurements were recorded for a challenge
+    function challengeToMeasurementsSubmitted(uint256 _challengeId) external view returns (bool);
+
+    /// @notice Gets the outcome proposed for a challenge with a dispute window, and the dispute against it if any
+    function challengeToOutcomeProposal(uint256 _challengeId) external view returns (OutcomeProposal memory);
+
+    /// @notice Gets the protocol fee taken when a challenge was settled, including rounding dust
+    function challengeToProtocolFee(uint256 _challengeId) external view returns (uint256);
+
+    /// @notice Gets whether a challenge's outcome has been settled
+    function challengeToSettled(uint256 _challengeId) external view returns (bool);
+
+    /// @notice Gets the time after which a challenge can no longer be started and its bettors can be refunded
+    function challengeToStartDeadline(uint256 _challengeId) external view returns (uint256);
+
+    /// @notice Gets how many periods of a streak challenge can be missed without losing it
+    function challengeToStreakAllowedMisses(uint256 _challengeId) external view returns (uint256);
+
+    /// @notice Gets whether the latest submission for a period of a streak challenge met every target
+    function challengeToStreakPeriodCompleted(uint256 _challengeId, uint256 _period) external view returns (bool);
+
+    /// @notice Gets the length in seconds of each period of a streak challenge, 0 for challenges that are not streaks
+    function challengeToStreakPeriodLength(uint256 _challengeId) external view returns (uint256);
+
+    /// @notice Gets how many periods of a streak challenge have been completed so far
+    function challengeToStreakPeriodsCompleted(uint256 _challengeId) external view returns (uint256);
+
+    /// @notice Gets whether distributeWinnings has paid out every one of a challenge's bettors
+    function challengeToWinningsDistributed(uint256 _challengeId) external view returns (bool);
+
+    /// @notice Checks whether an address is on the owner-curated list of beneficiaries for commitment challenges
+    function commitmentBeneficiaries(address _account) external view returns (bool);
+
+    /// @notice Checks whether an address is an arbiter appointed to resolve disputed outcomes
+    function disputeArbiters(address _account) external view returns (bool);
+
+    /// @notice Gets how long a challenger has to start a challenge after creating it
+    function getChallengeStartWindow() external view returns (uint32);
+
+    /// @notice Gets the bond a dispute has to post, in basis points of the challenge's total pot
+    function getDisputeBond() external view returns (uint16);
+
+    /// @notice Gets how long bettors have to dispute a proposed outcome, 0 if challenges are settled straight away
+    function getDisputeWindow() external view returns (uint32);
+
+    /// @notice Gets how many bettors each distributeWinnings call pays out
+    function getDistributionBatchSize() external view returns (uint16);
+
+    /// @notice Gets the version of the most recently published allowlist root, 0 before any is published
+    function getLatestAllowlistVersion() external view returns (uint256);
+
+    function getLatestPrice() external view returns (uint256);
+
+    /// @notice Gets the maximum challenge length
+    function getMaximumChallengeLength() external view returns (uint32);
+
+    /// @notice Gets the maximum number of bettors per challenge
+    function getMaximumNumberOfBettorsPerChallenge() external view returns (uint32);
+
+    /// @notice Gets the maximum number of challenge metrics
+    function getMaximumNumberOfChallengeMetrics() external view returns (uint8);
+
+    /**
+     * @notice Gets a page of the measurements submitted for a participant in a challenge, oldest first
+     * @param _offset The index of the first submission to return
+     * @param _limit The maximum number of submissions to return
+     */
+    function getMeasurementHistory(
+        uint256 _challengeId,
+        address _participant,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (MeasurementRecord[] memory page);
+
+    /// @notice Gets how many sets of measurements were submitted for a participant in a challenge
+    function getMeasurementHistoryLength(uint256 _challengeId, address _participant) external view returns (uint256);
+
+    /// @notice Gets the settings of a metric, with an empty name if the metric is unregistered
+    function getMetric(uint8 _metric) external view returns (Metric memory);
+
+    /// @notice Gets every registered metric, enabled or not, with its ID
+    function getMetrics() external view returns (uint8[] memory metricIds, Metric[] memory metricSettings);
+
+    /// @notice Gets the minimum USD value of a bet
+    function getMinimumUsdValueOfBet() external view returns (uint256);
+
+    /// @notice Gets how many started challenges are waiting to be settled, which upkeeps page through
+    function getOpenChallengeCount() external view returns (uint256);
+
+    /// @notice Gets the protocol fee in basis points
+    function getProtocolFee() external view returns (uint16);
+
+    /**
+     * @notice Gets how far along a streak challenge is
+     * @return totalPeriods The number of periods in the challenge
+     * @return completedPeriods How many periods met every target so far
+     * @return missedPeriods How many periods have ended without meeting every target
+     */
+    function getStreakProgress(
+        uint256 _challengeId
+    ) external view returns (uint256 totalPeriods, uint256 completedPeriods, uint256 missedPeriods);
+
+    /// @notice Keys trusted to sign measurement attestations, e.g. the Fitbit ingestion backend
+    function measurementAttesters(address _account) external view returns (bool);
+
+    // ============================ //
+    //           Inherited          //
+    // ============================ //
+
+    function DEFAULT_ADMIN_ROLE() external view returns (bytes32);
+    function UPGRADE_INTERFACE_VERSION() external view returns (string memory);
+    function nonces(address owner) external view returns (uint256);
+    function owner() external view returns (address);
+    function paused() external view returns (bool);
+    function renounceOwnership() external;
+    function supportsInterface(bytes4 interfaceId) external view returns (bool);
+    function transferOwnership(address newOwner) external;
+    function upgradeToAndCall(address newImplementation, bytes calldata data) external payable;
+
+    event Initialized(uint64 version);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event Paused(address account);
+    event Unpaused(address account);
+    event Upgraded(address indexed implementation);
+
+    error AddressEmptyCode(address target);
+    error ECDSAInvalidSignature();
+    error ECDSAInvalidSignatureLength(uint256 length);
+    error ECDSAInvalidSignatureS(bytes32 s);
+    error ERC1967InvalidImplementation(address implementation);
+    error ERC1967NonPayable();
+    error EnforcedPause();
+    error ExpectedPause();
+    error FailedCall();
+    error InvalidAccountNonce(address account, uint256 currentNonce);
+    error InvalidInitialization();
+    error NotInitializing();
+    error OwnableInvalidOwner(address owner);
+    error OwnableUnauthorizedAccount(address account);
+    error ReentrancyGuardReentrantCall();
+    error SafeERC20FailedOperation(address token);
+    error UUPSUnauthorizedCallContext();
+    error UUPSUnsupportedProxiableUUID(bytes32 slot);
+}
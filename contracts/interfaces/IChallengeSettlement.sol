@@ -0,0 +1,127 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import {AutomationCompatibleInterface} from "@chainlink/contracts/src/v0.8/automation/interfaces/AutomationCompatibleInterface.sol";
+
+import "./IChallengeBase.sol";
+
+/**
+ * @title Challenge settlement interface
+ * @author Branson Solutions LLC
+ * @notice Interface for settling health challenges and paying out their winnings, served by the ChallengeSettlement extension.
+ */
+interface IChallengeSettlement is IChallengeBase, AutomationCompatibleInterface {
+    /**
+    * @notice Calculates what a bettor would receive if their side wins, after the current protocol fee.
+    * @param _challengeId The ID of the challenge.
+    * @param _bettor The address of the bettor.
+    * @return The bettor's stake plus their share of the losing side's pot, or 0 if they have no bet.
+    */
+    function previewNetPayout(uint256 _challengeId, address _bettor) external view returns (uint256);
+
+    /**
+     * @notice Settles a challenge once its time has run out, recording each winner's claimable payout.
+     * @dev Anyone can settle a challenge, so winners never have to wait on the owner. While the dispute window is set,
+     * the first call only proposes the outcome, and a second call settles it once the window closes undisputed.
+     * @param _challengeId The ID of the challenge to settle.
+     *
+     * Requirements:
+     * - The challenge was started and its time has run out
+     * - The challenge has not already been settled
+     * - Any proposed outcome's dispute window has closed and nobody disputed it
+     */
+    function settleChallenge(uint256 _challengeId) external;
+
+    /**
+     * @notice Looks for open challenges that are due to be settled, for Chainlink Automation or any other keeper.
+     * @dev Only scans a page of the open challenges, so an upkeep's cost stays bounded however many are open. Register
+     * more upkeeps with different offsets to cover more of them, since the ones that are not due yet stay in the list.
+     * @param checkData Either empty, to scan the first 50 open challenges, or `abi.encode(uint256 offset, uint256 limit)`.
+     * @return upkeepNeeded Whether any of the scanned challenges is due.
+     * @return performData `abi.encode(uint256[] challengeIds)` of the due challenges, to pass to performUpkeep.
+     */
+    function checkUpkeep(
+        bytes calldata checkData
+    ) external view override returns (bool upkeepNeeded, bytes memory performData);
+
+    /**
+     * @notice Settles a batch of challenges found by checkUpkeep, proposing their outcomes instead while the dispute
+     * window is set.
+     * @dev Anyone can perform an upkeep, as anyone can settle a challenge. Challenges that are no longer due, because
+     * they were settled in the meantime or their outcome was disputed, are skipped rather than failing the batch.
+     * @param performData `abi.encode(uint256[] challengeIds)` as returned by checkUpkeep.
+     */
+    function performUpkeep(bytes calldata performData) external override;
+
+    /**
+     * @notice Disputes a challenge's proposed outcome, posting a bond in the challenge's denomination, so the challenge is
+     * only settled once an arbiter resolves the dispute.
+     * @dev The bond is a share of the challenge's total pot. ETH bonds are sent with the call, token bonds are pulled from
+     * the caller, who must have approved this contract.
+     * @param _challengeId The ID of the challenge whose outcome is disputed.
+     *
+     * Requirements:
+     * - The challenge has a proposed outcome whose dispute window is still open
+     * - Nobody has disputed the outcome yet
+     * - The caller bet on the side the proposed outcome loses
+     */
+    function disputeOutcome(uint256 _challengeId) external payable;
+
+    /**
+     * @notice Resolves a disputed outcome and settles the challenge.
+     * @dev An upheld dispute overturns the outcome and returns the bond, and the protocol fee still goes to the treasury.
+     * A rejected dispute settles the proposed outcome and slashes the bond into the treasury.
+     * @param _challengeId The ID of the challenge whose outcome was disputed.
+     * @param _upheld Whether the dispute is right and the proposed outcome is overturned.
+     *
+     * Requirements:
+     * - The caller is an appointed dispute arbiter
+     * - The challenge's outcome is disputed and the challenge is not settled
+     */
+    function resolveDispute(uint256 _challengeId, bool _upheld) external;
+
+    /**
+     * @notice Cancels a challenge and makes every bettor's stake claimable as a refund.
+     * @dev Anyone can void a challenge, and settling a challenge without measurements voids it as well.
+     * @param _challengeId The ID of the challenge to void.
+     *
+     * Requirements:
+     * - Either the challenge was never started and its start deadline has passed,
+     *   or its time has run out without any measurements being submitted
+     * - The challenge has not already been settled or voided
+     */
+    function voidChallenge(uint256 _challengeId) external;
+
+    /**
+     * @notice Returns the caller's stake from a voided challenge, voiding it first if it qualifies.
+     * @param _challengeId The ID of the challenge to be refunded from.
+     */
+    function claimRefund(uint256 _challengeId) external;
+
+    /**
+     * @notice Withdraws the caller's claimable payout from a settled challenge.
+     * @param _challengeId The ID of the challenge to claim winnings from.
+     */
+    function claimWinnings(uint256 _challengeId) external;
+
+    /**
+     * @notice Withdraws the caller's claimable payouts from several settled challenges in a single transfer.
+     * @param _challengeIds The IDs of the challenges to claim winnings from.
+     */
+    function claimWinningsBatch(uint256[] calldata _challengeIds) external;
+
+    /**
+     * @notice Settles a challenge if needed and pushes the next batch of winners' claimable payouts to them.
+     * @dev Each call pays out up to the distribution batch size of the challenge's bettors, starting where the previous
+     * call stopped, so a challenge with too many bettors for one transaction is paid over several. Call it until
+     * challengeToWinningsDistributed is true. Payouts that cannot be delivered stay claimable through claimWinnings.
+     * While the dispute window is set, settling only proposes the outcome, so nothing is pushed until a later call once
+     * the outcome is settled.
+     * @param _challengeId The ID of the challenge to distribute winnings for.
+     *
+     * Requirements:
+     * - The caller has the settler role
+     * - Not every one of the challenge's bettors has been paid out yet
+     */
+    function distributeWinnings(uint256 _challengeId) external;
+}
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "./IChallengeBase.sol";
+
+/**
+ * @title Challenge views interface
+ * @author Branson Solutions LLC
+ * @notice Interface for reading the state of health challenges, served by the ChallengeViews extension.
+ */
+interface IChallengeViews is IChallengeBase {
+    /**
+    * @notice Retrieves all challenge IDs for a specific challenger.
+    * @param challenger The address of the challenger.
+    * @return An array of challenge IDs created by the challenger.
+    */
+    function getChallengesForChallenger(address challenger) external view returns (uint256[] memory);
+
+    /**
+    * @notice Retrieves the metrics included in a challenge, in the order measurements must be submitted.
+    * @param _challengeId The ID of the challenge.
+    * @return An array of metric IDs.
+    */
+    function getChallengeMetrics(uint256 _challengeId) external view returns (uint8[] memory);
+
+    /**
+    * @notice Retrieves how each metric of a challenge is compared against its target.
+    * @param _challengeId The ID of the challenge.
+    * @return directions The direction of each metric, in the order of getChallengeMetrics: 0 at least, 1 at most, 2 within range.
+    * @return upperBounds The inclusive upper bound of each range metric, 0 for other directions.
+    */
+    function getChallengeMetricDirections(uint256 _challengeId) external view returns (uint8[] memory directions, uint256[] memory upperBounds);
+}
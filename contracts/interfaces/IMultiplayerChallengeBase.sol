@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "./IChallengeBase.sol";
+
+/**
+ * @title MultiplayerChallenge base interface
+ * @author Branson Solutions LLC
+ * @notice The events and errors MultiplayerChallenge and its extensions add to those of Challenge.
+ */
+interface IMultiplayerChallengeBase is IChallengeBase {
+    /// @dev Emitted when the global maximum number of competitors is updated.
+    event MaximumNumberOfChallengeCompetitorsUpdated(uint256 oldValue, uint256 newValue);
+    
+    /// @dev Emitted when a competitor (other than the creator) joins a challenge.
+    event ChallengeCompetitorJoined(uint256 indexed challengeId, address indexed competitor);
+
+    /// @dev Emitted when a competitor leaves a challenge.
+    event ChallengeCompetitorLeft(uint256 indexed challengeId, address indexed competitor);
+    
+    /// @dev Emitted when the leader for a challenge is updated.
+    event LeaderUpdated(uint256 indexed challengeId, address indexed newLeader, uint256 newScore);
+
+    /// @dev Emitted when a competitor submits a measurement that does not result in a new leader.
+    event LeaderNotUpdated(uint256 indexed challengeId, address indexed competitor, address indexed incumbentLeader, uint256 measurementToBeat);
+
+    /// @dev Emitted when the challenger for a challenge is changed.
+    event ChallengerChanged(uint256 indexed challengeId, address indexed oldChallenger, address indexed newChallenger);
+
+    /// @dev Emitted when a challenge is created with a payout schedule instead of paying the whole pot to the leader.
+    event PayoutScheduleSet(uint256 indexed challengeId, uint16[] payoutScheduleBps);
+
+    /// @dev Emitted when a challenge is created with teams competing on their members' rolled up scores.
+    event TeamChallengeCreated(uint256 indexed challengeId, uint256[] teamCaps, uint8 aggregation);
+
+    /// @dev Emitted when a competitor joins a team, including the creator joining theirs.
+    event TeamJoined(uint256 indexed challengeId, uint256 indexed team, address indexed competitor);
+
+    /// @dev Emitted when a competitor leaves their team before the challenge starts.
+    event TeamLeft(uint256 indexed challengeId, uint256 indexed team, address indexed competitor);
+
+    /// @dev Emitted when a member's submission changes their team's score.
+    event TeamScoreUpdated(uint256 indexed challengeId, uint256 indexed team, address indexed competitor, uint256 teamScore);
+
+    /// @dev Emitted when a spectator stakes on a competitor winning a challenge.
+    event SpectatorBetPlaced(uint256 indexed challengeId, address indexed spectator, address indexed competitor, uint256 amount);
+
+    /// @dev Emitted when a spectator who backed a winning competitor claims their share of the spectator pool.
+    event SpectatorWinningsClaimed(uint256 indexed challengeId, address indexed spectator, address indexed competitor, uint256 amount);
+
+    /// @dev Emitted when a spectator takes back a stake on a competitor who left, a voided challenge, or a pool nobody won.
+    event SpectatorBetRefunded(uint256 indexed challengeId, address indexed spectator, address indexed competitor, uint256 amount);
+
+    // ============================ //
+    //           Errors             //
+    // ============================ //
+
+    /// @dev Error thrown when a caller attempts to start a challenge with less than 2 competitors.
+    error NotEnoughCompetitors();
+
+    /// @dev Error thrown when a caller attempts to start a challenge with more competitors than the global maximum.
+    error ExceedsGlobalMaxCompetitors();
+
+    /// @dev Error thrown when a caller attempts to join a challenge that is not active.
+    error ChallengeCompetitorNotJoined(uint256 challengeId, address competitor);
+
+    /// @dev Error when a challenger leaves a challenge with only one competitor
+    error ChallengeHasOnlyOneCompetitor(uint256 challengeId);
+
+    /// @dev Error thrown when a caller attempts to join a challenge that is full.
+    error ChallengeIsFull(uint256 challengeId);
+
+    /// @dev Error thrown when a caller attempts to join a challenge they have already joined.
+    error ChallengeCompetitorAlreadyJoined(uint256 challengeId);
+
+    /// @dev Error thrown when a caller attempts to submit an invalid number of measurements.
+    error InvalidNumberOfMeasurements();
+
+    /// @dev Error thrown when a competitor tries to bet as a spectator on their own challenge, or a spectator tries to join it.
+    error SpectatorCannotCompete(uint256 challengeId, address account);
+
+    /// @dev Error thrown when a spectator bets on a competitor whose spectator bets were voided when they left.
+    error SpectatorBetsVoided(uint256 challengeId, address competitor);
+
+    /// @dev Error thrown when a spectator bet cannot be refunded, because its competitor is still competing and the pool has winners or is not settled.
+    error SpectatorBetNotRefundable(uint256 challengeId, address competitor);
+
+    /// @dev Error thrown when a team challenge has fewer than two teams, an empty team, an unknown score aggregation, or a total on a metric where higher is not better.
+    error InvalidTeamConfiguration();
+
+    /// @dev Error thrown when joining or creating a team that does not exist in the challenge.
+    error InvalidTeam(uint256 challengeId, uint256 team);
+
+    /// @dev Error thrown when joining a team that has reached its cap.
+    error TeamIsFull(uint256 challengeId, uint256 team);
+
+    /// @dev Error thrown when joining a team challenge without picking a team.
+    error TeamRequired(uint256 challengeId);
+
+    /// @dev Error thrown when a competitor tries to cancel or change their entry stake, which only leaving the challenge gives up.
+    error CompetitorCannotUpdateStake(uint256 challengeId, address competitor);
+
+    /// @dev Error thrown when a payout schedule is empty, has more slots than competitors, does not add up to the whole pot, or pays a lower position more.
+    error InvalidPayoutSchedule();
+}
@@ -0,0 +1,162 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "./IMultiplayerChallengeBase.sol";
+
+/**
+ * @title MultiplayerChallenge betting interface
+ * @author Branson Solutions LLC
+ * @notice Interface for creating multiplayer challenges and competing in them, served by the MultiplayerChallengeBetting extension.
+ */
+interface IMultiplayerChallengeBetting is IMultiplayerChallengeBase {
+    /**
+     * @notice Creates a new multiplayer challenge.
+     * @param _lengthOfChallenge The challenge duration in seconds.
+     * @param _challengeMetric The metric for the challenge, there can only be one due to potential differences and weights of values.
+     * @param _maxCompetitors The number of competitors that can join this challenge (must be > 0 and no more than the global maximum).
+     * @return The challenge ID.
+     */
+    function createMultiplayerChallenge(
+        uint256 _lengthOfChallenge,
+        uint8  _challengeMetric,
+        uint256 _maxCompetitors
+    ) external payable returns(uint256);
+
+    /**
+     * @notice Creates a new multiplayer challenge whose stakes and payout are in an allowlisted ERC-20 token.
+     * @dev The creator must have approved this contract to transfer their stake.
+     * @param _lengthOfChallenge The challenge duration in seconds.
+     * @param _challengeMetric The metric for the challenge.
+     * @param _maxCompetitors The number of competitors that can join this challenge (must be > 0 and no more than the global maximum).
+     * @param _betToken The ERC-20 token the challenge is denominated in.
+     * @param _amount The creator's stake in the token.
+     * @return The challenge ID.
+     */
+    function createTokenMultiplayerChallenge(
+        uint256 _lengthOfChallenge,
+        uint8 _challengeMetric,
+        uint256 _maxCompetitors,
+        address _betToken,
+        uint256 _amount
+    ) external returns(uint256);
+
+    /**
+     * @notice Creates a new multiplayer challenge that only accepts measurements signed by a registered attester.
+     * @param _lengthOfChallenge The challenge duration in seconds.
+     * @param _challengeMetric The metric for the challenge.
+     * @param _maxCompetitors The number of competitors that can join this challenge (must be > 0 and no more than the global maximum).
+     * @return The challenge ID.
+     */
+    function createAttestedMultiplayerChallenge(
+        uint256 _lengthOfChallenge,
+        uint8 _challengeMetric,
+        uint256 _maxCompetitors
+    ) external payable returns(uint256);
+
+    /**
+     * @notice Creates a new multiplayer challenge that only the creator and the addresses they invite can join or bet on as spectators.
+     * Invitations are managed the same way as those of invite-only Challenge challenges.
+     * @param _lengthOfChallenge The challenge duration in seconds.
+     * @param _challengeMetric The metric for the challenge.
+     * @param _maxCompetitors The number of competitors that can join this challenge (must be > 0 and no more than the global maximum).
+     * @param _invitees The addresses invited to the challenge.
+     * @param _inviteSigner The address of the key derived from the challenge's invite code, or the zero address for no invite code.
+     * @return The challenge ID.
+     */
+    function createInviteOnlyMultiplayerChallenge(
+        uint256 _lengthOfChallenge,
+        uint8 _challengeMetric,
+        uint256 _maxCompetitors,
+        address[] calldata _invitees,
+        address _inviteSigner
+    ) external payable returns(uint256);
+
+    /**
+     * @notice Creates a new multiplayer challenge where a lower score, or the score closest to a range, leads.
+     * @param _lengthOfChallenge The challenge duration in seconds.
+     * @param _challengeMetric The metric for the challenge.
+     * @param _maxCompetitors The number of competitors that can join this challenge (must be > 0 and no more than the global maximum).
+     * @param _metricDirection 0 if the highest score leads, 1 if the lowest score leads, 2 if the score closest to the range leads.
+     * @param _lowerBound The inclusive lower bound of the range, 0 for other directions.
+     * @param _upperBound The inclusive upper bound of the range, 0 for other directions.
+     * @return The challenge ID.
+     */
+    function createMultiplayerChallengeWithDirection(
+        uint256 _lengthOfChallenge,
+        uint8 _challengeMetric,
+        uint256 _maxCompetitors,
+        uint8 _metricDirection,
+        uint256 _lowerBound,
+        uint256 _upperBound
+    ) external payable returns(uint256);
+
+    /**
+     * @notice Creates a new multiplayer challenge whose pot is split across the top finishers, e.g. 60/30/10 for the top three.
+     * Competitors tied on a score split the slots they cover evenly, and when fewer competitors submit a score than there are
+     * slots, the unfilled slots' shares go to the finishers in proportion to their own.
+     * @param _lengthOfChallenge The challenge duration in seconds.
+     * @param _challengeMetric The metric for the challenge.
+     * @param _maxCompetitors The number of competitors that can join this challenge (must be > 0 and no more than the global maximum).
+     * @param _payoutScheduleBps The share of the pot paid to each finishing position, best first, in basis points.
+     * @return The challenge ID.
+     *
+     * Requirements:
+     * - The schedule has between 1 and `_maxCompetitors` slots, each non-zero and no larger than the one before
+     * - The slots add up to 10,000 basis points
+     */
+    function createMultiplayerChallengeWithPayouts(
+        uint256 _lengthOfChallenge,
+        uint8 _challengeMetric,
+        uint256 _maxCompetitors,
+        uint16[] calldata _payoutScheduleBps
+    ) external payable returns(uint256);
+
+    /**
+     * @notice Creates a new multiplayer challenge where teams compete on their members' scores rolled up into a team score.
+     * The members of the best scoring team split the pot pro rata to their stakes, and teams tied for the best score share it.
+     * @param _lengthOfChallenge The challenge duration in seconds.
+     * @param _challengeMetric The metric for the challenge.
+     * @param _teamCaps The maximum number of members of each team, which together must not exceed the global maximum of competitors.
+     * @param _aggregation 0 to score a team by its members' total, 1 by the average of the members who have submitted.
+     * @param _creatorTeam The team the creator joins.
+     * @return The challenge ID.
+     *
+     * Requirements:
+     * - There are at least two teams, each with room for at least one member
+     * - Teams are only scored by their total on metrics where higher is better
+     */
+    function createTeamChallenge(
+        uint256 _lengthOfChallenge,
+        uint8 _challengeMetric,
+        uint256[] calldata _teamCaps,
+        uint8 _aggregation,
+        uint256 _creatorTeam
+    ) external payable returns(uint256);
+
+    /**
+     * @notice Allows a user to join an existing challenge as a competitor, if they are invited to it when it is invite-only.
+     * @param _challengeId The ID of the challenge to join.
+     */
+    function joinChallenge(uint256 _challengeId) external payable;
+
+    /**
+     * @notice Allows a user to join a team of an existing team challenge as a competitor.
+     * @param _challengeId The ID of the challenge to join.
+     * @param _team The index of the team to join.
+     */
+    function joinTeam(uint256 _challengeId, uint256 _team) external payable;
+
+    /**
+     * @notice Allows a user to join an existing token-denominated challenge as a competitor.
+     * @dev The caller must have approved this contract to transfer their stake.
+     * @param _challengeId The ID of the challenge to join.
+     * @param _amount The caller's stake in the challenge's token.
+     */
+    function joinTokenChallenge(uint256 _challengeId, uint256 _amount) external;
+
+    /**
+     * @notice Allows a user to leave a challenge he joined before it starts.
+     * @param _challengeId The ID of the challenge to join.
+     */
+    function leaveChallenge(uint256 _challengeId) external;
+}
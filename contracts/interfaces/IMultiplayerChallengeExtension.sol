@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "./IMultiplayerChallengeBase.sol";
+
+/**
+ * @title MultiplayerChallenge extension interface
+ * @author Branson Solutions LLC
+ * @notice Interface for spectator betting and the standings of multiplayer challenges, served by the MultiplayerChallengeExtension.
+ */
+interface IMultiplayerChallengeExtension is IMultiplayerChallengeBase {
+    /**
+     * @notice Sets the contract-wide maximum number of competitors allowed per challenge.
+     * @param _maxNum The new maximum number.
+     */
+    function setMaximumNumberOfChallengeCompetitors(uint256 _maxNum) external;
+
+    /**
+     * @notice Stakes on a competitor winning an ETH challenge, as a whitelisted bettor who is not competing in it.
+     * Spectator stakes go into a parimutuel pool kept apart from the competitors' entry pot, which is split among the
+     * spectators who backed the winner, in proportion to their stakes, after the protocol fee on the other stakes.
+     * @param _challengeId The ID of the challenge.
+     * @param _competitor The competitor expected to win.
+     *
+     * Requirements:
+     * - The caller is on the bettor whitelist and not a competitor in the challenge
+     * - If the challenge is invite-only, the caller is invited to it
+     * - The challenge has not started and `_competitor` is competing in it
+     * - The stake is worth at least the minimum bet value
+     */
+    function placeSpectatorBet(uint256 _challengeId, address _competitor) external payable;
+
+    /**
+     * @notice Same as placeSpectatorBet, for a challenge denominated in an ERC-20 token.
+     * @dev The caller must have approved this contract to transfer their stake.
+     * @param _challengeId The ID of the challenge.
+     * @param _competitor The competitor expected to win.
+     * @param _amount The stake in the challenge's token.
+     */
+    function placeTokenSpectatorBet(uint256 _challengeId, address _competitor, uint256 _amount) external;
+
+    /**
+     * @notice Pays out a spectator's share of the spectator pool for a stake on a competitor who won it.
+     * The winners are the leader, or everyone tied for first place when the challenge has a payout schedule.
+     * @param _challengeId The ID of the challenge.
+     * @param _competitor The competitor the caller backed.
+     */
+    function claimSpectatorWinnings(uint256 _challengeId, address _competitor) external;
+
+    /**
+     * @notice Returns a spectator's stake on a competitor who left the challenge before it started, on a challenge that
+     * was voided, or on a settled challenge where nobody had backed a winner.
+     * @param _challengeId The ID of the challenge.
+     * @param _competitor The competitor the caller backed.
+     */
+    function claimSpectatorRefund(uint256 _challengeId, address _competitor) external;
+
+    /**
+     * @notice Returns the list of competitors for a given challenge.
+     * @param _challengeId The challenge ID.
+     * @return An array of competitor addresses.
+     */
+    function getCompetitors(uint256 _challengeId) external view returns (address[] memory);
+
+    /**
+     * @notice Returns the competitors of a challenge ordered from best to worst score, the way they would be paid if it ended now.
+     * @param _challengeId The challenge ID.
+     * @return competitors The competitors, finishers first, followed by those who have not submitted in the order they joined.
+     * @return scores Each competitor's score, 0 for those who have not submitted.
+     * @return finishers How many competitors have submitted a score.
+     */
+    function getStandings(uint256 _challengeId)
+        external
+        view
+        returns (address[] memory competitors, uint256[] memory scores, uint256 finishers);
+
+    /**
+     * @notice Returns the share of the pot paid to each finishing position of a challenge, in basis points.
+     * @param _challengeId The challenge ID.
+     * @return The payout schedule, empty if the leader takes the whole pot.
+     */
+    function getPayoutSchedule(uint256 _challengeId) external view returns (uint16[] memory);
+
+    /**
+     * @notice Returns the teams of a team challenge.
+     * @param _challengeId The challenge ID.
+     * @return caps The maximum number of members of each team, empty if it is not a team challenge.
+     * @return sizes The current number of members of each team.
+     * @return scores Each team's current score, its members' total or average.
+     */
+    function getTeams(uint256 _challengeId)
+        external
+        view
+        returns (uint256[] memory caps, uint256[] memory sizes, uint256[] memory scores);
+
+    /**
+     * @notice Returns the team a competitor is on.
+     * @param _challengeId The challenge ID.
+     * @param _competitor The competitor's address.
+     * @return The index of the competitor's team.
+     */
+    function getCompetitorTeam(uint256 _challengeId, address _competitor) external view returns (uint256);
+
+    /**
+     * @notice Returns the implied odds of the spectator pool for each competitor, were the challenge settled now.
+     * @param _challengeId The challenge ID.
+     * @return competitors The competitors, in the order they joined.
+     * @return stakes The total spectators staked on each competitor.
+     * @return decimalOdds What a winning stake of 1 on each competitor returns after the current protocol fee, scaled by 1e18,
+     * or 0 for a competitor nobody backed.
+     */
+    function getSpectatorOdds(uint256 _challengeId)
+        external
+        view
+        returns (address[] memory competitors, uint256[] memory stakes, uint256[] memory decimalOdds);
+}
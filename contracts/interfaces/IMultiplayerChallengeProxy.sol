@@ -0,0 +1,120 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.22;
+
+import "./IChallengeProxy.sol";
+import "./IMultiplayerChallenge.sol";
+import "./IMultiplayerChallengeBetting.sol";
+import "./IMultiplayerChallengeExtension.sol";
+
+/**
+ * @title MultiplayerChallenge proxy interface
+ * @author Branson Solutions LLC
+ * @notice Everything a MultiplayerChallenge proxy answers to: the functions of MultiplayerChallenge and of every extension behind it.
+ * @dev Like IChallengeProxy, no contract implements it, and a test checks it matches the ABIs of MultiplayerChallenge and its extensions.
+ */
+interface IMultiplayerChallengeProxy is
+    IChallengeProxy,
+    IMultiplayerChallenge,
+    IMultiplayerChallengeBetting,
+    IMultiplayerChallengeExtension
+{
+    // ============================ //
+    //        State Variables       //
+    // ============================ //
+
+    /// @notice Mapping from challenge ID to list of competitor addresses.
+    function challengeCompetitors(uint256, uint256) external view returns (address);
+
+    /// @notice Mapping from challenge ID to a competitor's participation flag.
+    function challengeHasCompetitor(uint256, address) external view returns (bool);
+
+    /// @notice Mapping from challenge ID to the current leader's address.
+    function challengeLeader(uint256) external view returns (address);
+
+    /// @notice Mapping from challenge ID to the current leader's score.
+    function challengeToCompetitorMeasurements(uint256, address) external view returns (uint256);
+
+    /// @notice Mapping from challenge ID to the maximum competitors allowed (chosen at creation).
+    function challengeToMaxCompetitors(uint256) external view returns (uint256);
+
+    /// @notice Contract-level maximum allowed competitors per challenge.
+    function maximumNumberOfChallengeCompetitors() external view returns (uint256);
+
+    // ============================ //
+    //          Initializer         //
+    // ============================ //
+
+    function initializeMultiplayerChallenge(
+        uint256 _minimumBetValue,
+        uint256 _maximumNumberOfChallengeCompetitors,
+        address _dataFeedAddress,
+        uint32 _maximumNumberOfBettorsPerChallenge,
+        uint32 _maximumChallengeLengthInSeconds,
+        uint8 _maximumNumberOfChallengeMetrics
+    ) external;
+
+    // ============================ //
+    //            Getters           //
+    // ============================ //
+
+    /// @notice Gets, by challenge ID, whether a competitor has submitted a score, since an unsubmitted 0 must not lead a lower-is-better challenge.
+    function challengeToCompetitorHasSubmitted(uint256 _challengeId, address _competitor) external view returns (bool);
+
+    /// @notice Gets, by challenge ID, whether an address has bet as a spectator, which keeps it from competing.
+    function challengeToIsSpectator(uint256 _challengeId, address _account) external view returns (bool);
+
+    /// @notice Gets, by challenge ID, what each spectator staked on each competitor, by spectator then competitor.
+    function challengeToSpectatorBets(
+        uint256 _challengeId,
+        address _spectator,
+        address _competitor
+    ) external view returns (uint256);
+
+    /// @notice Gets, by challenge ID, whether spectator bets on a competitor were voided because the competitor left.
+    function challengeToSpectatorBetsVoided(uint256 _challengeId, address _competitor) external view returns (bool);
+
+    /// @notice Gets, by challenge ID, the spectator pool left to split among winning spectators after the fee, set at settlement.
+    function challengeToSpectatorPayoutPool(uint256 _challengeId) external view returns (uint256);
+
+    /// @notice Gets, by challenge ID, the total staked by spectators, kept apart from the competitors' entry pot.
+    function challengeToSpectatorPool(uint256 _challengeId) external view returns (uint256);
+
+    /// @notice Gets, by challenge ID, the total spectators staked on each competitor.
+    function challengeToSpectatorStakeOnCompetitor(
+        uint256 _challengeId,
+        address _competitor
+    ) external view returns (uint256);
+
+    /// @notice Gets, by challenge ID, whether a competitor won the spectator pool, set at settlement.
+    function challengeToSpectatorWinner(uint256 _challengeId, address _competitor) external view returns (bool);
+
+    /// @notice Gets, by challenge ID, the total spectators staked on the winning competitors, set at settlement.
+    function challengeToSpectatorWinningStake(uint256 _challengeId) external view returns (uint256);
+
+    /// @notice Gets, by challenge ID, how members' scores roll up into a team score: TEAM_SCORE_TOTAL or TEAM_SCORE_AVERAGE.
+    function challengeToTeamAggregation(uint256 _challengeId) external view returns (uint8);
+
+    /// @notice Gets, by challenge ID, how many members of each team have submitted a score, since a team nobody scored for cannot win.
+    function challengeToTeamFinishers(uint256 _challengeId, uint256 _team) external view returns (uint256);
+
+    /// @notice Gets, by challenge ID, the number of members of each team.
+    function challengeToTeamSize(uint256 _challengeId, uint256 _team) external view returns (uint256);
+
+    /// @notice Gets, by challenge ID, the sum of each team's members' latest scores.
+    function challengeToTeamTotal(uint256 _challengeId, uint256 _team) external view returns (uint256);
+
+    /**
+     * @notice Gets a specific competitor's score
+     * @param _challengeId The challenge ID
+     * @param _competitor The competitor's address
+     * @return The competitor's score
+     */
+    function getCompetitorScore(uint256 _challengeId, address _competitor) external view returns (uint256);
+
+    /**
+     * @notice Returns the current leader's score for a challenge.
+     * @param _challengeId The challenge ID.
+     * @return The leader's score.
+     */
+    function getLeaderScore(uint256 _challengeId) external view returns (uint256);
+}
@@ -22,6 +22,50 @@ interface IVault {
     /// @notice Emitted when an ERC-20 token address is set.
     event TokenAddressSet(address tokenAddress);
 
+    /// @notice Emitted when a game contract is authorized to use the vault.
+    /// @param consumer The address of the authorized contract.
+    event ConsumerAdded(address indexed consumer);
+
+    /// @notice Emitted when a game contract's access to the vault is revoked.
+    /// @param consumer The address of the removed contract.
+    event ConsumerRemoved(address indexed consumer);
+
+    /// @notice Emitted when a game contract moves protocol fees into the treasury.
+    /// @param consumer The address of the game contract that took the fees.
+    /// @param amount The amount of fees accrued.
+    /// @param isToken True if the fees were in tokens, false for ETH.
+    event FeesAccrued(address indexed consumer, uint256 amount, bool isToken);
+
+    /// @notice Emitted when the default admin withdraws protocol fees from the treasury.
+    /// @param recipient The address that received the fees.
+    /// @param amount The amount withdrawn.
+    /// @param isToken True if the withdrawal was in tokens, false for ETH.
+    event TreasuryWithdrawn(address indexed recipient, uint256 amount, bool isToken);
+
+    /// @notice Emitted when a game contract deposits an ERC-20 token.
+    /// @param consumer The address of the game contract depositing the tokens.
+    /// @param asset The address of the ERC-20 token.
+    /// @param amount The amount deposited.
+    event ERC20Deposited(address indexed consumer, address indexed asset, uint256 amount);
+
+    /// @notice Emitted when ERC-20 tokens are withdrawn/distributed from the vault.
+    /// @param recipient The address that received the tokens.
+    /// @param asset The address of the ERC-20 token.
+    /// @param amount The amount withdrawn.
+    event ERC20Withdrawn(address indexed recipient, address indexed asset, uint256 amount);
+
+    /// @notice Emitted when a game contract moves ERC-20 protocol fees into the treasury.
+    /// @param consumer The address of the game contract that took the fees.
+    /// @param asset The address of the ERC-20 token.
+    /// @param amount The amount of fees accrued.
+    event ERC20FeesAccrued(address indexed consumer, address indexed asset, uint256 amount);
+
+    /// @notice Emitted when the default admin withdraws ERC-20 protocol fees from the treasury.
+    /// @param recipient The address that received the fees.
+    /// @param asset The address of the ERC-20 token.
+    /// @param amount The amount withdrawn.
+    event ERC20TreasuryWithdrawn(address indexed recipient, address indexed asset, uint256 amount);
+
     /*
     * @notice Deposit ETH into the vault. 
     */
@@ -34,4 +78,61 @@ interface IVault {
     * @param isToken True if the withdrawal was in tokens, false for ETH.
     */
     function withdrawFunds(address payable recipient, uint256 amount, bool isToken) external;
+
+    /*
+    * @notice Moves protocol fees from the calling game contract's balance into the treasury.
+    * @param amount The amount of fees to accrue.
+    * @param isToken True if the fees are in tokens, false for ETH.
+    */
+    function accrueFees(uint256 amount, bool isToken) external;
+
+    /*
+    * @notice Withdraws accrued protocol fees from the treasury.
+    * @param recipient The address to receive the fees.
+    * @param amount The amount to withdraw.
+    * @param isToken True if the withdrawal is in tokens, false for ETH.
+    */
+    function withdrawTreasury(address payable recipient, uint256 amount, bool isToken) external;
+
+    /*
+    * @notice Deposit an ERC-20 token on behalf of the calling game contract, which must have approved the vault.
+    * @param asset The address of the ERC-20 token.
+    * @param amount The amount to deposit.
+    */
+    function depositERC20(address asset, uint256 amount) external;
+
+    /*
+    * @notice Withdraw an ERC-20 token deposited by the calling game contract.
+    * @param asset The address of the ERC-20 token.
+    * @param recipient The address to receive the tokens.
+    * @param amount The amount to withdraw.
+    */
+    function withdrawERC20(address asset, address recipient, uint256 amount) external;
+
+    /*
+    * @notice Moves ERC-20 protocol fees from the calling game contract's balance into the treasury.
+    * @param asset The address of the ERC-20 token.
+    * @param amount The amount of fees to accrue.
+    */
+    function accrueERC20Fees(address asset, uint256 amount) external;
+
+    /*
+    * @notice Withdraws accrued ERC-20 protocol fees from the treasury.
+    * @param asset The address of the ERC-20 token.
+    * @param recipient The address to receive the fees.
+    * @param amount The amount to withdraw.
+    */
+    function withdrawTreasuryERC20(address asset, address recipient, uint256 amount) external;
+
+    /*
+    * @notice Authorizes a game contract to deposit into and withdraw from the vault.
+    * @param consumer The address of the game contract.
+    */
+    function addConsumer(address consumer) external;
+
+    /*
+    * @notice Revokes a game contract's access to the vault.
+    * @param consumer The address of the game contract.
+    */
+    function removeConsumer(address consumer) external;
 }
\ No newline at end of file
@@ -7,13 +7,16 @@ contract MockChallengeV2 is Challenge {
     // new property not present in V1
     string public newProperty;
 
-    /// @notice New initializer for V2. Use reinitializer(2) so it can only be called once after upgrade.
-    function initializeV2() public reinitializer(2) {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address _extension) Challenge(_extension) {}
+
+    /// @notice New initializer for V2. Use reinitializer(5) so it can only be called once after upgrade.
+    function initializeV2() public reinitializer(5) {
         newProperty = "v2";
     }
 
     // Example: override a virtual function from V1 to add new behavior
-    function addNewChallenger(address challenger) public override onlyOwner {
+    function addNewChallenger(address challenger) public override onlyRole(WHITELIST_MANAGER_ROLE) {
         Challenge.addNewChallenger(challenger);
         // (Additional V2 behavior can be added here)
     }
@@ -26,7 +29,7 @@ contract MockChallengeV2 is Challenge {
     }
 
     /// @notice Setter for the new property
-    function setNewProperty(string memory _newProperty) external onlyOwner whenNotPaused {
+    function setNewProperty(string memory _newProperty) external onlyRole(PARAMETER_ADMIN_ROLE) whenNotPaused {
         newProperty = _newProperty;
     }
 }
@@ -19,8 +19,11 @@ contract MockMultiplayerChallengeV2 is MultiplayerChallenge {
     // New state variable to track competitor bonuses
     mapping(uint256 => mapping(address => uint16[])) public challengeToCompetitorBadges;
 
-    /// @notice New initializer for V2. Using reinitializer(2) ensures it can only be called once after upgrade.
-    function initializeV2() public reinitializer(2) {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address _extension) MultiplayerChallenge(_extension) {}
+
+    /// @notice New initializer for V2. Using reinitializer(5) ensures it can only be called once after upgrade.
+    function initializeV2() public reinitializer(5) {
         newV2Property = "multiplayerV2";
     }
 
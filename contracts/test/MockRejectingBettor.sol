@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import {IChallengeProxy} from "../interfaces/IChallengeProxy.sol";
+
+/// @dev A contract bettor that can refuse incoming ETH, used to test that failed winnings pushes stay claimable
+contract MockRejectingBettor {
+    IChallengeProxy public challenge;
+    bool public acceptPayments;
+
+    constructor(address _challenge) {
+        challenge = IChallengeProxy(_challenge);
+    }
+
+    function setAcceptPayments(bool _acceptPayments) external {
+        acceptPayments = _acceptPayments;
+    }
+
+    function placeBet(uint256 _challengeId, bool _bettingFor) external payable {
+        challenge.placeBet{value: msg.value}(_challengeId, _bettingFor);
+    }
+
+    function claimWinnings(uint256 _challengeId) external {
+        challenge.claimWinnings(_challengeId);
+    }
+
+    receive() external payable {
+        require(acceptPayments, "payments disabled");
+    }
+}
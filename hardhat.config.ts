@@ -5,6 +5,7 @@ import { config as dotEnvConfig } from "dotenv";
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "solidity-docgen";
+import "./tasks/challenge";
 
 dotEnvConfig();
 
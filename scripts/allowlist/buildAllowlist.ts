@@ -0,0 +1,21 @@
+import { buildAllowlist, readAllowlistCsv, writeAllowlist } from "./merkleAllowlist";
+
+function main() {
+  const csvPath = process.env.ALLOWLIST_CSV_PATH;
+  const outputPath = process.env.ALLOWLIST_OUTPUT_PATH;
+  if (!csvPath || !outputPath) {
+    throw new Error("Set ALLOWLIST_CSV_PATH to the CSV of addresses and ALLOWLIST_OUTPUT_PATH to the JSON file to write");
+  }
+
+  const allowlist = buildAllowlist(readAllowlistCsv(csvPath));
+  writeAllowlist(outputPath, allowlist);
+  console.log(`Wrote proofs for ${Object.keys(allowlist.proofs).length} addresses to ${outputPath}`);
+  console.log(`Merkle root ${allowlist.root}, publish it with publishAllowlistRoot`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error("Building the allowlist failed:", error);
+  process.exit(1);
+}
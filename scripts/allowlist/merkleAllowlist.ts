@@ -0,0 +1,88 @@
+import fs from "fs";
+import { AbiCoder, concat, getAddress, keccak256 } from "ethers";
+import { readWhitelistCsv } from "../../tasks/helpers";
+
+// The role an address is allowlisted with, encoded as registerWithAllowlistProof expects it
+export const ALLOWLIST_ROLES = { bettor: 0, challenger: 1 } as const;
+export type AllowlistRole = keyof typeof ALLOWLIST_ROLES;
+
+export interface AllowlistEntry {
+  address: string;
+  role: AllowlistRole;
+}
+
+export interface AllowlistProof {
+  role: AllowlistRole;
+  // the role as registerWithAllowlistProof takes it
+  roleId: number;
+  proof: string[];
+}
+
+export interface Allowlist {
+  root: string;
+  // proofs by checksummed address
+  proofs: Record<string, AllowlistProof>;
+}
+
+/**
+ * Hashes an entry the way the contracts do, twice over its ABI encoding like OpenZeppelin's standard Merkle trees,
+ * so a leaf can never be mistaken for an inner node.
+ */
+export const hashAllowlistEntry = ({ address, role }: AllowlistEntry): string =>
+  keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address", "uint8"], [address, ALLOWLIST_ROLES[role]])));
+
+// OpenZeppelin's MerkleProof hashes every pair in sorted order, so proofs need no left or right flags
+const hashPair = (a: string, b: string): string => keccak256(BigInt(a) < BigInt(b) ? concat([a, b]) : concat([b, a]));
+
+/**
+ * Builds the Merkle tree of an allowlist and the proof each address registers with.
+ * Every address may appear once, listed as a challenger if it should be able to create challenges as well as bet.
+ */
+export const buildAllowlist = (entries: AllowlistEntry[]): Allowlist => {
+  if (entries.length === 0) throw new Error("An allowlist needs at least one address");
+
+  const seen = new Set<string>();
+  const leaves = entries.map((entry) => {
+    const address = getAddress(entry.address);
+    if (!Object.keys(ALLOWLIST_ROLES).includes(entry.role)) throw new Error(`Invalid role ${entry.role} for ${address}, expected challenger or bettor`);
+    if (seen.has(address)) throw new Error(`${address} is listed more than once`);
+    seen.add(address);
+    return { address, role: entry.role, hash: hashAllowlistEntry({ address, role: entry.role }) };
+  });
+
+  // sorted leaves make the root independent of the order of the CSV
+  const layers: string[][] = [leaves.map((leaf) => leaf.hash).sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1))];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+    // a node without a sibling moves up a layer unchanged
+    for (let i = 0; i < layer.length; i += 2) next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    layers.push(next);
+  }
+
+  const proofs: Record<string, AllowlistProof> = {};
+  for (const { address, role, hash } of leaves) {
+    const proof: string[] = [];
+    let index = layers[0].indexOf(hash);
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = index ^ 1;
+      if (sibling < layer.length) proof.push(layer[sibling]);
+      index = Math.floor(index / 2);
+    }
+    proofs[address] = { role, roleId: ALLOWLIST_ROLES[role], proof };
+  }
+
+  return { root: layers[layers.length - 1][0], proofs };
+};
+
+/**
+ * Reads allowlist entries from a CSV file with an address per line and an optional role column, which defaults to bettor.
+ */
+export const readAllowlistCsv = (csvPath: string, defaultRole: AllowlistRole = "bettor"): AllowlistEntry[] =>
+  readWhitelistCsv(csvPath).map(({ address, role = defaultRole }) => ({ address, role: role as AllowlistRole }));
+
+export const writeAllowlist = (outputPath: string, allowlist: Allowlist): void => {
+  fs.writeFileSync(outputPath, `${JSON.stringify(allowlist, null, 2)}\n`);
+};
+
+export const readAllowlist = (inputPath: string): Allowlist => JSON.parse(fs.readFileSync(inputPath, "utf8"));
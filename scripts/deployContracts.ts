@@ -1,6 +1,19 @@
 import hre from "hardhat";
 import { ethers, upgrades } from "hardhat";
+import { BaseContract } from "ethers";
 import deployParams from "./params/deployParams.json";
+import {
+  DEPLOYMENT_MANIFEST_VERSION,
+  DeploymentManifest,
+  deploymentExists,
+  extensionConstructorArgs,
+  getDeploymentPath,
+  getGitCommit,
+  loadDeployment,
+  recordProxyDeployment,
+  saveDeployment,
+} from "./deployments";
+import { deployExtensions, getProxyFactory } from "./extensions";
 
 const baseChainId = 8453;
 const baseSepoliaChainId = 84532;
@@ -11,7 +24,13 @@ const optimismSepoliaChainId = 11155420;
 const localhostChainId = 1337;
 const hardhatChainId = 31337;
 
-const deployFunc = async () => {
+// The block the proxy was deployed in, which is where indexers should start reading its events
+const getDeploymentBlockNumber = async (contract: BaseContract): Promise<number> => {
+  const receipt = await contract.deploymentTransaction()?.wait();
+  return receipt?.blockNumber ?? ethers.provider.getBlockNumber();
+};
+
+const deployFunc = async (): Promise<DeploymentManifest> => {
   // Determine the price feed address based on the network.
   const network = hre.network.config.chainId;
   let priceFeedAddress;
@@ -48,21 +67,23 @@ const deployFunc = async () => {
   }
 
   // Deploy Challenge contract using the upgradeable proxy pattern.
-  const ChallengeFactory = await ethers.getContractFactory("Challenge");
+  const challengeExtensions = await deployExtensions(hre, "Challenge", [], console.log);
+  const ChallengeFactory = await getProxyFactory(hre, "Challenge");
   const minimumUsdBetValue = BigInt(deployParams.general.minimumUsdBetValue) * BigInt(1e14);
   const maximumChallengeLengthInSeconds = deployParams.general.maximumChallengeLengthInSeconds;
   const maximumNumberOfChallengeMetrics = deployParams.general.maximumNumberOfChallengeMetrics;
   const maximumNumberOfBettorsPerChallenge = deployParams.general.maximumNumberOfBettorsPerChallenge;
+  const challengeInitializerArgs = [
+    minimumUsdBetValue, 
+    priceFeedAddress,
+    maximumNumberOfBettorsPerChallenge,
+    maximumChallengeLengthInSeconds,
+    maximumNumberOfChallengeMetrics
+  ];
   const challengeContract = await upgrades.deployProxy(
     ChallengeFactory,
-    [
-      minimumUsdBetValue, 
-      priceFeedAddress,
-      maximumNumberOfBettorsPerChallenge,
-      maximumChallengeLengthInSeconds,
-      maximumNumberOfChallengeMetrics
-    ],
-    { initializer: "initialize" }
+    challengeInitializerArgs,
+    { initializer: "initialize", constructorArgs: extensionConstructorArgs(challengeExtensions) }
   );
   await challengeContract.waitForDeployment();
   const challengeContractAddress = await challengeContract.getAddress();
@@ -70,9 +91,10 @@ const deployFunc = async () => {
 
   // Deploy Vault contract using the upgradeable proxy pattern.
   const VaultFactory = await ethers.getContractFactory("Vault");
+  const vaultInitializerArgs = [challengeContractAddress];
   const vaultContract = await upgrades.deployProxy(
     VaultFactory,
-    [challengeContractAddress],
+    vaultInitializerArgs,
     { initializer: "initialize" }
   );
   await vaultContract.waitForDeployment();
@@ -87,37 +109,94 @@ const deployFunc = async () => {
   // Deploy MultiplayerChallenge contract using the upgradeable proxy pattern.
   const maximumNumberOfChallengeCompetitors = deployParams.general.maximumNumberOfChallengeCompetitors;
 
-  const MultiplayerChallengeFactory = await ethers.getContractFactory("MultiplayerChallenge");
+  const multiplayerChallengeExtensions = await deployExtensions(hre, "MultiplayerChallenge", [], console.log);
+  const MultiplayerChallengeFactory = await getProxyFactory(hre, "MultiplayerChallenge");
+  const multiplayerChallengeInitializerArgs = [
+    minimumUsdBetValue, 
+    maximumNumberOfChallengeCompetitors, 
+    priceFeedAddress,
+    maximumNumberOfBettorsPerChallenge,
+    maximumChallengeLengthInSeconds,
+    maximumNumberOfChallengeMetrics
+  ];
   const multiplayerChallengeContract = await upgrades.deployProxy(
     MultiplayerChallengeFactory,
-    [
-      minimumUsdBetValue, 
-      maximumNumberOfChallengeCompetitors, 
-      priceFeedAddress,
-      maximumNumberOfBettorsPerChallenge,
-      maximumChallengeLengthInSeconds,
-      maximumNumberOfChallengeMetrics
-    ],
-    { initializer: "initializeMultiplayerChallenge" }
+    multiplayerChallengeInitializerArgs,
+    {
+      initializer: "initializeMultiplayerChallenge",
+      constructorArgs: extensionConstructorArgs(multiplayerChallengeExtensions),
+    }
   );
   await multiplayerChallengeContract.waitForDeployment();
   const multiplayerChallengeContractAddress = await multiplayerChallengeContract.getAddress();
   console.log("MultiplayerChallenge contract deployed to:", multiplayerChallengeContractAddress);
 
+  // The vault was initialized with the Challenge contract, so the MultiplayerChallenge contract has to be authorized separately.
+  const vaultAddConsumerTx = await vaultContract.addConsumer(multiplayerChallengeContractAddress);
+  await vaultAddConsumerTx.wait();
+  console.log("MultiplayerChallenge contract authorized in Vault contract");
+
   const multiplayerChallengeSetVaultTx = await multiplayerChallengeContract.setVault(vaultContractAddress);
   await multiplayerChallengeSetVaultTx.wait();
   console.log("Vault address set in MultiplayerChallenge contract");
   
+  const gitCommit = getGitCommit();
+  const challengeBlockNumber = await getDeploymentBlockNumber(challengeContract);
   return {
-    challengeContractAddress,
-    vaultContractAddress,
-    multiplayerChallengeContractAddress,
+    manifestVersion: DEPLOYMENT_MANIFEST_VERSION,
+    network: hre.network.name,
+    chainId: Number((await ethers.provider.getNetwork()).chainId),
+    gitCommit,
+    blockNumber: challengeBlockNumber,
+    contracts: {
+      Challenge: await recordProxyDeployment(
+        hre,
+        challengeContractAddress,
+        "Challenge",
+        "initialize",
+        challengeInitializerArgs,
+        challengeBlockNumber,
+        gitCommit,
+        challengeExtensions
+      ),
+      MultiplayerChallenge: await recordProxyDeployment(
+        hre,
+        multiplayerChallengeContractAddress,
+        "MultiplayerChallenge",
+        "initializeMultiplayerChallenge",
+        multiplayerChallengeInitializerArgs,
+        await getDeploymentBlockNumber(multiplayerChallengeContract),
+        gitCommit,
+        multiplayerChallengeExtensions
+      ),
+      Vault: await recordProxyDeployment(
+        hre, vaultContractAddress, "Vault", "initialize", vaultInitializerArgs, await getDeploymentBlockNumber(vaultContract), gitCommit
+      ),
+    },
   };
 };
 
 async function main() {
-  const deployedContracts = await deployFunc();
-  console.log("Deployment successful:", deployedContracts);
+  // The in-process hardhat network is gone once this script exits, so there is nothing worth recording.
+  const recordDeployment = hre.network.name !== "hardhat";
+
+  if (recordDeployment && deploymentExists(hre.network.name)) {
+    const existingDeployment = loadDeployment(hre.network.name);
+    console.log(`${hre.network.name} already has a deployment at ${getDeploymentPath(hre.network.name)}, not redeploying.`);
+    console.log("Use scripts/upgradeContracts.ts to roll out new implementations to its proxies.");
+    for (const [name, deployment] of Object.entries(existingDeployment.contracts)) {
+      console.log(`${name} proxy: ${deployment.proxy}`);
+    }
+    return;
+  }
+
+  const deployment = await deployFunc();
+  console.log("Deployment successful:", deployment.contracts);
+
+  if (recordDeployment) {
+    saveDeployment(deployment);
+    console.log(`Deployment manifest written to ${getDeploymentPath(hre.network.name)}`);
+  }
 }
 
 main()
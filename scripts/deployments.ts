@@ -0,0 +1,134 @@
+import fs from "fs";
+import path from "path";
+import { execSync } from "child_process";
+import { isAddress } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+export const DEPLOYMENTS_DIRECTORY = path.join(__dirname, "..", "deployments");
+
+// Bumped whenever the manifest layout changes, so that older manifests can be told apart
+export const DEPLOYMENT_MANIFEST_VERSION = 1;
+
+export const DEPLOYED_CONTRACTS = ["Challenge", "MultiplayerChallenge", "Vault"] as const;
+export type DeployedContractName = (typeof DEPLOYED_CONTRACTS)[number];
+
+// a contract an implementation's fallback delegates to, see scripts/extensions.ts
+export interface ExtensionRecord {
+  contractName: string;
+  address: string;
+  // keccak256 of the creation bytecode, so an unchanged extension can be reused by later upgrades
+  bytecodeHash: string;
+}
+
+export interface ImplementationRecord {
+  // the artifact the implementation was compiled from, e.g. Challenge or a later version of it
+  contractName: string;
+  address: string;
+  gitCommit: string;
+  blockNumber: number;
+  // the reinitializer called while upgrading to this implementation, if any
+  reinitializer?: { fn: string; args: unknown[] };
+  // the extensions the implementation was deployed with, in the order calls fall through them
+  extensions?: ExtensionRecord[];
+}
+
+export interface ContractDeployment {
+  proxy: string;
+  implementation: ImplementationRecord;
+  // UUPS implementations are initialized through the proxy, so the constructor only takes the first extension, if any
+  constructorArgs: unknown[];
+  initializer: string;
+  initializerArgs: unknown[];
+  blockNumber: number;
+  // the implementations this proxy pointed to before the current one, oldest first
+  previousImplementations: ImplementationRecord[];
+}
+
+export interface DeploymentManifest {
+  manifestVersion: number;
+  network: string;
+  chainId: number;
+  gitCommit: string;
+  blockNumber: number;
+  contracts: Record<DeployedContractName, ContractDeployment>;
+}
+
+export const getDeploymentPath = (networkName: string): string =>
+  path.join(DEPLOYMENTS_DIRECTORY, `${networkName}.json`);
+
+export const deploymentExists = (networkName: string, deploymentPath = getDeploymentPath(networkName)): boolean =>
+  fs.existsSync(deploymentPath);
+
+export const loadDeployment = (networkName: string, deploymentPath = getDeploymentPath(networkName)): DeploymentManifest => {
+  if (!deploymentExists(networkName, deploymentPath)) {
+    throw new Error(`No deployment file for network ${networkName} at ${deploymentPath}, deploy with scripts/deployContracts.ts first`);
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(deploymentPath, "utf8")) as DeploymentManifest;
+  if (manifest.manifestVersion !== DEPLOYMENT_MANIFEST_VERSION) {
+    throw new Error(`Deployment file ${deploymentPath} has manifest version ${manifest.manifestVersion}, expected ${DEPLOYMENT_MANIFEST_VERSION}`);
+  }
+  for (const name of DEPLOYED_CONTRACTS) {
+    if (!isAddress(manifest.contracts?.[name]?.proxy)) {
+      throw new Error(`Deployment file ${deploymentPath} has no valid ${name} proxy address`);
+    }
+  }
+  return manifest;
+};
+
+export const saveDeployment = (manifest: DeploymentManifest, deploymentPath = getDeploymentPath(manifest.network)): void => {
+  fs.mkdirSync(path.dirname(deploymentPath), { recursive: true });
+  fs.writeFileSync(deploymentPath, `${JSON.stringify(manifest, null, 2)}\n`);
+};
+
+// Marks builds from a working tree with uncommitted changes, since the commit alone does not describe them
+export const getGitCommit = (): string => {
+  try {
+    const commit = execSync("git rev-parse HEAD", { stdio: ["ignore", "pipe", "ignore"] }).toString().trim();
+    const dirty = execSync("git status --porcelain", { stdio: ["ignore", "pipe", "ignore"] }).toString().trim().length > 0;
+    return dirty ? `${commit}-dirty` : commit;
+  } catch {
+    return "unknown";
+  }
+};
+
+// An implementation is deployed with the address of its first extension, if it has any
+export const extensionConstructorArgs = (extensions: ExtensionRecord[]): unknown[] =>
+  extensions.length > 0 ? [extensions[0].address] : [];
+
+// JSON has no bigint, so initializer arguments are recorded as decimal strings
+const toJsonValue = (value: unknown): unknown => {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  return value;
+};
+
+/**
+ * Builds the manifest entry of a freshly deployed UUPS proxy, reading the implementation address
+ * from the proxy and the block number from the proxy deployment transaction. `extensions` are the
+ * ones the implementation was deployed with, see deployExtensions.
+ */
+export const recordProxyDeployment = async (
+  hre: HardhatRuntimeEnvironment,
+  proxyAddress: string,
+  contractName: string,
+  initializer: string,
+  initializerArgs: unknown[],
+  blockNumber: number,
+  gitCommit = getGitCommit(),
+  extensions: ExtensionRecord[] = []
+): Promise<ContractDeployment> => ({
+  proxy: proxyAddress,
+  implementation: {
+    contractName,
+    address: await hre.upgrades.erc1967.getImplementationAddress(proxyAddress),
+    gitCommit,
+    blockNumber,
+    extensions,
+  },
+  constructorArgs: extensionConstructorArgs(extensions),
+  initializer,
+  initializerArgs: toJsonValue(initializerArgs) as unknown[],
+  blockNumber,
+  previousImplementations: [],
+});
@@ -0,0 +1,103 @@
+import { Addressable, ContractFactory, ContractTransactionResponse, keccak256, Signer, ZeroAddress } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { IChallengeProxy, IMultiplayerChallengeProxy, Vault } from "../typechain";
+import { DeployedContractName, ExtensionRecord, extensionConstructorArgs } from "./deployments";
+
+/**
+ * The contracts each proxy's implementation delegates the calls it does not handle itself to, in the order
+ * calls fall through them. Each one is deployed with the address of the next, the last with the zero address,
+ * and the implementation with the address of the first. Implementations that replace one of these, like the
+ * upgrade mocks, are deployed with the chain of the proxy they are for.
+ */
+export const EXTENSION_CHAINS: Record<DeployedContractName, string[]> = {
+  Challenge: ["ChallengeBetting", "ChallengeSettlement", "ChallengeAdministration", "ChallengeViews"],
+  MultiplayerChallenge: [
+    "MultiplayerChallengeBetting",
+    "MultiplayerChallengeSettlement",
+    "ChallengeAdministration",
+    "ChallengeViews",
+    "MultiplayerChallengeExtension",
+  ],
+  Vault: [],
+};
+
+// The ABI to call each proxy through, which covers its implementation and every extension
+export const PROXY_INTERFACES: Record<DeployedContractName, string> = {
+  Challenge: "IChallengeProxy",
+  MultiplayerChallenge: "IMultiplayerChallengeProxy",
+  Vault: "Vault",
+};
+
+interface ProxyContracts {
+  Challenge: IChallengeProxy;
+  MultiplayerChallenge: IMultiplayerChallengeProxy;
+  Vault: Vault;
+}
+
+// A factory whose deployed and attached contracts are typed as the proxy, which the upgrades plugin's return types follow
+export type ProxyFactory<C extends DeployedContractName> = ContractFactory & {
+  attach(target: string | Addressable): ProxyContracts[C];
+  deploy(...args: unknown[]): Promise<ProxyContracts[C] & { deploymentTransaction(): ContractTransactionResponse }>;
+};
+
+/**
+ * Gets the factory of a proxy's implementation with the ABI of the whole proxy, so that the contracts the upgrades
+ * plugin returns for it can also call the functions its extensions serve.
+ */
+export const getProxyFactory = async <C extends DeployedContractName>(
+  hre: HardhatRuntimeEnvironment,
+  contract: C,
+  signer?: Signer
+): Promise<ProxyFactory<C>> => {
+  const factory = await hre.ethers.getContractFactory(contract, signer);
+  const { abi } = await hre.artifacts.readArtifact(PROXY_INTERFACES[contract]);
+  // ethers ignores the functions, events and errors listed twice
+  return new ContractFactory([...factory.interface.fragments, ...abi], factory.bytecode, factory.runner) as ProxyFactory<C>;
+};
+
+/**
+ * Deploys the extension chain of a proxy's implementation, last extension first. Extensions in `deployed`, the
+ * chain a previous implementation was recorded with, are reused from the end of the chain for as long as their
+ * bytecode is unchanged, so upgrading to an implementation whose extensions did not change deploys nothing.
+ */
+export const deployExtensions = async (
+  hre: HardhatRuntimeEnvironment,
+  contract: DeployedContractName,
+  deployed: ExtensionRecord[] = [],
+  log: (message: string) => void = () => {}
+): Promise<ExtensionRecord[]> => {
+  const chain = EXTENSION_CHAINS[contract];
+  const extensions: ExtensionRecord[] = [];
+  let next = ZeroAddress;
+  // an extension can only be reused if the ones after it were, since it points to the next one
+  let reusable = deployed.length === chain.length;
+
+  for (let index = chain.length - 1; index >= 0; index--) {
+    const contractName = chain[index];
+    const factory = await hre.ethers.getContractFactory(contractName);
+    const bytecodeHash = keccak256(factory.bytecode);
+    const recorded = deployed[index];
+    reusable = reusable && recorded.contractName === contractName && recorded.bytecodeHash === bytecodeHash;
+
+    let address: string;
+    if (reusable) {
+      address = recorded.address;
+    } else {
+      const extension = await factory.deploy(next);
+      await extension.waitForDeployment();
+      address = await extension.getAddress();
+      log(`${contract} extension ${contractName} deployed to ${address}`);
+    }
+
+    extensions.unshift({ contractName, address, bytecodeHash });
+    next = address;
+  }
+  return extensions;
+};
+
+/**
+ * Deploys a fresh extension chain and returns the constructor args of an implementation deployed with it,
+ * for proxies that are not recorded in a deployment manifest.
+ */
+export const deployExtensionArgs = async (hre: HardhatRuntimeEnvironment, contract: DeployedContractName): Promise<unknown[]> =>
+  extensionConstructorArgs(await deployExtensions(hre, contract));
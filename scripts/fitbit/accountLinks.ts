@@ -0,0 +1,19 @@
+import { readFileSync } from "fs";
+import { LinkedFitbitAccount } from "./fitbitClient";
+
+/**
+ * Participant addresses mapped to the Fitbit accounts they linked, keyed by lowercase address.
+ */
+export type AccountLinks = Map<string, LinkedFitbitAccount>;
+
+export const createAccountLinks = (links: Record<string, LinkedFitbitAccount>): AccountLinks =>
+  new Map(Object.entries(links).map(([address, account]) => [address.toLowerCase(), account]));
+
+/**
+ * Loads account links from a JSON file shaped as `{ "<address>": { "fitbitUserId": "...", "accessToken": "..." } }`.
+ */
+export const loadAccountLinks = (path: string): AccountLinks =>
+  createAccountLinks(JSON.parse(readFileSync(path, "utf8")));
+
+export const getLinkedAccount = (links: AccountLinks, address: string): LinkedFitbitAccount | undefined =>
+  links.get(address.toLowerCase());
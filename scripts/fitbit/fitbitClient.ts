@@ -0,0 +1,100 @@
+import { FitbitTimeSeriesResource } from "./units";
+
+export interface LinkedFitbitAccount {
+  fitbitUserId: string;
+  accessToken: string;
+}
+
+interface FitbitActivityLogEntry {
+  activityTypeId: number;
+  activityName: string;
+  distance?: number;
+  distanceUnit?: string;
+  startTime: string;
+}
+
+interface FitbitActivityLogPage {
+  activities: FitbitActivityLogEntry[];
+  pagination: { next: string };
+}
+
+// Fitbit's activity type ID for outdoor and stationary bike rides.
+export const FITBIT_BICYCLING_ACTIVITY_TYPE_ID = 90001;
+
+const ACTIVITY_LOG_PAGE_SIZE = 100;
+
+/**
+ * Formats a unix timestamp in seconds as the yyyy-MM-dd date Fitbit uses in its URLs.
+ */
+export const toFitbitDate = (timestampInSeconds: number): string =>
+  new Date(timestampInSeconds * 1000).toISOString().slice(0, 10);
+
+/**
+ * Minimal client for the parts of the Fitbit Web API the sync worker needs.
+ * Values are requested with the en_US locale so distances come back in miles.
+ */
+export class FitbitClient {
+  constructor(private readonly baseUrl: string = "https://api.fitbit.com") {}
+
+  /**
+   * Sums a daily activity time series over every day touched by the window.
+   * Fitbit only exposes whole days, so activity earlier on the first day of the window is included.
+   */
+  async getTimeSeriesTotal(
+    account: LinkedFitbitAccount,
+    resource: FitbitTimeSeriesResource,
+    windowStart: number,
+    windowEnd: number
+  ): Promise<number> {
+    const path = `/1/user/${account.fitbitUserId}/activities/${resource}/date/${toFitbitDate(windowStart)}/${toFitbitDate(windowEnd)}.json`;
+    const body = await this.get<Record<string, { dateTime: string; value: string }[] | undefined>>(account, path);
+    const series = body[`activities-${resource}`] ?? [];
+    return series.reduce((total, day) => total + Number(day.value), 0);
+  }
+
+  /**
+   * Sums the distance of every logged bike ride that started inside the window.
+   */
+  async getCyclingDistance(account: LinkedFitbitAccount, windowStart: number, windowEnd: number): Promise<number> {
+    let path: string | undefined =
+      `/1/user/${account.fitbitUserId}/activities/list.json?afterDate=${toFitbitDate(windowStart)}&sort=asc&offset=0&limit=${ACTIVITY_LOG_PAGE_SIZE}`;
+    let total = 0;
+
+    while (path) {
+      const page: FitbitActivityLogPage = await this.get<FitbitActivityLogPage>(account, path);
+      for (const activity of page.activities) {
+        // activity log start times are in the user's local time without an offset, so they are read as UTC
+        const startedAt = Date.parse(`${activity.startTime.replace(/Z$/, "")}Z`) / 1000;
+        if (
+          activity.activityTypeId === FITBIT_BICYCLING_ACTIVITY_TYPE_ID &&
+          startedAt >= windowStart &&
+          startedAt <= windowEnd
+        ) {
+          total += activity.distance ?? 0;
+        }
+      }
+      if (page.pagination.next) {
+        // the next page is returned as an absolute URL on the API host
+        const nextUrl = new URL(page.pagination.next, this.baseUrl);
+        path = nextUrl.pathname + nextUrl.search;
+      } else {
+        path = undefined;
+      }
+    }
+
+    return total;
+  }
+
+  private async get<T>(account: LinkedFitbitAccount, path: string): Promise<T> {
+    const response = await fetch(new URL(path, this.baseUrl), {
+      headers: {
+        Authorization: `Bearer ${account.accessToken}`,
+        "Accept-Language": "en_US",
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Fitbit request ${path} failed with status ${response.status}: ${await response.text()}`);
+    }
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,111 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { FITBIT_BICYCLING_ACTIVITY_TYPE_ID } from "./fitbitClient";
+
+export interface MockDailyActivity {
+  steps: number;
+  // miles
+  distance: number;
+  calories: number;
+}
+
+export interface MockBikeRide {
+  // yyyy-MM-ddTHH:mm:ss, read as UTC
+  startTime: string;
+  // miles
+  distance: number;
+}
+
+export interface MockFitbitUser {
+  accessToken: string;
+  // activity reported for any day without an entry in `days`
+  dailyDefaults?: MockDailyActivity;
+  // activity keyed by yyyy-MM-dd
+  days?: Record<string, MockDailyActivity>;
+  bikeRides?: MockBikeRide[];
+}
+
+export interface MockFitbitServer {
+  url: string;
+  users: Record<string, MockFitbitUser>;
+  close: () => Promise<void>;
+}
+
+const TIME_SERIES_PATH = /^\/1\/user\/([^/]+)\/activities\/(steps|distance|calories)\/date\/(\d{4}-\d{2}-\d{2})\/(\d{4}-\d{2}-\d{2})\.json$/;
+const ACTIVITY_LOG_PATH = /^\/1\/user\/([^/]+)\/activities\/list\.json$/;
+
+const DAY_IN_MILLISECONDS = 24 * 60 * 60 * 1000;
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+};
+
+const findUser = (users: Record<string, MockFitbitUser>, request: IncomingMessage, userId: string) => {
+  const token = (request.headers.authorization ?? "").replace(/^Bearer /, "");
+  const entry = Object.entries(users).find(([id, user]) => user.accessToken === token && (userId === "-" || userId === id));
+  return entry?.[1];
+};
+
+const handleRequest = (users: Record<string, MockFitbitUser>, request: IncomingMessage, response: ServerResponse) => {
+  const url = new URL(request.url ?? "/", "http://localhost");
+
+  const timeSeriesMatch = url.pathname.match(TIME_SERIES_PATH);
+  const activityLogMatch = url.pathname.match(ACTIVITY_LOG_PATH);
+  const userId = (timeSeriesMatch ?? activityLogMatch)?.[1];
+  if (request.method !== "GET" || userId === undefined) {
+    sendJson(response, 404, { errors: [{ errorType: "not_found", message: `Unknown resource ${url.pathname}` }] });
+    return;
+  }
+
+  const user = findUser(users, request, userId);
+  if (!user) {
+    sendJson(response, 401, { errors: [{ errorType: "invalid_token", message: "Access token invalid" }] });
+    return;
+  }
+
+  if (timeSeriesMatch) {
+    const [, , resource, startDate, endDate] = timeSeriesMatch;
+    const series = [];
+    for (let day = Date.parse(startDate); day <= Date.parse(endDate); day += DAY_IN_MILLISECONDS) {
+      const dateTime = new Date(day).toISOString().slice(0, 10);
+      const activity = user.days?.[dateTime] ?? user.dailyDefaults ?? { steps: 0, distance: 0, calories: 0 };
+      series.push({ dateTime, value: String(activity[resource as keyof MockDailyActivity]) });
+    }
+    sendJson(response, 200, { [`activities-${resource}`]: series });
+    return;
+  }
+
+  const afterDate = url.searchParams.get("afterDate") ?? "1970-01-01";
+  const activities = (user.bikeRides ?? [])
+    .filter((ride) => ride.startTime.slice(0, 10) >= afterDate)
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+    .map((ride, index) => ({
+      logId: index + 1,
+      activityTypeId: FITBIT_BICYCLING_ACTIVITY_TYPE_ID,
+      activityName: "Bike",
+      distance: ride.distance,
+      distanceUnit: "Mile",
+      startTime: `${ride.startTime}.000`,
+    }));
+  sendJson(response, 200, { activities, pagination: { next: "", previous: "" } });
+};
+
+/**
+ * Starts a local stand-in for the Fitbit Web API endpoints used by the sync worker, so the sync loop
+ * can be exercised without network access. Pass port 0 to pick a free port.
+ */
+export const startMockFitbitServer = async (
+  users: Record<string, MockFitbitUser>,
+  port: number = 0
+): Promise<MockFitbitServer> => {
+  const server: Server = createServer((request, response) => handleRequest(users, request, response));
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${address.port}`,
+    users,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+};
@@ -0,0 +1,19 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { startMockFitbitServer } from "./mockFitbitServer";
+
+const defaultUsersPath = path.join(__dirname, "fixtures", "mockFitbitUsers.json");
+
+async function main() {
+  const usersPath = process.env.MOCK_FITBIT_USERS_PATH || defaultUsersPath;
+  const port = Number(process.env.MOCK_FITBIT_PORT || 8787);
+
+  const users = JSON.parse(readFileSync(usersPath, "utf8"));
+  const server = await startMockFitbitServer(users, port);
+  console.log(`Mock Fitbit API listening on ${server.url} with users: ${Object.keys(users).join(", ")}`);
+}
+
+main().catch((error) => {
+  console.error("Mock Fitbit API failed to start:", error);
+  process.exit(1);
+});
@@ -0,0 +1,57 @@
+import { ethers } from "hardhat";
+import { loadAccountLinks } from "./accountLinks";
+import { FitbitClient } from "./fitbitClient";
+import { syncChallenges, SyncTarget } from "./syncWorker";
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing required environment variable ${name}`);
+  }
+  return value;
+};
+
+async function main() {
+  const [relayer] = await ethers.getSigners();
+  const attester = new ethers.Wallet(requireEnv("ATTESTER_PRIVATE_KEY"));
+  const accountLinks = loadAccountLinks(requireEnv("FITBIT_ACCOUNT_LINKS_PATH"));
+  const fitbitClient = new FitbitClient(process.env.FITBIT_API_BASE_URL || undefined);
+
+  const targets: SyncTarget[] = [];
+  if (process.env.CHALLENGE_CONTRACT_ADDRESS) {
+    targets.push({
+      kind: "single",
+      contract: await ethers.getContractAt("IChallengeProxy", process.env.CHALLENGE_CONTRACT_ADDRESS, relayer),
+    });
+  }
+  if (process.env.MULTIPLAYER_CHALLENGE_CONTRACT_ADDRESS) {
+    targets.push({
+      kind: "multiplayer",
+      contract: await ethers.getContractAt("IMultiplayerChallengeProxy", process.env.MULTIPLAYER_CHALLENGE_CONTRACT_ADDRESS, relayer),
+    });
+  }
+  if (targets.length === 0) {
+    throw new Error("Set CHALLENGE_CONTRACT_ADDRESS and/or MULTIPLAYER_CHALLENGE_CONTRACT_ADDRESS");
+  }
+
+  const runOnce = async () => {
+    const results = await syncChallenges({ targets, fitbitClient, accountLinks, attester, log: console.log });
+    const submitted = results.filter((result) => result.outcome === "submitted").length;
+    console.log(`Sync finished: ${submitted} of ${results.length} participant measurements submitted`);
+  };
+
+  await runOnce();
+
+  const intervalInSeconds = Number(process.env.SYNC_INTERVAL_SECONDS || 0);
+  if (intervalInSeconds > 0) {
+    console.log(`Syncing again every ${intervalInSeconds} seconds`);
+    setInterval(() => {
+      runOnce().catch((error) => console.error("Sync failed:", error));
+    }, intervalInSeconds * 1000);
+  }
+}
+
+main().catch((error) => {
+  console.error("Sync failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,167 @@
+import { Signer } from "ethers";
+import { IChallengeProxy, IMultiplayerChallengeProxy } from "../../typechain";
+import { signMeasurementAttestation } from "../signMeasurementAttestation";
+import { AccountLinks, getLinkedAccount } from "./accountLinks";
+import { FitbitClient, LinkedFitbitAccount } from "./fitbitClient";
+import { CHALLENGE_CYCLING_MILEAGE, metricToTimeSeriesResource, toOnChainMeasurement } from "./units";
+
+// Mirrors STATUS_ACTIVE in Challenge.sol.
+const STATUS_ACTIVE = 1n;
+
+export type ChallengeContractKind = "single" | "multiplayer";
+
+export interface SyncTarget {
+  kind: ChallengeContractKind;
+  // connected to the account that pays for relaying the measurements
+  contract: IChallengeProxy | IMultiplayerChallengeProxy;
+}
+
+export interface SyncWorkerConfig {
+  targets: SyncTarget[];
+  fitbitClient: FitbitClient;
+  accountLinks: AccountLinks;
+  // a key registered with setMeasurementAttester on every target contract
+  attester: Signer;
+  log?: (message: string) => void;
+}
+
+export type SyncOutcome = "submitted" | "not-linked" | "not-attested" | "failed";
+
+export interface SyncResult {
+  contractAddress: string;
+  challengeId: bigint;
+  participant: string;
+  outcome: SyncOutcome;
+  measurements?: bigint[];
+  error?: string;
+}
+
+const getParticipants = async (target: SyncTarget, challengeId: bigint): Promise<string[]> => {
+  if (target.kind === "multiplayer") {
+    return [...(await (target.contract as IMultiplayerChallengeProxy).getCompetitors(challengeId))];
+  }
+  return [await target.contract.challengeToChallenger(challengeId)];
+};
+
+const fetchMeasurements = async (
+  fitbitClient: FitbitClient,
+  account: LinkedFitbitAccount,
+  metrics: bigint[],
+  windowStart: number,
+  windowEnd: number
+): Promise<bigint[]> => {
+  const measurements: bigint[] = [];
+  for (const metricId of metrics) {
+    const metric = Number(metricId);
+    const resource = metricToTimeSeriesResource[metric];
+    let total: number;
+    if (metric === CHALLENGE_CYCLING_MILEAGE) {
+      total = await fitbitClient.getCyclingDistance(account, windowStart, windowEnd);
+    } else if (resource) {
+      total = await fitbitClient.getTimeSeriesTotal(account, resource, windowStart, windowEnd);
+    } else {
+      throw new Error(`Unsupported challenge metric: ${metric}`);
+    }
+    measurements.push(toOnChainMeasurement(metric, total));
+  }
+  return measurements;
+};
+
+/**
+ * Reads every active challenge on the target contracts, fetches each linked participant's Fitbit data for the
+ * challenge window so far, and relays it as a signed measurement attestation.
+ *
+ * Challenges that were not created in attested mode only accept measurements sent by the participant themselves,
+ * so they are reported as "not-attested" and left alone.
+ */
+export const syncChallenges = async (config: SyncWorkerConfig): Promise<SyncResult[]> => {
+  const log = config.log ?? (() => {});
+  const results: SyncResult[] = [];
+
+  for (const target of config.targets) {
+    const contract = target.contract;
+    const contractAddress = await contract.getAddress();
+    const provider = contract.runner?.provider;
+    if (!provider) {
+      throw new Error(`Contract ${contractAddress} is not connected to a provider`);
+    }
+    const chainId = (await provider.getNetwork()).chainId;
+    const latestBlock = await provider.getBlock("latest");
+    const now = BigInt(latestBlock?.timestamp ?? Math.floor(Date.now() / 1000));
+
+    const latestChallengeId = await contract.latestChallengeId();
+    for (let challengeId = 0n; challengeId < latestChallengeId; challengeId++) {
+      if ((await contract.challengeToChallengeStatus(challengeId)) !== STATUS_ACTIVE) {
+        continue;
+      }
+      const windowStart = await contract.challengeToStartTime(challengeId);
+      const challengeEnd = windowStart + (await contract.challengeToChallengeLength(challengeId));
+      if (now >= challengeEnd) {
+        // measurements can no longer be submitted once the challenge has run out
+        continue;
+      }
+      const windowEnd = now;
+
+      const attestationRequired = await contract.challengeToAttestationRequired(challengeId);
+      const metrics = [...(await contract.getChallengeMetrics(challengeId))];
+
+      for (const participant of await getParticipants(target, challengeId)) {
+        const result: SyncResult = { contractAddress, challengeId, participant, outcome: "submitted" };
+        results.push(result);
+
+        const account = getLinkedAccount(config.accountLinks, participant);
+        if (!account) {
+          result.outcome = "not-linked";
+          log(`Challenge ${challengeId} on ${contractAddress}: ${participant} has no linked Fitbit account`);
+          continue;
+        }
+        if (!attestationRequired) {
+          result.outcome = "not-attested";
+          log(`Challenge ${challengeId} on ${contractAddress}: not in attested mode, ${participant} must submit their own measurements`);
+          continue;
+        }
+
+        try {
+          const measurements = await fetchMeasurements(
+            config.fitbitClient,
+            account,
+            metrics,
+            Number(windowStart),
+            Number(windowEnd)
+          );
+          const attestation = {
+            challengeId,
+            participant,
+            metrics,
+            measurements,
+            windowStart,
+            windowEnd,
+            nonce: await contract.nonces(participant),
+          };
+          const signature = await signMeasurementAttestation(config.attester, chainId, contractAddress, attestation);
+
+          const tx = await contract.submitAttestedMeasurements(
+            challengeId,
+            participant,
+            measurements,
+            windowStart,
+            windowEnd,
+            attestation.nonce,
+            signature
+          );
+          await tx.wait();
+
+          result.measurements = measurements;
+          log(`Challenge ${challengeId} on ${contractAddress}: submitted [${measurements.join(", ")}] for ${participant}`);
+        } catch (error) {
+          // one participant's failure should not stop the others from syncing
+          result.outcome = "failed";
+          result.error = error instanceof Error ? error.message : String(error);
+          log(`Challenge ${challengeId} on ${contractAddress}: failed to sync ${participant}: ${result.error}`);
+        }
+      }
+    }
+  }
+
+  return results;
+};
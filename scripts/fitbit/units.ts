@@ -0,0 +1,32 @@
+// IDs of the metrics Challenge.sol registers by default, the full registry is listed by its getMetrics view.
+export const CHALLENGE_STEPS = 0;
+export const CHALLENGE_MILEAGE = 1;
+export const CHALLENGE_CYCLING_MILEAGE = 2;
+export const CHALLENGE_CALORIES_BURNED = 3;
+
+export type FitbitTimeSeriesResource = "steps" | "distance" | "calories";
+
+// Which Fitbit time series backs each metric. Cycling mileage has no time series and is read from the activity log instead.
+export const metricToTimeSeriesResource: Record<number, FitbitTimeSeriesResource | undefined> = {
+  [CHALLENGE_STEPS]: "steps",
+  [CHALLENGE_MILEAGE]: "distance",
+  [CHALLENGE_CYCLING_MILEAGE]: undefined,
+  [CHALLENGE_CALORIES_BURNED]: "calories",
+};
+
+/**
+ * Converts a Fitbit total into the unit stored on-chain for a metric: whole steps, whole miles and whole calories.
+ * Values are rounded down so a participant is never credited with more than they did.
+ * Fitbit totals are expected in imperial units, which the client requests with the en_US locale.
+ */
+export const toOnChainMeasurement = (metric: number, fitbitTotal: number): bigint => {
+  switch (metric) {
+    case CHALLENGE_STEPS:
+    case CHALLENGE_MILEAGE:
+    case CHALLENGE_CYCLING_MILEAGE:
+    case CHALLENGE_CALORIES_BURNED:
+      return BigInt(Math.floor(Math.max(fitbitTotal, 0)));
+    default:
+      throw new Error(`Unsupported challenge metric: ${metric}`);
+  }
+};
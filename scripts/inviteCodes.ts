@@ -0,0 +1,32 @@
+import { BigNumberish, id, TypedDataField, Wallet } from "ethers";
+import { buildMeasurementAttestationDomain } from "./signMeasurementAttestation";
+
+// Must match ChallengeBetting.INVITE_CODE_REDEMPTION_TYPEHASH.
+export const inviteCodeRedemptionTypes: Record<string, TypedDataField[]> = {
+  InviteCodeRedemption: [
+    { name: "challengeId", type: "uint256" },
+    { name: "account", type: "address" },
+  ],
+};
+
+/**
+ * Derives the key an invite code stands for. The challenger stores its address with `createInviteOnlyChallenge`,
+ * `createInviteOnlyMultiplayerChallenge` or `setChallengeInviteCode`, and shares the code itself off-chain.
+ */
+export const inviteCodeSigner = (inviteCode: string): Wallet => new Wallet(id(inviteCode));
+
+/**
+ * Signs the redemption of an invite code by `account`, to be passed to `redeemInviteCode` by that account on the
+ * Challenge or MultiplayerChallenge contract at `challengeContractAddress`. The code never leaves the caller.
+ */
+export const signInviteCodeRedemption = async (
+  inviteCode: string,
+  chainId: BigNumberish,
+  challengeContractAddress: string,
+  challengeId: BigNumberish,
+  account: string
+): Promise<string> => {
+  // redemptions are signed under the same EIP-712 domain as measurement attestations
+  const domain = buildMeasurementAttestationDomain(chainId, challengeContractAddress);
+  return inviteCodeSigner(inviteCode).signTypedData(domain, inviteCodeRedemptionTypes, { challengeId, account });
+};
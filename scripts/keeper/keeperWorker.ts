@@ -0,0 +1,67 @@
+import { AbiCoder } from "ethers";
+import { IChallengeProxy } from "../../typechain";
+
+// Mirrors DEFAULT_UPKEEP_SCAN_LIMIT in ChallengeBase.sol.
+export const DEFAULT_SCAN_LIMIT = 50n;
+
+export interface KeeperConfig {
+  // connected to the account that pays for settling, which can be any account
+  contracts: IChallengeProxy[];
+  // how many open challenges each checkUpkeep call scans
+  scanLimit?: bigint;
+  log?: (message: string) => void;
+}
+
+export interface UpkeepResult {
+  contractAddress: string;
+  challengeIds: bigint[];
+  outcome: "performed" | "failed";
+  transactionHash?: string;
+  error?: string;
+}
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/**
+ * Does what Chainlink Automation does for the contracts, for networks without it: pages through every open challenge
+ * with checkUpkeep and settles the ones that are due with performUpkeep, a batch per page.
+ *
+ * Settled challenges leave the open list and the last ones move into their places, so a page is scanned again after
+ * its batch is performed, and the next page is only scanned once nothing on the current one is due.
+ */
+export const runUpkeeps = async (config: KeeperConfig): Promise<UpkeepResult[]> => {
+  const log = config.log ?? (() => {});
+  const scanLimit = config.scanLimit ?? DEFAULT_SCAN_LIMIT;
+  const results: UpkeepResult[] = [];
+
+  for (const contract of config.contracts) {
+    const contractAddress = await contract.getAddress();
+    let offset = 0n;
+    while (offset < (await contract.getOpenChallengeCount())) {
+      const checkData = abiCoder.encode(["uint256", "uint256"], [offset, scanLimit]);
+      const { upkeepNeeded, performData } = await contract.checkUpkeep(checkData);
+      if (!upkeepNeeded) {
+        offset += scanLimit;
+        continue;
+      }
+
+      const [challengeIds] = abiCoder.decode(["uint256[]"], performData);
+      const result: UpkeepResult = { contractAddress, challengeIds: [...challengeIds], outcome: "performed" };
+      results.push(result);
+      try {
+        const tx = await contract.performUpkeep(performData);
+        await tx.wait();
+        result.transactionHash = tx.hash;
+        log(`${contractAddress}: settled challenges ${result.challengeIds.join(", ")}`);
+      } catch (error) {
+        // move on rather than retrying the same page forever
+        result.outcome = "failed";
+        result.error = error instanceof Error ? error.message : String(error);
+        log(`${contractAddress}: failed to settle challenges ${result.challengeIds.join(", ")}: ${result.error}`);
+        offset += scanLimit;
+      }
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,38 @@
+import { ethers } from "hardhat";
+import { IChallengeProxy } from "../../typechain";
+import { runUpkeeps } from "./keeperWorker";
+
+async function main() {
+  const [keeper] = await ethers.getSigners();
+
+  const contracts: IChallengeProxy[] = [];
+  for (const address of [process.env.CHALLENGE_CONTRACT_ADDRESS, process.env.MULTIPLAYER_CHALLENGE_CONTRACT_ADDRESS]) {
+    // MultiplayerChallenge answers to the same upkeep functions, so both are driven through the Challenge ABI
+    if (address) contracts.push(await ethers.getContractAt("IChallengeProxy", address, keeper));
+  }
+  if (contracts.length === 0) {
+    throw new Error("Set CHALLENGE_CONTRACT_ADDRESS and/or MULTIPLAYER_CHALLENGE_CONTRACT_ADDRESS");
+  }
+  const scanLimit = process.env.KEEPER_SCAN_LIMIT ? BigInt(process.env.KEEPER_SCAN_LIMIT) : undefined;
+
+  const runOnce = async () => {
+    const results = await runUpkeeps({ contracts, scanLimit, log: console.log });
+    const settled = results.filter((result) => result.outcome === "performed").reduce((count, result) => count + result.challengeIds.length, 0);
+    console.log(`Upkeep finished: ${settled} challenges settled in ${results.length} batches`);
+  };
+
+  await runOnce();
+
+  const intervalInSeconds = Number(process.env.KEEPER_INTERVAL_SECONDS || 0);
+  if (intervalInSeconds > 0) {
+    console.log(`Checking again every ${intervalInSeconds} seconds`);
+    setInterval(() => {
+      runOnce().catch((error) => console.error("Upkeep failed:", error));
+    }, intervalInSeconds * 1000);
+  }
+}
+
+main().catch((error) => {
+  console.error("Upkeep failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+import { BigNumberish, Signer, TypedDataDomain, TypedDataField } from "ethers";
+
+// Must match the values passed to __EIP712_init in Challenge's initializer and migrations.
+export const MEASUREMENT_ATTESTATION_DOMAIN_NAME = "Challenge";
+export const MEASUREMENT_ATTESTATION_DOMAIN_VERSION = "1";
+
+// Must match Challenge.MEASUREMENT_ATTESTATION_TYPEHASH.
+export const measurementAttestationTypes: Record<string, TypedDataField[]> = {
+  MeasurementAttestation: [
+    { name: "challengeId", type: "uint256" },
+    { name: "participant", type: "address" },
+    { name: "metrics", type: "uint8[]" },
+    { name: "measurements", type: "uint256[]" },
+    { name: "windowStart", type: "uint256" },
+    { name: "windowEnd", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+export interface MeasurementAttestation {
+  challengeId: BigNumberish;
+  participant: string;
+  // the metric IDs included in the challenge, in the order they were set at creation
+  metrics: BigNumberish[];
+  // one value per metric, in the same order as `metrics`
+  measurements: BigNumberish[];
+  // the data window the measurements cover, as unix timestamps in seconds
+  windowStart: BigNumberish;
+  windowEnd: BigNumberish;
+  // the participant's current nonce, read from the challenge contract's `nonces(participant)`
+  nonce: BigNumberish;
+}
+
+export const buildMeasurementAttestationDomain = (
+  chainId: BigNumberish,
+  challengeContractAddress: string
+): TypedDataDomain => ({
+  name: MEASUREMENT_ATTESTATION_DOMAIN_NAME,
+  version: MEASUREMENT_ATTESTATION_DOMAIN_VERSION,
+  chainId,
+  verifyingContract: challengeContractAddress,
+});
+
+/**
+ * Signs a measurement attestation with the attester's key so that anyone can relay it to
+ * `submitAttestedMeasurements` on the Challenge or MultiplayerChallenge contract at `challengeContractAddress`.
+ */
+export const signMeasurementAttestation = async (
+  attester: Signer,
+  chainId: BigNumberish,
+  challengeContractAddress: string,
+  attestation: MeasurementAttestation
+): Promise<string> => {
+  const domain = buildMeasurementAttestationDomain(chainId, challengeContractAddress);
+  return attester.signTypedData(domain, measurementAttestationTypes, attestation);
+};
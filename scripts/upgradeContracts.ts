@@ -0,0 +1,38 @@
+import hre from "hardhat";
+import { DEPLOYED_CONTRACTS, DeployedContractName, loadDeployment, saveDeployment } from "./deployments";
+import { ContractUpgrade, upgradeDeployment } from "./upgradeDeployment";
+
+// UPGRADE_CONTRACTS lists the contracts to upgrade, each optionally followed by the artifact to upgrade it to,
+// e.g. "Challenge,MultiplayerChallenge=MultiplayerChallengeV2". Every deployed contract is upgraded when unset.
+const parseUpgrades = (): ContractUpgrade[] => {
+  const entries = process.env.UPGRADE_CONTRACTS
+    ? process.env.UPGRADE_CONTRACTS.split(",").map((entry) => entry.trim())
+    : [...DEPLOYED_CONTRACTS];
+
+  const reinitializer = process.env.UPGRADE_REINITIALIZER
+    ? { fn: process.env.UPGRADE_REINITIALIZER, args: JSON.parse(process.env.UPGRADE_REINITIALIZER_ARGS || "[]") }
+    : undefined;
+
+  return entries.map((entry) => {
+    const [contract, implementation] = entry.split("=").map((part) => part.trim());
+    if (!DEPLOYED_CONTRACTS.includes(contract as DeployedContractName)) {
+      throw new Error(`Unknown contract ${contract}, expected one of ${DEPLOYED_CONTRACTS.join(", ")}`);
+    }
+    return { contract: contract as DeployedContractName, implementation: implementation || undefined, reinitializer };
+  });
+};
+
+async function main() {
+  const manifest = loadDeployment(hre.network.name);
+  const results = await upgradeDeployment(hre, manifest, parseUpgrades(), (updated) => saveDeployment(updated), console.log);
+
+  const upgraded = results.filter((result) => result.outcome === "upgraded").length;
+  console.log(`Upgrade finished: ${upgraded} of ${results.length} contracts upgraded`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Upgrade failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,94 @@
+import { ContractTransactionResponse, ZeroAddress } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  DeployedContractName,
+  DeploymentManifest,
+  extensionConstructorArgs,
+  getGitCommit,
+  ImplementationRecord,
+} from "./deployments";
+import { deployExtensions } from "./extensions";
+
+export interface ContractUpgrade {
+  contract: DeployedContractName;
+  // the artifact to upgrade to, defaults to the contract's own name
+  implementation?: string;
+  // a reinitializer to call through the proxy as part of the upgrade
+  reinitializer?: { fn: string; args: unknown[] };
+}
+
+export interface UpgradeResult {
+  contract: DeployedContractName;
+  outcome: "upgraded" | "up-to-date";
+  implementation: string;
+}
+
+/**
+ * Upgrades the proxies recorded in `manifest` one contract at a time. Each new implementation is validated
+ * against the one the manifest records before anything is sent, and a proxy whose implementation already
+ * matches the compiled artifact is left alone, so re-running an upgrade that went through is a no-op. Extensions
+ * are only deployed where they changed, and the rest of the recorded chain is reused.
+ *
+ * The manifest is updated in place and `save` is called after every upgraded contract, so a run that fails
+ * halfway still records the proxies it did upgrade.
+ */
+export const upgradeDeployment = async (
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest,
+  upgrades: ContractUpgrade[],
+  save: (manifest: DeploymentManifest) => void,
+  log: (message: string) => void = () => {}
+): Promise<UpgradeResult[]> => {
+  const gitCommit = getGitCommit();
+  const results: UpgradeResult[] = [];
+
+  for (const { contract, implementation = contract, reinitializer } of upgrades) {
+    const deployment = manifest.contracts[contract];
+    const factory = await hre.ethers.getContractFactory(implementation);
+
+    // the plugin encodes constructor args while validating, though its validation options do not declare them, and
+    // validation only reads the storage layout, so the extensions do not have to be deployed for it yet
+    const placeholderArgs = factory.interface.deploy.inputs.map(() => ZeroAddress);
+    const validationOptions = { kind: "uups" as const, constructorArgs: placeholderArgs };
+    await hre.upgrades.validateUpgrade(deployment.implementation.address, factory, validationOptions);
+
+    // an implementation without a constructor argument for its first extension has no extensions
+    const extensions = placeholderArgs.length > 0 ? await deployExtensions(hre, contract, deployment.implementation.extensions, log) : [];
+    const constructorArgs = extensionConstructorArgs(extensions);
+
+    // prepareUpgrade deploys the implementation only if the same bytecode and constructor args are not already on chain
+    const implementationAddress = (await hre.upgrades.prepareUpgrade(deployment.proxy, factory, { kind: "uups", constructorArgs })) as string;
+    if (implementationAddress === deployment.implementation.address) {
+      log(`${contract} already runs ${implementation} at ${implementationAddress}, skipping`);
+      results.push({ contract, outcome: "up-to-date", implementation: implementationAddress });
+      continue;
+    }
+
+    const upgraded = await hre.upgrades.upgradeProxy(deployment.proxy, factory, {
+      kind: "uups",
+      constructorArgs,
+      ...(reinitializer ? { call: { fn: reinitializer.fn, args: reinitializer.args } } : {}),
+    });
+    // the upgrade plugin attaches the upgrade transaction under its ethers v5 name
+    const upgradeTransaction = (upgraded as unknown as { deployTransaction?: ContractTransactionResponse }).deployTransaction;
+    const receipt = await upgradeTransaction?.wait();
+
+    const newImplementation: ImplementationRecord = {
+      contractName: implementation,
+      address: implementationAddress,
+      gitCommit,
+      blockNumber: receipt?.blockNumber ?? (await hre.ethers.provider.getBlockNumber()),
+      ...(reinitializer ? { reinitializer } : {}),
+      extensions,
+    };
+    deployment.previousImplementations.push(deployment.implementation);
+    deployment.implementation = newImplementation;
+    deployment.constructorArgs = constructorArgs;
+    save(manifest);
+
+    log(`${contract} upgraded to ${implementation} at ${implementationAddress}`);
+    results.push({ contract, outcome: "upgraded", implementation: implementationAddress });
+  }
+
+  return results;
+};
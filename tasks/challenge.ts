@@ -0,0 +1,237 @@
+import { task, types } from "hardhat/config";
+import {
+  getMultiplayerChallengeContract,
+  getTargetContracts,
+  loadErrorInterfaces,
+  OperationResult,
+  parseTargets,
+  readWhitelistCsv,
+  runOperation,
+  WhitelistEntry,
+} from "./helpers";
+import { readAllowlist } from "../scripts/allowlist/merkleAllowlist";
+
+const WHITELIST_ROLES = ["challenger", "bettor"];
+
+// the administrative roles the contracts define, by the name the role task takes and the constant that holds the role's ID
+const ADMINISTRATIVE_ROLES: Record<string, string> = {
+  "default-admin": "DEFAULT_ADMIN_ROLE",
+  "whitelist-manager": "WHITELIST_MANAGER_ROLE",
+  "parameter-admin": "PARAMETER_ADMIN_ROLE",
+  pauser: "PAUSER_ROLE",
+  settler: "SETTLER_ROLE",
+  upgrader: "UPGRADER_ROLE",
+};
+
+task("challenge:whitelist", "Adds addresses to the challenger or bettor whitelist, or removes challengers")
+  .addOptionalParam("address", "The address to whitelist")
+  .addOptionalParam("csv", "A CSV file with an address per line and an optional role column", undefined, types.inputFile)
+  .addOptionalParam("role", "challenger or bettor, used for CSV rows without a role")
+  .addOptionalParam("target", "challenge, multiplayer or all", "all")
+  .addOptionalParam("deployment", "The deployment file to read addresses from, defaults to deployments/<network>.json")
+  .addFlag("remove", "Remove the challengers instead of adding them")
+  .addFlag("dryRun", "Simulate every call without sending transactions")
+  .setAction(async (args, hre): Promise<OperationResult[]> => {
+    if (!args.address === !args.csv) throw new Error("Pass exactly one of --address or --csv");
+
+    const entries: WhitelistEntry[] = args.csv ? readWhitelistCsv(args.csv) : [{ address: args.address }];
+    const contracts = await getTargetContracts(hre, parseTargets(args.target), args.deployment);
+    const errorInterfaces = await loadErrorInterfaces(hre);
+
+    // validate the whole batch before sending anything
+    const resolvedEntries = entries.map(({ address, role = args.role }) => {
+      if (!WHITELIST_ROLES.includes(role)) throw new Error(`Invalid role ${role} for ${address}, expected challenger or bettor`);
+      if (args.remove && role !== "challenger") throw new Error(`Only challengers can be removed, ${address} is listed as a ${role}`);
+      return { address, role };
+    });
+
+    const results: OperationResult[] = [];
+    for (const { target, contract } of contracts) {
+      for (const { address, role } of resolvedEntries) {
+        const method = args.remove
+          ? contract.removeChallenger
+          : role === "challenger"
+            ? contract.addNewChallenger
+            : contract.addNewBettor;
+        const action = args.remove ? "remove challenger" : `add ${role}`;
+        results.push(
+          await runOperation(`${target}: ${action} ${address}`, method, [address], { dryRun: args.dryRun, errorInterfaces })
+        );
+      }
+    }
+
+    const failed = results.filter((result) => result.status === "failed").length;
+    console.log(`${results.length - failed} of ${results.length} whitelist operations ${args.dryRun ? "would succeed" : "succeeded"}`);
+    return results;
+  });
+
+task("challenge:allowlist", "Publishes the Merkle root of an allowlist built by scripts/allowlist/buildAllowlist.ts, or revokes a version")
+  .addOptionalParam("file", "The allowlist JSON file whose root to publish", undefined, types.inputFile)
+  .addOptionalParam("revoke", "The allowlist version to revoke", undefined, types.bigint)
+  .addOptionalParam("target", "challenge, multiplayer or all", "all")
+  .addOptionalParam("deployment", "The deployment file to read addresses from, defaults to deployments/<network>.json")
+  .addFlag("dryRun", "Simulate every call without sending transactions")
+  .setAction(async (args, hre): Promise<OperationResult[]> => {
+    if (!args.file === (args.revoke === undefined)) throw new Error("Pass exactly one of --file or --revoke");
+
+    const root = args.file ? readAllowlist(args.file).root : undefined;
+    const contracts = await getTargetContracts(hre, parseTargets(args.target), args.deployment);
+    const options = { dryRun: args.dryRun, errorInterfaces: await loadErrorInterfaces(hre) };
+
+    const results: OperationResult[] = [];
+    for (const { target, contract } of contracts) {
+      // each contract numbers its own versions, so the version a root gets is read back after publishing it
+      results.push(
+        root
+          ? await runOperation(`${target}: publish allowlist root ${root}`, contract.publishAllowlistRoot, [root], options)
+          : await runOperation(`${target}: revoke allowlist version ${args.revoke}`, contract.revokeAllowlistRoot, [args.revoke], options)
+      );
+      console.log(`${target}: latest allowlist version is ${await contract.getLatestAllowlistVersion()}`);
+    }
+    return results;
+  });
+
+task("challenge:settle", "Settles a challenge and pushes the winnings to its bettors, one batch of bettors per transaction")
+  .addParam("id", "The challenge ID", undefined, types.bigint)
+  .addOptionalParam("target", "challenge or multiplayer", "challenge")
+  .addOptionalParam("deployment", "The deployment file to read addresses from, defaults to deployments/<network>.json")
+  .addFlag("dryRun", "Simulate the settlement without sending a transaction")
+  .setAction(async (args, hre): Promise<OperationResult> => {
+    const targets = parseTargets(args.target);
+    if (targets.length !== 1) throw new Error("Settle one contract at a time, pass --target challenge or multiplayer");
+
+    const [{ target, contract }] = await getTargetContracts(hre, targets, args.deployment);
+    const options = { dryRun: args.dryRun, errorInterfaces: await loadErrorInterfaces(hre) };
+
+    // each call pays out the next batch of bettors, and one that only proposed the outcome leaves nothing to pay yet
+    let result: OperationResult;
+    do {
+      result = await runOperation(`${target}: settle challenge ${args.id}`, contract.distributeWinnings, [args.id], options);
+      if (result.status === "failed") throw new Error(`Settling challenge ${args.id} failed with ${result.error}`);
+    } while (
+      !args.dryRun &&
+      (await contract.challengeToSettled(args.id)) &&
+      !(await contract.challengeToWinningsDistributed(args.id))
+    );
+    return result;
+  });
+
+task("challenge:params", "Prints the contract parameters and updates any that are passed")
+  .addOptionalParam("minimumBetValue", "The minimum USD value of a bet, in the units returned by getMinimumUsdValueOfBet", undefined, types.bigint)
+  .addOptionalParam("maximumBettors", "The maximum number of bettors per challenge", undefined, types.int)
+  .addOptionalParam("maximumLength", "The maximum challenge length in seconds", undefined, types.int)
+  .addOptionalParam("maximumMetrics", "The maximum number of metrics per challenge", undefined, types.int)
+  .addOptionalParam("maximumCompetitors", "The maximum number of competitors per multiplayer challenge", undefined, types.int)
+  .addOptionalParam("protocolFee", "The protocol fee in basis points", undefined, types.int)
+  .addOptionalParam("startWindow", "How long a challenger has to start a challenge, in seconds", undefined, types.int)
+  .addOptionalParam("disputeWindow", "How long bettors have to dispute a proposed outcome, in seconds, 0 to settle straight away", undefined, types.int)
+  .addOptionalParam("disputeBond", "The dispute bond in basis points of the challenge's total pot", undefined, types.int)
+  .addOptionalParam("vault", "The vault address")
+  .addOptionalParam("target", "challenge, multiplayer or all", "all")
+  .addOptionalParam("deployment", "The deployment file to read addresses from, defaults to deployments/<network>.json")
+  .addFlag("pause", "Pause the contracts")
+  .addFlag("unpause", "Unpause the contracts")
+  .addFlag("dryRun", "Simulate every update without sending transactions")
+  .setAction(async (args, hre): Promise<OperationResult[]> => {
+    if (args.pause && args.unpause) throw new Error("Pass at most one of --pause or --unpause");
+
+    const targets = parseTargets(args.target);
+    if (args.maximumCompetitors !== undefined && !targets.includes("multiplayer")) {
+      throw new Error("--maximum-competitors only applies to the multiplayer contract");
+    }
+
+    const contracts = await getTargetContracts(hre, targets, args.deployment);
+    const errorInterfaces = await loadErrorInterfaces(hre);
+    const options = { dryRun: args.dryRun, errorInterfaces };
+
+    const results: OperationResult[] = [];
+    for (const { target, contract } of contracts) {
+      // unpause first and pause last, since every setter is blocked while paused
+      if (args.unpause) results.push(await runOperation(`${target}: unpause`, contract.unpause, [], options));
+
+      const updates = [
+        { value: args.minimumBetValue, name: "minimum bet value", method: contract.setMinimumBetValue },
+        { value: args.maximumBettors, name: "maximum bettors", method: contract.setMaximumNumberOfBettorsPerChallenge },
+        { value: args.maximumLength, name: "maximum challenge length", method: contract.setMaximumChallengeLength },
+        { value: args.maximumMetrics, name: "maximum metrics", method: contract.setMaximumNumberOfChallengeMetrics },
+        { value: args.protocolFee, name: "protocol fee", method: contract.setProtocolFee },
+        { value: args.startWindow, name: "start window", method: contract.setChallengeStartWindow },
+        { value: args.disputeWindow, name: "dispute window", method: contract.setDisputeWindow },
+        { value: args.disputeBond, name: "dispute bond", method: contract.setDisputeBond },
+      ];
+      for (const { value, name, method } of updates) {
+        if (value !== undefined) results.push(await runOperation(`${target}: set ${name} to ${value}`, method, [value], options));
+      }
+      if (args.vault !== undefined) {
+        results.push(await runOperation(`${target}: set vault to ${args.vault}`, contract.setVault, [args.vault], options));
+      }
+
+      if (args.maximumCompetitors !== undefined && target === "multiplayer") {
+        const multiplayerChallenge = await getMultiplayerChallengeContract(hre, args.deployment);
+        results.push(
+          await runOperation(
+            `${target}: set maximum competitors to ${args.maximumCompetitors}`,
+            multiplayerChallenge.setMaximumNumberOfChallengeCompetitors,
+            [args.maximumCompetitors],
+            options
+          )
+        );
+      }
+
+      if (args.pause) results.push(await runOperation(`${target}: pause`, contract.pause, [], options));
+    }
+
+    for (const { target, contract } of contracts) {
+      const params: Record<string, string> = {
+        paused: (await contract.paused()).toString(),
+        minimumUsdValueOfBet: (await contract.getMinimumUsdValueOfBet()).toString(),
+        maximumNumberOfBettorsPerChallenge: (await contract.getMaximumNumberOfBettorsPerChallenge()).toString(),
+        maximumChallengeLengthInSeconds: (await contract.getMaximumChallengeLength()).toString(),
+        maximumNumberOfChallengeMetrics: (await contract.getMaximumNumberOfChallengeMetrics()).toString(),
+        protocolFeeBps: (await contract.getProtocolFee()).toString(),
+        challengeStartWindowInSeconds: (await contract.getChallengeStartWindow()).toString(),
+        disputeWindowInSeconds: (await contract.getDisputeWindow()).toString(),
+        disputeBondBps: (await contract.getDisputeBond()).toString(),
+      };
+      if (target === "multiplayer") {
+        const multiplayerChallenge = await getMultiplayerChallengeContract(hre, args.deployment);
+        params.maximumNumberOfChallengeCompetitors = (await multiplayerChallenge.maximumNumberOfChallengeCompetitors()).toString();
+      }
+
+      console.log(`${target} (${await contract.getAddress()})`);
+      console.table(params);
+    }
+
+    return results;
+  });
+
+task("challenge:role", "Grants an administrative role to an account, or revokes it")
+  .addParam("account", "The account to grant the role to or revoke it from")
+  .addParam("role", `One of ${Object.keys(ADMINISTRATIVE_ROLES).join(", ")}`)
+  .addOptionalParam("target", "challenge, multiplayer or all", "all")
+  .addOptionalParam("deployment", "The deployment file to read addresses from, defaults to deployments/<network>.json")
+  .addFlag("revoke", "Revoke the role instead of granting it")
+  .addFlag("dryRun", "Simulate every call without sending transactions")
+  .setAction(async (args, hre): Promise<OperationResult[]> => {
+    const roleConstant = ADMINISTRATIVE_ROLES[args.role];
+    if (!roleConstant) throw new Error(`Invalid role ${args.role}, expected one of ${Object.keys(ADMINISTRATIVE_ROLES).join(", ")}`);
+    if (!hre.ethers.isAddress(args.account)) throw new Error(`Invalid account ${args.account}`);
+
+    const contracts = await getTargetContracts(hre, parseTargets(args.target), args.deployment);
+    const options = { dryRun: args.dryRun, errorInterfaces: await loadErrorInterfaces(hre) };
+
+    const results: OperationResult[] = [];
+    for (const { target, contract } of contracts) {
+      const role: string = await contract.getFunction(roleConstant)();
+      const method = args.revoke ? contract.revokeRole : contract.grantRole;
+      const action = args.revoke ? `revoke ${args.role} from` : `grant ${args.role} to`;
+      results.push(await runOperation(`${target}: ${action} ${args.account}`, method, [role, args.account], options));
+    }
+
+    for (const { target, contract } of contracts) {
+      const role: string = await contract.getFunction(roleConstant)();
+      console.log(`${target}: ${args.account} ${(await contract.hasRole(role, args.account)) ? "has" : "does not have"} the ${args.role} role`);
+    }
+
+    return results;
+  });
@@ -0,0 +1,169 @@
+import fs from "fs";
+import { ContractTransactionResponse, Interface, isAddress } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { IChallengeProxy, IMultiplayerChallengeProxy } from "../typechain";
+import { loadDeployment } from "../scripts/deployments";
+
+export type ChallengeTarget = "challenge" | "multiplayer";
+
+export interface TargetContract {
+  target: ChallengeTarget;
+  // MultiplayerChallenge inherits every Challenge admin function, so both are driven through the Challenge ABI
+  contract: IChallengeProxy;
+}
+
+export interface OperationResult {
+  description: string;
+  status: "sent" | "simulated" | "failed";
+  transactionHash?: string;
+  error?: string;
+}
+
+// A typechain contract method taking A, which sends a transaction when called and can be simulated with staticCall
+interface ContractMethod<A extends unknown[]> {
+  (...args: A): Promise<ContractTransactionResponse>;
+  staticCall(...args: A): Promise<unknown>;
+}
+
+export const parseTargets = (target: string): ChallengeTarget[] => {
+  switch (target) {
+    case "challenge":
+    case "multiplayer":
+      return [target];
+    case "all":
+      return ["challenge", "multiplayer"];
+    default:
+      throw new Error(`Unknown target ${target}, expected challenge, multiplayer or all`);
+  }
+};
+
+export const getTargetContracts = async (
+  hre: HardhatRuntimeEnvironment,
+  targets: ChallengeTarget[],
+  deploymentPath?: string
+): Promise<TargetContract[]> => {
+  const deployment = loadDeployment(hre.network.name, deploymentPath);
+  const [signer] = await hre.ethers.getSigners();
+
+  return Promise.all(
+    targets.map(async (target) => ({
+      target,
+      contract: await hre.ethers.getContractAt(
+        "IChallengeProxy",
+        target === "challenge" ? deployment.contracts.Challenge.proxy : deployment.contracts.MultiplayerChallenge.proxy,
+        signer
+      ),
+    }))
+  );
+};
+
+export const getMultiplayerChallengeContract = async (
+  hre: HardhatRuntimeEnvironment,
+  deploymentPath?: string
+): Promise<IMultiplayerChallengeProxy> => {
+  const deployment = loadDeployment(hre.network.name, deploymentPath);
+  const [signer] = await hre.ethers.getSigners();
+  return hre.ethers.getContractAt("IMultiplayerChallengeProxy", deployment.contracts.MultiplayerChallenge.proxy, signer);
+};
+
+/**
+ * Loads the interfaces of every contract a call can revert in, so that custom errors bubbling up from
+ * the vault are decoded as well as the challenge contracts' own.
+ */
+export const loadErrorInterfaces = async (hre: HardhatRuntimeEnvironment): Promise<Interface[]> =>
+  Promise.all(
+    ["IChallengeProxy", "IMultiplayerChallengeProxy", "Vault"].map(async (name) => new Interface((await hre.artifacts.readArtifact(name)).abi))
+  );
+
+// Providers nest the revert data at different depths of the error they throw, and Hardhat wraps it in an object
+// when the reverting code is not in the artifact of the called contract, as with errors raised in extensions
+const findRevertData = (error: unknown, depth = 0): string | undefined => {
+  if (depth > 4 || typeof error !== "object" || error === null) return undefined;
+
+  const { data } = error as { data?: unknown };
+  if (typeof data === "string" && data.startsWith("0x") && data.length >= 10) return data;
+
+  for (const key of ["error", "info", "cause", "data"]) {
+    const nested = findRevertData((error as Record<string, unknown>)[key], depth + 1);
+    if (nested) return nested;
+  }
+  return undefined;
+};
+
+/**
+ * Describes why a call failed, as `ErrorName(arg, ...)` when the revert data matches a custom error
+ * of one of `errorInterfaces`, or as the provider's message otherwise.
+ */
+export const describeError = (error: unknown, errorInterfaces: Interface[]): string => {
+  const data = findRevertData(error);
+  if (data) {
+    for (const errorInterface of errorInterfaces) {
+      try {
+        const parsed = errorInterface.parseError(data);
+        if (parsed) return `${parsed.name}(${parsed.args.map((arg) => arg.toString()).join(", ")})`;
+      } catch {
+        // the selector matched but the arguments did not decode, try the next interface
+      }
+    }
+  }
+
+  if (error instanceof Error) {
+    return (error as Error & { shortMessage?: string }).shortMessage ?? error.message;
+  }
+  return String(error);
+};
+
+/**
+ * Sends a transaction, or only simulates it on a dry run, and reports the outcome instead of throwing
+ * so that a batch can carry on past a failing entry.
+ */
+export const runOperation = async <A extends unknown[]>(
+  description: string,
+  method: ContractMethod<A>,
+  args: A,
+  options: { dryRun: boolean; errorInterfaces: Interface[] }
+): Promise<OperationResult> => {
+  try {
+    if (options.dryRun) {
+      await method.staticCall(...args);
+      console.log(`[dry run] ${description}: would succeed`);
+      return { description, status: "simulated" };
+    }
+
+    const transaction = await method(...args);
+    await transaction.wait();
+    console.log(`${description}: sent in ${transaction.hash}`);
+    return { description, status: "sent", transactionHash: transaction.hash };
+  } catch (error) {
+    const reason = describeError(error, options.errorInterfaces);
+    console.log(`${options.dryRun ? "[dry run] " : ""}${description}: failed with ${reason}`);
+    return { description, status: "failed", error: reason };
+  }
+};
+
+export interface WhitelistEntry {
+  address: string;
+  role?: string;
+}
+
+/**
+ * Reads whitelist entries from a CSV file with an address per line and an optional role column.
+ * Blank lines, `#` comments and a leading header row are skipped.
+ */
+export const readWhitelistCsv = (csvPath: string): WhitelistEntry[] => {
+  const rows = fs
+    .readFileSync(csvPath, "utf8")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"))
+    .map((line) => line.split(",").map((cell) => cell.trim()));
+
+  if (rows.length > 0 && !isAddress(rows[0][0])) rows.shift();
+
+  return rows.map(([address, role], index) => {
+    if (!isAddress(address)) {
+      throw new Error(`Invalid address ${address} on data row ${index + 1} of ${csvPath}`);
+    }
+    return { address, role: role || undefined };
+  });
+};
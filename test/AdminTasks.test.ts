@@ -0,0 +1,251 @@
+import hre, { ethers } from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Signer, parseEther } from "ethers";
+import { expect } from "chai";
+import { IChallengeProxy, IMultiplayerChallengeProxy } from "../typechain";
+import { DEPLOYMENT_MANIFEST_VERSION, recordProxyDeployment, saveDeployment } from "../scripts/deployments";
+import type { OperationResult } from "../tasks/helpers";
+import { buildAllowlist, writeAllowlist } from "../scripts/allowlist/merkleAllowlist";
+import { deployChallengeContracts } from "./fixtures";
+
+describe("Admin Tasks", function () {
+  let challengeContract: IChallengeProxy;
+  let multiplayerChallenge: IMultiplayerChallengeProxy;
+  let owner: Signer;
+  let challenger: Signer;
+  let bettor: Signer;
+  let newcomers: string[];
+
+  let workDirectory: string;
+  let deploymentPath: string;
+
+  const challengeLength = BigInt(60 * 60); // 1 hour
+
+  beforeEach(async function () {
+    let others: Signer[];
+    [owner, challenger, bettor, ...others] = await ethers.getSigners();
+    newcomers = await Promise.all(others.slice(0, 3).map((signer) => signer.getAddress()));
+
+    const { vaultContract, ...games } = await deployChallengeContracts();
+    ({ challengeContract, multiplayerChallenge } = games);
+
+    workDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "challenge-tasks-"));
+    deploymentPath = path.join(workDirectory, "hardhat.json");
+    const blockNumber = await ethers.provider.getBlockNumber();
+    saveDeployment(
+      {
+        manifestVersion: DEPLOYMENT_MANIFEST_VERSION,
+        network: "hardhat",
+        chainId: 31337,
+        gitCommit: "test",
+        blockNumber,
+        contracts: {
+          Challenge: await recordProxyDeployment(hre, await challengeContract.getAddress(), "Challenge", "initialize", [], blockNumber),
+          MultiplayerChallenge: await recordProxyDeployment(
+            hre, await multiplayerChallenge.getAddress(), "MultiplayerChallenge", "initializeMultiplayerChallenge", [], blockNumber
+          ),
+          Vault: await recordProxyDeployment(hre, await vaultContract.getAddress(), "Vault", "initialize", [], blockNumber),
+        },
+      },
+      deploymentPath
+    );
+  });
+
+  afterEach(function () {
+    fs.rmSync(workDirectory, { recursive: true, force: true });
+  });
+
+  describe("challenge:whitelist", function () {
+    it("should whitelist a single address on both contracts", async function () {
+      const results: OperationResult[] = await hre.run("challenge:whitelist", {
+        address: newcomers[0],
+        role: "challenger",
+        deployment: deploymentPath,
+      });
+
+      expect(results.map((result) => result.status)).to.deep.equal(["sent", "sent"]);
+      expect(await challengeContract.challengerWhitelist(newcomers[0])).to.be.true;
+      expect(await multiplayerChallenge.challengerWhitelist(newcomers[0])).to.be.true;
+    });
+
+    it("should whitelist a CSV batch and report already whitelisted rows with their decoded error", async function () {
+      await challengeContract.addNewBettor(newcomers[1]);
+      const csvPath = path.join(workDirectory, "whitelist.csv");
+      fs.writeFileSync(csvPath, ["address,role", `${newcomers[0]},challenger`, "# already a bettor", newcomers[1], newcomers[2], ""].join("\n"));
+
+      const results: OperationResult[] = await hre.run("challenge:whitelist", {
+        csv: csvPath,
+        role: "bettor",
+        target: "challenge",
+        deployment: deploymentPath,
+      });
+
+      expect(results.map((result) => result.status)).to.deep.equal(["sent", "failed", "sent"]);
+      expect(results[1].error).to.equal("BettorAlreadyInWhitelist()");
+      expect(await challengeContract.challengerWhitelist(newcomers[0])).to.be.true;
+      expect(await challengeContract.bettorWhitelist(newcomers[2])).to.be.true;
+    });
+
+    it("should not change anything on a dry run", async function () {
+      const results: OperationResult[] = await hre.run("challenge:whitelist", {
+        address: newcomers[0],
+        role: "bettor",
+        dryRun: true,
+        deployment: deploymentPath,
+      });
+
+      expect(results.map((result) => result.status)).to.deep.equal(["simulated", "simulated"]);
+      expect(await challengeContract.bettorWhitelist(newcomers[0])).to.be.false;
+    });
+
+    it("should decode the error when removing an address that is not a challenger", async function () {
+      const results: OperationResult[] = await hre.run("challenge:whitelist", {
+        address: newcomers[0],
+        role: "challenger",
+        remove: true,
+        target: "multiplayer",
+        deployment: deploymentPath,
+      });
+
+      expect(results[0].error).to.equal("ChallengerNotInWhitelist()");
+    });
+
+    it("should reject bad input before sending anything", async function () {
+      await expect(hre.run("challenge:whitelist", { address: newcomers[0], role: "admin", deployment: deploymentPath }))
+        .to.be.rejectedWith("Invalid role admin");
+      await expect(hre.run("challenge:whitelist", { role: "bettor", deployment: deploymentPath }))
+        .to.be.rejectedWith("Pass exactly one of --address or --csv");
+      await expect(hre.run("challenge:whitelist", { address: newcomers[0], role: "bettor", deployment: path.join(workDirectory, "missing.json") }))
+        .to.be.rejectedWith("No deployment file for network hardhat");
+    });
+  });
+
+  describe("challenge:settle", function () {
+    it("should settle a finished challenge and surface decoded errors otherwise", async function () {
+      await challengeContract.addNewChallenger(await challenger.getAddress());
+      await challengeContract.addNewBettor(await bettor.getAddress());
+      await challengeContract.connect(challenger).createChallenge(challengeLength, [0], [10000]);
+      await challengeContract.connect(challenger).placeBet(0, true, { value: parseEther("1") });
+      await challengeContract.connect(bettor).placeBet(0, false, { value: parseEther("1") });
+      await challengeContract.connect(challenger).startChallenge(0);
+      await challengeContract.connect(challenger).submitMeasurements(0, [10000]);
+
+      await expect(hre.run("challenge:settle", { id: BigInt(0), deployment: deploymentPath }))
+        .to.be.rejectedWith("Settling challenge 0 failed with ChallengeIsActive(0)");
+
+      await ethers.provider.send("evm_increaseTime", [Number(challengeLength) + 1]);
+      await ethers.provider.send("evm_mine", []);
+
+      const dryRun: OperationResult = await hre.run("challenge:settle", { id: BigInt(0), dryRun: true, deployment: deploymentPath });
+      expect(dryRun.status).to.equal("simulated");
+      expect(await challengeContract.challengeToSettled(0)).to.be.false;
+
+      const result: OperationResult = await hre.run("challenge:settle", { id: BigInt(0), deployment: deploymentPath });
+      expect(result.status).to.equal("sent");
+      expect(await challengeContract.challengeToChallengeStatus(0)).to.equal(3); // STATUS_CHALLENGER_WON
+    });
+  });
+
+  describe("challenge:params", function () {
+    it("should update the passed parameters on the targeted contracts", async function () {
+      const results: OperationResult[] = await hre.run("challenge:params", {
+        protocolFee: 250,
+        maximumCompetitors: 8,
+        deployment: deploymentPath,
+      });
+
+      expect(results.map((result) => result.description)).to.deep.equal([
+        "challenge: set protocol fee to 250",
+        "multiplayer: set protocol fee to 250",
+        "multiplayer: set maximum competitors to 8",
+      ]);
+      expect(await challengeContract.getProtocolFee()).to.equal(250);
+      expect(await multiplayerChallenge.getProtocolFee()).to.equal(250);
+      expect(await multiplayerChallenge.maximumNumberOfChallengeCompetitors()).to.equal(8);
+    });
+
+    it("should decode rejected values and pause and unpause", async function () {
+      const results: OperationResult[] = await hre.run("challenge:params", {
+        protocolFee: 5000,
+        pause: true,
+        target: "challenge",
+        deployment: deploymentPath,
+      });
+
+      expect(results[0].error).to.equal("ProtocolFeeTooHigh(5000, 1000)");
+      expect(await challengeContract.paused()).to.be.true;
+
+      await hre.run("challenge:params", { unpause: true, target: "challenge", deployment: deploymentPath });
+      expect(await challengeContract.paused()).to.be.false;
+    });
+  });
+
+  describe("challenge:allowlist", function () {
+    it("should publish the root of an allowlist file and revoke its version", async function () {
+      const allowlist = buildAllowlist(newcomers.map((address) => ({ address, role: "bettor" })));
+      const allowlistPath = path.join(workDirectory, "allowlist.json");
+      writeAllowlist(allowlistPath, allowlist);
+
+      const results: OperationResult[] = await hre.run("challenge:allowlist", { file: allowlistPath, deployment: deploymentPath });
+      expect(results.map((result) => result.description)).to.deep.equal([
+        `challenge: publish allowlist root ${allowlist.root}`,
+        `multiplayer: publish allowlist root ${allowlist.root}`,
+      ]);
+      expect(await challengeContract.allowlistRoots(1)).to.equal(allowlist.root);
+      expect(await multiplayerChallenge.allowlistRoots(1)).to.equal(allowlist.root);
+
+      await hre.run("challenge:allowlist", { revoke: BigInt(1), target: "challenge", deployment: deploymentPath });
+      expect(await challengeContract.allowlistVersionRevoked(1)).to.be.true;
+      expect(await multiplayerChallenge.allowlistVersionRevoked(1)).to.be.false;
+
+      const [result]: OperationResult[] = await hre.run("challenge:allowlist", {
+        revoke: BigInt(1),
+        target: "challenge",
+        deployment: deploymentPath,
+      });
+      expect(result.error).to.equal("AllowlistVersionRevoked(1)");
+    });
+
+    it("should need exactly one of a file or a version to revoke", async function () {
+      await expect(hre.run("challenge:allowlist", { deployment: deploymentPath }))
+        .to.be.rejectedWith("Pass exactly one of --file or --revoke");
+    });
+  });
+
+  describe("challenge:role", function () {
+    it("should grant and revoke a role on the targeted contracts", async function () {
+      const [staff] = newcomers;
+      const pauserRole = await challengeContract.PAUSER_ROLE();
+
+      const results: OperationResult[] = await hre.run("challenge:role", { account: staff, role: "pauser", deployment: deploymentPath });
+      expect(results.map((result) => result.description)).to.deep.equal([
+        `challenge: grant pauser to ${staff}`,
+        `multiplayer: grant pauser to ${staff}`,
+      ]);
+      expect(await challengeContract.hasRole(pauserRole, staff)).to.be.true;
+      expect(await multiplayerChallenge.hasRole(pauserRole, staff)).to.be.true;
+
+      await hre.run("challenge:role", { account: staff, role: "pauser", target: "challenge", revoke: true, deployment: deploymentPath });
+      expect(await challengeContract.hasRole(pauserRole, staff)).to.be.false;
+      expect(await multiplayerChallenge.hasRole(pauserRole, staff)).to.be.true;
+    });
+
+    it("should decode a grant from an account without the admin role and reject unknown roles", async function () {
+      await challengeContract.renounceRole(await challengeContract.DEFAULT_ADMIN_ROLE(), await owner.getAddress());
+
+      const [result]: OperationResult[] = await hre.run("challenge:role", {
+        account: newcomers[0],
+        role: "settler",
+        target: "challenge",
+        deployment: deploymentPath,
+      });
+      expect(result.status).to.equal("failed");
+      expect(result.error).to.match(/^AccessControlUnauthorizedAccount\(/);
+
+      await expect(hre.run("challenge:role", { account: newcomers[0], role: "owner", deployment: deploymentPath }))
+        .to.be.rejectedWith("Invalid role owner");
+    });
+  });
+});
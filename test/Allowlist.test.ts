@@ -0,0 +1,197 @@
+import { ethers } from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Signer, parseEther } from "ethers";
+import { expect } from "chai";
+import { IChallengeProxy, IMultiplayerChallengeProxy } from "../typechain";
+import { Allowlist, buildAllowlist, readAllowlist, readAllowlistCsv, writeAllowlist } from "../scripts/allowlist/merkleAllowlist";
+import { deployChallengeContracts } from "./fixtures";
+
+const CHALLENGE_STEPS = 0;
+const ALLOWLIST_ROLE_BETTOR = 0;
+const ALLOWLIST_ROLE_CHALLENGER = 1;
+
+describe("Allowlist Onboarding", function () {
+  let challengeContract: IChallengeProxy;
+  let multiplayerChallenge: IMultiplayerChallengeProxy;
+  let owner: Signer;
+  let employee: Signer;
+  let colleague: Signer;
+  let outsider: Signer;
+  let employeeAddress: string;
+  let colleagueAddress: string;
+
+  let workDirectory: string;
+  let allowlist: Allowlist;
+
+  const betAmount = parseEther("0.05");
+  const challengeLength = 60 * 60; // 1 hour
+
+  // writes a CSV, builds its allowlist with the script and reads the proofs back from the JSON it writes
+  const buildAllowlistFromCsv = (name: string, rows: string[]): Allowlist => {
+    const csvPath = path.join(workDirectory, `${name}.csv`);
+    const outputPath = path.join(workDirectory, `${name}.json`);
+    fs.writeFileSync(csvPath, ["address,role", ...rows].join("\n"));
+    writeAllowlist(outputPath, buildAllowlist(readAllowlistCsv(csvPath)));
+    return readAllowlist(outputPath);
+  };
+
+  const register = (contract: IChallengeProxy | IMultiplayerChallengeProxy, signer: Signer, address: string, version = 1) => {
+    const { roleId, proof } = allowlist.proofs[address];
+    return contract.connect(signer).registerWithAllowlistProof(version, roleId, proof);
+  };
+
+  beforeEach(async function () {
+    let others: Signer[];
+    [owner, employee, colleague, outsider, ...others] = await ethers.getSigners();
+    employeeAddress = await employee.getAddress();
+    colleagueAddress = await colleague.getAddress();
+
+    ({ challengeContract, multiplayerChallenge } = await deployChallengeContracts());
+
+    workDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "challenge-allowlist-"));
+    const cohort = await Promise.all(others.slice(0, 5).map((signer) => signer.getAddress()));
+    allowlist = buildAllowlistFromCsv("cohort", [
+      `${employeeAddress},challenger`,
+      `${colleagueAddress},bettor`,
+      ...cohort.map((address) => `${address},bettor`),
+    ]);
+    await challengeContract.publishAllowlistRoot(allowlist.root);
+  });
+
+  afterEach(function () {
+    fs.rmSync(workDirectory, { recursive: true, force: true });
+  });
+
+  describe("Building the tree", function () {
+    it("should build the same root whatever the order of the CSV", async function () {
+      const rows = Object.entries(allowlist.proofs).map(([address, { role }]) => `${address},${role}`);
+      expect(buildAllowlistFromCsv("reversed", rows.reverse()).root).to.equal(allowlist.root);
+      expect(Object.keys(allowlist.proofs)).to.have.lengthOf(7);
+      expect(allowlist.proofs[employeeAddress].roleId).to.equal(ALLOWLIST_ROLE_CHALLENGER);
+    });
+
+    it("should reject duplicate addresses and unknown roles", async function () {
+      expect(() => buildAllowlistFromCsv("duplicates", [`${employeeAddress},bettor`, `${employeeAddress.toLowerCase()},challenger`]))
+        .to.throw(`${employeeAddress} is listed more than once`);
+      expect(() => buildAllowlistFromCsv("roles", [`${employeeAddress},owner`])).to.throw("Invalid role owner");
+    });
+
+    it("should prove a single address allowlist with an empty proof", async function () {
+      allowlist = buildAllowlistFromCsv("single", [employeeAddress]);
+      expect(allowlist.proofs[employeeAddress]).to.deep.equal({ role: "bettor", roleId: ALLOWLIST_ROLE_BETTOR, proof: [] });
+
+      await challengeContract.publishAllowlistRoot(allowlist.root);
+      await expect(register(challengeContract, employee, employeeAddress, 2)).to.emit(challengeContract, "AllowlistRegistered");
+    });
+  });
+
+  describe("Registering with a proof", function () {
+    it("should whitelist each listed address with its role", async function () {
+      await expect(register(challengeContract, employee, employeeAddress))
+        .to.emit(challengeContract, "ChallengerJoined").withArgs(employeeAddress)
+        .and.to.emit(challengeContract, "BettorJoined").withArgs(employeeAddress)
+        .and.to.emit(challengeContract, "AllowlistRegistered").withArgs(1, employeeAddress, ALLOWLIST_ROLE_CHALLENGER);
+      await expect(register(challengeContract, colleague, colleagueAddress))
+        .to.emit(challengeContract, "AllowlistRegistered").withArgs(1, colleagueAddress, ALLOWLIST_ROLE_BETTOR)
+        .and.not.to.emit(challengeContract, "ChallengerJoined");
+
+      expect(await challengeContract.challengerWhitelist(employeeAddress)).to.be.true;
+      expect(await challengeContract.bettorWhitelist(employeeAddress)).to.be.true;
+      expect(await challengeContract.challengerWhitelist(colleagueAddress)).to.be.false;
+      expect(await challengeContract.bettorWhitelist(colleagueAddress)).to.be.true;
+      expect(await challengeContract.accountToAllowlistVersion(employeeAddress)).to.equal(1);
+
+      await challengeContract.connect(employee).createChallenge(challengeLength, [CHALLENGE_STEPS], [10000]);
+      await challengeContract.connect(colleague).placeBet(0, false, { value: betAmount });
+    });
+
+    it("should reject proofs for another address, another role or an unpublished version", async function () {
+      const { proof } = allowlist.proofs[employeeAddress];
+      await expect(challengeContract.connect(outsider).registerWithAllowlistProof(1, ALLOWLIST_ROLE_CHALLENGER, proof))
+        .to.be.revertedWithCustomError(challengeContract, "InvalidAllowlistProof");
+      await expect(challengeContract.connect(colleague).registerWithAllowlistProof(1, ALLOWLIST_ROLE_CHALLENGER, allowlist.proofs[colleagueAddress].proof))
+        .to.be.revertedWithCustomError(challengeContract, "InvalidAllowlistProof");
+      await expect(challengeContract.connect(employee).registerWithAllowlistProof(2, ALLOWLIST_ROLE_CHALLENGER, proof))
+        .to.be.revertedWithCustomError(challengeContract, "AllowlistVersionNotFound").withArgs(2);
+      await expect(challengeContract.connect(employee).registerWithAllowlistProof(1, 2, proof))
+        .to.be.revertedWithCustomError(challengeContract, "InvalidAllowlistRole").withArgs(2);
+
+      await register(challengeContract, employee, employeeAddress);
+      await expect(register(challengeContract, employee, employeeAddress))
+        .to.be.revertedWithCustomError(challengeContract, "ChallengerAlreadyInWhitelist");
+    });
+
+    it("should keep each contract's allowlists separate", async function () {
+      await expect(register(multiplayerChallenge, employee, employeeAddress))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "AllowlistVersionNotFound").withArgs(1);
+
+      await multiplayerChallenge.publishAllowlistRoot(allowlist.root);
+      await register(multiplayerChallenge, employee, employeeAddress);
+      await register(multiplayerChallenge, colleague, colleagueAddress);
+      await multiplayerChallenge.connect(employee).createMultiplayerChallenge(challengeLength, CHALLENGE_STEPS, 2, { value: betAmount });
+      expect(await challengeContract.challengerWhitelist(employeeAddress)).to.be.false;
+    });
+  });
+
+  describe("Versioning allowlists", function () {
+    it("should only let a whitelist manager publish and revoke roots", async function () {
+      const whitelistManagerRole = await challengeContract.WHITELIST_MANAGER_ROLE();
+      await expect(challengeContract.connect(employee).publishAllowlistRoot(allowlist.root))
+        .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount")
+        .withArgs(employeeAddress, whitelistManagerRole);
+      await expect(challengeContract.connect(employee).revokeAllowlistRoot(1))
+        .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+      await expect(challengeContract.publishAllowlistRoot(ethers.ZeroHash))
+        .to.be.revertedWithCustomError(challengeContract, "InvalidAllowlistRoot");
+
+      await expect(challengeContract.publishAllowlistRoot(allowlist.root))
+        .to.emit(challengeContract, "AllowlistRootPublished").withArgs(2, allowlist.root);
+      expect(await challengeContract.getLatestAllowlistVersion()).to.equal(2);
+      expect(await challengeContract.allowlistRoots(2)).to.equal(allowlist.root);
+      await expect(challengeContract.revokeAllowlistRoot(3))
+        .to.be.revertedWithCustomError(challengeContract, "AllowlistVersionNotFound").withArgs(3);
+    });
+
+    it("should take away the access of a revoked cohort", async function () {
+      await register(challengeContract, employee, employeeAddress);
+      await register(challengeContract, colleague, colleagueAddress);
+      await challengeContract.connect(employee).createChallenge(challengeLength, [CHALLENGE_STEPS], [10000]);
+
+      await expect(challengeContract.revokeAllowlistRoot(1)).to.emit(challengeContract, "AllowlistRootRevoked").withArgs(1);
+      expect(await challengeContract.allowlistVersionRevoked(1)).to.be.true;
+      await expect(challengeContract.revokeAllowlistRoot(1))
+        .to.be.revertedWithCustomError(challengeContract, "AllowlistVersionRevoked").withArgs(1);
+
+      await expect(challengeContract.connect(employee).createChallenge(challengeLength, [CHALLENGE_STEPS], [10000]))
+        .to.be.revertedWithCustomError(challengeContract, "ChallengerNotInWhitelist");
+      await expect(challengeContract.connect(colleague).placeBet(0, false, { value: betAmount }))
+        .to.be.revertedWithCustomError(challengeContract, "BettorNotInWhitelist");
+      const others = Object.keys(allowlist.proofs).filter((address) => address !== employeeAddress && address !== colleagueAddress);
+      const latecomer = await ethers.getSigner(others[0]);
+      await expect(register(challengeContract, latecomer, others[0]))
+        .to.be.revertedWithCustomError(challengeContract, "AllowlistVersionRevoked").withArgs(1);
+    });
+
+    it("should let members of a revoked cohort be whitelisted again", async function () {
+      await register(challengeContract, employee, employeeAddress);
+      await register(challengeContract, colleague, colleagueAddress);
+      await challengeContract.revokeAllowlistRoot(1);
+
+      // a new version of the list restores the addresses still on it
+      await challengeContract.publishAllowlistRoot(allowlist.root);
+      await expect(register(challengeContract, employee, employeeAddress, 2))
+        .to.emit(challengeContract, "AllowlistRegistered").withArgs(2, employeeAddress, ALLOWLIST_ROLE_CHALLENGER);
+      await challengeContract.connect(employee).createChallenge(challengeLength, [CHALLENGE_STEPS], [10000]);
+
+      // whitelisting directly unties an address from the allowlist
+      await expect(challengeContract.addNewBettor(colleagueAddress)).to.emit(challengeContract, "BettorJoined");
+      expect(await challengeContract.accountToAllowlistVersion(colleagueAddress)).to.equal(0);
+      await challengeContract.revokeAllowlistRoot(2);
+      await challengeContract.connect(colleague).placeBet(0, false, { value: betAmount });
+      await expect(challengeContract.connect(employee).placeBet(0, true, { value: betAmount }))
+        .to.be.revertedWithCustomError(challengeContract, "BettorNotInWhitelist");
+    });
+  });
+});
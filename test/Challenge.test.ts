@@ -1,10 +1,14 @@
-import { ethers, upgrades } from "hardhat";
+import hre, { ethers, upgrades } from "hardhat";
 import { AddressLike, Signer, parseEther, BigNumberish } from "ethers";
 import { expect } from "chai";
-import { Challenge, Challenge__factory, Vault } from "../typechain";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { IChallengeProxy, Vault } from "../typechain";
+import { deployExtensionArgs, getProxyFactory } from "../scripts/extensions";
+import { signMeasurementAttestation } from "../scripts/signMeasurementAttestation";
+import { inviteCodeSigner, signInviteCodeRedemption } from "../scripts/inviteCodes";
 
 describe("Challenge Tests", () => {
-  let challengeContract: Challenge;
+  let challengeContract: IChallengeProxy;
   let vaultContract: Vault;
   let owner: Signer;
   let bettor: Signer;
@@ -25,7 +29,7 @@ describe("Challenge Tests", () => {
   let maximumNumberOfChallengeMetrics: bigint;
 
   beforeEach(async () => {
-    const ChallengeFactory: Challenge__factory = await ethers.getContractFactory("Challenge");
+    const ChallengeFactory = await getProxyFactory(hre, "Challenge");
     [owner, bettor, bettor2, challenger] = await ethers.getSigners();
 
     // Add mock price feed
@@ -45,7 +49,7 @@ describe("Challenge Tests", () => {
         maximumChallengeLengthInSeconds,
         maximumNumberOfChallengeMetrics
       ],
-      { initializer: 'initialize' }
+      { initializer: 'initialize', constructorArgs: await deployExtensionArgs(hre, "Challenge") }
     );
     await challengeContract.waitForDeployment();
     const challengeContractAddress = await challengeContract.getAddress();
@@ -96,10 +100,148 @@ describe("Challenge Tests", () => {
     });
 
     it("should not allow a non-owner to set any metrics", async () => {
-      await expect(challengeContract.connect(bettor).setMaximumChallengeLength(1)).to.be.revertedWithCustomError(challengeContract, "OwnableUnauthorizedAccount");
-      await expect(challengeContract.connect(bettor).setMaximumNumberOfBettorsPerChallenge(2)).to.be.revertedWithCustomError(challengeContract, "OwnableUnauthorizedAccount");
-      await expect(challengeContract.connect(bettor).setMaximumNumberOfChallengeMetrics(3)).to.be.revertedWithCustomError(challengeContract, "OwnableUnauthorizedAccount");
-      await expect(challengeContract.connect(bettor).setMinimumBetValue(1)).to.be.revertedWithCustomError(challengeContract, "OwnableUnauthorizedAccount");
+      await expect(challengeContract.connect(bettor).setMaximumChallengeLength(1)).to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+      await expect(challengeContract.connect(bettor).setMaximumNumberOfBettorsPerChallenge(2)).to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+      await expect(challengeContract.connect(bettor).setMaximumNumberOfChallengeMetrics(3)).to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+      await expect(challengeContract.connect(bettor).setMinimumBetValue(1)).to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Metric registry", async () => {
+    const DIRECTION_AT_MOST = 1;
+    const challengeLength = BigInt(60 * 60);
+    const RESTING_HEART_RATE = 4;
+
+    beforeEach(async () => {
+      await challengeContract.connect(owner).addNewChallenger(challengerAddress);
+    });
+
+    it("should list the default metrics under their original IDs", async () => {
+      const [metricIds, metrics] = await challengeContract.getMetrics();
+
+      expect(metricIds).to.deep.equal([CHALLENGE_STEPS, CHALLENGE_MILEAGE, CHALLENGE_CYCLING_MILEAGE, CHALLENGE_CALORIES_BURNED].map(BigInt));
+      expect(metrics.map((metric) => metric.name)).to.deep.equal(["Steps", "Mileage", "Cycling mileage", "Calories burned"]);
+      expect(metrics.every((metric) => metric.enabled)).to.be.true;
+      expect((await challengeContract.getMetric(CHALLENGE_MILEAGE)).unit).to.equal("miles");
+    });
+
+    it("should let only the owner register metrics with sane settings", async () => {
+      await expect(challengeContract.connect(bettor).setMetric(RESTING_HEART_RATE, "Resting heart rate", "bpm", 0, DIRECTION_AT_MOST, 30, 120, true, false))
+        .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+      await expect(challengeContract.connect(bettor).setMetricEnabled(CHALLENGE_STEPS, false))
+        .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+
+      await expect(challengeContract.connect(owner).setMetric(RESTING_HEART_RATE, "", "bpm", 0, DIRECTION_AT_MOST, 30, 120, true, false))
+        .to.be.revertedWithCustomError(challengeContract, "InvalidMetric").withArgs(RESTING_HEART_RATE);
+      await expect(challengeContract.connect(owner).setMetric(RESTING_HEART_RATE, "Resting heart rate", "bpm", 0, 2, 30, 120, true, false))
+        .to.be.revertedWithCustomError(challengeContract, "InvalidMetric").withArgs(RESTING_HEART_RATE);
+      await expect(challengeContract.connect(owner).setMetric(RESTING_HEART_RATE, "Resting heart rate", "bpm", 0, DIRECTION_AT_MOST, 120, 30, true, false))
+        .to.be.revertedWithCustomError(challengeContract, "InvalidMetric").withArgs(RESTING_HEART_RATE);
+      await expect(challengeContract.connect(owner).setMetricEnabled(RESTING_HEART_RATE, true))
+        .to.be.revertedWithCustomError(challengeContract, "InvalidMetric").withArgs(RESTING_HEART_RATE);
+
+      await expect(challengeContract.connect(owner).setMetric(RESTING_HEART_RATE, "Resting heart rate", "bpm", 0, DIRECTION_AT_MOST, 30, 120, true, false))
+        .to.emit(challengeContract, "MetricSet")
+        .withArgs(RESTING_HEART_RATE, "Resting heart rate", "bpm", 0, DIRECTION_AT_MOST, 30, 120, true, false);
+      // updating a registered metric does not list it twice
+      await challengeContract.connect(owner).setMetric(RESTING_HEART_RATE, "Resting heart rate", "bpm", 0, DIRECTION_AT_MOST, 30, 100, true, false);
+
+      const [metricIds] = await challengeContract.getMetrics();
+      expect(metricIds).to.deep.equal([0, 1, 2, 3, RESTING_HEART_RATE].map(BigInt));
+      expect((await challengeContract.getMetric(RESTING_HEART_RATE)).maximumValue).to.equal(100);
+    });
+
+    it("should reject challenges on unregistered or disabled metrics and out-of-bounds targets", async () => {
+      await expect(challengeContract.connect(challenger).createChallenge(challengeLength, [CHALLENGE_STEPS, 9], [10000, 1]))
+        .to.be.revertedWithCustomError(challengeContract, "MetricNotEnabled").withArgs(9);
+      await expect(challengeContract.connect(challenger).createChallenge(challengeLength, [CHALLENGE_MILEAGE], [10001]))
+        .to.be.revertedWithCustomError(challengeContract, "MetricValueOutOfBounds").withArgs(CHALLENGE_MILEAGE, 10001, 0, 10000);
+      await expect(challengeContract.connect(challenger).createChallengeWithDirections(challengeLength, [CHALLENGE_MILEAGE], [5], [2], [10001]))
+        .to.be.revertedWithCustomError(challengeContract, "MetricValueOutOfBounds").withArgs(CHALLENGE_MILEAGE, 10001, 0, 10000);
+
+      await expect(challengeContract.connect(owner).setMetricEnabled(CHALLENGE_STEPS, false))
+        .to.emit(challengeContract, "MetricSet")
+        .withArgs(CHALLENGE_STEPS, "Steps", "steps", 0, 0, 0, 10000000, false, false);
+      await expect(challengeContract.connect(challenger).createChallenge(challengeLength, [CHALLENGE_STEPS], [10000]))
+        .to.be.revertedWithCustomError(challengeContract, "MetricNotEnabled").withArgs(CHALLENGE_STEPS);
+
+      await challengeContract.connect(owner).setMetricEnabled(CHALLENGE_STEPS, true);
+      await expect(challengeContract.connect(challenger).createChallenge(challengeLength, [CHALLENGE_STEPS], [10000])).not.to.be.reverted;
+    });
+
+    it("should compare a metric in its default direction when a challenge gives none", async () => {
+      await challengeContract.connect(owner).setMetric(RESTING_HEART_RATE, "Resting heart rate", "bpm", 0, DIRECTION_AT_MOST, 30, 120, true, false);
+      await challengeContract.connect(challenger).createChallenge(challengeLength, [CHALLENGE_STEPS, RESTING_HEART_RATE], [10000, 60]);
+
+      const [directions] = await challengeContract.getChallengeMetricDirections(0);
+      expect(directions).to.deep.equal([0, DIRECTION_AT_MOST].map(BigInt));
+    });
+
+    it("should not run the migrations on a new deployment", async () => {
+      await challengeContract.connect(owner).setMetric(CHALLENGE_STEPS, "Steps", "steps", 0, 0, 0, 50000, true, false);
+      await expect(challengeContract.connect(owner).initializeAttestations())
+        .to.be.revertedWithCustomError(challengeContract, "InvalidInitialization");
+      await expect(challengeContract.connect(owner).initializeMetricRegistry())
+        .to.be.revertedWithCustomError(challengeContract, "InvalidInitialization");
+      await expect(challengeContract.connect(owner).initializeAccessControl())
+        .to.be.revertedWithCustomError(challengeContract, "InvalidInitialization");
+      expect((await challengeContract.getMetric(CHALLENGE_STEPS)).maximumValue).to.equal(50000);
+    });
+  });
+
+  describe("Delegating administration with roles", async () => {
+    it("should give the deployer every role", async () => {
+      const ownerAddress = await owner.getAddress();
+      const roles = [
+        await challengeContract.DEFAULT_ADMIN_ROLE(),
+        await challengeContract.WHITELIST_MANAGER_ROLE(),
+        await challengeContract.PARAMETER_ADMIN_ROLE(),
+        await challengeContract.PAUSER_ROLE(),
+        await challengeContract.SETTLER_ROLE(),
+        await challengeContract.UPGRADER_ROLE(),
+      ];
+      for (const role of roles) {
+        expect(await challengeContract.hasRole(role, ownerAddress)).to.be.true;
+      }
+    });
+
+    it("should let a role holder do only what their role allows", async () => {
+      const bettorAddress = await bettor.getAddress();
+      const whitelistManagerRole = await challengeContract.WHITELIST_MANAGER_ROLE();
+      const pauserRole = await challengeContract.PAUSER_ROLE();
+
+      await expect(challengeContract.connect(bettor).grantRole(whitelistManagerRole, bettorAddress))
+        .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount")
+        .withArgs(bettorAddress, await challengeContract.DEFAULT_ADMIN_ROLE());
+      await expect(challengeContract.connect(owner).grantRole(whitelistManagerRole, bettorAddress))
+        .to.emit(challengeContract, "RoleGranted")
+        .withArgs(whitelistManagerRole, bettorAddress, await owner.getAddress());
+
+      await expect(challengeContract.connect(bettor).addNewChallenger(challengerAddress)).to.emit(challengeContract, "ChallengerJoined");
+      await expect(challengeContract.connect(bettor).setProtocolFee(100))
+        .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount")
+        .withArgs(bettorAddress, await challengeContract.PARAMETER_ADMIN_ROLE());
+      await expect(challengeContract.connect(bettor).pause())
+        .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount")
+        .withArgs(bettorAddress, pauserRole);
+      await expect(challengeContract.connect(bettor).distributeWinnings(0))
+        .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount")
+        .withArgs(bettorAddress, await challengeContract.SETTLER_ROLE());
+
+      await challengeContract.connect(owner).grantRole(pauserRole, bettorAddress);
+      await challengeContract.connect(bettor).pause();
+      await challengeContract.connect(bettor).unpause();
+
+      await challengeContract.connect(owner).revokeRole(whitelistManagerRole, bettorAddress);
+      await expect(challengeContract.connect(bettor).removeChallenger(challengerAddress))
+        .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should leave no owner beside the roles", async () => {
+      expect(await challengeContract.owner()).to.equal(ethers.ZeroAddress);
+      await expect(challengeContract.connect(owner).transferOwnership(await bettor.getAddress()))
+        .to.be.revertedWithCustomError(challengeContract, "OwnableUnauthorizedAccount")
+        .withArgs(await owner.getAddress());
     });
   });
 
@@ -278,6 +420,194 @@ describe("Challenge Tests", () => {
       expect(challengeStatus).to.equal(1); // ChallengeStatus.Active
     });
 
+    describe("Cancelling a bet", async () => {
+      beforeEach(async () => {
+        await challengeContract.connect(owner).addNewBettor(bettor.getAddress());
+        await challengeContract.connect(owner).addNewBettor(bettor2.getAddress());
+      });
+
+      it("should not allow cancelling a bet that was never placed", async () => {
+        await expect(challengeContract.connect(bettor).cancelBet(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "BettorCannotUpdateBet");
+      });
+
+      it("should refund the bettor and unwind the bet bookkeeping", async () => {
+        await challengeContract.connect(challenger).placeBet(challengeId, true, { value: betAmount });
+        await challengeContract.connect(bettor).placeBet(challengeId, false, { value: betAmount });
+        await challengeContract.connect(bettor2).placeBet(challengeId, false, { value: betAmount * BigInt(2) });
+
+        const bettor2Address = await bettor2.getAddress();
+        const bettor2BalanceBefore = await ethers.provider.getBalance(bettor2Address);
+
+        const cancelTx = await challengeContract.connect(bettor2).cancelBet(challengeId);
+        const receipt = await cancelTx.wait();
+        const gasCost = receipt!.gasUsed * receipt!.gasPrice;
+
+        await expect(cancelTx).to.emit(challengeContract, "BetCancelled").withArgs(challengeId, bettor2Address, false, betAmount * BigInt(2));
+
+        expect(await ethers.provider.getBalance(bettor2Address)).to.equal(bettor2BalanceBefore + betAmount * BigInt(2) - gasCost);
+        expect(await vaultContract.getBalance(false)).to.equal(betAmount * BigInt(2));
+
+        expect(await challengeContract.challengeToBetsAgainst(challengeId, bettor2Address)).to.equal(0);
+        expect(await challengeContract.challengeToNumberOfBettorsAgainst(challengeId)).to.equal(1);
+        expect(await challengeContract.challengeToTotalAmountBetAgainst(challengeId)).to.equal(betAmount);
+        expect(await challengeContract.challengeToNumberOfBettorsFor(challengeId)).to.equal(1);
+        expect(await challengeContract.challengeToTotalAmountBetFor(challengeId)).to.equal(betAmount);
+
+        // the remaining bettors are kept without leaving a gap in the list
+        expect(await challengeContract.challengeToBettors(challengeId, 0)).to.equal(challengerAddress);
+        expect(await challengeContract.challengeToBettors(challengeId, 1)).to.equal(await bettor.getAddress());
+        await expect(challengeContract.challengeToBettors(challengeId, 2)).to.be.reverted;
+      });
+
+      it("should fill the gap left by a cancelled bet with the last bettor", async () => {
+        await challengeContract.connect(challenger).placeBet(challengeId, true, { value: betAmount });
+        await challengeContract.connect(bettor).placeBet(challengeId, false, { value: betAmount });
+        await challengeContract.connect(bettor2).placeBet(challengeId, true, { value: betAmount });
+
+        await challengeContract.connect(bettor).cancelBet(challengeId);
+
+        expect(await challengeContract.challengeToBettors(challengeId, 0)).to.equal(challengerAddress);
+        expect(await challengeContract.challengeToBettors(challengeId, 1)).to.equal(await bettor2.getAddress());
+        await expect(challengeContract.challengeToBettors(challengeId, 2)).to.be.reverted;
+        expect(await challengeContract.challengeToNumberOfBettorsAgainst(challengeId)).to.equal(0);
+        expect(await challengeContract.challengeToTotalAmountBetAgainst(challengeId)).to.equal(0);
+      });
+
+      it("should allow a bettor to bet again after cancelling", async () => {
+        await challengeContract.connect(bettor).placeBet(challengeId, false, { value: betAmount });
+        await challengeContract.connect(bettor).cancelBet(challengeId);
+        await challengeContract.connect(bettor).placeBet(challengeId, true, { value: betAmount });
+
+        expect(await challengeContract.challengeToBetsFor(challengeId, await bettor.getAddress())).to.equal(betAmount);
+        expect(await challengeContract.challengeToNumberOfBettorsFor(challengeId)).to.equal(1);
+        expect(await challengeContract.challengeToNumberOfBettorsAgainst(challengeId)).to.equal(0);
+      });
+
+      it("should not allow the challenge to start after the challenger cancels their own bet", async () => {
+        await challengeContract.connect(challenger).placeBet(challengeId, true, { value: betAmount });
+        await challengeContract.connect(bettor).placeBet(challengeId, false, { value: betAmount });
+
+        await expect(challengeContract.connect(challenger).cancelBet(challengeId))
+          .to.emit(challengeContract, "BetCancelled")
+          .withArgs(challengeId, challengerAddress, true, betAmount);
+
+        expect(await challengeContract.challengeToNumberOfBettorsFor(challengeId)).to.equal(0);
+        expect(await challengeContract.challengeToTotalAmountBetFor(challengeId)).to.equal(0);
+        expect(await vaultContract.getBalance(false)).to.equal(betAmount);
+
+        await expect(challengeContract.connect(challenger).startChallenge(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "NobodyBettingForChallenger");
+      });
+
+      it("should not take ETH sent along with a cancellation", async () => {
+        await challengeContract.connect(bettor).placeBet(challengeId, false, { value: betAmount });
+
+        await expect(bettor.sendTransaction({
+          to: await challengeContract.getAddress(),
+          data: challengeContract.interface.encodeFunctionData("cancelBet", [challengeId]),
+          value: betAmount,
+        })).to.be.reverted;
+        expect(await challengeContract.challengeToBetsAgainst(challengeId, await bettor.getAddress())).to.equal(betAmount);
+      });
+
+      it("should not allow cancelling a bet after the challenge has started", async () => {
+        await challengeContract.connect(challenger).placeBet(challengeId, true, { value: betAmount });
+        await challengeContract.connect(bettor).placeBet(challengeId, false, { value: betAmount });
+        await challengeContract.connect(challenger).startChallenge(challengeId);
+
+        await expect(challengeContract.connect(bettor).cancelBet(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeCannotBeModified");
+      });
+    });
+
+    describe("Changing a bet", async () => {
+      let bettorAddress: string;
+
+      beforeEach(async () => {
+        await challengeContract.connect(owner).addNewBettor(bettor.getAddress());
+        bettorAddress = await bettor.getAddress();
+        await challengeContract.connect(challenger).placeBet(challengeId, true, { value: betAmount });
+        await challengeContract.connect(bettor).placeBet(challengeId, false, { value: betAmount });
+      });
+
+      it("should not allow changing a bet that was never placed", async () => {
+        await challengeContract.connect(owner).addNewBettor(bettor2.getAddress());
+        await expect(challengeContract.connect(bettor2).changeBet(challengeId, true, betAmount))
+          .to.be.revertedWithCustomError(challengeContract, "BettorCannotUpdateBet");
+      });
+
+      it("should allow a bettor to switch sides without changing the amount", async () => {
+        await expect(challengeContract.connect(bettor).changeBet(challengeId, true, betAmount))
+          .to.emit(challengeContract, "BetChanged")
+          .withArgs(challengeId, bettorAddress, false, true, betAmount, betAmount);
+
+        expect(await challengeContract.challengeToBetsFor(challengeId, bettorAddress)).to.equal(betAmount);
+        expect(await challengeContract.challengeToBetsAgainst(challengeId, bettorAddress)).to.equal(0);
+        expect(await challengeContract.challengeToNumberOfBettorsFor(challengeId)).to.equal(2);
+        expect(await challengeContract.challengeToNumberOfBettorsAgainst(challengeId)).to.equal(0);
+        expect(await challengeContract.challengeToTotalAmountBetFor(challengeId)).to.equal(betAmount * BigInt(2));
+        expect(await challengeContract.challengeToTotalAmountBetAgainst(challengeId)).to.equal(0);
+        expect(await vaultContract.getBalance(false)).to.equal(betAmount * BigInt(2));
+      });
+
+      it("should deposit the difference into the vault when a bettor raises the bet", async () => {
+        const newBetAmount = betAmount * BigInt(3);
+        await expect(challengeContract.connect(bettor).changeBet(challengeId, false, newBetAmount, { value: newBetAmount - betAmount }))
+          .to.emit(challengeContract, "BetChanged")
+          .withArgs(challengeId, bettorAddress, false, false, betAmount, newBetAmount);
+
+        expect(await challengeContract.challengeToBetsAgainst(challengeId, bettorAddress)).to.equal(newBetAmount);
+        expect(await challengeContract.challengeToNumberOfBettorsAgainst(challengeId)).to.equal(1);
+        expect(await challengeContract.challengeToTotalAmountBetAgainst(challengeId)).to.equal(newBetAmount);
+        expect(await vaultContract.getBalance(false)).to.equal(betAmount + newBetAmount);
+      });
+
+      it("should refund the difference from the vault when a bettor lowers the bet", async () => {
+        const newBetAmount = betAmount / BigInt(4);
+        const bettorBalanceBefore = await ethers.provider.getBalance(bettorAddress);
+
+        const changeTx = await challengeContract.connect(bettor).changeBet(challengeId, true, newBetAmount);
+        const receipt = await changeTx.wait();
+        const gasCost = receipt!.gasUsed * receipt!.gasPrice;
+
+        expect(await ethers.provider.getBalance(bettorAddress)).to.equal(bettorBalanceBefore + betAmount - newBetAmount - gasCost);
+        expect(await challengeContract.challengeToBetsFor(challengeId, bettorAddress)).to.equal(newBetAmount);
+        expect(await challengeContract.challengeToTotalAmountBetFor(challengeId)).to.equal(betAmount + newBetAmount);
+        expect(await challengeContract.challengeToTotalAmountBetAgainst(challengeId)).to.equal(0);
+        expect(await vaultContract.getBalance(false)).to.equal(betAmount + newBetAmount);
+      });
+
+      it("should require the ETH sent to match the change in the bet amount", async () => {
+        await expect(challengeContract.connect(bettor).changeBet(challengeId, false, betAmount * BigInt(2), { value: betAmount / BigInt(2) }))
+          .to.be.revertedWithCustomError(challengeContract, "IncorrectBetChangeValue")
+          .withArgs(betAmount, betAmount / BigInt(2));
+        await expect(challengeContract.connect(bettor).changeBet(challengeId, false, betAmount / BigInt(2), { value: 1 }))
+          .to.be.revertedWithCustomError(challengeContract, "IncorrectBetChangeValue")
+          .withArgs(0, 1);
+      });
+
+      it("should not allow lowering a bet below the minimum USD value of a bet", async () => {
+        const latestEthPrice = await challengeContract.getLatestPrice();
+        const tinyBetAmount = BigInt(0.004 * Number(latestEthPrice)); // $8.00 at test ETH price of $2000.00
+
+        await expect(challengeContract.connect(bettor).changeBet(challengeId, false, tinyBetAmount))
+          .to.be.revertedWithCustomError(challengeContract, "MinimumBetAmountTooSmall");
+      });
+
+      it("should not allow the challenger to switch to betting against himself", async () => {
+        await expect(challengeContract.connect(challenger).changeBet(challengeId, false, betAmount))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengerCannotBetAgainstHimself");
+      });
+
+      it("should not allow changing a bet after the challenge has started", async () => {
+        await challengeContract.connect(challenger).startChallenge(challengeId);
+
+        await expect(challengeContract.connect(bettor).changeBet(challengeId, true, betAmount))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeCannotBeModified");
+      });
+    });
+
     describe("Concluding the challenge", async () => {
       let initialBettorBalance: bigint;
       let initialBettor2Balance: bigint;
@@ -383,6 +713,943 @@ describe("Challenge Tests", () => {
       });
     })
 
+    describe("Claiming winnings", () => {
+      const endChallenge = async (lastChallengeId: bigint = challengeId) => {
+        const challengeStartTime = await challengeContract.challengeToStartTime(lastChallengeId);
+        const futureTimestamp = challengeStartTime + challengeLength + BigInt(100);
+        await ethers.provider.send("evm_setNextBlockTimestamp", [Number(futureTimestamp)]);
+        await ethers.provider.send("evm_mine", []);
+      };
+
+      beforeEach(async () => {
+        await challengeContract.connect(owner).addNewBettor(bettor.getAddress());
+        await challengeContract.connect(owner).addNewBettor(bettor2.getAddress());
+
+        await challengeContract.connect(bettor).placeBet(challengeId, true, { value: betAmount });
+        await challengeContract.connect(bettor2).placeBet(challengeId, false, { value: betAmount });
+        await challengeContract.connect(challenger).placeBet(challengeId, true, { value: betAmount });
+        await challengeContract.connect(challenger).startChallenge(challengeId);
+        await challengeContract.connect(challenger).submitMeasurements(challengeId, targetMeasurements);
+      });
+
+      it("should let anyone settle the challenge once it has ended", async () => {
+        await expect(challengeContract.connect(bettor2).settleChallenge(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeIsActive");
+
+        await endChallenge();
+
+        await expect(challengeContract.connect(bettor2).settleChallenge(challengeId))
+          .to.emit(challengeContract, "ChallengeSettled").withArgs(challengeId, 3, betAmount) // STATUS_CHALLENGER_WON
+          .and.not.to.emit(challengeContract, "WinningsClaimable");
+
+        expect(await challengeContract.challengeToSettled(challengeId)).to.be.true;
+        expect(await challengeContract.challengeToClaimableWinnings(challengeId, bettor.getAddress())).to.equal(betAmount + betAmount / BigInt(2));
+        expect(await challengeContract.challengeToClaimableWinnings(challengeId, challengerAddress)).to.equal(betAmount + betAmount / BigInt(2));
+        expect(await challengeContract.challengeToClaimableWinnings(challengeId, bettor2.getAddress())).to.equal(0);
+
+        // each winner's payout is worked out when they are paid, rather than for every bettor while settling
+        await expect(challengeContract.connect(bettor).claimWinnings(challengeId))
+          .to.emit(challengeContract, "WinningsClaimable").withArgs(challengeId, await bettor.getAddress(), betAmount + betAmount / BigInt(2))
+          .and.to.emit(challengeContract, "WinningsClaimed").withArgs(challengeId, await bettor.getAddress(), betAmount + betAmount / BigInt(2));
+        expect(await challengeContract.challengeToClaimableWinnings(challengeId, bettor.getAddress())).to.equal(0);
+
+        await expect(challengeContract.connect(bettor).settleChallenge(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "WinningsAlreadyPaid").withArgs(challengeId);
+      });
+
+      it("should not settle a challenge that was never started", async () => {
+        await challengeContract.connect(owner).addNewChallenger(owner.getAddress());
+        await challengeContract.connect(owner).createChallenge(challengeLength, challengeMetrics, targetMeasurements);
+        const unstartedChallengeId = challengeId + BigInt(1);
+
+        await expect(challengeContract.connect(bettor).settleChallenge(unstartedChallengeId))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeNotYetStarted").withArgs(unstartedChallengeId);
+      });
+
+      it("should pay a winner exactly once when they claim", async () => {
+        await endChallenge();
+        await challengeContract.connect(bettor2).settleChallenge(challengeId);
+
+        const expectedWinnings = betAmount + betAmount / BigInt(2);
+        const claimTx = challengeContract.connect(bettor).claimWinnings(challengeId);
+        await expect(claimTx).to.emit(challengeContract, "WinningsClaimed").withArgs(challengeId, await bettor.getAddress(), expectedWinnings);
+        await expect(claimTx).to.changeEtherBalance(bettor, expectedWinnings);
+
+        expect(await challengeContract.challengeToClaimableWinnings(challengeId, bettor.getAddress())).to.equal(0);
+        await expect(challengeContract.connect(bettor).claimWinnings(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "NoWinningsToClaim").withArgs(await bettor.getAddress());
+        await expect(challengeContract.connect(bettor2).claimWinnings(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "NoWinningsToClaim").withArgs(await bettor2.getAddress());
+      });
+
+      it("should skip winners who already claimed when the owner distributes the rest", async () => {
+        await endChallenge();
+        await challengeContract.connect(bettor).settleChallenge(challengeId);
+        await challengeContract.connect(bettor).claimWinnings(challengeId);
+
+        const expectedWinnings = betAmount + betAmount / BigInt(2);
+        await expect(challengeContract.connect(owner).distributeWinnings(challengeId))
+          .to.changeEtherBalances([bettor, challenger], [0, expectedWinnings]);
+        expect(await vaultContract.getBalance(false)).to.equal(0);
+      });
+
+      it("should claim winnings from several challenges in one transfer", async () => {
+        await challengeContract.connect(owner).addNewChallenger(bettor2.getAddress());
+        await challengeContract.connect(bettor2).createChallenge(challengeLength, challengeMetrics, targetMeasurements);
+        const secondChallengeId = challengeId + BigInt(1);
+        await challengeContract.connect(bettor2).placeBet(secondChallengeId, true, { value: betAmount });
+        await challengeContract.connect(bettor).placeBet(secondChallengeId, false, { value: betAmount });
+        await challengeContract.connect(bettor2).startChallenge(secondChallengeId);
+        await challengeContract.connect(bettor2).submitMeasurements(secondChallengeId, [0, 0]);
+
+        await endChallenge(secondChallengeId);
+        await challengeContract.connect(bettor).settleChallenge(challengeId);
+        await challengeContract.connect(bettor).settleChallenge(secondChallengeId);
+        expect(await challengeContract.challengeToChallengeStatus(secondChallengeId)).to.equal(4); // STATUS_CHALLENGER_LOST
+
+        const expectedWinnings = (betAmount + betAmount / BigInt(2)) + betAmount * BigInt(2);
+        const claimTx = challengeContract.connect(bettor).claimWinningsBatch([challengeId, secondChallengeId, challengeId]);
+        await expect(claimTx).to.emit(challengeContract, "WinningsClaimed").withArgs(secondChallengeId, await bettor.getAddress(), betAmount * BigInt(2));
+        await expect(claimTx).to.changeEtherBalance(bettor, expectedWinnings);
+
+        await expect(challengeContract.connect(bettor).claimWinningsBatch([challengeId, secondChallengeId]))
+          .to.be.revertedWithCustomError(challengeContract, "NoWinningsToClaim");
+      });
+
+      it("should keep a failed winnings push claimable", async () => {
+        const RejectingBettorFactory = await ethers.getContractFactory("MockRejectingBettor");
+        const rejectingBettor = await RejectingBettorFactory.deploy(await challengeContract.getAddress());
+        const rejectingBettorAddress = await rejectingBettor.getAddress();
+        await challengeContract.connect(owner).addNewChallenger(owner.getAddress());
+        await challengeContract.connect(owner).addNewBettor(rejectingBettorAddress);
+
+        await challengeContract.connect(owner).createChallenge(challengeLength, challengeMetrics, targetMeasurements);
+        const secondChallengeId = challengeId + BigInt(1);
+        await challengeContract.connect(owner).placeBet(secondChallengeId, true, { value: betAmount });
+        await rejectingBettor.placeBet(secondChallengeId, false, { value: betAmount });
+        await challengeContract.connect(owner).startChallenge(secondChallengeId);
+        await challengeContract.connect(owner).submitMeasurements(secondChallengeId, [0, 0]);
+
+        await endChallenge(secondChallengeId);
+        await expect(challengeContract.connect(owner).distributeWinnings(secondChallengeId))
+          .to.emit(challengeContract, "WinningsDistributionFailed").withArgs(secondChallengeId, rejectingBettorAddress, betAmount * BigInt(2));
+        expect(await challengeContract.challengeToClaimableWinnings(secondChallengeId, rejectingBettorAddress)).to.equal(betAmount * BigInt(2));
+
+        await rejectingBettor.setAcceptPayments(true);
+        await expect(rejectingBettor.claimWinnings(secondChallengeId))
+          .to.changeEtherBalance(rejectingBettor, betAmount * BigInt(2));
+      });
+    });
+
+    describe("Refunding bettors", () => {
+      const STATUS_CANCELLED = 5;
+
+      beforeEach(async () => {
+        await challengeContract.connect(owner).addNewBettor(bettor.getAddress());
+        await challengeContract.connect(owner).addNewBettor(bettor2.getAddress());
+
+        await challengeContract.connect(bettor).placeBet(challengeId, true, { value: betAmount });
+        await challengeContract.connect(bettor2).placeBet(challengeId, false, { value: betAmount });
+        await challengeContract.connect(challenger).placeBet(challengeId, true, { value: betAmount });
+      });
+
+      it("should set a start deadline when the challenge is created", async () => {
+        const createdAt = (await ethers.provider.getBlock("latest"))!.timestamp;
+        const window = await challengeContract.getChallengeStartWindow();
+        expect(window).to.equal(7 * 24 * 60 * 60);
+
+        await challengeContract.connect(owner).setChallengeStartWindow(60 * 60);
+        await challengeContract.connect(challenger).createChallenge(challengeLength, challengeMetrics, targetMeasurements);
+        const laterCreatedAt = (await ethers.provider.getBlock("latest"))!.timestamp;
+
+        expect(await challengeContract.challengeToStartDeadline(challengeId)).to.be.closeTo(BigInt(createdAt) + window, 10);
+        expect(await challengeContract.challengeToStartDeadline(challengeId + BigInt(1))).to.equal(BigInt(laterCreatedAt + 60 * 60));
+        await expect(challengeContract.connect(owner).setChallengeStartWindow(0))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeStartWindowTooShort");
+      });
+
+      it("should refund stakes once a challenge misses its start deadline", async () => {
+        await expect(challengeContract.connect(bettor).claimRefund(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeCannotBeVoided").withArgs(challengeId);
+
+        const startDeadline = await challengeContract.challengeToStartDeadline(challengeId);
+        await ethers.provider.send("evm_setNextBlockTimestamp", [Number(startDeadline + BigInt(1))]);
+        await ethers.provider.send("evm_mine", []);
+
+        await expect(challengeContract.connect(challenger).startChallenge(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeStartDeadlinePassed").withArgs(challengeId, startDeadline);
+        await expect(challengeContract.connect(bettor).placeBet(challengeId, true, { value: betAmount }))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeStartDeadlinePassed");
+
+        const refundTx = challengeContract.connect(bettor2).claimRefund(challengeId);
+        await expect(refundTx).to.emit(challengeContract, "ChallengeVoided").withArgs(challengeId);
+        await expect(refundTx).to.changeEtherBalance(bettor2, betAmount);
+        expect(await challengeContract.challengeToChallengeStatus(challengeId)).to.equal(STATUS_CANCELLED);
+
+        await expect(challengeContract.connect(bettor).claimRefund(challengeId)).to.changeEtherBalance(bettor, betAmount);
+        await expect(challengeContract.connect(bettor).claimRefund(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "NoWinningsToClaim");
+        await expect(challengeContract.connect(challenger).claimWinnings(challengeId)).to.changeEtherBalance(challenger, betAmount);
+        expect(await vaultContract.getBalance(false)).to.equal(0);
+      });
+
+      it("should void an expired challenge without measurements instead of settling it", async () => {
+        await challengeContract.connect(challenger).startChallenge(challengeId);
+        await expect(challengeContract.connect(bettor).voidChallenge(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeCannotBeVoided").withArgs(challengeId);
+
+        const challengeStartTime = await challengeContract.challengeToStartTime(challengeId);
+        await ethers.provider.send("evm_setNextBlockTimestamp", [Number(challengeStartTime + challengeLength + BigInt(100))]);
+        await ethers.provider.send("evm_mine", []);
+
+        await expect(challengeContract.connect(owner).distributeWinnings(challengeId))
+          .to.emit(challengeContract, "ChallengeVoided").withArgs(challengeId)
+          .and.not.to.emit(challengeContract, "ChallengeSettled");
+
+        expect(await challengeContract.challengeToChallengeStatus(challengeId)).to.equal(STATUS_CANCELLED);
+        expect(await vaultContract.getBalance(false)).to.equal(0);
+        await expect(challengeContract.connect(bettor).voidChallenge(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "WinningsAlreadyPaid").withArgs(challengeId);
+      });
+
+      it("should not void a challenge that has measurements", async () => {
+        await challengeContract.connect(challenger).startChallenge(challengeId);
+        await challengeContract.connect(challenger).submitMeasurements(challengeId, [0, 0]);
+
+        const challengeStartTime = await challengeContract.challengeToStartTime(challengeId);
+        await ethers.provider.send("evm_setNextBlockTimestamp", [Number(challengeStartTime + challengeLength + BigInt(100))]);
+        await ethers.provider.send("evm_mine", []);
+
+        await expect(challengeContract.connect(bettor2).claimRefund(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeCannotBeVoided").withArgs(challengeId);
+
+        await challengeContract.connect(bettor2).settleChallenge(challengeId);
+        expect(await challengeContract.challengeToChallengeStatus(challengeId)).to.equal(4); // STATUS_CHALLENGER_LOST
+      });
+    });
+
+    describe("Charging a protocol fee", () => {
+      it("should only let the owner set a fee up to the cap", async () => {
+        await expect(challengeContract.connect(bettor).setProtocolFee(100))
+          .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+        await expect(challengeContract.connect(owner).setProtocolFee(1001))
+          .to.be.revertedWithCustomError(challengeContract, "ProtocolFeeTooHigh").withArgs(1001, 1000);
+
+        await expect(challengeContract.connect(owner).setProtocolFee(250))
+          .to.emit(challengeContract, "ProtocolFeeSet").withArgs(0, 250);
+        expect(await challengeContract.getProtocolFee()).to.equal(250);
+      });
+
+      it("should split the pot between winners and fees to the wei, including rounding dust", async () => {
+        await challengeContract.connect(owner).setProtocolFee(333);
+        await challengeContract.connect(owner).addNewBettor(bettor.getAddress());
+        await challengeContract.connect(owner).addNewBettor(bettor2.getAddress());
+
+        // odd amounts so the split leaves dust behind
+        const challengerBet = parseEther("1") + BigInt(1);
+        const bettorBet = parseEther("2") + BigInt(2);
+        const bettor2Bet = parseEther("1.3") + BigInt(7);
+        await challengeContract.connect(challenger).placeBet(challengeId, true, { value: challengerBet });
+        await challengeContract.connect(bettor).placeBet(challengeId, true, { value: bettorBet });
+        await challengeContract.connect(bettor2).placeBet(challengeId, false, { value: bettor2Bet });
+        await challengeContract.connect(challenger).startChallenge(challengeId);
+        await challengeContract.connect(challenger).submitMeasurements(challengeId, targetMeasurements);
+
+        const previewedChallengerPayout = await challengeContract.previewNetPayout(challengeId, challengerAddress);
+        const previewedBettorPayout = await challengeContract.previewNetPayout(challengeId, bettor.getAddress());
+
+        const challengeStartTime = await challengeContract.challengeToStartTime(challengeId);
+        await ethers.provider.send("evm_setNextBlockTimestamp", [Number(challengeStartTime + challengeLength + BigInt(100))]);
+        await ethers.provider.send("evm_mine", []);
+        await challengeContract.connect(bettor2).settleChallenge(challengeId);
+
+        const challengerPayout = await challengeContract.challengeToClaimableWinnings(challengeId, challengerAddress);
+        const bettorPayout = await challengeContract.challengeToClaimableWinnings(challengeId, bettor.getAddress());
+        const feeWithoutDust = (bettor2Bet * BigInt(333)) / BigInt(10000);
+
+        expect(challengerPayout).to.equal(previewedChallengerPayout);
+        expect(bettorPayout).to.equal(previewedBettorPayout);
+        // the dust is only known once every winner's share is worked out, when the last of them is paid
+        expect(await challengeContract.challengeToProtocolFee(challengeId)).to.equal(feeWithoutDust);
+
+        const distribution = challengeContract.connect(owner).distributeWinnings(challengeId);
+        await expect(distribution).to.changeEtherBalances([challenger, bettor], [challengerPayout, bettorPayout]);
+        const fee = await challengeContract.challengeToProtocolFee(challengeId);
+        await expect(distribution).to.emit(challengeContract, "ProtocolFeeAccrued").withArgs(challengeId, fee - feeWithoutDust);
+        expect(fee).to.be.greaterThan(feeWithoutDust);
+        expect(challengerPayout + bettorPayout + fee).to.equal(challengerBet + bettorBet + bettor2Bet);
+        expect(await vaultContract.treasuryEthBalance()).to.equal(fee);
+        expect(await vaultContract.getConsumerBalance(await challengeContract.getAddress(), false)).to.equal(0);
+        expect(await vaultContract.getBalance(false)).to.equal(fee);
+      });
+    });
+
+    describe("Setting goal directions", () => {
+      const DIRECTION_AT_LEAST = 0;
+      const DIRECTION_AT_MOST = 1;
+      const DIRECTION_WITHIN_RANGE = 2;
+
+      // at most 5000 steps, and between 3 and 6 miles
+      const directions = [DIRECTION_AT_MOST, DIRECTION_WITHIN_RANGE];
+      const targets = [5000, 3];
+      const upperBounds = [0, 6];
+
+      it("should reject unknown directions and malformed ranges", async () => {
+        await expect(challengeContract.connect(challenger).createChallengeWithDirections(challengeLength, challengeMetrics, targets, [DIRECTION_AT_MOST, 3], upperBounds))
+          .to.be.revertedWithCustomError(challengeContract, "InvalidMetricDirection").withArgs(3);
+        await expect(challengeContract.connect(challenger).createChallengeWithDirections(challengeLength, challengeMetrics, targets, directions, [0, 2]))
+          .to.be.revertedWithCustomError(challengeContract, "InvalidMetricRange").withArgs(3, 2);
+        await expect(challengeContract.connect(challenger).createChallengeWithDirections(challengeLength, challengeMetrics, targets, directions, [1, 6]))
+          .to.be.revertedWithCustomError(challengeContract, "InvalidMetricRange").withArgs(5000, 1);
+        await expect(challengeContract.connect(challenger).createChallengeWithDirections(challengeLength, challengeMetrics, targets, [DIRECTION_AT_MOST], upperBounds))
+          .to.be.revertedWithCustomError(challengeContract, "MalformedChallengeMetricsProvided");
+      });
+
+      it("should include the directions in the creation event and the directions view", async () => {
+        await expect(challengeContract.connect(challenger).createChallengeWithDirections(challengeLength, challengeMetrics, targets, directions, upperBounds))
+          .to.emit(challengeContract, "ChallengeCreated")
+          .withArgs(challengerAddress, challengeId + BigInt(1), challengeLength, challengeMetrics, targets, directions, upperBounds);
+
+        const [storedDirections, storedUpperBounds] = await challengeContract.getChallengeMetricDirections(challengeId + BigInt(1));
+        expect(storedDirections).to.deep.equal(directions.map(BigInt));
+        expect(storedUpperBounds).to.deep.equal(upperBounds.map(BigInt));
+
+        // challenges created without directions keep the original higher-is-better goals
+        const [defaultDirections] = await challengeContract.getChallengeMetricDirections(challengeId);
+        expect(defaultDirections).to.deep.equal([DIRECTION_AT_LEAST, DIRECTION_AT_LEAST].map(BigInt));
+      });
+
+      it("should apply each metric's direction when deciding whether the challenger won", async () => {
+        await challengeContract.connect(owner).addNewBettor(bettor.getAddress());
+        const outcomes: [number[], number][] = [
+          [[5000, 3], 3], // both bounds are inclusive, STATUS_CHALLENGER_WON
+          [[4000, 6], 3],
+          [[5001, 5], 4], // STATUS_CHALLENGER_LOST
+          [[4000, 7], 4],
+          [[4000, 2], 4],
+        ];
+
+        for (const [measurements, expectedStatus] of outcomes) {
+          await challengeContract.connect(challenger).createChallengeWithDirections(challengeLength, challengeMetrics, targets, directions, upperBounds);
+          const directedChallengeId = (await challengeContract.latestChallengeId()) - BigInt(1);
+          await challengeContract.connect(challenger).placeBet(directedChallengeId, true, { value: betAmount });
+          await challengeContract.connect(bettor).placeBet(directedChallengeId, false, { value: betAmount });
+          await challengeContract.connect(challenger).startChallenge(directedChallengeId);
+          await challengeContract.connect(challenger).submitMeasurements(directedChallengeId, measurements);
+
+          const challengeStartTime = await challengeContract.challengeToStartTime(directedChallengeId);
+          await ethers.provider.send("evm_setNextBlockTimestamp", [Number(challengeStartTime + challengeLength + BigInt(100))]);
+          await ethers.provider.send("evm_mine", []);
+          await challengeContract.connect(bettor).settleChallenge(directedChallengeId);
+
+          expect(await challengeContract.challengeToChallengeStatus(directedChallengeId)).to.equal(expectedStatus, `measurements ${measurements}`);
+        }
+      });
+    });
+
+    describe("Recording measurement history", () => {
+      beforeEach(async () => {
+        await challengeContract.connect(owner).addNewBettor(bettor.getAddress());
+        await challengeContract.connect(challenger).placeBet(challengeId, true, { value: betAmount });
+        await challengeContract.connect(bettor).placeBet(challengeId, false, { value: betAmount });
+        await challengeContract.connect(challenger).startChallenge(challengeId);
+      });
+
+      it("should keep every submission with its timestamp and data window, readable page by page", async () => {
+        const startTime = await challengeContract.challengeToStartTime(challengeId);
+        const submissions = [[2000, 1], [6500, 3], [10000, 5]];
+
+        for (const [index, measurements] of submissions.entries()) {
+          const submissionTime = Number(startTime) + 600 * (index + 1);
+          await ethers.provider.send("evm_setNextBlockTimestamp", [submissionTime]);
+          await expect(challengeContract.connect(challenger).submitMeasurements(challengeId, measurements))
+            .to.emit(challengeContract, "MeasurementsRecorded")
+            .withArgs(challengeId, challengerAddress, measurements, startTime, submissionTime, index);
+        }
+
+        expect(await challengeContract.getMeasurementHistoryLength(challengeId, challengerAddress)).to.equal(3);
+        const firstPage = await challengeContract.getMeasurementHistory(challengeId, challengerAddress, 0, 2);
+        const secondPage = await challengeContract.getMeasurementHistory(challengeId, challengerAddress, 2, 2);
+        expect([...firstPage, ...secondPage].map((record) => record.measurements)).to.deep.equal(submissions.map((measurements) => measurements.map(BigInt)));
+        expect(firstPage[1].timestamp).to.equal(startTime + BigInt(1200));
+        expect(firstPage[1].windowStart).to.equal(startTime);
+        expect(firstPage[1].windowEnd).to.equal(startTime + BigInt(1200));
+        expect(await challengeContract.getMeasurementHistory(challengeId, challengerAddress, 3, 2)).to.deep.equal([]);
+        expect(await challengeContract.getMeasurementHistory(challengeId, challengerAddress, 1, ethers.MaxUint256)).to.have.lengthOf(2);
+        expect(await challengeContract.getMeasurementHistory(challengeId, bettor.getAddress(), 0, 2)).to.deep.equal([]);
+      });
+
+      it("should only let measurements of a metric go down while the metric is not registered as cumulative", async () => {
+        await challengeContract.connect(challenger).submitMeasurements(challengeId, [6500, 3]);
+        await challengeContract.connect(challenger).submitMeasurements(challengeId, [6400, 3]);
+
+        await challengeContract.connect(owner).setMetric(CHALLENGE_STEPS, "Steps", "steps", 0, 0, 0, 10000000, true, true);
+        await expect(challengeContract.connect(challenger).submitMeasurements(challengeId, [6399, 3]))
+          .to.be.revertedWithCustomError(challengeContract, "CumulativeMeasurementDecreased")
+          .withArgs(CHALLENGE_STEPS, 6400, 6399);
+
+        await expect(challengeContract.connect(challenger).submitMeasurements(challengeId, [7000, 2]))
+          .to.emit(challengeContract, "MeasurementsRecorded");
+        expect(await challengeContract.getMeasurementHistoryLength(challengeId, challengerAddress)).to.equal(3);
+      });
+    });
+
+    describe("Streak challenges", () => {
+      // three 20 minute periods in the hour long challenge
+      const periodLength = BigInt(20 * 60);
+      let streakChallengeId: bigint;
+      let startTime: bigint;
+
+      const createStreak = async (allowedMisses: number) => {
+        await challengeContract.connect(challenger).createStreakChallenge(challengeLength, challengeMetrics, targetMeasurements, periodLength, allowedMisses);
+        streakChallengeId = (await challengeContract.latestChallengeId()) - BigInt(1);
+        await challengeContract.connect(challenger).placeBet(streakChallengeId, true, { value: betAmount });
+        await challengeContract.connect(bettor).placeBet(streakChallengeId, false, { value: betAmount });
+        await challengeContract.connect(challenger).startChallenge(streakChallengeId);
+        startTime = await challengeContract.challengeToStartTime(streakChallengeId);
+      };
+
+      const submitAt = (secondsIntoChallenge: bigint, measurements: number[]) => {
+        return ethers.provider.send("evm_setNextBlockTimestamp", [Number(startTime + secondsIntoChallenge)])
+          .then(() => challengeContract.connect(challenger).submitMeasurements(streakChallengeId, measurements));
+      };
+
+      beforeEach(async () => {
+        await challengeContract.connect(owner).addNewBettor(bettor.getAddress());
+      });
+
+      it("should reject periods that do not split the challenge evenly or can all be missed", async () => {
+        const invalidStreaks: [bigint, number][] = [[BigInt(0), 0], [BigInt(7 * 60), 0], [periodLength, 3]];
+        for (const [invalidPeriodLength, allowedMisses] of invalidStreaks) {
+          await expect(challengeContract.connect(challenger).createStreakChallenge(challengeLength, challengeMetrics, targetMeasurements, invalidPeriodLength, allowedMisses))
+            .to.be.revertedWithCustomError(challengeContract, "InvalidStreak").withArgs(invalidPeriodLength, allowedMisses);
+        }
+
+        await expect(challengeContract.connect(challenger).createStreakChallenge(challengeLength, challengeMetrics, targetMeasurements, periodLength, 2))
+          .to.emit(challengeContract, "StreakChallengeCreated").withArgs(challengeId + BigInt(1), periodLength, 2);
+        expect(await challengeContract.getStreakProgress(challengeId + BigInt(1))).to.deep.equal([BigInt(3), BigInt(0), BigInt(0)]);
+      });
+
+      it("should count the latest submission of each period and win within the allowed misses", async () => {
+        await createStreak(1);
+        // steps restart from zero every period, so a cumulative metric only has to grow within one
+        await challengeContract.connect(owner).setMetric(CHALLENGE_STEPS, "Steps", "steps", 0, 0, 0, 10000000, true, true);
+
+        await expect(submitAt(BigInt(600), [12000, 5]))
+          .to.emit(challengeContract, "StreakPeriodRecorded").withArgs(streakChallengeId, 0, true);
+        await expect(submitAt(BigInt(1300), [10000, 6]))
+          .to.emit(challengeContract, "MeasurementsRecorded")
+          .withArgs(streakChallengeId, challengerAddress, [10000, 6], startTime + periodLength, startTime + BigInt(1300), 1);
+        await expect(submitAt(BigInt(1400), [9000, 6]))
+          .to.be.revertedWithCustomError(challengeContract, "CumulativeMeasurementDecreased");
+        await expect(submitAt(BigInt(1500), [10000, 4]))
+          .to.emit(challengeContract, "StreakPeriodRecorded").withArgs(streakChallengeId, 1, false);
+        expect(await challengeContract.challengeToStreakPeriodCompleted(streakChallengeId, 1)).to.be.false;
+        await submitAt(BigInt(2500), [10000, 5]);
+
+        await ethers.provider.send("evm_setNextBlockTimestamp", [Number(startTime + challengeLength + BigInt(100))]);
+        await ethers.provider.send("evm_mine", []);
+        expect(await challengeContract.getStreakProgress(streakChallengeId)).to.deep.equal([BigInt(3), BigInt(2), BigInt(1)]);
+        await challengeContract.connect(bettor).settleChallenge(streakChallengeId);
+        expect(await challengeContract.challengeToChallengeStatus(streakChallengeId)).to.equal(3); // STATUS_CHALLENGER_WON
+      });
+
+      it("should settle as soon as more periods are missed than allowed", async () => {
+        await createStreak(0);
+        await expect(challengeContract.connect(bettor).settleChallenge(streakChallengeId))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeIsActive");
+
+        // a completed current period cannot be missed, and the next one is only missed once it has ended
+        await submitAt(BigInt(600), [10000, 5]);
+        await ethers.provider.send("evm_setNextBlockTimestamp", [Number(startTime + BigInt(2 * 20 * 60) - BigInt(2))]);
+        await ethers.provider.send("evm_mine", []);
+        expect(await challengeContract.getStreakProgress(streakChallengeId)).to.deep.equal([BigInt(3), BigInt(1), BigInt(0)]);
+        await expect(challengeContract.connect(bettor).settleChallenge(streakChallengeId))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeIsActive");
+
+        await expect(challengeContract.connect(bettor).settleChallenge(streakChallengeId))
+          .to.emit(challengeContract, "ChallengeSettled").withArgs(streakChallengeId, 4, betAmount); // STATUS_CHALLENGER_LOST
+        expect(await challengeContract.challengeToClaimableWinnings(streakChallengeId, bettor.getAddress())).to.equal(betAmount * BigInt(2));
+      });
+    });
+
+    describe("Commitment challenges", () => {
+      let charity: Signer;
+      let charityAddress: string;
+      let commitmentId: bigint;
+
+      const startCommitment = async (beneficiary: string) => {
+        await challengeContract.connect(challenger).createCommitmentChallenge(challengeLength, challengeMetrics, targetMeasurements, beneficiary);
+        commitmentId = (await challengeContract.latestChallengeId()) - BigInt(1);
+        await challengeContract.connect(challenger).placeBet(commitmentId, true, { value: betAmount });
+        await challengeContract.connect(challenger).startChallenge(commitmentId);
+      };
+
+      const endCommitment = async () => {
+        const startTime = await challengeContract.challengeToStartTime(commitmentId);
+        await ethers.provider.send("evm_setNextBlockTimestamp", [Number(startTime + challengeLength + BigInt(100))]);
+        await ethers.provider.send("evm_mine", []);
+      };
+
+      beforeEach(async () => {
+        charity = bettor2;
+        charityAddress = await charity.getAddress();
+        await challengeContract.connect(owner).setCommitmentBeneficiary(charityAddress, true);
+      });
+
+      it("should only name listed beneficiaries and let the challenger stake alone", async () => {
+        await expect(challengeContract.connect(bettor).setCommitmentBeneficiary(bettor.getAddress(), true))
+          .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+        await expect(challengeContract.connect(owner).setCommitmentBeneficiary(ethers.ZeroAddress, true))
+          .to.be.revertedWithCustomError(challengeContract, "InvalidBeneficiary");
+        await expect(challengeContract.connect(challenger).createCommitmentChallenge(challengeLength, challengeMetrics, targetMeasurements, await bettor.getAddress()))
+          .to.be.revertedWithCustomError(challengeContract, "BeneficiaryNotAllowed").withArgs(await bettor.getAddress());
+
+        const commitmentChallengeId = challengeId + BigInt(1);
+        await expect(challengeContract.connect(challenger).createCommitmentChallenge(challengeLength, challengeMetrics, targetMeasurements, charityAddress))
+          .to.emit(challengeContract, "CommitmentChallengeCreated").withArgs(commitmentChallengeId, charityAddress);
+        await challengeContract.connect(owner).addNewBettor(bettor.getAddress());
+        await expect(challengeContract.connect(bettor).placeBet(commitmentChallengeId, false, { value: betAmount }))
+          .to.be.revertedWithCustomError(challengeContract, "CommitmentChallengeClosedToBettors").withArgs(commitmentChallengeId);
+
+        await challengeContract.connect(challenger).placeBet(commitmentChallengeId, true, { value: betAmount });
+        await challengeContract.connect(challenger).startChallenge(commitmentChallengeId);
+        expect(await challengeContract.challengeToChallengeStatus(commitmentChallengeId)).to.equal(1); // STATUS_ACTIVE
+      });
+
+      it("should return the whole stake to a challenger who meets the goal", async () => {
+        await challengeContract.connect(owner).setProtocolFee(500);
+        await startCommitment(charityAddress);
+        await challengeContract.connect(challenger).submitMeasurements(commitmentId, [10000, 5]);
+        await endCommitment();
+
+        await expect(challengeContract.connect(charity).settleChallenge(commitmentId))
+          .to.emit(challengeContract, "WinningsClaimable").withArgs(commitmentId, challengerAddress, betAmount)
+          .and.not.to.emit(challengeContract, "CommitmentForfeited");
+        await expect(challengeContract.connect(challenger).claimWinnings(commitmentId)).to.changeEtherBalance(challenger, betAmount);
+      });
+
+      it("should pay the stake of a failed commitment to the beneficiary with a receipt", async () => {
+        await challengeContract.connect(owner).setProtocolFee(500);
+        await startCommitment(charityAddress);
+        await challengeContract.connect(challenger).submitMeasurements(commitmentId, [9999, 5]);
+        await endCommitment();
+
+        const fee = (betAmount * BigInt(500)) / BigInt(10000);
+        const settlement = challengeContract.connect(bettor).settleChallenge(commitmentId);
+        await expect(settlement).to.emit(challengeContract, "CommitmentForfeited").withArgs(commitmentId, challengerAddress, charityAddress, betAmount - fee);
+        await expect(settlement).to.changeEtherBalance(charity, betAmount - fee);
+        expect(await vaultContract.treasuryEthBalance()).to.equal(fee);
+        expect(await challengeContract.challengeToClaimableWinnings(commitmentId, challengerAddress)).to.equal(0);
+      });
+
+      it("should leave the stake claimable for a beneficiary that cannot receive it", async () => {
+        const RejectingBettorFactory = await ethers.getContractFactory("MockRejectingBettor");
+        const rejectingBeneficiary = await RejectingBettorFactory.deploy(await challengeContract.getAddress());
+        const rejectingBeneficiaryAddress = await rejectingBeneficiary.getAddress();
+        await challengeContract.connect(owner).setCommitmentBeneficiary(rejectingBeneficiaryAddress, true);
+        await startCommitment(rejectingBeneficiaryAddress);
+        await challengeContract.connect(challenger).submitMeasurements(commitmentId, [0, 0]);
+        await endCommitment();
+
+        await expect(challengeContract.connect(bettor).settleChallenge(commitmentId))
+          .to.emit(challengeContract, "CommitmentForfeited").withArgs(commitmentId, challengerAddress, rejectingBeneficiaryAddress, betAmount);
+        expect(await challengeContract.challengeToClaimableWinnings(commitmentId, rejectingBeneficiaryAddress)).to.equal(betAmount);
+      });
+    });
+
+    describe("Invite-only challenges", () => {
+      const inviteCode = "family-steps-2026";
+      const inviteSigner = inviteCodeSigner(inviteCode).address;
+      let bettorAddress: string;
+      let bettor2Address: string;
+      let privateId: bigint;
+
+      const signRedemption = async (id: bigint, account: string, code = inviteCode) =>
+        signInviteCodeRedemption(code, (await ethers.provider.getNetwork()).chainId, await challengeContract.getAddress(), id, account);
+
+      beforeEach(async () => {
+        bettorAddress = await bettor.getAddress();
+        bettor2Address = await bettor2.getAddress();
+        await challengeContract.connect(owner).addNewBettor(bettorAddress);
+        await challengeContract.connect(owner).addNewBettor(bettor2Address);
+        privateId = challengeId + BigInt(1);
+      });
+
+      it("should only take bets from the challenger and the addresses they invited", async () => {
+        await expect(challengeContract.connect(challenger).createInviteOnlyChallenge(challengeLength, challengeMetrics, targetMeasurements, [bettorAddress], ethers.ZeroAddress))
+          .to.emit(challengeContract, "InviteOnlyChallengeCreated").withArgs(privateId)
+          .and.to.emit(challengeContract, "ChallengeInviteSet").withArgs(privateId, bettorAddress, true)
+          .and.not.to.emit(challengeContract, "ChallengeInviteCodeSet");
+        expect(await challengeContract.challengeToInviteOnly(privateId)).to.be.true;
+        expect(await challengeContract.challengeToInviteOnly(challengeId)).to.be.false;
+
+        await expect(challengeContract.connect(bettor2).placeBet(privateId, false, { value: betAmount }))
+          .to.be.revertedWithCustomError(challengeContract, "NotInvitedToChallenge").withArgs(privateId, bettor2Address);
+        await challengeContract.connect(challenger).placeBet(privateId, true, { value: betAmount });
+        await challengeContract.connect(bettor).placeBet(privateId, false, { value: betAmount });
+        // open challenges still take bets from every whitelisted bettor
+        await challengeContract.connect(bettor2).placeBet(challengeId, false, { value: betAmount });
+      });
+
+      it("should let the challenger manage the invite list until the challenge starts", async () => {
+        await challengeContract.connect(challenger).createInviteOnlyChallenge(challengeLength, challengeMetrics, targetMeasurements, [], ethers.ZeroAddress);
+
+        await expect(challengeContract.connect(bettor).setChallengeInvites(privateId, [bettorAddress], true))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeCanOnlyBeModifiedByChallenger")
+          .withArgs(privateId, bettorAddress, challengerAddress);
+        await expect(challengeContract.connect(challenger).setChallengeInvites(challengeId, [bettorAddress], true))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeNotInviteOnly").withArgs(challengeId);
+
+        await expect(challengeContract.connect(challenger).setChallengeInvites(privateId, [bettorAddress, bettor2Address], true))
+          .to.emit(challengeContract, "ChallengeInviteSet").withArgs(privateId, bettor2Address, true);
+        await challengeContract.connect(bettor).placeBet(privateId, false, { value: betAmount });
+        await expect(challengeContract.connect(challenger).setChallengeInvites(privateId, [bettorAddress, bettor2Address], false))
+          .to.emit(challengeContract, "ChallengeInviteSet").withArgs(privateId, bettorAddress, false);
+        expect(await challengeContract.challengeToInvited(privateId, bettor2Address)).to.be.false;
+        await expect(challengeContract.connect(bettor2).placeBet(privateId, false, { value: betAmount }))
+          .to.be.revertedWithCustomError(challengeContract, "NotInvitedToChallenge");
+
+        // an uninvited bettor keeps the bet they already placed, and can still cancel it
+        expect(await challengeContract.challengeToBetsAgainst(privateId, bettorAddress)).to.equal(betAmount);
+        await challengeContract.connect(bettor).cancelBet(privateId);
+        await challengeContract.connect(challenger).setChallengeInvites(privateId, [bettorAddress], true);
+        await challengeContract.connect(bettor).placeBet(privateId, false, { value: betAmount });
+
+        await challengeContract.connect(challenger).placeBet(privateId, true, { value: betAmount });
+        await challengeContract.connect(challenger).startChallenge(privateId);
+        await expect(challengeContract.connect(challenger).setChallengeInvites(privateId, [bettor2Address], true))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeCannotBeModified");
+      });
+
+      it("should let anyone with the invite code invite themselves", async () => {
+        await expect(challengeContract.connect(challenger).createInviteOnlyChallenge(challengeLength, challengeMetrics, targetMeasurements, [], inviteSigner))
+          .to.emit(challengeContract, "ChallengeInviteCodeSet").withArgs(privateId, inviteSigner);
+        expect(await challengeContract.challengeToInviteSigner(privateId)).to.equal(inviteSigner);
+
+        await expect(challengeContract.connect(bettor).redeemInviteCode(privateId, await signRedemption(privateId, bettorAddress, "family-steps-2025")))
+          .to.be.revertedWithCustomError(challengeContract, "InvalidInviteCode").withArgs(privateId);
+        await expect(challengeContract.connect(bettor).redeemInviteCode(challengeId, await signRedemption(challengeId, bettorAddress)))
+          .to.be.revertedWithCustomError(challengeContract, "ChallengeNotInviteOnly").withArgs(challengeId);
+        await expect(challengeContract.connect(bettor).redeemInviteCode(privateId, await signRedemption(privateId, bettorAddress)))
+          .to.emit(challengeContract, "ChallengeInviteCodeRedeemed").withArgs(privateId, bettorAddress);
+        await challengeContract.connect(bettor).placeBet(privateId, false, { value: betAmount });
+
+        // clearing the code stops further redemptions, but keeps those already made
+        await expect(challengeContract.connect(challenger).setChallengeInviteCode(privateId, ethers.ZeroAddress))
+          .to.emit(challengeContract, "ChallengeInviteCodeSet").withArgs(privateId, ethers.ZeroAddress);
+        await expect(challengeContract.connect(bettor2).redeemInviteCode(privateId, await signRedemption(privateId, bettor2Address)))
+          .to.be.revertedWithCustomError(challengeContract, "InvalidInviteCode");
+        expect(await challengeContract.challengeToInvited(privateId, bettorAddress)).to.be.true;
+      });
+
+      it("should not let a redemption seen in the mempool invite anyone but the address it was signed for", async () => {
+        await challengeContract.connect(challenger).createInviteOnlyChallenge(challengeLength, challengeMetrics, targetMeasurements, [], inviteSigner);
+        const signature = await signRedemption(privateId, bettorAddress);
+
+        await expect(challengeContract.connect(bettor2).redeemInviteCode(privateId, signature))
+          .to.be.revertedWithCustomError(challengeContract, "InvalidInviteCode").withArgs(privateId);
+        expect(await challengeContract.challengeToInvited(privateId, bettor2Address)).to.be.false;
+        await challengeContract.connect(bettor).redeemInviteCode(privateId, signature);
+        expect(await challengeContract.challengeToInvited(privateId, bettorAddress)).to.be.true;
+      });
+
+      it("should report who may participate", async () => {
+        await challengeContract.connect(challenger).createInviteOnlyChallenge(challengeLength, challengeMetrics, targetMeasurements, [bettorAddress], inviteSigner);
+        const ownerAddress = await owner.getAddress();
+
+        expect(await challengeContract.canParticipateInChallenge(privateId, bettorAddress)).to.be.true;
+        expect(await challengeContract.canParticipateInChallenge(privateId, bettor2Address)).to.be.false;
+        expect(await challengeContract.canParticipateInChallenge(challengeId, bettor2Address)).to.be.true;
+        // invitations do not stand in for the bettor whitelist
+        await challengeContract.connect(challenger).setChallengeInvites(privateId, [ownerAddress], true);
+        expect(await challengeContract.canParticipateInChallenge(privateId, ownerAddress)).to.be.false;
+
+        await challengeContract.connect(bettor2).redeemInviteCode(privateId, await signRedemption(privateId, bettor2Address));
+        expect(await challengeContract.canParticipateInChallenge(privateId, bettor2Address)).to.be.true;
+      });
+    });
+
+    describe("Disputing outcomes", () => {
+      const STATUS_EXPIRED = 2;
+      const STATUS_CHALLENGER_WON = 3;
+      const STATUS_CHALLENGER_LOST = 4;
+      const disputeWindow = 24 * 60 * 60;
+      const disputeBondBps = 1000;
+      const bond = (betAmount * BigInt(3) * BigInt(disputeBondBps)) / BigInt(10000);
+      let arbiter: Signer;
+
+      beforeEach(async () => {
+        arbiter = (await ethers.getSigners())[4];
+        await challengeContract.connect(owner).setDisputeWindow(disputeWindow);
+        await challengeContract.connect(owner).setDisputeBond(disputeBondBps);
+        await challengeContract.connect(owner).setDisputeArbiter(arbiter.getAddress(), true);
+        await challengeContract.connect(owner).addNewBettor(bettor.getAddress());
+        await challengeContract.connect(owner).addNewBettor(bettor2.getAddress());
+
+        await challengeContract.connect(bettor).placeBet(challengeId, true, { value: betAmount });
+        await challengeContract.connect(bettor2).placeBet(challengeId, false, { value: betAmount });
+        await challengeContract.connect(challenger).placeBet(challengeId, true, { value: betAmount });
+        await challengeContract.connect(challenger).startChallenge(challengeId);
+        await challengeContract.connect(challenger).submitMeasurements(challengeId, targetMeasurements);
+        await time.increase(challengeLength);
+      });
+
+      it("should only let the owner configure disputes", async () => {
+        await expect(challengeContract.connect(bettor).setDisputeWindow(60))
+          .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+        await expect(challengeContract.connect(bettor).setDisputeArbiter(bettor.getAddress(), true))
+          .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+        await expect(challengeContract.connect(owner).setDisputeBond(10001))
+          .to.be.revertedWithCustomError(challengeContract, "DisputeBondTooHigh").withArgs(10001, 10000);
+        await expect(challengeContract.connect(owner).setDisputeArbiter(ethers.ZeroAddress, true))
+          .to.be.revertedWithCustomError(challengeContract, "InvalidArbiter");
+
+        await expect(challengeContract.connect(owner).setDisputeWindow(60))
+          .to.emit(challengeContract, "DisputeWindowSet").withArgs(disputeWindow, 60);
+        expect(await challengeContract.getDisputeWindow()).to.equal(60);
+        expect(await challengeContract.getDisputeBond()).to.equal(disputeBondBps);
+        expect(await challengeContract.disputeArbiters(arbiter.getAddress())).to.be.true;
+      });
+
+      it("should only settle a proposed outcome once its window closes undisputed", async () => {
+        await expect(challengeContract.connect(bettor2).disputeOutcome(challengeId, { value: bond }))
+          .to.be.revertedWithCustomError(challengeContract, "NoOutcomeToDispute").withArgs(challengeId);
+
+        const proposal = challengeContract.connect(bettor).settleChallenge(challengeId);
+        await expect(proposal).to.emit(challengeContract, "OutcomeProposed")
+          .and.not.to.emit(challengeContract, "ChallengeSettled");
+        const disputeDeadline = (await time.latest()) + disputeWindow;
+        await expect(proposal).to.emit(challengeContract, "OutcomeProposed").withArgs(challengeId, true, disputeDeadline);
+        expect(await challengeContract.challengeToChallengeStatus(challengeId)).to.equal(STATUS_EXPIRED);
+        expect(await challengeContract.challengeToSettled(challengeId)).to.be.false;
+        expect(await challengeContract.challengeToClaimableWinnings(challengeId, bettor.getAddress())).to.equal(0);
+
+        await expect(challengeContract.connect(bettor).settleChallenge(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "DisputeWindowOpen").withArgs(challengeId, disputeDeadline);
+        await expect(challengeContract.connect(owner).distributeWinnings(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "DisputeWindowOpen").withArgs(challengeId, disputeDeadline);
+
+        await time.increase(disputeWindow);
+        await expect(challengeContract.connect(bettor2).disputeOutcome(challengeId, { value: bond }))
+          .to.be.revertedWithCustomError(challengeContract, "DisputeWindowClosed").withArgs(challengeId, disputeDeadline);
+        const settlement = challengeContract.connect(owner).distributeWinnings(challengeId);
+        await expect(settlement).to.emit(challengeContract, "ChallengeSettled").withArgs(challengeId, STATUS_CHALLENGER_WON, betAmount);
+        await expect(settlement).to.changeEtherBalances([bettor, challenger], [betAmount + betAmount / BigInt(2), betAmount + betAmount / BigInt(2)]);
+      });
+
+      it("should only let one bettor on the losing side dispute, with the bond", async () => {
+        await challengeContract.connect(bettor).settleChallenge(challengeId);
+
+        await expect(challengeContract.connect(bettor).disputeOutcome(challengeId, { value: bond }))
+          .to.be.revertedWithCustomError(challengeContract, "NotOnLosingSide").withArgs(challengeId, await bettor.getAddress());
+        await expect(challengeContract.connect(bettor2).disputeOutcome(challengeId, { value: bond - BigInt(1) }))
+          .to.be.revertedWithCustomError(challengeContract, "IncorrectDisputeBond").withArgs(bond, bond - BigInt(1));
+
+        await expect(challengeContract.connect(bettor2).disputeOutcome(challengeId, { value: bond }))
+          .to.emit(challengeContract, "OutcomeDisputed").withArgs(challengeId, await bettor2.getAddress(), bond);
+        await expect(challengeContract.connect(bettor2).disputeOutcome(challengeId, { value: bond }))
+          .to.be.revertedWithCustomError(challengeContract, "OutcomeUnderDispute").withArgs(challengeId, await bettor2.getAddress());
+
+        // a dispute holds settlement past the window until an arbiter resolves it
+        await time.increase(disputeWindow);
+        await expect(challengeContract.connect(bettor).settleChallenge(challengeId))
+          .to.be.revertedWithCustomError(challengeContract, "OutcomeUnderDispute").withArgs(challengeId, await bettor2.getAddress());
+        await expect(challengeContract.connect(bettor).resolveDispute(challengeId, false))
+          .to.be.revertedWithCustomError(challengeContract, "NotDisputeArbiter").withArgs(await bettor.getAddress());
+      });
+
+      it("should overturn an upheld outcome, return the bond and still take the protocol fee", async () => {
+        await challengeContract.connect(owner).setProtocolFee(500);
+        await challengeContract.connect(bettor).settleChallenge(challengeId);
+        await challengeContract.connect(bettor2).disputeOutcome(challengeId, { value: bond });
+
+        // the fee is 5% of the two losing stakes
+        const fee = (betAmount * BigInt(2) * BigInt(500)) / BigInt(10000);
+        await expect(challengeContract.connect(arbiter).resolveDispute(challengeId, true))
+          .to.emit(challengeContract, "DisputeResolved").withArgs(challengeId, await arbiter.getAddress(), true)
+          .and.to.emit(challengeContract, "ChallengeSettled").withArgs(challengeId, STATUS_CHALLENGER_LOST, betAmount * BigInt(2))
+          .and.to.emit(challengeContract, "ProtocolFeeAccrued").withArgs(challengeId, fee);
+        expect((await challengeContract.challengeToOutcomeProposal(challengeId)).disputeUpheld).to.be.true;
+
+        // the pot less the fee and the bond go back to the disputer, as the only bettor against the challenger
+        await expect(challengeContract.connect(bettor2).claimWinnings(challengeId))
+          .to.changeEtherBalance(bettor2, betAmount * BigInt(3) - fee + bond);
+        expect(await vaultContract.treasuryEthBalance()).to.equal(fee);
+        await expect(challengeContract.connect(arbiter).resolveDispute(challengeId, true))
+          .to.be.revertedWithCustomError(challengeContract, "WinningsAlreadyPaid").withArgs(challengeId);
+      });
+
+      it("should settle the proposed outcome and slash the bond of a rejected dispute", async () => {
+        await challengeContract.connect(bettor).settleChallenge(challengeId);
+        await expect(challengeContract.connect(arbiter).resolveDispute(challengeId, false))
+          .to.be.revertedWithCustomError(challengeContract, "NoDisputeToResolve").withArgs(challengeId);
+        await challengeContract.connect(bettor2).disputeOutcome(challengeId, { value: bond });
+
+        await expect(challengeContract.connect(arbiter).resolveDispute(challengeId, false))
+          .to.emit(challengeContract, "ProtocolFeeAccrued").withArgs(challengeId, bond)
+          .and.to.emit(challengeContract, "ChallengeSettled").withArgs(challengeId, STATUS_CHALLENGER_WON, betAmount);
+        expect(await vaultContract.treasuryEthBalance()).to.equal(bond);
+        expect(await challengeContract.challengeToClaimableWinnings(challengeId, bettor.getAddress())).to.equal(betAmount + betAmount / BigInt(2));
+        expect(await challengeContract.challengeToClaimableWinnings(challengeId, bettor2.getAddress())).to.equal(0);
+      });
+    });
+
+    describe("Submitting attested measurements", () => {
+      let attester: Signer;
+      let attestedChallengeId: bigint;
+      let challengeContractAddress: string;
+      let chainId: bigint;
+
+      const signAttestation = async (signer: Signer, measurements: BigNumberish[], overrides: { windowStart?: bigint, windowEnd?: bigint, nonce?: bigint } = {}) => {
+        const startTime = await challengeContract.challengeToStartTime(attestedChallengeId);
+        const attestation = {
+          challengeId: attestedChallengeId,
+          participant: challengerAddress as string,
+          metrics: challengeMetrics,
+          measurements,
+          windowStart: overrides.windowStart ?? startTime,
+          windowEnd: overrides.windowEnd ?? startTime + challengeLength,
+          nonce: overrides.nonce ?? await challengeContract.nonces(challengerAddress),
+        };
+        const signature = await signMeasurementAttestation(signer, chainId, challengeContractAddress, attestation);
+        return { attestation, signature };
+      };
+
+      beforeEach(async () => {
+        attester = bettor2;
+        challengeContractAddress = await challengeContract.getAddress();
+        chainId = (await ethers.provider.getNetwork()).chainId;
+
+        await challengeContract.connect(owner).addNewBettor(bettor.getAddress());
+        await expect(challengeContract.connect(owner).setMeasurementAttester(await attester.getAddress(), true))
+          .to.emit(challengeContract, "MeasurementAttesterSet")
+          .withArgs(await attester.getAddress(), true);
+
+        await expect(challengeContract.connect(challenger).createAttestedChallenge(challengeLength, challengeMetrics, targetMeasurements))
+          .to.emit(challengeContract, "ChallengeRequiresAttestation")
+          .withArgs(1);
+        attestedChallengeId = BigInt(1);
+
+        await challengeContract.connect(challenger).placeBet(attestedChallengeId, true, { value: betAmount });
+        await challengeContract.connect(bettor).placeBet(attestedChallengeId, false, { value: betAmount });
+        await challengeContract.connect(challenger).startChallenge(attestedChallengeId);
+      });
+
+      it("should not allow a non-owner to register an attester", async () => {
+        await expect(challengeContract.connect(bettor).setMeasurementAttester(await bettor.getAddress(), true))
+          .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+      });
+
+      it("should reject unsigned measurements on an attested challenge", async () => {
+        expect(await challengeContract.challengeToAttestationRequired(attestedChallengeId)).to.be.true;
+        expect(await challengeContract.challengeToAttestationRequired(challengeId)).to.be.false;
+
+        await expect(challengeContract.connect(challenger).submitMeasurements(attestedChallengeId, [10000, 5]))
+          .to.be.revertedWithCustomError(challengeContract, "AttestationRequired")
+          .withArgs(attestedChallengeId);
+      });
+
+      it("should accept measurements signed by a registered attester and relayed by anyone", async () => {
+        const { attestation, signature } = await signAttestation(attester, [10000, 5]);
+
+        await expect(challengeContract.connect(bettor).submitAttestedMeasurements(
+          attestedChallengeId,
+          challengerAddress,
+          attestation.measurements,
+          attestation.windowStart,
+          attestation.windowEnd,
+          attestation.nonce,
+          signature
+        )).to.emit(challengeContract, "MeasurementsAttested")
+          .withArgs(attestedChallengeId, challengerAddress, await attester.getAddress(), 0);
+
+        expect(await challengeContract.nonces(challengerAddress)).to.equal(1);
+      });
+
+      it("should reject measurements signed by an unregistered key", async () => {
+        const { attestation, signature } = await signAttestation(bettor, [10000, 5]);
+
+        await expect(challengeContract.submitAttestedMeasurements(
+          attestedChallengeId,
+          challengerAddress,
+          attestation.measurements,
+          attestation.windowStart,
+          attestation.windowEnd,
+          attestation.nonce,
+          signature
+        )).to.be.revertedWithCustomError(challengeContract, "InvalidAttestationSigner")
+          .withArgs(await bettor.getAddress());
+      });
+
+      it("should reject measurements that differ from the signed values", async () => {
+        const { attestation, signature } = await signAttestation(attester, [5000, 2]);
+
+        await expect(challengeContract.submitAttestedMeasurements(
+          attestedChallengeId,
+          challengerAddress,
+          [10000, 5],
+          attestation.windowStart,
+          attestation.windowEnd,
+          attestation.nonce,
+          signature
+        )).to.be.revertedWithCustomError(challengeContract, "InvalidAttestationSigner");
+      });
+
+      it("should not allow an attestation to be replayed", async () => {
+        const { attestation, signature } = await signAttestation(attester, [10000, 5]);
+        const submit = () => challengeContract.submitAttestedMeasurements(
+          attestedChallengeId,
+          challengerAddress,
+          attestation.measurements,
+          attestation.windowStart,
+          attestation.windowEnd,
+          attestation.nonce,
+          signature
+        );
+
+        await submit();
+        await expect(submit()).to.be.revertedWithCustomError(challengeContract, "InvalidAccountNonce");
+      });
+
+      it("should reject a data window outside of the challenge period", async () => {
+        const startTime = await challengeContract.challengeToStartTime(attestedChallengeId);
+        const windowEnd = startTime + challengeLength + BigInt(1);
+        const { attestation, signature } = await signAttestation(attester, [10000, 5], { windowEnd });
+
+        await expect(challengeContract.submitAttestedMeasurements(
+          attestedChallengeId,
+          challengerAddress,
+          attestation.measurements,
+          attestation.windowStart,
+          attestation.windowEnd,
+          attestation.nonce,
+          signature
+        )).to.be.revertedWithCustomError(challengeContract, "InvalidAttestationWindow")
+          .withArgs(startTime, windowEnd);
+      });
+
+      it("should settle an attested challenge using the signed measurements", async () => {
+        const { attestation, signature } = await signAttestation(attester, [10000, 5]);
+        await challengeContract.submitAttestedMeasurements(
+          attestedChallengeId,
+          challengerAddress,
+          attestation.measurements,
+          attestation.windowStart,
+          attestation.windowEnd,
+          attestation.nonce,
+          signature
+        );
+
+        const startTime = await challengeContract.challengeToStartTime(attestedChallengeId);
+        await ethers.provider.send("evm_setNextBlockTimestamp", [Number(startTime + challengeLength + BigInt(1))]);
+        await ethers.provider.send("evm_mine", []);
+
+        await challengeContract.connect(owner).distributeWinnings(attestedChallengeId);
+        expect(await challengeContract.challengeToChallengeStatus(attestedChallengeId)).to.equal(3); // STATUS_CHALLENGER_WON
+      });
+    });
+
     describe("Handling oracle data issues", () => {
       it("should handle price feed returning zero or extremely low values", async () => {
         // Deploy a mock price feed with zero price
@@ -391,7 +1658,7 @@ describe("Challenge Tests", () => {
         const mockPriceFeedZeroAddress = await mockPriceFeedZero.getAddress();
 
         // Deploy a new challenge contract with the zero-price feed
-        const ChallengeFactory: Challenge__factory = await ethers.getContractFactory("Challenge");
+        const ChallengeFactory = await getProxyFactory(hre, "Challenge");
         const zeroPriceChallenge = await upgrades.deployProxy(
           ChallengeFactory,
           [
@@ -401,7 +1668,7 @@ describe("Challenge Tests", () => {
             2592000, // maximumChallengeLengthInSeconds (30 days)
             3 // maximumNumberOfChallengeMetrics
           ],
-          { initializer: 'initialize' }
+          { initializer: 'initialize', constructorArgs: await deployExtensionArgs(hre, "Challenge") }
         );
 
         await zeroPriceChallenge.waitForDeployment();
@@ -446,14 +1713,28 @@ describe("Challenge Tests", () => {
     });
 
     describe("Gas limitations with many bettors", () => {
-      it("should handle distributing winnings to many bettors without running out of gas", async () => {
+      it("should only let the owner set the distribution batch size", async () => {
+        expect(await challengeContract.getDistributionBatchSize()).to.equal(100);
+        await expect(challengeContract.connect(bettor).setDistributionBatchSize(10))
+          .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+        await expect(challengeContract.connect(owner).setDistributionBatchSize(0))
+          .to.be.revertedWithCustomError(challengeContract, "DistributionBatchSizeTooSmall");
+        await expect(challengeContract.connect(owner).setDistributionBatchSize(10))
+          .to.emit(challengeContract, "DistributionBatchSizeSet").withArgs(100, 10);
+        expect(await challengeContract.getDistributionBatchSize()).to.equal(10);
+      });
+
+      it("should distribute winnings to many bettors in batches across transactions", async function () {
+        this.timeout(10 * 60 * 1000);
+
         // Deploy a new instance with a higher limit of bettors
         const MockV3Aggregator = await ethers.getContractFactory("MockV3Aggregator");
         const mockPriceFeed = await MockV3Aggregator.deploy(8, 200000000000); // $2000.00000000 ETH/USD price
         const mockPriceFeedAddress = await mockPriceFeed.getAddress();
 
-        const maxBettors = 20; // Set to a reasonable number for testing - in production could be much higher
-        const ChallengeFactory = await ethers.getContractFactory("Challenge");
+        const maxBettors = 1000;
+        const batchSize = 250;
+        const ChallengeFactory = await getProxyFactory(hre, "Challenge");
         const manyBettorsChallenge = await upgrades.deployProxy(
           ChallengeFactory,
           [
@@ -463,7 +1744,7 @@ describe("Challenge Tests", () => {
             2592000, // 30 days
             3 // max metrics
           ],
-          { initializer: 'initialize' }
+          { initializer: 'initialize', constructorArgs: await deployExtensionArgs(hre, "Challenge") }
         );
 
         await manyBettorsChallenge.waitForDeployment();
@@ -474,7 +1755,8 @@ describe("Challenge Tests", () => {
         await vault.waitForDeployment();
         const vaultAddress = await vault.getAddress();
 
-        manyBettorsChallenge.connect(owner).setVault(vaultAddress);
+        await manyBettorsChallenge.connect(owner).setVault(vaultAddress);
+        await manyBettorsChallenge.connect(owner).setDistributionBatchSize(batchSize);
 
         // Create a challenge
         await manyBettorsChallenge.connect(owner).addNewChallenger(challengerAddress);
@@ -499,9 +1781,9 @@ describe("Challenge Tests", () => {
         // Create multiple bettors and have them place bets
         const bettorsFor = [];
         const bettorsAgainst = [];
-        // Adding 17 bettors for the test, 8 betting for the challenger and 9 betting against the challenger
-        // the total becomes 18 bettors, and the challenger is betting for himself
-        for (let i = 0; i < 17; i++) { 
+        // Adding 999 bettors for the test, 499 betting for the challenger and 500 betting against the challenger
+        // the total becomes 1,000 bettors, and the challenger is betting for himself
+        for (let i = 0; i < maxBettors - 1; i++) {
           const newBettor = ethers.Wallet.createRandom().connect(ethers.provider);
 
           // Fund the bettor
@@ -529,34 +1811,42 @@ describe("Challenge Tests", () => {
         await manyBettorsChallenge.connect(challenger).submitMeasurements(challengeId, [targetNumberOfSteps]);
 
         // Move time forward past challenge end
-        const challengeStartTime = await manyBettorsChallenge.challengeToStartTime(challengeId);
-        const challengeLength = await manyBettorsChallenge.challengeToChallengeLength(challengeId);
-        const futureTimestamp = challengeStartTime + challengeLength + BigInt(100);
-        await ethers.provider.send("evm_setNextBlockTimestamp", [Number(futureTimestamp)]);
-        await ethers.provider.send("evm_mine", []);
-
-        // Now distribute winnings - this should handle many transactions without gas issues
-        const tx = await manyBettorsChallenge.connect(owner).distributeWinnings(challengeId);
-        const receipt = await tx.wait();
+        await time.increase(challengeLengthValue);
+
+        // Each call only pays out the next batch of bettors, resuming from the stored cursor
+        let distributions = 0;
+        while (!(await manyBettorsChallenge.challengeToWinningsDistributed(challengeId))) {
+          const tx = await manyBettorsChallenge.connect(owner).distributeWinnings(challengeId);
+          const receipt = await tx.wait();
+          distributions++;
+
+          const distributedBettors = Math.min(distributions * batchSize, maxBettors);
+          await expect(tx).to.emit(manyBettorsChallenge, "WinningsDistributionProgress").withArgs(challengeId, distributedBettors, maxBettors);
+          expect(await manyBettorsChallenge.challengeToDistributionCursor(challengeId)).to.equal(distributedBettors);
+
+          // Check every call, including the first one that also settles the challenge, stays within one batch's budget,
+          // well below the block gas limit, since settling no longer goes through the bettors
+          expect(receipt?.gasUsed).to.be.lt(10000000);
+          // settling happens in the first call, so the winnings are recorded before the later batches
+          expect(await manyBettorsChallenge.challengeToWinningsPaid(challengeId)).to.equal(parseEther("500"));
+        }
+        expect(distributions).to.equal(maxBettors / batchSize);
 
-        // Check the gas used is reasonable (not approaching block gas limit)
-        expect(receipt?.gasUsed).to.be.lt(5000000); // Block gas limit is typically around 30M on Ethereum
+        await expect(manyBettorsChallenge.connect(owner).distributeWinnings(challengeId))
+          .to.be.revertedWithCustomError(manyBettorsChallenge, "WinningsAlreadyDistributed").withArgs(challengeId);
 
-        // Check that winnings were marked as paid
-        expect(await manyBettorsChallenge.challengeToWinningsPaid(challengeId)).to.be.greaterThan(0);
-        
         const eachGeneratedBettorWalletAmountAfterBetting = parseEther("1");
         const receivedAmountForSuccessfulBets = parseEther("2");
 
-        bettorsFor.forEach(async (bettor) => {
+        for (const bettor of bettorsFor) {
           const finalBettorBalance = await ethers.provider.getBalance(await bettor.getAddress());
           expect(finalBettorBalance).to.be.closeTo(eachGeneratedBettorWalletAmountAfterBetting + receivedAmountForSuccessfulBets, parseEther("0.001"));
-        });
+        }
 
-        bettorsAgainst.forEach(async (bettor) => {
+        for (const bettor of bettorsAgainst) {
           const finalBettorBalance = await ethers.provider.getBalance(await bettor.getAddress());
           expect(finalBettorBalance).to.be.closeTo(eachGeneratedBettorWalletAmountAfterBetting, parseEther("0.001"));
-        });
+        }
       });
     });
   });
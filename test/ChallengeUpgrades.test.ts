@@ -1,11 +1,23 @@
-import { ethers, upgrades } from "hardhat";
+import hre, { ethers, upgrades } from "hardhat";
 import { expect } from "chai";
-import { Signer } from "ethers";
-import { Challenge, MockChallengeV2 } from "../typechain";
+import { ContractRunner, Interface, Signer } from "ethers";
+import { IChallengeProxy, LegacyChallenge, MockChallengeV2, MockChallengeV2__factory } from "../typechain";
+import { deployExtensionArgs, EXTENSION_CHAINS, getProxyFactory } from "../scripts/extensions";
+import { signMeasurementAttestation } from "../scripts/signMeasurementAttestation";
+
+// MockChallengeV2's own ABI lacks the functions Challenge's extensions serve, so the upgraded proxy is called through both
+type ChallengeV2 = { connect(runner: ContractRunner | null): ChallengeV2 } & MockChallengeV2 & IChallengeProxy;
+
+const upgradeToV2 = async (proxyAddress: string, factory: MockChallengeV2__factory): Promise<ChallengeV2> => {
+  await upgrades.upgradeProxy(proxyAddress, factory, { constructorArgs: await deployExtensionArgs(hre, "Challenge") });
+  const proxyInterface = await ethers.getContractAt("IChallengeProxy", proxyAddress);
+  const abi = [...factory.interface.fragments, ...proxyInterface.interface.fragments];
+  return (await ethers.getContractAt(abi, proxyAddress, factory.runner as Signer)) as unknown as ChallengeV2;
+};
 
 describe("Challenge Upgradeability", function () {
-  let challengeContact: Challenge;
-  let challengeV2: Challenge;
+  let challengeContact: IChallengeProxy;
+  let challengeV2: IChallengeProxy;
   let deployer: Signer;
   let user: Signer;  
 
@@ -15,21 +27,22 @@ describe("Challenge Upgradeability", function () {
   const maxChallengeLength = 30 * 24 * 3600; // 30 days in seconds
   const maxChallengeMetrics = 3;
 
-  let ChallengeV2Factory;
+  let ChallengeV2Factory: MockChallengeV2__factory;
   let challengeContractAddress: string;
   let deployerAddress: string;
   let userAddress: string;
+  let mockPriceFeedAddress: string;
 
   beforeEach(async () => {
     const MockV3Aggregator = await ethers.getContractFactory("MockV3Aggregator");
     const mockPriceFeed = await MockV3Aggregator.deploy(8, 200000000000); // 8 decimals, $2000.00000000 ETH/USD price
-    const mockPriceFeedAddress = await mockPriceFeed.getAddress();
+    mockPriceFeedAddress = await mockPriceFeed.getAddress();
 
     [deployer, user] = await ethers.getSigners();
     deployerAddress = await deployer.getAddress();
     userAddress = await user.getAddress();
 
-    const ChallengeFactory = await ethers.getContractFactory("Challenge", deployer);
+    const ChallengeFactory = await getProxyFactory(hre, "Challenge", deployer);
     challengeContact = await upgrades.deployProxy(
       ChallengeFactory,
       [
@@ -39,7 +52,7 @@ describe("Challenge Upgradeability", function () {
         maxChallengeLength,
         maxChallengeMetrics,
       ],
-      { initializer: "initialize" }
+      { initializer: "initialize", constructorArgs: await deployExtensionArgs(hre, "Challenge") }
     );
     await challengeContact.waitForDeployment();
     challengeContractAddress = await challengeContact.getAddress();
@@ -57,8 +70,8 @@ describe("Challenge Upgradeability", function () {
   it("upgrades to ChallengeV2 and keeps the same proxy address", async () => {
     const proxyAddressBefore = await challengeContact.getAddress();
     // Upgrade the proxy to the V2 implementation.
-    challengeV2 = (await upgrades.upgradeProxy(challengeContractAddress, ChallengeV2Factory)) as MockChallengeV2;
-    const challengeV2AsV2 = challengeV2 as unknown as MockChallengeV2;
+    const challengeV2AsV2 = await upgradeToV2(challengeContractAddress, ChallengeV2Factory);
+    challengeV2 = challengeV2AsV2;
 
     await challengeV2AsV2.initializeV2();
 
@@ -68,8 +81,8 @@ describe("Challenge Upgradeability", function () {
 
   it("exposes new properties from V2", async () => {
     // Cast the contract to the MockChallengeV2 type
-    challengeV2 = (await upgrades.upgradeProxy(challengeContractAddress, ChallengeV2Factory)) as MockChallengeV2;
-    const challengeV2AsV2 = challengeV2 as unknown as MockChallengeV2;
+    const challengeV2AsV2 = await upgradeToV2(challengeContractAddress, ChallengeV2Factory);
+    challengeV2 = challengeV2AsV2;
     await challengeV2AsV2.initializeV2();
 
     const newProp = await challengeV2AsV2.getNewProperty();
@@ -77,8 +90,8 @@ describe("Challenge Upgradeability", function () {
   });
 
   it("does not allow setting any properties if the contract is paused", async () => {
-    challengeV2 = (await upgrades.upgradeProxy(challengeContractAddress, ChallengeV2Factory)) as MockChallengeV2;
-    const challengeV2AsV2 = challengeV2 as unknown as MockChallengeV2;
+    const challengeV2AsV2 = await upgradeToV2(challengeContractAddress, ChallengeV2Factory);
+    challengeV2 = challengeV2AsV2;
     await challengeV2AsV2.initializeV2();
 
     await challengeV2AsV2.connect(deployer).pause();
@@ -166,8 +179,8 @@ describe("Challenge Upgradeability", function () {
     
     // Now perform the upgrade
     const ChallengeV2Factory = await ethers.getContractFactory("MockChallengeV2", deployer);
-    challengeV2 = (await upgrades.upgradeProxy(challengeContractAddress, ChallengeV2Factory)) as MockChallengeV2;
-    const challengeV2AsV2 = challengeV2 as unknown as MockChallengeV2;
+    const challengeV2AsV2 = await upgradeToV2(challengeContractAddress, ChallengeV2Factory);
+    challengeV2 = challengeV2AsV2;
     
     // Initialize V2 state
     await challengeV2AsV2.initializeV2();
@@ -217,4 +230,146 @@ describe("Challenge Upgradeability", function () {
     
     expect(winningsPaid).to.be.greaterThan(0);
   });
+
+  it("keeps the storage layout of the first release", async () => {
+    const legacyImplementation = await upgrades.deployImplementation(await ethers.getContractFactory("LegacyChallenge"), { kind: "uups" });
+
+    // the plugin encodes the constructor args while validating, though its validation options do not declare them
+    const validationOptions = { kind: "uups" as const, constructorArgs: await deployExtensionArgs(hre, "Challenge") };
+    await upgrades.validateUpgrade(legacyImplementation as string, await ethers.getContractFactory("Challenge"), validationOptions);
+  });
+
+  it("migrates a first release proxy to roles, keeping its state and handing ownership over to the roles", async () => {
+    const legacyChallenge = await upgrades.deployProxy(
+      await ethers.getContractFactory("LegacyChallenge", deployer),
+      [minimumBetValue, mockPriceFeedAddress, maxBettors, maxChallengeLength, maxChallengeMetrics],
+      { initializer: "initialize", kind: "uups" }
+    ) as unknown as LegacyChallenge;
+    const legacyAddress = await legacyChallenge.getAddress();
+    await legacyChallenge.addNewChallenger(userAddress);
+    await legacyChallenge.connect(user).createChallenge(3600, [0], [10000]);
+
+    await upgrades.upgradeProxy(legacyAddress, await ethers.getContractFactory("Challenge", deployer), {
+      constructorArgs: await deployExtensionArgs(hre, "Challenge"),
+      call: "initializeMetricRegistry",
+    });
+    const migrated = await ethers.getContractAt("IChallengeProxy", legacyAddress, deployer);
+    const roles = [
+      await migrated.DEFAULT_ADMIN_ROLE(),
+      await migrated.WHITELIST_MANAGER_ROLE(),
+      await migrated.PARAMETER_ADMIN_ROLE(),
+      await migrated.PAUSER_ROLE(),
+      await migrated.SETTLER_ROLE(),
+      await migrated.UPGRADER_ROLE(),
+    ];
+
+    // until the migration runs nobody holds a role, so not even the owner can administer the contract
+    await expect(migrated.pause()).to.be.revertedWithCustomError(migrated, "AccessControlUnauthorizedAccount");
+    await expect(migrated.connect(user).initializeAccessControl()).to.be.revertedWithCustomError(migrated, "OwnableUnauthorizedAccount");
+
+    await expect(migrated.initializeAccessControl())
+      .to.emit(migrated, "RoleGranted")
+      .withArgs(roles[0], deployerAddress, deployerAddress)
+      .and.to.emit(migrated, "OwnershipTransferred")
+      .withArgs(deployerAddress, ethers.ZeroAddress);
+    for (const role of roles) {
+      expect(await migrated.hasRole(role, deployerAddress)).to.be.true;
+      expect(await migrated.hasRole(role, userAddress)).to.be.false;
+    }
+    expect(await migrated.owner()).to.equal(ethers.ZeroAddress);
+    await expect(migrated.initializeAccessControl()).to.be.revertedWithCustomError(migrated, "InvalidInitialization");
+
+    expect(await migrated.challengerWhitelist(userAddress)).to.be.true;
+    expect(await migrated.bettorWhitelist(userAddress)).to.be.true;
+    expect(await migrated.latestChallengeId()).to.equal(1);
+    expect(await migrated.challengeToChallenger(0)).to.equal(userAddress);
+    expect(await migrated.challengeToChallengeLength(0)).to.equal(3600);
+    expect(await migrated.getMinimumUsdValueOfBet()).to.equal(minimumBetValue);
+    expect(await migrated.getMaximumNumberOfBettorsPerChallenge()).to.equal(maxBettors);
+
+    await migrated.pause();
+    await migrated.unpause();
+    await migrated.addNewBettor(deployerAddress);
+  });
+
+  it("verifies attested measurements on a migrated first release proxy", async () => {
+    const legacyChallenge = await upgrades.deployProxy(
+      await ethers.getContractFactory("LegacyChallenge", deployer),
+      [minimumBetValue, mockPriceFeedAddress, maxBettors, maxChallengeLength, maxChallengeMetrics],
+      { initializer: "initialize", kind: "uups" }
+    ) as unknown as LegacyChallenge;
+    const legacyAddress = await legacyChallenge.getAddress();
+    await legacyChallenge.addNewChallenger(userAddress);
+
+    await upgrades.upgradeProxy(legacyAddress, await ethers.getContractFactory("Challenge", deployer), {
+      constructorArgs: await deployExtensionArgs(hre, "Challenge"),
+      call: "initializeMetricRegistry",
+    });
+    const migrated = await ethers.getContractAt("IChallengeProxy", legacyAddress, deployer);
+    // the metric registry migration skips the version of the attestations one, so it sets up the EIP-712 domain too
+    await expect(migrated.initializeAttestations()).to.be.revertedWithCustomError(migrated, "InvalidInitialization");
+    await migrated.initializeAccessControl();
+
+    const vault = await upgrades.deployProxy(await ethers.getContractFactory("Vault"), [legacyAddress], { initializer: "initialize" });
+    await migrated.setVault(await vault.getAddress());
+    await migrated.setMeasurementAttester(deployerAddress, true);
+    await migrated.addNewBettor(deployerAddress);
+
+    const betAmount = ethers.parseEther("0.05");
+    await migrated.connect(user).createAttestedChallenge(3600, [0], [10000]);
+    await migrated.connect(user).placeBet(0, true, { value: betAmount });
+    await migrated.placeBet(0, false, { value: betAmount });
+    await migrated.connect(user).startChallenge(0);
+
+    const startTime = await migrated.challengeToStartTime(0);
+    const attestation = {
+      challengeId: 0,
+      participant: userAddress,
+      metrics: [0],
+      measurements: [10000],
+      windowStart: startTime,
+      windowEnd: startTime + BigInt(3600),
+      nonce: await migrated.nonces(userAddress),
+    };
+    const chainId = (await ethers.provider.getNetwork()).chainId;
+    const signature = await signMeasurementAttestation(deployer, chainId, legacyAddress, attestation);
+
+    await expect(migrated.submitAttestedMeasurements(
+      0,
+      userAddress,
+      attestation.measurements,
+      attestation.windowStart,
+      attestation.windowEnd,
+      attestation.nonce,
+      signature
+    )).to.emit(migrated, "MeasurementsAttested")
+      .withArgs(0, userAddress, deployerAddress, 0);
+  });
+
+  it("only lets the upgrader role upgrade once roles are in place", async () => {
+    const upgraderRole = await challengeContact.UPGRADER_ROLE();
+    await challengeContact.grantRole(upgraderRole, userAddress);
+    await challengeContact.revokeRole(upgraderRole, deployerAddress);
+
+    const implementation = (await upgrades.prepareUpgrade(challengeContractAddress, ChallengeV2Factory, {
+      constructorArgs: await deployExtensionArgs(hre, "Challenge"),
+    })) as string;
+    await expect(challengeContact.upgradeToAndCall(implementation, "0x"))
+      .to.be.revertedWithCustomError(challengeContact, "AccessControlUnauthorizedAccount")
+      .withArgs(deployerAddress, upgraderRole);
+
+    await challengeContact.connect(user).upgradeToAndCall(implementation, "0x");
+    expect(await upgrades.erc1967.getImplementationAddress(challengeContractAddress)).to.equal(implementation);
+    expect(await challengeContact.owner()).to.equal(ethers.ZeroAddress);
+  });
+
+  it("lists everything Challenge and its extensions answer to in IChallengeProxy", async () => {
+    const signatures = async (names: string[]) => {
+      const fragments = await Promise.all(names.map(async (name) => new Interface((await hre.artifacts.readArtifact(name)).abi).fragments));
+      const members = fragments.flat().filter((fragment) => ["function", "event", "error"].includes(fragment.type));
+      return [...new Set(members.map((fragment) => `${fragment.type} ${fragment.format("sighash")}`))].sort();
+    };
+
+    expect(await signatures(["IChallengeProxy"])).to.deep.equal(await signatures(["Challenge", ...EXTENSION_CHAINS.Challenge]));
+  });
 });
@@ -0,0 +1,174 @@
+import hre, { ethers, upgrades } from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { expect } from "chai";
+import { IChallengeProxy, MockChallengeV2 } from "../typechain";
+import { deployExtensions, EXTENSION_CHAINS, getProxyFactory } from "../scripts/extensions";
+import {
+  DEPLOYMENT_MANIFEST_VERSION,
+  DeploymentManifest,
+  ExtensionRecord,
+  extensionConstructorArgs,
+  loadDeployment,
+  recordProxyDeployment,
+  saveDeployment,
+} from "../scripts/deployments";
+import { upgradeDeployment } from "../scripts/upgradeDeployment";
+
+describe("Deployment Manifest", function () {
+  let challengeContract: IChallengeProxy;
+  let challengeExtensions: ExtensionRecord[];
+  let manifest: DeploymentManifest;
+  let workDirectory: string;
+  let deploymentPath: string;
+
+  const minimumUsdBetValue: bigint = BigInt(10) * BigInt(1e14);
+
+  const saveToWorkDirectory = (updated: DeploymentManifest) => saveDeployment(updated, deploymentPath);
+
+  beforeEach(async function () {
+    const MockV3Aggregator = await ethers.getContractFactory("MockV3Aggregator");
+    const mockPriceFeed = await MockV3Aggregator.deploy(8, 200000000000); // 8 decimals, $2000.00000000 ETH/USD price
+    const mockPriceFeedAddress = await mockPriceFeed.getAddress();
+
+    const challengeInitializerArgs = [minimumUsdBetValue, mockPriceFeedAddress, 100, 2592000, 3];
+    challengeExtensions = await deployExtensions(hre, "Challenge");
+    const ChallengeFactory = await getProxyFactory(hre, "Challenge");
+    challengeContract = await upgrades.deployProxy(ChallengeFactory, challengeInitializerArgs, {
+      initializer: "initialize",
+      constructorArgs: extensionConstructorArgs(challengeExtensions),
+    });
+    await challengeContract.waitForDeployment();
+    const challengeBlockNumber = (await challengeContract.deploymentTransaction()!.wait())!.blockNumber;
+
+    const multiplayerInitializerArgs = [minimumUsdBetValue, 5, mockPriceFeedAddress, 100, 2592000, 3];
+    const multiplayerExtensions = await deployExtensions(hre, "MultiplayerChallenge");
+    const MultiplayerChallengeFactory = await getProxyFactory(hre, "MultiplayerChallenge");
+    const multiplayerChallenge = await upgrades.deployProxy(MultiplayerChallengeFactory, multiplayerInitializerArgs, {
+      initializer: "initializeMultiplayerChallenge",
+      constructorArgs: extensionConstructorArgs(multiplayerExtensions),
+    });
+    await multiplayerChallenge.waitForDeployment();
+
+    const VaultFactory = await ethers.getContractFactory("Vault");
+    const vaultContract = await upgrades.deployProxy(VaultFactory, [await challengeContract.getAddress()], { initializer: "initialize" });
+    await vaultContract.waitForDeployment();
+
+    manifest = {
+      manifestVersion: DEPLOYMENT_MANIFEST_VERSION,
+      network: "hardhat",
+      chainId: 31337,
+      gitCommit: "deploy-commit",
+      blockNumber: challengeBlockNumber,
+      contracts: {
+        Challenge: await recordProxyDeployment(
+          hre,
+          await challengeContract.getAddress(),
+          "Challenge",
+          "initialize",
+          challengeInitializerArgs,
+          challengeBlockNumber,
+          "deploy-commit",
+          challengeExtensions
+        ),
+        MultiplayerChallenge: await recordProxyDeployment(
+          hre,
+          await multiplayerChallenge.getAddress(),
+          "MultiplayerChallenge",
+          "initializeMultiplayerChallenge",
+          multiplayerInitializerArgs,
+          challengeBlockNumber,
+          "deploy-commit",
+          multiplayerExtensions
+        ),
+        Vault: await recordProxyDeployment(hre, await vaultContract.getAddress(), "Vault", "initialize", [], challengeBlockNumber, "deploy-commit"),
+      },
+    };
+
+    workDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "challenge-manifest-"));
+    deploymentPath = path.join(workDirectory, "hardhat.json");
+    saveToWorkDirectory(manifest);
+  });
+
+  afterEach(function () {
+    fs.rmSync(workDirectory, { recursive: true, force: true });
+  });
+
+  it("should record proxies, implementations and initializer args", async function () {
+    const loaded = loadDeployment("hardhat", deploymentPath);
+
+    expect(loaded.contracts.Challenge.proxy).to.equal(await challengeContract.getAddress());
+    expect(loaded.contracts.Challenge.implementation.address).to.equal(
+      await upgrades.erc1967.getImplementationAddress(await challengeContract.getAddress())
+    );
+    // bigints are kept as decimal strings so the manifest stays plain JSON
+    expect(loaded.contracts.Challenge.initializerArgs[0]).to.equal(minimumUsdBetValue.toString());
+    expect(loaded.contracts.Challenge.initializer).to.equal("initialize");
+    expect(loaded.contracts.Challenge.previousImplementations).to.deep.equal([]);
+  });
+
+  it("should record the extensions each implementation was deployed with", async function () {
+    const loaded = loadDeployment("hardhat", deploymentPath);
+
+    const { extensions } = loaded.contracts.Challenge.implementation;
+    expect(extensions!.map((extension) => extension.contractName)).to.deep.equal(EXTENSION_CHAINS.Challenge);
+    expect(loaded.contracts.Challenge.constructorArgs).to.deep.equal([extensions![0].address]);
+    expect(loaded.contracts.MultiplayerChallenge.implementation.extensions!.map((extension) => extension.contractName))
+      .to.deep.equal(EXTENSION_CHAINS.MultiplayerChallenge);
+    expect(loaded.contracts.Vault.implementation.extensions).to.deep.equal([]);
+    expect(loaded.contracts.Vault.constructorArgs).to.deep.equal([]);
+  });
+
+  it("should refuse manifests of another layout version", async function () {
+    saveToWorkDirectory({ ...manifest, manifestVersion: DEPLOYMENT_MANIFEST_VERSION + 1 });
+
+    expect(() => loadDeployment("hardhat", deploymentPath)).to.throw(`expected ${DEPLOYMENT_MANIFEST_VERSION}`);
+  });
+
+  it("should upgrade a proxy, call its reinitializer and record the previous implementation", async function () {
+    const originalImplementation = manifest.contracts.Challenge.implementation;
+
+    const results = await upgradeDeployment(
+      hre,
+      manifest,
+      [{ contract: "Challenge", implementation: "MockChallengeV2", reinitializer: { fn: "initializeV2", args: [] } }],
+      saveToWorkDirectory
+    );
+
+    const challengeV2 = (await ethers.getContractAt("MockChallengeV2", await challengeContract.getAddress())) as MockChallengeV2;
+    expect(await challengeV2.getNewProperty()).to.equal("v2");
+    expect(await challengeContract.getMinimumUsdValueOfBet()).to.equal(minimumUsdBetValue);
+
+    const saved = loadDeployment("hardhat", deploymentPath);
+    const currentImplementation = await upgrades.erc1967.getImplementationAddress(await challengeContract.getAddress());
+    expect(results).to.deep.equal([{ contract: "Challenge", outcome: "upgraded", implementation: currentImplementation }]);
+    expect(saved.contracts.Challenge.implementation.address).to.equal(currentImplementation);
+    expect(saved.contracts.Challenge.implementation.contractName).to.equal("MockChallengeV2");
+    expect(saved.contracts.Challenge.implementation.reinitializer).to.deep.equal({ fn: "initializeV2", args: [] });
+    expect(saved.contracts.Challenge.previousImplementations).to.deep.equal([originalImplementation]);
+    // the mock only replaces the implementation, so the extensions it was deployed with are reused
+    expect(saved.contracts.Challenge.implementation.extensions).to.deep.equal(challengeExtensions);
+  });
+
+  it("should leave proxies that already run the compiled implementation alone", async function () {
+    const upgrade = { contract: "Challenge" as const, implementation: "MockChallengeV2" };
+    await upgradeDeployment(hre, manifest, [upgrade], saveToWorkDirectory);
+    const manifestAfterUpgrade = fs.readFileSync(deploymentPath, "utf8");
+
+    const results = await upgradeDeployment(hre, loadDeployment("hardhat", deploymentPath), [upgrade, { contract: "Vault" }], saveToWorkDirectory);
+
+    expect(results.map((result) => result.outcome)).to.deep.equal(["up-to-date", "up-to-date"]);
+    expect(fs.readFileSync(deploymentPath, "utf8")).to.equal(manifestAfterUpgrade);
+  });
+
+  it("should not upgrade to an implementation with an incompatible storage layout", async function () {
+    const implementationBefore = manifest.contracts.Challenge.implementation.address;
+
+    await expect(upgradeDeployment(hre, manifest, [{ contract: "Challenge", implementation: "Vault" }], saveToWorkDirectory))
+      .to.be.rejectedWith("New storage layout is incompatible");
+
+    expect(await upgrades.erc1967.getImplementationAddress(await challengeContract.getAddress())).to.equal(implementationBefore);
+    expect(loadDeployment("hardhat", deploymentPath).contracts.Challenge.implementation.address).to.equal(implementationBefore);
+  });
+});
@@ -0,0 +1,180 @@
+import { ethers } from "hardhat";
+import { Signer, parseEther } from "ethers";
+import { expect } from "chai";
+import { IChallengeProxy, IMultiplayerChallengeProxy } from "../typechain";
+import { startMockFitbitServer, MockFitbitServer, MockFitbitUser } from "../scripts/fitbit/mockFitbitServer";
+import { FitbitClient, toFitbitDate } from "../scripts/fitbit/fitbitClient";
+import { createAccountLinks } from "../scripts/fitbit/accountLinks";
+import { syncChallenges } from "../scripts/fitbit/syncWorker";
+import {
+  CHALLENGE_CALORIES_BURNED,
+  CHALLENGE_CYCLING_MILEAGE,
+  CHALLENGE_MILEAGE,
+  CHALLENGE_STEPS,
+  toOnChainMeasurement,
+} from "../scripts/fitbit/units";
+import { deployChallengeContracts } from "./fixtures";
+
+// Number of Fitbit days touched by a window, which is what the daily time series is summed over.
+const countDays = (windowStart: bigint, windowEnd: bigint) =>
+  (Date.parse(toFitbitDate(Number(windowEnd))) - Date.parse(toFitbitDate(Number(windowStart)))) / (24 * 60 * 60 * 1000) + 1;
+
+const toActivityLogTime = (timestampInSeconds: bigint) =>
+  new Date(Number(timestampInSeconds) * 1000).toISOString().slice(0, 19);
+
+describe("Fitbit Sync Worker", function () {
+  let challengeContract: IChallengeProxy;
+  let multiplayerChallenge: IMultiplayerChallengeProxy;
+  let owner: Signer;
+  let challenger: Signer;
+  let competitor: Signer;
+  let bettor: Signer;
+  let attester: Signer;
+  let challengerAddress: string;
+  let competitorAddress: string;
+
+  let fitbitServer: MockFitbitServer;
+  let fitbitUsers: Record<string, MockFitbitUser>;
+
+  const betAmount = parseEther("0.05");
+  const challengeLength = BigInt(3 * 24 * 60 * 60); // 3 days
+
+  const syncWith = (accessTokens: Record<string, string> = {}) =>
+    syncChallenges({
+      targets: [
+        { kind: "single", contract: challengeContract.connect(owner) },
+        { kind: "multiplayer", contract: multiplayerChallenge.connect(owner) },
+      ],
+      fitbitClient: new FitbitClient(fitbitServer.url),
+      accountLinks: createAccountLinks({
+        [challengerAddress]: { fitbitUserId: "FITBIT1", accessToken: accessTokens.FITBIT1 ?? "token-1" },
+        [competitorAddress]: { fitbitUserId: "FITBIT2", accessToken: "token-2" },
+      }),
+      attester,
+    });
+
+  const increaseTime = async (seconds: number) => {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  };
+
+  beforeEach(async function () {
+    [owner, challenger, competitor, bettor, attester] = await ethers.getSigners();
+    challengerAddress = await challenger.getAddress();
+    competitorAddress = await competitor.getAddress();
+
+    ({ challengeContract, multiplayerChallenge } = await deployChallengeContracts());
+
+    for (const contract of [challengeContract, multiplayerChallenge]) {
+      await contract.connect(owner).setMeasurementAttester(await attester.getAddress(), true);
+      await contract.connect(owner).addNewChallenger(challengerAddress);
+      await contract.connect(owner).addNewChallenger(competitorAddress);
+      await contract.connect(owner).addNewBettor(await bettor.getAddress());
+    }
+
+    fitbitUsers = {
+      FITBIT1: { accessToken: "token-1", dailyDefaults: { steps: 12000, distance: 5.4, calories: 2400 } },
+      FITBIT2: { accessToken: "token-2", dailyDefaults: { steps: 8000, distance: 3.6, calories: 2100 } },
+    };
+    fitbitServer = await startMockFitbitServer(fitbitUsers);
+  });
+
+  afterEach(async function () {
+    await fitbitServer.close();
+  });
+
+  it("should convert Fitbit totals to whole on-chain units", async function () {
+    expect(toOnChainMeasurement(CHALLENGE_STEPS, 12345)).to.equal(BigInt(12345));
+    expect(toOnChainMeasurement(CHALLENGE_MILEAGE, 5.99)).to.equal(BigInt(5));
+    expect(toOnChainMeasurement(CHALLENGE_CYCLING_MILEAGE, 12.5)).to.equal(BigInt(12));
+    expect(toOnChainMeasurement(CHALLENGE_CALORIES_BURNED, 2400.7)).to.equal(BigInt(2400));
+    expect(() => toOnChainMeasurement(9, 1)).to.throw("Unsupported challenge metric: 9");
+  });
+
+  it("should submit signed measurements for an attested single player challenge", async function () {
+    await challengeContract.connect(challenger).createAttestedChallenge(
+      challengeLength,
+      [CHALLENGE_STEPS, CHALLENGE_CYCLING_MILEAGE, CHALLENGE_CALORIES_BURNED],
+      [20000, 10, 4000]
+    );
+    await challengeContract.connect(challenger).placeBet(0, true, { value: betAmount });
+    await challengeContract.connect(bettor).placeBet(0, false, { value: betAmount });
+    await challengeContract.connect(challenger).startChallenge(0);
+
+    const startTime = await challengeContract.challengeToStartTime(0);
+    fitbitUsers.FITBIT1.bikeRides = [
+      { startTime: toActivityLogTime(startTime - BigInt(60 * 60)), distance: 30 }, // before the challenge, ignored
+      { startTime: toActivityLogTime(startTime + BigInt(60 * 60)), distance: 7.5 },
+      { startTime: toActivityLogTime(startTime + BigInt(26 * 60 * 60)), distance: 4.25 },
+    ];
+    await increaseTime(36 * 60 * 60);
+    const windowEnd = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+
+    const results = await syncWith();
+
+    expect(results).to.have.length(1);
+    expect(results[0].outcome).to.equal("submitted");
+
+    const days = BigInt(countDays(startTime, windowEnd));
+    expect(results[0].measurements).to.deep.equal([BigInt(12000) * days, BigInt(11), BigInt(2400) * days]);
+    expect(await challengeContract.nonces(challengerAddress)).to.equal(1);
+
+    // 11.75 cycling miles are floored to 11, which still beats the target of 10
+    await increaseTime(Number(challengeLength));
+    await challengeContract.connect(owner).distributeWinnings(0);
+    expect(await challengeContract.challengeToChallengeStatus(0)).to.equal(3); // STATUS_CHALLENGER_WON
+  });
+
+  it("should submit every linked competitor's measurements for an attested multiplayer challenge", async function () {
+    await multiplayerChallenge.connect(challenger).createAttestedMultiplayerChallenge(challengeLength, CHALLENGE_STEPS, 3, { value: betAmount });
+    await multiplayerChallenge.connect(competitor).joinChallenge(0, { value: betAmount });
+    await multiplayerChallenge.connect(challenger).startChallenge(0);
+
+    fitbitUsers.FITBIT2.dailyDefaults!.steps = 15000;
+    await increaseTime(60 * 60);
+
+    const results = await syncWith();
+
+    expect(results.map((result) => result.outcome)).to.deep.equal(["submitted", "submitted"]);
+    expect(await multiplayerChallenge.getLeader(0)).to.equal(competitorAddress);
+    expect(await multiplayerChallenge.getLeaderScore(0)).to.equal(results[1].measurements![0]);
+  });
+
+  it("should skip challenges that are not attested, not active, or have unlinked participants", async function () {
+    // inactive challenge
+    await challengeContract.connect(challenger).createAttestedChallenge(challengeLength, [CHALLENGE_STEPS], [20000]);
+
+    // active challenge that accepts only self-submitted measurements
+    await challengeContract.connect(challenger).createChallenge(challengeLength, [CHALLENGE_STEPS], [20000]);
+    await challengeContract.connect(challenger).placeBet(1, true, { value: betAmount });
+    await challengeContract.connect(bettor).placeBet(1, false, { value: betAmount });
+    await challengeContract.connect(challenger).startChallenge(1);
+
+    // active attested challenge whose challenger never linked a Fitbit account
+    await challengeContract.connect(owner).addNewChallenger(await owner.getAddress());
+    await challengeContract.connect(owner).createAttestedChallenge(challengeLength, [CHALLENGE_STEPS], [20000]);
+    await challengeContract.connect(owner).placeBet(2, true, { value: betAmount });
+    await challengeContract.connect(bettor).placeBet(2, false, { value: betAmount });
+    await challengeContract.connect(owner).startChallenge(2);
+
+    const results = await syncWith();
+
+    expect(results.map((result) => [result.challengeId, result.outcome])).to.deep.equal([
+      [BigInt(1), "not-attested"],
+      [BigInt(2), "not-linked"],
+    ]);
+  });
+
+  it("should report a failure without stopping the other participants", async function () {
+    await multiplayerChallenge.connect(challenger).createAttestedMultiplayerChallenge(challengeLength, CHALLENGE_STEPS, 3, { value: betAmount });
+    await multiplayerChallenge.connect(competitor).joinChallenge(0, { value: betAmount });
+    await multiplayerChallenge.connect(challenger).startChallenge(0);
+
+    const results = await syncWith({ FITBIT1: "revoked-token" });
+
+    expect(results[0].outcome).to.equal("failed");
+    expect(results[0].error).to.contain("status 401");
+    expect(results[1].outcome).to.equal("submitted");
+    expect(await multiplayerChallenge.getLeader(0)).to.equal(competitorAddress);
+  });
+});
@@ -0,0 +1,218 @@
+import { ethers } from "hardhat";
+import { AbiCoder, Signer, parseEther } from "ethers";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { IChallengeProxy, IMultiplayerChallengeProxy } from "../typechain";
+import { runUpkeeps } from "../scripts/keeper/keeperWorker";
+import { deployChallengeContracts } from "./fixtures";
+
+const CHALLENGE_STEPS = 0;
+const STATUS_ACTIVE = 1;
+const STATUS_EXPIRED = 2;
+const STATUS_CHALLENGER_WON = 3;
+const STATUS_CANCELLED = 5;
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+const encodeChallengeIds = (challengeIds: number[]) => abiCoder.encode(["uint256[]"], [challengeIds]);
+const encodeScan = (offset: bigint | number, limit: bigint | number) => abiCoder.encode(["uint256", "uint256"], [offset, limit]);
+
+describe("Challenge Upkeep", function () {
+  let challengeContract: IChallengeProxy;
+  let multiplayerChallenge: IMultiplayerChallengeProxy;
+  let owner: Signer;
+  let challenger: Signer;
+  let competitor: Signer;
+  let bettor: Signer;
+  let keeper: Signer;
+
+  const betAmount = parseEther("0.05");
+  const challengeLength = 60 * 60; // 1 hour
+
+  // creates and starts a single player challenge, with the challenger reaching the target if measured
+  const startChallenge = async (length: number, measured: boolean): Promise<number> => {
+    const challengeId = Number(await challengeContract.latestChallengeId());
+    await challengeContract.connect(challenger).createChallenge(length, [CHALLENGE_STEPS], [10000]);
+    await challengeContract.connect(challenger).placeBet(challengeId, true, { value: betAmount });
+    await challengeContract.connect(bettor).placeBet(challengeId, false, { value: betAmount });
+    await challengeContract.connect(challenger).startChallenge(challengeId);
+    if (measured) await challengeContract.connect(challenger).submitMeasurements(challengeId, [10000]);
+    return challengeId;
+  };
+
+  const startMultiplayerChallenge = async (length: number): Promise<number> => {
+    const challengeId = Number(await multiplayerChallenge.latestChallengeId());
+    await multiplayerChallenge.connect(challenger).createMultiplayerChallenge(length, CHALLENGE_STEPS, 2, { value: betAmount });
+    await multiplayerChallenge.connect(competitor).joinChallenge(challengeId, { value: betAmount });
+    await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+    await multiplayerChallenge.connect(competitor).submitMeasurements(challengeId, [12000]);
+    return challengeId;
+  };
+
+  beforeEach(async function () {
+    [owner, challenger, competitor, bettor, keeper] = await ethers.getSigners();
+
+    ({ challengeContract, multiplayerChallenge } = await deployChallengeContracts());
+
+    for (const contract of [challengeContract, multiplayerChallenge]) {
+      await contract.connect(owner).addNewChallenger(await challenger.getAddress());
+      await contract.connect(owner).addNewChallenger(await competitor.getAddress());
+      await contract.connect(owner).addNewBettor(await bettor.getAddress());
+    }
+  });
+
+  describe("Checking and performing upkeep", function () {
+    it("should track started challenges until they are settled or voided", async function () {
+      const wonChallengeId = await startChallenge(challengeLength, true);
+      const voidedChallengeId = await startChallenge(challengeLength, false);
+      await startChallenge(challengeLength * 24, true);
+      expect(await challengeContract.getOpenChallengeCount()).to.equal(3);
+
+      await time.increase(challengeLength);
+      await challengeContract.connect(keeper).settleChallenge(wonChallengeId);
+      await challengeContract.connect(keeper).voidChallenge(voidedChallengeId);
+      expect(await challengeContract.getOpenChallengeCount()).to.equal(1);
+    });
+
+    it("should only ask for upkeep once challenges run out", async function () {
+      const wonChallengeId = await startChallenge(challengeLength, true);
+      const voidedChallengeId = await startChallenge(challengeLength, false);
+      const longChallengeId = await startChallenge(challengeLength * 24, true);
+
+      const [upkeepNeeded, performData] = await challengeContract.checkUpkeep("0x");
+      expect(upkeepNeeded).to.be.false;
+      expect(performData).to.equal(encodeChallengeIds([]));
+
+      await time.increase(challengeLength);
+      const check = await challengeContract.checkUpkeep("0x");
+      expect(check.upkeepNeeded).to.be.true;
+      expect(check.performData).to.equal(encodeChallengeIds([wonChallengeId, voidedChallengeId]));
+
+      await expect(challengeContract.connect(keeper).performUpkeep(check.performData))
+        .to.emit(challengeContract, "ChallengeSettled").withArgs(wonChallengeId, STATUS_CHALLENGER_WON, betAmount)
+        .and.to.emit(challengeContract, "ChallengeVoided").withArgs(voidedChallengeId);
+      expect(await challengeContract.challengeToChallengeStatus(voidedChallengeId)).to.equal(STATUS_CANCELLED);
+      expect(await challengeContract.challengeToChallengeStatus(longChallengeId)).to.equal(STATUS_ACTIVE);
+      expect(await challengeContract.getOpenChallengeCount()).to.equal(1);
+      expect((await challengeContract.checkUpkeep("0x")).upkeepNeeded).to.be.false;
+
+      // the winners claim as they would after any other settlement
+      await expect(challengeContract.connect(challenger).claimWinnings(wonChallengeId))
+        .to.changeEtherBalance(challenger, betAmount * BigInt(2));
+    });
+
+    it("should only scan the page of open challenges passed as check data", async function () {
+      const challengeIds = [];
+      for (let i = 0; i < 3; i++) challengeIds.push(await startChallenge(challengeLength, true));
+      await time.increase(challengeLength);
+
+      expect((await challengeContract.checkUpkeep(encodeScan(1, 1))).performData).to.equal(encodeChallengeIds([challengeIds[1]]));
+      expect((await challengeContract.checkUpkeep(encodeScan(1, 10))).performData).to.equal(encodeChallengeIds(challengeIds.slice(1)));
+      expect((await challengeContract.checkUpkeep(encodeScan(3, 10))).upkeepNeeded).to.be.false;
+      // operators may pass the largest limit to scan everything after the offset, or an offset past the end
+      expect((await challengeContract.checkUpkeep(encodeScan(1, ethers.MaxUint256))).performData).to.equal(encodeChallengeIds(challengeIds.slice(1)));
+      expect((await challengeContract.checkUpkeep(encodeScan(ethers.MaxUint256, ethers.MaxUint256))).upkeepNeeded).to.be.false;
+    });
+
+    it("should skip challenges that are no longer due instead of reverting", async function () {
+      const settledChallengeId = await startChallenge(challengeLength, true);
+      const dueChallengeId = await startChallenge(challengeLength, true);
+      const longChallengeId = await startChallenge(challengeLength * 24, true);
+      await time.increase(challengeLength);
+
+      const { performData } = await challengeContract.checkUpkeep("0x");
+      await challengeContract.connect(bettor).settleChallenge(settledChallengeId);
+
+      await expect(challengeContract.connect(keeper).performUpkeep(encodeChallengeIds([settledChallengeId, dueChallengeId, longChallengeId])))
+        .to.emit(challengeContract, "ChallengeSettled").withArgs(dueChallengeId, STATUS_CHALLENGER_WON, betAmount);
+      await expect(challengeContract.connect(keeper).performUpkeep(performData))
+        .not.to.emit(challengeContract, "ChallengeSettled");
+      expect(await challengeContract.challengeToChallengeStatus(longChallengeId)).to.equal(STATUS_ACTIVE);
+    });
+
+    it("should propose outcomes and settle them once the dispute window closes", async function () {
+      const disputeWindow = 24 * 60 * 60;
+      await challengeContract.connect(owner).setDisputeWindow(disputeWindow);
+      const challengeId = await startChallenge(challengeLength, true);
+      await time.increase(challengeLength);
+
+      const proposal = await challengeContract.checkUpkeep("0x");
+      await expect(challengeContract.connect(keeper).performUpkeep(proposal.performData))
+        .to.emit(challengeContract, "OutcomeProposed");
+      expect(await challengeContract.challengeToChallengeStatus(challengeId)).to.equal(STATUS_EXPIRED);
+      expect(await challengeContract.getOpenChallengeCount()).to.equal(1);
+      expect((await challengeContract.checkUpkeep("0x")).upkeepNeeded).to.be.false;
+
+      // checkUpkeep is simulated on the latest block, so it has to be past the deadline already
+      await time.increase(disputeWindow + 1);
+      const settlement = await challengeContract.checkUpkeep("0x");
+      expect(settlement.performData).to.equal(encodeChallengeIds([challengeId]));
+      await expect(challengeContract.connect(keeper).performUpkeep(settlement.performData))
+        .to.emit(challengeContract, "ChallengeSettled").withArgs(challengeId, STATUS_CHALLENGER_WON, betAmount);
+      expect(await challengeContract.getOpenChallengeCount()).to.equal(0);
+    });
+
+    it("should not perform upkeep while paused", async function () {
+      await startChallenge(challengeLength, true);
+      await time.increase(challengeLength);
+      const { performData } = await challengeContract.checkUpkeep("0x");
+
+      await challengeContract.connect(owner).pause();
+      await expect(challengeContract.connect(keeper).performUpkeep(performData))
+        .to.be.revertedWithCustomError(challengeContract, "EnforcedPause");
+    });
+
+    it("should settle due multiplayer challenges", async function () {
+      const challengeId = await startMultiplayerChallenge(challengeLength);
+      await startMultiplayerChallenge(challengeLength * 24);
+      await time.increase(challengeLength);
+
+      const { upkeepNeeded, performData } = await multiplayerChallenge.checkUpkeep("0x");
+      expect(upkeepNeeded).to.be.true;
+      expect(performData).to.equal(encodeChallengeIds([challengeId]));
+      await expect(multiplayerChallenge.connect(keeper).performUpkeep(performData))
+        .to.emit(multiplayerChallenge, "WinningsClaimable").withArgs(challengeId, await competitor.getAddress(), betAmount * BigInt(2));
+      expect(await multiplayerChallenge.getOpenChallengeCount()).to.equal(1);
+    });
+  });
+
+  describe("Keeper script", function () {
+    it("should settle every due challenge on both contracts in batches", async function () {
+      const dueChallengeIds = [];
+      for (let i = 0; i < 5; i++) dueChallengeIds.push(await startChallenge(challengeLength, i !== 2));
+      const longChallengeId = await startChallenge(challengeLength * 24, true);
+      const dueMultiplayerChallengeIds = [];
+      for (let i = 0; i < 3; i++) dueMultiplayerChallengeIds.push(await startMultiplayerChallenge(challengeLength));
+
+      expect(await runUpkeeps({ contracts: [challengeContract.connect(keeper), multiplayerChallenge.connect(keeper)] })).to.be.empty;
+      await time.increase(challengeLength);
+
+      const results = await runUpkeeps({
+        contracts: [challengeContract.connect(keeper), multiplayerChallenge.connect(keeper)],
+        scanLimit: 2n,
+      });
+
+      expect(results.every((result) => result.outcome === "performed")).to.be.true;
+      expect(results.every((result) => result.challengeIds.length <= 2)).to.be.true;
+      const settledOn = async (contract: IChallengeProxy | IMultiplayerChallengeProxy) => {
+        const address = await contract.getAddress();
+        return results
+          .filter((result) => result.contractAddress === address)
+          .flatMap((result) => result.challengeIds.map(Number))
+          .sort((a, b) => a - b);
+      };
+      expect(await settledOn(challengeContract)).to.deep.equal(dueChallengeIds);
+      expect(await settledOn(multiplayerChallenge)).to.deep.equal(dueMultiplayerChallengeIds);
+
+      for (const challengeId of dueChallengeIds) {
+        expect(await challengeContract.challengeToSettled(challengeId)).to.be.true;
+      }
+      for (const challengeId of dueMultiplayerChallengeIds) {
+        expect(await multiplayerChallenge.challengeToSettled(challengeId)).to.be.true;
+      }
+      expect(await challengeContract.challengeToChallengeStatus(dueChallengeIds[2])).to.equal(STATUS_CANCELLED);
+      expect(await challengeContract.challengeToSettled(longChallengeId)).to.be.false;
+      expect(await challengeContract.getOpenChallengeCount()).to.equal(1);
+      expect(await multiplayerChallenge.getOpenChallengeCount()).to.equal(0);
+    });
+  });
+});
@@ -1,7 +1,11 @@
-import { ethers, upgrades } from "hardhat";
+import hre, { ethers, upgrades } from "hardhat";
 import { Signer, BigNumberish, parseEther } from "ethers";
 import { expect } from "chai";
-import { MultiplayerChallenge, MultiplayerChallenge__factory, Vault } from "../typechain";
+import { IMultiplayerChallengeProxy, Vault } from "../typechain";
+import { deployExtensionArgs, getProxyFactory } from "../scripts/extensions";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { signMeasurementAttestation } from "../scripts/signMeasurementAttestation";
+import { inviteCodeSigner, signInviteCodeRedemption } from "../scripts/inviteCodes";
 
 const findEventArgs = (logs: any, eventName: string) => {
   let _event = null;
@@ -15,7 +19,7 @@ const findEventArgs = (logs: any, eventName: string) => {
 }
 
 describe("MultiplayerChallenge Tests", function () {
-  let multiplayerChallenge: MultiplayerChallenge;
+  let multiplayerChallenge: IMultiplayerChallengeProxy;
   let vaultContract: Vault;
   let owner: Signer;
   let competitor1: Signer;
@@ -49,7 +53,7 @@ describe("MultiplayerChallenge Tests", function () {
     await mockPriceFeed.waitForDeployment();
 
     // Deploy the MultiplayerChallenge proxy.
-    const MultiplayerChallengeFactory: MultiplayerChallenge__factory = await ethers.getContractFactory("MultiplayerChallenge");
+    const MultiplayerChallengeFactory = await getProxyFactory(hre, "MultiplayerChallenge");
     const mockPriceFeedAddress = await mockPriceFeed.getAddress();
     const maximumNumberOfBettorsPerChallenge = 100;
     const maximumNumberOfChallengeCompetitors = 3;
@@ -66,7 +70,7 @@ describe("MultiplayerChallenge Tests", function () {
         maximumChallengeLengthInSeconds,
         maximumNumberOfChallengeMetrics
       ],
-      { initializer: 'initializeMultiplayerChallenge' }
+      { initializer: 'initializeMultiplayerChallenge', constructorArgs: await deployExtensionArgs(hre, "MultiplayerChallenge") }
     );
     await multiplayerChallenge.waitForDeployment();
     const multiplayerChallengeAddress = await multiplayerChallenge.getAddress();
@@ -91,6 +95,16 @@ describe("MultiplayerChallenge Tests", function () {
       await multiplayerChallenge.connect(owner).setMaximumNumberOfChallengeCompetitors(10);
       expect(await multiplayerChallenge.maximumNumberOfChallengeCompetitors()).to.equal(10);
     });
+
+    it("should not run the migrations on a new deployment, which has no owner", async function () {
+      expect(await multiplayerChallenge.owner()).to.equal(ethers.ZeroAddress);
+      await expect(multiplayerChallenge.connect(owner).initializeAttestations())
+        .to.be.revertedWithCustomError(multiplayerChallenge, "InvalidInitialization");
+      await expect(multiplayerChallenge.connect(owner).initializeMetricRegistry())
+        .to.be.revertedWithCustomError(multiplayerChallenge, "InvalidInitialization");
+      await expect(multiplayerChallenge.connect(owner).initializeAccessControl())
+        .to.be.revertedWithCustomError(multiplayerChallenge, "InvalidInitialization");
+    });
   });
 
   describe("Creating a multiplayer challenge", function () {
@@ -257,6 +271,43 @@ describe("MultiplayerChallenge Tests", function () {
       competitor2Address = await competitor2.getAddress();
     });
 
+    it("should not start a challenge twice, after its start deadline or once it is voided", async function () {
+      await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+      const startTime = await multiplayerChallenge.challengeToStartTime(challengeId);
+      await expect(multiplayerChallenge.connect(challenger).startChallenge(challengeId))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "ChallengeIsActive").withArgs(challengeId);
+      expect(await multiplayerChallenge.challengeToStartTime(challengeId)).to.equal(startTime);
+      expect(await multiplayerChallenge.getOpenChallengeCount()).to.equal(1);
+
+      await multiplayerChallenge.connect(challenger).createMultiplayerChallenge(challengeLength, challengeMetrics, 4, { value: betAmount });
+      const lateChallengeId = BigInt(challengeId) + BigInt(1);
+      await multiplayerChallenge.connect(competitor1).joinChallenge(lateChallengeId, { value: betAmount });
+      const startDeadline = await multiplayerChallenge.challengeToStartDeadline(lateChallengeId);
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(startDeadline + BigInt(1))]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(multiplayerChallenge.connect(challenger).startChallenge(lateChallengeId))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "ChallengeStartDeadlinePassed").withArgs(lateChallengeId, startDeadline);
+      await multiplayerChallenge.connect(competitor1).claimRefund(lateChallengeId);
+      await expect(multiplayerChallenge.connect(challenger).startChallenge(lateChallengeId))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "ChallengeIsActive").withArgs(lateChallengeId);
+      expect(await multiplayerChallenge.challengeToChallengeStatus(lateChallengeId)).to.equal(5); // STATUS_CANCELLED
+      expect(await multiplayerChallenge.getOpenChallengeCount()).to.equal(1);
+    });
+
+    it("should not let competitors take back or shrink their entry stake without leaving", async function () {
+      await expect(multiplayerChallenge.connect(competitor1).cancelBet(challengeId))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "CompetitorCannotUpdateStake").withArgs(challengeId, competitor1Address);
+      await expect(multiplayerChallenge.connect(challenger).changeBet(challengeId, true, betAmount / BigInt(2)))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "CompetitorCannotUpdateStake").withArgs(challengeId, challengerAddress);
+      expect(await multiplayerChallenge.challengeToTotalAmountBetFor(challengeId)).to.equal(betAmount * BigInt(3));
+
+      // once out of the challenge, the stake can be taken back like any other bet
+      await multiplayerChallenge.connect(competitor1).leaveChallenge(challengeId);
+      await expect(multiplayerChallenge.connect(competitor1).cancelBet(challengeId)).to.changeEtherBalance(competitor1, betAmount);
+      expect(await multiplayerChallenge.challengeToTotalAmountBetFor(challengeId)).to.equal(betAmount * BigInt(2));
+    });
+
     it("should handle ties by keeping the first leader when scores are equal", async function () {
       // Initial submission by challenger
       const numberOfSteps: BigNumberish = 10000;
@@ -345,6 +396,179 @@ describe("MultiplayerChallenge Tests", function () {
     });
   });
 
+  describe("Lower-is-better and range challenges", function () {
+    const challengeLength = BigInt(60 * 60); // 1 hour
+    const DIRECTION_AT_MOST = 1;
+    const DIRECTION_WITHIN_RANGE = 2;
+
+    beforeEach(async function () {
+      competitor1Address = await competitor1.getAddress();
+      competitor2Address = await competitor2.getAddress();
+    });
+
+    const createAndStart = async (direction: number, lowerBound: number, upperBound: number) => {
+      await multiplayerChallenge.connect(challenger).createMultiplayerChallengeWithDirection(
+        challengeLength, CHALLENGE_STEPS, 3, direction, lowerBound, upperBound, { value: betAmount }
+      );
+      const challengeId = (await multiplayerChallenge.latestChallengeId()) - BigInt(1);
+      await multiplayerChallenge.connect(competitor1).joinChallenge(challengeId, { value: betAmount });
+      await multiplayerChallenge.connect(competitor2).joinChallenge(challengeId, { value: betAmount });
+      await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+      return challengeId;
+    };
+
+    it("should emit the direction and reject bounds that do not fit it", async function () {
+      await expect(multiplayerChallenge.connect(challenger).createMultiplayerChallengeWithDirection(
+        challengeLength, CHALLENGE_STEPS, 3, DIRECTION_WITHIN_RANGE, 7, 9, { value: betAmount }
+      )).to.emit(multiplayerChallenge, "ChallengeCreated")
+        .withArgs(challengerAddress, 0, challengeLength, [CHALLENGE_STEPS], [7], [DIRECTION_WITHIN_RANGE], [9]);
+
+      await expect(multiplayerChallenge.connect(challenger).createMultiplayerChallengeWithDirection(
+        challengeLength, CHALLENGE_STEPS, 3, DIRECTION_AT_MOST, 7, 0, { value: betAmount }
+      )).to.be.revertedWithCustomError(multiplayerChallenge, "InvalidMetricRange").withArgs(7, 0);
+      await expect(multiplayerChallenge.connect(challenger).createMultiplayerChallengeWithDirection(
+        challengeLength, CHALLENGE_STEPS, 3, DIRECTION_WITHIN_RANGE, 9, 7, { value: betAmount }
+      )).to.be.revertedWithCustomError(multiplayerChallenge, "InvalidMetricRange").withArgs(9, 7);
+    });
+
+    it("should validate the metric against the registry and use its default direction", async function () {
+      const RESTING_HEART_RATE = 4;
+      await expect(multiplayerChallenge.connect(challenger).createMultiplayerChallenge(challengeLength, RESTING_HEART_RATE, 3, { value: betAmount }))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "MetricNotEnabled").withArgs(RESTING_HEART_RATE);
+
+      await multiplayerChallenge.connect(owner).setMetric(RESTING_HEART_RATE, "Resting heart rate", "bpm", 0, DIRECTION_AT_MOST, 30, 120, true, false);
+      await expect(multiplayerChallenge.connect(challenger).createMultiplayerChallengeWithDirection(
+        challengeLength, RESTING_HEART_RATE, 3, DIRECTION_WITHIN_RANGE, 20, 60, { value: betAmount }
+      )).to.be.revertedWithCustomError(multiplayerChallenge, "MetricValueOutOfBounds").withArgs(RESTING_HEART_RATE, 20, 30, 120);
+
+      // without a range the target is only a placeholder, so it is not held to the metric's minimum
+      await expect(multiplayerChallenge.connect(challenger).createMultiplayerChallenge(challengeLength, RESTING_HEART_RATE, 3, { value: betAmount }))
+        .to.emit(multiplayerChallenge, "ChallengeCreated")
+        .withArgs(challengerAddress, 0, challengeLength, [RESTING_HEART_RATE], [0], [DIRECTION_AT_MOST], [0]);
+    });
+
+    it("should keep each competitor's own measurement history", async function () {
+      await multiplayerChallenge.connect(owner).setMetric(CHALLENGE_STEPS, "Steps", "steps", 0, 0, 0, 10000000, true, true);
+      const challengeId = await createAndStart(DIRECTION_AT_MOST, 0, 0);
+      const startTime = await multiplayerChallenge.challengeToStartTime(challengeId);
+
+      await expect(multiplayerChallenge.connect(competitor1).submitMeasurements(challengeId, [3000]))
+        .to.emit(multiplayerChallenge, "MeasurementsRecorded")
+        .withArgs(challengeId, competitor1Address, [3000], startTime, anyValue, 0);
+      await multiplayerChallenge.connect(competitor2).submitMeasurements(challengeId, [2500]);
+      await multiplayerChallenge.connect(competitor1).submitMeasurements(challengeId, [4200]);
+
+      // steps are now cumulative, so even a lower-is-better challenge cannot see a competitor's total shrink
+      await expect(multiplayerChallenge.connect(competitor1).submitMeasurements(challengeId, [4100]))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "CumulativeMeasurementDecreased")
+        .withArgs(CHALLENGE_STEPS, 4200, 4100);
+
+      const history = await multiplayerChallenge.getMeasurementHistory(challengeId, competitor1Address, 0, 10);
+      expect(history.map((record) => record.measurements[0])).to.deep.equal([BigInt(3000), BigInt(4200)]);
+      expect(await multiplayerChallenge.getMeasurementHistoryLength(challengeId, competitor2Address)).to.equal(1);
+    });
+
+    it("should make the lowest score the leader, ignoring competitors who have not submitted", async function () {
+      const challengeId = await createAndStart(DIRECTION_AT_MOST, 0, 0);
+
+      // the creator leads with an unsubmitted score of 0, which must not be unbeatable
+      await expect(multiplayerChallenge.connect(competitor1).submitMeasurements(challengeId, [62]))
+        .to.emit(multiplayerChallenge, "LeaderUpdated").withArgs(challengeId, competitor1Address, 62);
+      await expect(multiplayerChallenge.connect(competitor2).submitMeasurements(challengeId, [70]))
+        .to.emit(multiplayerChallenge, "LeaderNotUpdated").withArgs(challengeId, competitor2Address, competitor1Address, 62);
+      await expect(multiplayerChallenge.connect(challenger).submitMeasurements(challengeId, [58]))
+        .to.emit(multiplayerChallenge, "LeaderUpdated").withArgs(challengeId, challengerAddress, 58);
+
+      await ethers.provider.send("evm_increaseTime", [Number(challengeLength) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await multiplayerChallenge.connect(competitor1).settleChallenge(challengeId);
+      expect(await multiplayerChallenge.challengeToClaimableWinnings(challengeId, challengerAddress)).to.equal(betAmount * BigInt(3));
+    });
+
+    it("should make the score closest to the range the leader", async function () {
+      const challengeId = await createAndStart(DIRECTION_WITHIN_RANGE, 7, 9);
+
+      await multiplayerChallenge.connect(competitor1).submitMeasurements(challengeId, [12]); // 3 above the range
+      await multiplayerChallenge.connect(competitor2).submitMeasurements(challengeId, [5]); // 2 below the range
+      expect(await multiplayerChallenge.getLeader(challengeId)).to.equal(competitor2Address);
+
+      await multiplayerChallenge.connect(challenger).submitMeasurements(challengeId, [9]);
+      expect(await multiplayerChallenge.getLeader(challengeId)).to.equal(challengerAddress);
+
+      // every score inside the range is as good as any other, so the first one in keeps the lead
+      await multiplayerChallenge.connect(competitor1).submitMeasurements(challengeId, [8]);
+      expect(await multiplayerChallenge.getLeader(challengeId)).to.equal(challengerAddress);
+    });
+  });
+
+  describe("Attested multiplayer challenges", function () {
+    const challengeLength = BigInt(60 * 60); // 1 hour
+    let challengeId: bigint;
+    let attester: Signer;
+
+    beforeEach(async function () {
+      attester = nonCompetitor;
+      await multiplayerChallenge.connect(owner).setMeasurementAttester(await attester.getAddress(), true);
+
+      await expect(multiplayerChallenge.connect(challenger).createAttestedMultiplayerChallenge(
+        challengeLength,
+        CHALLENGE_STEPS,
+        3,
+        { value: betAmount }
+      )).to.emit(multiplayerChallenge, "ChallengeRequiresAttestation");
+
+      const challengeIds = await multiplayerChallenge.getChallengesForChallenger(challengerAddress);
+      challengeId = challengeIds[0];
+
+      await multiplayerChallenge.connect(competitor1).joinChallenge(challengeId, { value: betAmount });
+      competitor1Address = await competitor1.getAddress();
+      await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+    });
+
+    it("should reject unsigned measurements from competitors", async function () {
+      await expect(multiplayerChallenge.connect(competitor1).submitMeasurements(challengeId, [10000]))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "AttestationRequired");
+    });
+
+    it("should update the leader from a signed measurement", async function () {
+      const startTime = await multiplayerChallenge.challengeToStartTime(challengeId);
+      const attestation = {
+        challengeId,
+        participant: competitor1Address,
+        metrics: await multiplayerChallenge.getChallengeMetrics(challengeId),
+        measurements: [15000],
+        windowStart: startTime,
+        windowEnd: startTime + challengeLength,
+        nonce: await multiplayerChallenge.nonces(competitor1Address),
+      };
+      const signature = await signMeasurementAttestation(
+        attester,
+        (await ethers.provider.getNetwork()).chainId,
+        await multiplayerChallenge.getAddress(),
+        attestation
+      );
+
+      await expect(multiplayerChallenge.connect(competitor1).submitAttestedMeasurements(
+        challengeId,
+        competitor1Address,
+        attestation.measurements,
+        attestation.windowStart,
+        attestation.windowEnd,
+        attestation.nonce,
+        signature
+      )).to.emit(multiplayerChallenge, "LeaderUpdated").withArgs(challengeId, competitor1Address, 15000);
+
+      expect(await multiplayerChallenge.getLeader(challengeId)).to.equal(competitor1Address);
+    });
+
+    it("should not accept signed measurements for someone who is not competing", async function () {
+      const nonCompetitorAddress = await nonCompetitor.getAddress();
+      await expect(multiplayerChallenge.submitAttestedMeasurements(challengeId, nonCompetitorAddress, [15000], 0, 0, 0, "0x"))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "ChallengeCompetitorNotJoined")
+        .withArgs(challengeId, nonCompetitorAddress);
+    });
+  });
+
   describe("Ending a multiplayer challenge", function () {
     const challengeMetrics: BigNumberish = CHALLENGE_STEPS;
     const challengeLength = BigInt(60 * 60); // 1 hour
@@ -428,5 +652,539 @@ describe("MultiplayerChallenge Tests", function () {
       const competitor2Balance = await ethers.provider.getBalance(await competitor2.getAddress());
       expect(competitor2Balance).to.be.closeTo(initialCompetitor2Balance - parseEther("0.05"), parseEther("0.001"));
     });
+
+    it("should let anyone settle and the leader claim the pot", async function () {
+      await multiplayerChallenge.connect(competitor1).submitMeasurements(challengeId, [12000]);
+      await multiplayerChallenge.connect(competitor2).submitMeasurements(challengeId, [5000]);
+
+      const challengeStartTime = await multiplayerChallenge.challengeToStartTime(challengeId);
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(challengeStartTime + challengeLength + BigInt(100))]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(multiplayerChallenge.connect(competitor2).settleChallenge(challengeId))
+        .to.emit(multiplayerChallenge, "WinningsClaimable").withArgs(challengeId, competitor1Address, parseEther("0.15"));
+      expect(await multiplayerChallenge.challengeToChallengeStatus(challengeId)).to.equal(2); // STATUS_EXPIRED
+
+      await expect(multiplayerChallenge.connect(competitor2).claimWinnings(challengeId))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "NoWinningsToClaim").withArgs(competitor2Address);
+      await expect(multiplayerChallenge.connect(competitor1).claimWinnings(challengeId))
+        .to.changeEtherBalance(competitor1, parseEther("0.15"));
+    });
+
+    it("should settle straight away even with a dispute window", async function () {
+      await multiplayerChallenge.connect(owner).setDisputeWindow(24 * 60 * 60);
+      await multiplayerChallenge.connect(competitor1).submitMeasurements(challengeId, [12000]);
+
+      const challengeStartTime = await multiplayerChallenge.challengeToStartTime(challengeId);
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(challengeStartTime + challengeLength + BigInt(100))]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(multiplayerChallenge.connect(competitor2).settleChallenge(challengeId))
+        .to.emit(multiplayerChallenge, "ChallengeSettled")
+        .and.not.to.emit(multiplayerChallenge, "OutcomeProposed");
+      await expect(multiplayerChallenge.connect(competitor2).disputeOutcome(challengeId))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "WinningsAlreadyPaid").withArgs(challengeId);
+    });
+
+    it("should take the protocol fee only from the other competitors' stakes", async function () {
+      await multiplayerChallenge.connect(owner).setProtocolFee(1000);
+      await multiplayerChallenge.connect(competitor1).submitMeasurements(challengeId, [12000]);
+
+      const expectedPayout = parseEther("0.15") - parseEther("0.01"); // 10% of the two losing stakes
+      expect(await multiplayerChallenge.previewNetPayout(challengeId, competitor1Address)).to.equal(expectedPayout);
+
+      const challengeStartTime = await multiplayerChallenge.challengeToStartTime(challengeId);
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(challengeStartTime + challengeLength + BigInt(100))]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(multiplayerChallenge.connect(owner).distributeWinnings(challengeId))
+        .to.emit(multiplayerChallenge, "ProtocolFeeAccrued").withArgs(challengeId, parseEther("0.01"))
+        .and.to.emit(multiplayerChallenge, "WinningsDistributed").withArgs(challengeId, competitor1Address, expectedPayout);
+    });
+
+    it("should refund every competitor when nobody submits measurements", async function () {
+      const challengeStartTime = await multiplayerChallenge.challengeToStartTime(challengeId);
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(challengeStartTime + challengeLength + BigInt(100))]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(multiplayerChallenge.connect(competitor2).settleChallenge(challengeId))
+        .to.emit(multiplayerChallenge, "ChallengeVoided").withArgs(challengeId);
+      expect(await multiplayerChallenge.challengeToChallengeStatus(challengeId)).to.equal(5); // STATUS_CANCELLED
+
+      await expect(multiplayerChallenge.connect(challenger).claimRefund(challengeId)).to.changeEtherBalance(challenger, parseEther("0.05"));
+      await expect(multiplayerChallenge.connect(competitor1).claimRefund(challengeId)).to.changeEtherBalance(competitor1, parseEther("0.05"));
+      await expect(multiplayerChallenge.connect(competitor2).claimRefund(challengeId)).to.changeEtherBalance(competitor2, parseEther("0.05"));
+    });
+  });
+
+  describe("Top-N payouts", function () {
+    const challengeLength = BigInt(60 * 60); // 1 hour
+    const payoutSchedule = [6000, 3000, 1000];
+    let competitors: Signer[];
+    let addresses: string[];
+    let challengeId: bigint;
+
+    const endChallenge = async () => {
+      const challengeStartTime = await multiplayerChallenge.challengeToStartTime(challengeId);
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(challengeStartTime + challengeLength + BigInt(100))]);
+      await ethers.provider.send("evm_mine", []);
+    };
+
+    beforeEach(async function () {
+      const signers = await ethers.getSigners();
+      competitors = [challenger, competitor1, competitor2, signers[6], signers[7]];
+      addresses = await Promise.all(competitors.map((competitor) => competitor.getAddress()));
+      await multiplayerChallenge.connect(owner).setMaximumNumberOfChallengeCompetitors(6);
+      await multiplayerChallenge.connect(owner).addNewBettor(addresses[3]);
+      await multiplayerChallenge.connect(owner).addNewBettor(addresses[4]);
+
+      await expect(multiplayerChallenge.connect(challenger).createMultiplayerChallengeWithPayouts(
+        challengeLength, CHALLENGE_STEPS, 5, payoutSchedule, { value: betAmount }
+      )).to.emit(multiplayerChallenge, "PayoutScheduleSet").withArgs(0, payoutSchedule);
+      challengeId = BigInt(0);
+
+      for (const competitor of competitors.slice(1)) {
+        await multiplayerChallenge.connect(competitor).joinChallenge(challengeId, { value: betAmount });
+      }
+      await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+    });
+
+    it("should reject payout schedules that do not split the whole pot from the top down", async function () {
+      const invalidSchedules = [[], [3000, 7000], [6000, 3000], [6000, 4000, 0], [4000, 2000, 2000, 1000, 500, 500]];
+      for (const schedule of invalidSchedules) {
+        await expect(multiplayerChallenge.connect(challenger).createMultiplayerChallengeWithPayouts(
+          challengeLength, CHALLENGE_STEPS, 5, schedule, { value: betAmount }
+        )).to.be.revertedWithCustomError(multiplayerChallenge, "InvalidPayoutSchedule");
+      }
+
+      expect(await multiplayerChallenge.getPayoutSchedule(challengeId)).to.deep.equal(payoutSchedule.map(BigInt));
+    });
+
+    it("should order the standings by score with competitors who have not submitted last", async function () {
+      await multiplayerChallenge.connect(competitors[1]).submitMeasurements(challengeId, [300]);
+      await multiplayerChallenge.connect(competitors[3]).submitMeasurements(challengeId, [800]);
+      await multiplayerChallenge.connect(competitors[4]).submitMeasurements(challengeId, [300]);
+
+      const [ranked, scores, finishers] = await multiplayerChallenge.getStandings(challengeId);
+      // tied competitors keep the order they joined in
+      expect(ranked).to.deep.equal([addresses[3], addresses[1], addresses[4], addresses[0], addresses[2]]);
+      expect(scores).to.deep.equal([800, 300, 300, 0, 0].map(BigInt));
+      expect(finishers).to.equal(3);
+    });
+
+    it("should split a tie at the cutoff position evenly", async function () {
+      const scores = [500, 400, 300, 300];
+      for (const [index, score] of scores.entries()) {
+        await multiplayerChallenge.connect(competitors[index]).submitMeasurements(challengeId, [score]);
+      }
+      await endChallenge();
+
+      const pot = betAmount * BigInt(5);
+      await multiplayerChallenge.connect(nonCompetitor).settleChallenge(challengeId);
+
+      const expectedWinnings = [pot * BigInt(6000), pot * BigInt(3000), pot * BigInt(500), pot * BigInt(500), BigInt(0)].map((amount) => amount / BigInt(10000));
+      for (const [index, address] of addresses.entries()) {
+        expect(await multiplayerChallenge.challengeToClaimableWinnings(challengeId, address)).to.equal(expectedWinnings[index]);
+      }
+      expect(await multiplayerChallenge.challengeToProtocolFee(challengeId)).to.equal(0);
+
+      const distribution = multiplayerChallenge.connect(owner).distributeWinnings(challengeId);
+      await expect(distribution).to.changeEtherBalances(competitors, expectedWinnings);
+    });
+
+    it("should spread the unfilled slots over fewer finishers and take the fee from unpaid stakes only", async function () {
+      await multiplayerChallenge.connect(owner).setProtocolFee(1000);
+      await multiplayerChallenge.connect(competitors[2]).submitMeasurements(challengeId, [900]);
+      await multiplayerChallenge.connect(competitors[4]).submitMeasurements(challengeId, [1200]);
+      await endChallenge();
+
+      const pot = betAmount * BigInt(5);
+      const netWinnings = pot - (betAmount * BigInt(3)) / BigInt(10); // 10% of the three unpaid stakes
+      const firstPlace = (netWinnings * BigInt(6000)) / BigInt(9000);
+      const secondPlace = (netWinnings * BigInt(3000)) / BigInt(9000);
+
+      await expect(multiplayerChallenge.connect(nonCompetitor).settleChallenge(challengeId))
+        .to.emit(multiplayerChallenge, "WinningsClaimable").withArgs(challengeId, addresses[4], firstPlace)
+        .and.to.emit(multiplayerChallenge, "WinningsClaimable").withArgs(challengeId, addresses[2], secondPlace)
+        .and.to.emit(multiplayerChallenge, "ProtocolFeeAccrued").withArgs(challengeId, pot - firstPlace - secondPlace);
+      expect(await multiplayerChallenge.challengeToClaimableWinnings(challengeId, addresses[0])).to.equal(0);
+    });
+  });
+
+  describe("Spectator betting", function () {
+    const challengeLength = BigInt(60 * 60); // 1 hour
+    const challengeId = BigInt(0);
+    let spectator1: Signer;
+    let spectator2: Signer;
+    let spectator1Address: string;
+    let spectator2Address: string;
+
+    const endChallenge = async () => {
+      const challengeStartTime = await multiplayerChallenge.challengeToStartTime(challengeId);
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(challengeStartTime + challengeLength + BigInt(100))]);
+      await ethers.provider.send("evm_mine", []);
+    };
+
+    beforeEach(async function () {
+      [spectator1, spectator2] = [competitor3, nonCompetitor];
+      spectator1Address = await spectator1.getAddress();
+      spectator2Address = await spectator2.getAddress();
+      competitor1Address = await competitor1.getAddress();
+      competitor2Address = await competitor2.getAddress();
+      await multiplayerChallenge.connect(owner).addNewBettor(spectator1Address);
+      await multiplayerChallenge.connect(owner).addNewBettor(spectator2Address);
+
+      await multiplayerChallenge.connect(owner).setMaximumNumberOfChallengeCompetitors(4);
+      await multiplayerChallenge.connect(challenger).createMultiplayerChallenge(challengeLength, CHALLENGE_STEPS, 4, { value: betAmount });
+      await multiplayerChallenge.connect(competitor1).joinChallenge(challengeId, { value: betAmount });
+      await multiplayerChallenge.connect(competitor2).joinChallenge(challengeId, { value: betAmount });
+    });
+
+    it("should only take stakes from whitelisted non-competitors on competitors before the start", async function () {
+      const signers = await ethers.getSigners();
+      await expect(multiplayerChallenge.connect(signers[6]).placeSpectatorBet(challengeId, competitor1Address, { value: betAmount }))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "BettorNotInWhitelist");
+      await expect(multiplayerChallenge.connect(competitor2).placeSpectatorBet(challengeId, competitor1Address, { value: betAmount }))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "SpectatorCannotCompete").withArgs(challengeId, competitor2Address);
+      await expect(multiplayerChallenge.connect(spectator1).placeSpectatorBet(challengeId, spectator2Address, { value: betAmount }))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "ChallengeCompetitorNotJoined").withArgs(challengeId, spectator2Address);
+
+      await expect(multiplayerChallenge.connect(spectator1).placeSpectatorBet(challengeId, competitor1Address, { value: betAmount }))
+        .to.emit(multiplayerChallenge, "SpectatorBetPlaced").withArgs(challengeId, spectator1Address, competitor1Address, betAmount);
+      // backing a competitor rules out competing against them
+      await expect(multiplayerChallenge.connect(spectator1).joinChallenge(challengeId, { value: betAmount }))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "SpectatorCannotCompete").withArgs(challengeId, spectator1Address);
+
+      await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+      await expect(multiplayerChallenge.connect(spectator2).placeSpectatorBet(challengeId, competitor1Address, { value: betAmount }))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "ChallengeCannotBeModified");
+    });
+
+    it("should keep the spectator pool apart from the entry pot and report implied odds", async function () {
+      await multiplayerChallenge.connect(spectator1).placeSpectatorBet(challengeId, competitor1Address, { value: parseEther("0.1") });
+      await multiplayerChallenge.connect(spectator2).placeSpectatorBet(challengeId, competitor2Address, { value: parseEther("0.3") });
+
+      expect(await multiplayerChallenge.challengeToTotalAmountBetFor(challengeId)).to.equal(betAmount * BigInt(3));
+      expect(await multiplayerChallenge.challengeToSpectatorPool(challengeId)).to.equal(parseEther("0.4"));
+
+      const [competitors, stakes, decimalOdds] = await multiplayerChallenge.getSpectatorOdds(challengeId);
+      expect(competitors).to.deep.equal([challengerAddress, competitor1Address, competitor2Address]);
+      expect(stakes).to.deep.equal([BigInt(0), parseEther("0.1"), parseEther("0.3")]);
+      expect(decimalOdds).to.deep.equal([BigInt(0), parseEther("4"), parseEther("0.4") * BigInt(1e18) / parseEther("0.3")]);
+
+      // the fee only comes out of the stakes on the other competitors
+      await multiplayerChallenge.connect(owner).setProtocolFee(1000);
+      const [, , oddsAfterFee] = await multiplayerChallenge.getSpectatorOdds(challengeId);
+      expect(oddsAfterFee[1]).to.equal(parseEther("3.7"));
+    });
+
+    it("should pay the spectators who backed the leader from the spectator pool", async function () {
+      await multiplayerChallenge.connect(owner).setProtocolFee(1000);
+      await multiplayerChallenge.connect(spectator1).placeSpectatorBet(challengeId, competitor1Address, { value: parseEther("0.1") });
+      await multiplayerChallenge.connect(spectator2).placeSpectatorBet(challengeId, competitor2Address, { value: parseEther("0.3") });
+      await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+      await multiplayerChallenge.connect(competitor1).submitMeasurements(challengeId, [12000]);
+      await multiplayerChallenge.connect(competitor2).submitMeasurements(challengeId, [9000]);
+      await endChallenge();
+
+      const entryFee = (betAmount * BigInt(2)) / BigInt(10);
+      const spectatorFee = parseEther("0.03");
+      await expect(multiplayerChallenge.connect(spectator2).settleChallenge(challengeId))
+        .to.emit(multiplayerChallenge, "WinningsClaimable").withArgs(challengeId, competitor1Address, betAmount * BigInt(3) - entryFee);
+      expect(await multiplayerChallenge.challengeToProtocolFee(challengeId)).to.equal(entryFee + spectatorFee);
+
+      await expect(multiplayerChallenge.connect(spectator2).claimSpectatorWinnings(challengeId, competitor2Address))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "NoWinningsToClaim");
+      await expect(multiplayerChallenge.connect(spectator2).claimSpectatorRefund(challengeId, competitor2Address))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "SpectatorBetNotRefundable").withArgs(challengeId, competitor2Address);
+
+      const claim = multiplayerChallenge.connect(spectator1).claimSpectatorWinnings(challengeId, competitor1Address);
+      await expect(claim).to.emit(multiplayerChallenge, "SpectatorWinningsClaimed").withArgs(challengeId, spectator1Address, competitor1Address, parseEther("0.37"));
+      await expect(claim).to.changeEtherBalance(spectator1, parseEther("0.37"));
+      await expect(multiplayerChallenge.connect(spectator1).claimSpectatorWinnings(challengeId, competitor1Address))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "NoWinningsToClaim");
+    });
+
+    it("should send the spectator pool's rounding dust to the protocol once every winning stake is claimed", async function () {
+      await multiplayerChallenge.connect(spectator1).placeSpectatorBet(challengeId, competitor1Address, { value: parseEther("0.1") });
+      await multiplayerChallenge.connect(spectator2).placeSpectatorBet(challengeId, competitor1Address, { value: parseEther("0.2") });
+      await multiplayerChallenge.connect(spectator1).placeSpectatorBet(challengeId, competitor2Address, { value: parseEther("0.1") + BigInt(1) });
+      await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+      await multiplayerChallenge.connect(competitor1).submitMeasurements(challengeId, [12000]);
+      await endChallenge();
+      await multiplayerChallenge.connect(spectator1).settleChallenge(challengeId);
+      const feeAtSettlement = await multiplayerChallenge.challengeToProtocolFee(challengeId);
+
+      // the 0.4 ETH and 1 wei pool splits into a third and two thirds, both rounded down, leaving a wei behind
+      const pool = parseEther("0.4") + BigInt(1);
+      await expect(multiplayerChallenge.connect(spectator1).claimSpectatorWinnings(challengeId, competitor1Address))
+        .to.emit(multiplayerChallenge, "SpectatorWinningsClaimed").withArgs(challengeId, spectator1Address, competitor1Address, pool / BigInt(3))
+        .and.not.to.emit(multiplayerChallenge, "ProtocolFeeAccrued");
+      await expect(multiplayerChallenge.connect(spectator2).claimSpectatorWinnings(challengeId, competitor1Address))
+        .to.emit(multiplayerChallenge, "SpectatorWinningsClaimed").withArgs(challengeId, spectator2Address, competitor1Address, pool * BigInt(2) / BigInt(3))
+        .and.to.emit(multiplayerChallenge, "ProtocolFeeAccrued").withArgs(challengeId, 1);
+      expect(await multiplayerChallenge.challengeToProtocolFee(challengeId)).to.equal(feeAtSettlement + BigInt(1));
+    });
+
+    it("should refund stakes on a competitor who leaves before the start", async function () {
+      await multiplayerChallenge.connect(spectator1).placeSpectatorBet(challengeId, competitor2Address, { value: parseEther("0.1") });
+      await multiplayerChallenge.connect(spectator2).placeSpectatorBet(challengeId, competitor1Address, { value: parseEther("0.2") });
+      await expect(multiplayerChallenge.connect(spectator1).claimSpectatorRefund(challengeId, competitor2Address))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "ChallengeCannotBeVoided");
+
+      await multiplayerChallenge.connect(competitor2).leaveChallenge(challengeId);
+      expect(await multiplayerChallenge.challengeToSpectatorPool(challengeId)).to.equal(parseEther("0.2"));
+      await expect(multiplayerChallenge.connect(spectator2).placeSpectatorBet(challengeId, competitor2Address, { value: betAmount }))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "SpectatorBetsVoided").withArgs(challengeId, competitor2Address);
+
+      const refund = multiplayerChallenge.connect(spectator1).claimSpectatorRefund(challengeId, competitor2Address);
+      await expect(refund).to.emit(multiplayerChallenge, "SpectatorBetRefunded").withArgs(challengeId, spectator1Address, competitor2Address, parseEther("0.1"));
+      await expect(refund).to.changeEtherBalance(spectator1, parseEther("0.1"));
+    });
+
+    it("should refund every spectator when nobody backed the winner", async function () {
+      await multiplayerChallenge.connect(spectator1).placeSpectatorBet(challengeId, competitor2Address, { value: parseEther("0.1") });
+      await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+      await multiplayerChallenge.connect(competitor1).submitMeasurements(challengeId, [12000]);
+      await endChallenge();
+      await multiplayerChallenge.connect(spectator1).settleChallenge(challengeId);
+
+      await expect(multiplayerChallenge.connect(spectator1).claimSpectatorRefund(challengeId, competitor2Address))
+        .to.changeEtherBalance(spectator1, parseEther("0.1"));
+    });
+  });
+
+  describe("Team challenges", function () {
+    const challengeLength = BigInt(60 * 60); // 1 hour
+    const TEAM_SCORE_TOTAL = 0;
+    const TEAM_SCORE_AVERAGE = 1;
+    const challengeId = BigInt(0);
+    let teamA: Signer[];
+    let teamB: Signer[];
+    let teamAAddresses: string[];
+    let teamBAddresses: string[];
+
+    const endChallenge = async () => {
+      const challengeStartTime = await multiplayerChallenge.challengeToStartTime(challengeId);
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(challengeStartTime + challengeLength + BigInt(100))]);
+      await ethers.provider.send("evm_mine", []);
+    };
+
+    // team A has room for three members and team B for two, with competitor1 staking twice as much as everybody else
+    const createTeams = async (aggregation: number, metric = CHALLENGE_STEPS) => {
+      await multiplayerChallenge.connect(challenger).createTeamChallenge(challengeLength, metric, [3, 2], aggregation, 0, { value: betAmount });
+      await multiplayerChallenge.connect(teamA[1]).joinTeam(challengeId, 0, { value: betAmount * BigInt(2) });
+      await multiplayerChallenge.connect(teamA[2]).joinTeam(challengeId, 0, { value: betAmount });
+      for (const member of teamB) {
+        await multiplayerChallenge.connect(member).joinTeam(challengeId, 1, { value: betAmount });
+      }
+    };
+
+    const submitScores = async (members: Signer[], scores: number[]) => {
+      for (const [index, member] of members.entries()) {
+        await multiplayerChallenge.connect(member).submitMeasurements(challengeId, [scores[index]]);
+      }
+    };
+
+    beforeEach(async function () {
+      const signers = await ethers.getSigners();
+      teamA = [challenger, competitor1, signers[6]];
+      teamB = [competitor2, signers[7]];
+      teamAAddresses = await Promise.all(teamA.map((member) => member.getAddress()));
+      teamBAddresses = await Promise.all(teamB.map((member) => member.getAddress()));
+      await multiplayerChallenge.connect(owner).setMaximumNumberOfChallengeCompetitors(6);
+      await multiplayerChallenge.connect(owner).addNewBettor(teamAAddresses[2]);
+      await multiplayerChallenge.connect(owner).addNewBettor(teamBAddresses[1]);
+      await multiplayerChallenge.connect(owner).addNewBettor(await competitor3.getAddress());
+    });
+
+    it("should reject invalid teams and only let competitors join teams with room", async function () {
+      const invalidTeams: [number[], number][] = [[[5], TEAM_SCORE_TOTAL], [[2, 0], TEAM_SCORE_TOTAL], [[2, 2], 2]];
+      for (const [teamCaps, aggregation] of invalidTeams) {
+        await expect(multiplayerChallenge.connect(challenger).createTeamChallenge(
+          challengeLength, CHALLENGE_STEPS, teamCaps, aggregation, 0, { value: betAmount }
+        )).to.be.revertedWithCustomError(multiplayerChallenge, "InvalidTeamConfiguration");
+      }
+      await expect(multiplayerChallenge.connect(challenger).createTeamChallenge(
+        challengeLength, CHALLENGE_STEPS, [3, 2], TEAM_SCORE_TOTAL, 2, { value: betAmount }
+      )).to.be.revertedWithCustomError(multiplayerChallenge, "InvalidTeam").withArgs(challengeId, 2);
+
+      await expect(multiplayerChallenge.connect(challenger).createTeamChallenge(
+        challengeLength, CHALLENGE_STEPS, [3, 2], TEAM_SCORE_TOTAL, 0, { value: betAmount }
+      )).to.emit(multiplayerChallenge, "TeamChallengeCreated").withArgs(challengeId, [3, 2], TEAM_SCORE_TOTAL)
+        .and.to.emit(multiplayerChallenge, "TeamJoined").withArgs(challengeId, 0, challengerAddress);
+      expect(await multiplayerChallenge.challengeToMaxCompetitors(challengeId)).to.equal(5);
+
+      await expect(multiplayerChallenge.connect(competitor1).joinChallenge(challengeId, { value: betAmount }))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "TeamRequired").withArgs(challengeId);
+      for (const member of teamB) {
+        await multiplayerChallenge.connect(member).joinTeam(challengeId, 1, { value: betAmount });
+      }
+      await expect(multiplayerChallenge.connect(competitor1).joinTeam(challengeId, 1, { value: betAmount }))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "TeamIsFull").withArgs(challengeId, 1);
+
+      await expect(multiplayerChallenge.connect(competitor1).joinTeam(challengeId, 0, { value: betAmount }))
+        .to.emit(multiplayerChallenge, "TeamJoined").withArgs(challengeId, 0, teamAAddresses[1]);
+      expect(await multiplayerChallenge.getCompetitorTeam(challengeId, teamBAddresses[1])).to.equal(1);
+    });
+
+    it("should let the larger team win on its total and split the pot pro rata to stake", async function () {
+      await multiplayerChallenge.connect(owner).setProtocolFee(1000);
+      await createTeams(TEAM_SCORE_TOTAL);
+      await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+
+      await submitScores(teamA, [300, 300, 300]);
+      await submitScores(teamB, [400, 400]);
+      await expect(multiplayerChallenge.connect(teamB[0]).submitMeasurements(challengeId, [450]))
+        .to.emit(multiplayerChallenge, "TeamScoreUpdated").withArgs(challengeId, 1, teamBAddresses[0], 850);
+
+      const [caps, sizes, scores] = await multiplayerChallenge.getTeams(challengeId);
+      expect(caps).to.deep.equal([BigInt(3), BigInt(2)]);
+      expect(sizes).to.deep.equal([BigInt(3), BigInt(2)]);
+      expect(scores).to.deep.equal([BigInt(900), BigInt(850)]);
+      await endChallenge();
+
+      // the fee is 10% of team B's two stakes, and competitor1 gets two of the four shares for staking twice as much
+      const netWinnings = betAmount * BigInt(6) - (betAmount * BigInt(2)) / BigInt(10);
+      await expect(multiplayerChallenge.connect(nonCompetitor).settleChallenge(challengeId))
+        .to.emit(multiplayerChallenge, "WinningsClaimable").withArgs(challengeId, teamAAddresses[0], netWinnings / BigInt(4))
+        .and.to.emit(multiplayerChallenge, "WinningsClaimable").withArgs(challengeId, teamAAddresses[1], netWinnings / BigInt(2))
+        .and.to.emit(multiplayerChallenge, "WinningsClaimable").withArgs(challengeId, teamAAddresses[2], netWinnings / BigInt(4));
+      for (const address of teamBAddresses) {
+        expect(await multiplayerChallenge.challengeToClaimableWinnings(challengeId, address)).to.equal(0);
+      }
+      expect(await multiplayerChallenge.challengeToProtocolFee(challengeId)).to.equal((betAmount * BigInt(2)) / BigInt(10));
+    });
+
+    it("should let the smaller team win on its average", async function () {
+      await createTeams(TEAM_SCORE_AVERAGE);
+      await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+
+      await submitScores(teamA, [300, 300, 300]);
+      await expect(multiplayerChallenge.connect(teamB[0]).submitMeasurements(challengeId, [400]))
+        .to.emit(multiplayerChallenge, "TeamScoreUpdated").withArgs(challengeId, 1, teamBAddresses[0], 400);
+      await expect(multiplayerChallenge.connect(teamB[1]).submitMeasurements(challengeId, [200]))
+        .to.emit(multiplayerChallenge, "TeamScoreUpdated").withArgs(challengeId, 1, teamBAddresses[1], 300);
+      await multiplayerChallenge.connect(teamB[1]).submitMeasurements(challengeId, [400]);
+      await endChallenge();
+
+      const settlement = multiplayerChallenge.connect(nonCompetitor).settleChallenge(challengeId);
+      await expect(settlement).to.emit(multiplayerChallenge, "WinningsClaimable").withArgs(challengeId, teamBAddresses[0], betAmount * BigInt(3))
+        .and.to.emit(multiplayerChallenge, "WinningsClaimable").withArgs(challengeId, teamBAddresses[1], betAmount * BigInt(3));
+      expect(await multiplayerChallenge.challengeToClaimableWinnings(challengeId, teamAAddresses[1])).to.equal(0);
+    });
+
+    it("should leave members who leave before the start out of their team's score and the payout", async function () {
+      await createTeams(TEAM_SCORE_AVERAGE);
+      await expect(multiplayerChallenge.connect(teamA[2]).leaveChallenge(challengeId))
+        .to.emit(multiplayerChallenge, "TeamLeft").withArgs(challengeId, 0, teamAAddresses[2]);
+      await expect(multiplayerChallenge.getCompetitorTeam(challengeId, teamAAddresses[2]))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "ChallengeCompetitorNotJoined").withArgs(challengeId, teamAAddresses[2]);
+      // the seat they left can be taken again
+      await expect(multiplayerChallenge.connect(competitor3).joinTeam(challengeId, 0, { value: betAmount }))
+        .to.emit(multiplayerChallenge, "TeamJoined").withArgs(challengeId, 0, await competitor3.getAddress());
+      await multiplayerChallenge.connect(competitor3).leaveChallenge(challengeId);
+      await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+
+      // team A averages over its two remaining members
+      await submitScores(teamA.slice(0, 2), [300, 300]);
+      await submitScores(teamB, [250, 250]);
+      const [, sizes, scores] = await multiplayerChallenge.getTeams(challengeId);
+      expect(sizes).to.deep.equal([BigInt(2), BigInt(2)]);
+      expect(scores).to.deep.equal([BigInt(300), BigInt(250)]);
+      await endChallenge();
+
+      // the stakes left behind stay in the pot, split over the remaining members' stakes of one and two bets
+      const pot = betAmount * BigInt(7);
+      await multiplayerChallenge.connect(nonCompetitor).settleChallenge(challengeId);
+      expect(await multiplayerChallenge.challengeToClaimableWinnings(challengeId, teamAAddresses[0])).to.equal(pot / BigInt(3));
+      expect(await multiplayerChallenge.challengeToClaimableWinnings(challengeId, teamAAddresses[1])).to.equal((pot * BigInt(2)) / BigInt(3));
+      expect(await multiplayerChallenge.challengeToClaimableWinnings(challengeId, teamAAddresses[2])).to.equal(0);
+    });
+
+    it("should keep every other member in the challenge when a member other than the last one leaves", async function () {
+      await createTeams(TEAM_SCORE_TOTAL);
+      await multiplayerChallenge.connect(teamA[1]).leaveChallenge(challengeId);
+      expect(await multiplayerChallenge.getCompetitors(challengeId)).to.deep.equal([teamAAddresses[0], teamAAddresses[2], ...teamBAddresses]);
+      await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+
+      await submitScores([teamA[0], teamA[2]], [100, 100]);
+      await submitScores(teamB, [150, 150]);
+      const [, sizes, scores] = await multiplayerChallenge.getTeams(challengeId);
+      expect(sizes).to.deep.equal([BigInt(2), BigInt(2)]);
+      expect(scores).to.deep.equal([BigInt(200), BigInt(300)]);
+      await endChallenge();
+
+      // the stake left behind stays in the pot, and both members of team B are paid for it
+      await multiplayerChallenge.connect(nonCompetitor).settleChallenge(challengeId);
+      for (const address of teamBAddresses) {
+        expect(await multiplayerChallenge.challengeToClaimableWinnings(challengeId, address)).to.equal(betAmount * BigInt(3));
+      }
+      for (const address of teamAAddresses) {
+        expect(await multiplayerChallenge.challengeToClaimableWinnings(challengeId, address)).to.equal(0);
+      }
+    });
+
+    it("should average lower-is-better scores over the members who submitted and not allow totals", async function () {
+      const RESTING_HEART_RATE = 4;
+      const DIRECTION_AT_MOST = 1;
+      await multiplayerChallenge.connect(owner).setMetric(RESTING_HEART_RATE, "Resting heart rate", "bpm", 0, DIRECTION_AT_MOST, 30, 120, true, false);
+      await expect(multiplayerChallenge.connect(challenger).createTeamChallenge(
+        challengeLength, RESTING_HEART_RATE, [3, 2], TEAM_SCORE_TOTAL, 0, { value: betAmount }
+      )).to.be.revertedWithCustomError(multiplayerChallenge, "InvalidTeamConfiguration");
+
+      await createTeams(TEAM_SCORE_AVERAGE, RESTING_HEART_RATE);
+      await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+
+      // team A's two silent members do not count as resting at 0 bpm, so its only score of 60 loses to team B's average of 56
+      await expect(multiplayerChallenge.connect(teamA[0]).submitMeasurements(challengeId, [60]))
+        .to.emit(multiplayerChallenge, "TeamScoreUpdated").withArgs(challengeId, 0, teamAAddresses[0], 60);
+      await submitScores(teamB, [55, 58]);
+      await endChallenge();
+
+      await multiplayerChallenge.connect(nonCompetitor).settleChallenge(challengeId);
+      for (const address of teamBAddresses) {
+        expect(await multiplayerChallenge.challengeToClaimableWinnings(challengeId, address)).to.equal(betAmount * BigInt(3));
+      }
+      expect(await multiplayerChallenge.challengeToClaimableWinnings(challengeId, teamAAddresses[0])).to.equal(0);
+    });
+  });
+
+  describe("Invite-only challenges", function () {
+    const challengeLength = BigInt(60 * 60); // 1 hour
+    const challengeId = BigInt(0);
+    const inviteCode = "office-league";
+
+    it("should only let invited competitors join and invited spectators bet", async function () {
+      competitor1Address = await competitor1.getAddress();
+      competitor2Address = await competitor2.getAddress();
+      const spectatorAddress = await nonCompetitor.getAddress();
+      await multiplayerChallenge.connect(owner).addNewBettor(spectatorAddress);
+
+      await expect(multiplayerChallenge.connect(challenger).createInviteOnlyMultiplayerChallenge(
+        challengeLength, CHALLENGE_STEPS, 3, [competitor1Address], inviteCodeSigner(inviteCode).address, { value: betAmount }
+      ))
+        .to.emit(multiplayerChallenge, "InviteOnlyChallengeCreated").withArgs(challengeId)
+        .and.to.emit(multiplayerChallenge, "ChallengeInviteSet").withArgs(challengeId, competitor1Address, true);
+      expect(await multiplayerChallenge.challengeHasCompetitor(challengeId, challengerAddress)).to.be.true;
+
+      await expect(multiplayerChallenge.connect(competitor2).joinChallenge(challengeId, { value: betAmount }))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "NotInvitedToChallenge").withArgs(challengeId, competitor2Address);
+      await multiplayerChallenge.connect(competitor1).joinChallenge(challengeId, { value: betAmount });
+      await expect(multiplayerChallenge.connect(nonCompetitor).placeSpectatorBet(challengeId, competitor1Address, { value: betAmount }))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "NotInvitedToChallenge").withArgs(challengeId, spectatorAddress);
+      expect(await multiplayerChallenge.canParticipateInChallenge(challengeId, spectatorAddress)).to.be.false;
+
+      const { chainId } = await ethers.provider.getNetwork();
+      await multiplayerChallenge.connect(nonCompetitor).redeemInviteCode(
+        challengeId,
+        await signInviteCodeRedemption(inviteCode, chainId, await multiplayerChallenge.getAddress(), challengeId, spectatorAddress)
+      );
+      await expect(multiplayerChallenge.connect(nonCompetitor).placeSpectatorBet(challengeId, competitor1Address, { value: betAmount }))
+        .to.emit(multiplayerChallenge, "SpectatorBetPlaced").withArgs(challengeId, spectatorAddress, competitor1Address, betAmount);
+      await multiplayerChallenge.connect(challenger).setChallengeInvites(challengeId, [competitor2Address], true);
+      await expect(multiplayerChallenge.connect(competitor2).joinChallenge(challengeId, { value: betAmount }))
+        .to.emit(multiplayerChallenge, "ChallengeCompetitorJoined").withArgs(challengeId, competitor2Address);
+    });
   });
-});
\ No newline at end of file
+});
@@ -1,24 +1,31 @@
-import { ethers, upgrades } from "hardhat";
+import hre, { ethers, upgrades } from "hardhat";
 import { expect } from "chai";
-import { Signer } from "ethers";
-import { MultiplayerChallenge, MockMultiplayerChallengeV2 } from "../typechain";
+import { ContractRunner, Interface, Signer } from "ethers";
+import { IMultiplayerChallengeProxy, LegacyMultiplayerChallenge, MockMultiplayerChallengeV2 } from "../typechain";
+import { deployExtensionArgs, EXTENSION_CHAINS, getProxyFactory } from "../scripts/extensions";
 
-const DeployV2 = async (deployer: Signer, multiplayerChallengeContractAddress: string): Promise<MockMultiplayerChallengeV2> => {
+// MockMultiplayerChallengeV2's own ABI lacks the functions MultiplayerChallenge's extensions serve, so the upgraded proxy is called through both
+type MultiplayerChallengeV2 = { connect(runner: ContractRunner | null): MultiplayerChallengeV2 } & MockMultiplayerChallengeV2 & IMultiplayerChallengeProxy;
+
+const DeployV2 = async (deployer: Signer, multiplayerChallengeContractAddress: string): Promise<MultiplayerChallengeV2> => {
   const MultiplayerChallengeV2Factory = await ethers.getContractFactory("MockMultiplayerChallengeV2", deployer);
-  const multiplayerChallengeV2 = (await upgrades.upgradeProxy(
+  await upgrades.upgradeProxy(
     multiplayerChallengeContractAddress, 
-    MultiplayerChallengeV2Factory
-  )) as unknown as MockMultiplayerChallengeV2;
+    MultiplayerChallengeV2Factory,
+    { constructorArgs: await deployExtensionArgs(hre, "MultiplayerChallenge") }
+  );
+  const proxyInterface = await ethers.getContractAt("IMultiplayerChallengeProxy", multiplayerChallengeContractAddress);
+  const abi = [...MultiplayerChallengeV2Factory.interface.fragments, ...proxyInterface.interface.fragments];
   
-  const multiplayerChallengeV2AsV2 = multiplayerChallengeV2 as unknown as MockMultiplayerChallengeV2;
+  const multiplayerChallengeV2AsV2 = (await ethers.getContractAt(abi, multiplayerChallengeContractAddress, deployer)) as unknown as MultiplayerChallengeV2;
   await multiplayerChallengeV2AsV2.initializeV2();
 
   return multiplayerChallengeV2AsV2;
 }
 
 describe("MultiplayerChallenge Upgradeability", function () {
-  let multiplayerChallengeContract: MultiplayerChallenge;
-  let multiplayerChallengeV2: MockMultiplayerChallengeV2;
+  let multiplayerChallengeContract: IMultiplayerChallengeProxy;
+  let multiplayerChallengeV2: MultiplayerChallengeV2;
   let deployer: Signer;
   let competitor1: Signer;
   let competitor2: Signer;
@@ -43,13 +50,14 @@ describe("MultiplayerChallenge Upgradeability", function () {
   let challengerAddress: string;
 
   let proxyAddressBefore: string;
+  let mockPriceFeedAddress: string;
 
   const CHALLENGE_STEPS = 0;
 
   beforeEach(async () => {
     const MockV3Aggregator = await ethers.getContractFactory("MockV3Aggregator");
     const mockPriceFeed = await MockV3Aggregator.deploy(8, 200000000000); // 8 decimals, $2000.00000000 ETH/USD price
-    const mockPriceFeedAddress = await mockPriceFeed.getAddress();
+    mockPriceFeedAddress = await mockPriceFeed.getAddress();
 
     [deployer, competitor1, competitor2, competitor3, bettor, challenger] = await ethers.getSigners();
     deployerAddress = await deployer.getAddress();
@@ -60,7 +68,7 @@ describe("MultiplayerChallenge Upgradeability", function () {
     challengerAddress = await challenger.getAddress();
 
     // Deploy the MultiplayerChallenge proxy
-    const MultiplayerChallengeFactory = await ethers.getContractFactory("MultiplayerChallenge", deployer);
+    const MultiplayerChallengeFactory = await getProxyFactory(hre, "MultiplayerChallenge", deployer);
     multiplayerChallengeContract = await upgrades.deployProxy(
       MultiplayerChallengeFactory,
       [
@@ -71,7 +79,7 @@ describe("MultiplayerChallenge Upgradeability", function () {
         maxChallengeLength,
         maxChallengeMetrics,
       ],
-      { initializer: "initializeMultiplayerChallenge" }
+      { initializer: "initializeMultiplayerChallenge", constructorArgs: await deployExtensionArgs(hre, "MultiplayerChallenge") }
     );
 
     await multiplayerChallengeContract.waitForDeployment();
@@ -317,4 +325,87 @@ describe("MultiplayerChallenge Upgradeability", function () {
     const newProperty = await multiplayerChallengeV2AsV2.getNewV2Property();
     expect(newProperty).to.equal("multiplayerV2");
   });
+
+  it("keeps the storage layout of the first release", async () => {
+    const legacyImplementation = await upgrades.deployImplementation(await ethers.getContractFactory("LegacyMultiplayerChallenge"), {
+      kind: "uups",
+    });
+
+    // the plugin encodes the constructor args while validating, though its validation options do not declare them
+    const validationOptions = { kind: "uups" as const, constructorArgs: await deployExtensionArgs(hre, "MultiplayerChallenge") };
+    await upgrades.validateUpgrade(legacyImplementation as string, await ethers.getContractFactory("MultiplayerChallenge"), validationOptions);
+  });
+
+  it("migrates a first release proxy to roles, keeping its state and handing ownership over to the roles", async () => {
+    const legacyChallenge = await upgrades.deployProxy(
+      await ethers.getContractFactory("LegacyMultiplayerChallenge", deployer),
+      [minimumBetValue, maxCompetitors, mockPriceFeedAddress, maxBettors, maxChallengeLength, maxChallengeMetrics],
+      { initializer: "initializeMultiplayerChallenge", kind: "uups" }
+    ) as unknown as LegacyMultiplayerChallenge;
+    const legacyAddress = await legacyChallenge.getAddress();
+    await legacyChallenge.addNewChallenger(challengerAddress);
+    await legacyChallenge.addNewBettor(bettorAddress);
+
+    await upgrades.upgradeProxy(legacyAddress, await ethers.getContractFactory("MultiplayerChallenge", deployer), {
+      constructorArgs: await deployExtensionArgs(hre, "MultiplayerChallenge"),
+      call: "initializeMetricRegistry",
+    });
+    const migrated = await ethers.getContractAt("IMultiplayerChallengeProxy", legacyAddress, deployer);
+    await expect(migrated.setMaximumNumberOfChallengeCompetitors(maxCompetitors + 1))
+      .to.be.revertedWithCustomError(migrated, "AccessControlUnauthorizedAccount");
+
+    await migrated.initializeAccessControl();
+    expect(await migrated.owner()).to.equal(ethers.ZeroAddress);
+    for (const role of [
+      await migrated.DEFAULT_ADMIN_ROLE(),
+      await migrated.WHITELIST_MANAGER_ROLE(),
+      await migrated.PARAMETER_ADMIN_ROLE(),
+      await migrated.PAUSER_ROLE(),
+      await migrated.SETTLER_ROLE(),
+      await migrated.UPGRADER_ROLE(),
+    ]) {
+      expect(await migrated.hasRole(role, deployerAddress)).to.be.true;
+    }
+
+    expect(await migrated.challengerWhitelist(challengerAddress)).to.be.true;
+    expect(await migrated.bettorWhitelist(bettorAddress)).to.be.true;
+    expect(await migrated.maximumNumberOfChallengeCompetitors()).to.equal(maxCompetitors);
+    expect(await migrated.getMinimumUsdValueOfBet()).to.equal(minimumBetValue);
+
+    await migrated.setMaximumNumberOfChallengeCompetitors(maxCompetitors + 1);
+    expect(await migrated.maximumNumberOfChallengeCompetitors()).to.equal(maxCompetitors + 1);
+  });
+
+  it("migrates a first release proxy with initializeAccessControl alone", async () => {
+    const legacyChallenge = await upgrades.deployProxy(
+      await ethers.getContractFactory("LegacyMultiplayerChallenge", deployer),
+      [minimumBetValue, maxCompetitors, mockPriceFeedAddress, maxBettors, maxChallengeLength, maxChallengeMetrics],
+      { initializer: "initializeMultiplayerChallenge", kind: "uups" }
+    ) as unknown as LegacyMultiplayerChallenge;
+    const legacyAddress = await legacyChallenge.getAddress();
+
+    await upgrades.upgradeProxy(legacyAddress, await ethers.getContractFactory("MultiplayerChallenge", deployer), {
+      constructorArgs: await deployExtensionArgs(hre, "MultiplayerChallenge"),
+      call: "initializeAccessControl",
+    });
+    const migrated = await ethers.getContractAt("IMultiplayerChallengeProxy", legacyAddress, deployer);
+
+    expect(await migrated.hasRole(await migrated.DEFAULT_ADMIN_ROLE(), deployerAddress)).to.be.true;
+    const [metricIds] = await migrated.getMetrics();
+    expect(metricIds).to.deep.equal([0, 1, 2, 3]);
+    expect((await migrated.getMetric(CHALLENGE_STEPS)).name).to.equal("Steps");
+    expect((await (await ethers.getContractAt("MultiplayerChallenge", legacyAddress)).eip712Domain()).name).to.equal("Challenge");
+    await expect(migrated.initializeMetricRegistry()).to.be.revertedWithCustomError(migrated, "InvalidInitialization");
+  });
+
+  it("lists everything MultiplayerChallenge and its extensions answer to in IMultiplayerChallengeProxy", async () => {
+    const signatures = async (names: string[]) => {
+      const fragments = await Promise.all(names.map(async (name) => new Interface((await hre.artifacts.readArtifact(name)).abi).fragments));
+      const members = fragments.flat().filter((fragment) => ["function", "event", "error"].includes(fragment.type));
+      return [...new Set(members.map((fragment) => `${fragment.type} ${fragment.format("sighash")}`))].sort();
+    };
+
+    expect(await signatures(["IMultiplayerChallengeProxy"]))
+      .to.deep.equal(await signatures(["MultiplayerChallenge", ...EXTENSION_CHAINS.MultiplayerChallenge]));
+  });
 }); 
\ No newline at end of file
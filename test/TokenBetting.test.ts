@@ -0,0 +1,236 @@
+import { ethers } from "hardhat";
+import { Signer, BigNumberish, parseEther, parseUnits, Signature } from "ethers";
+import { expect } from "chai";
+import { IChallengeProxy, IMultiplayerChallengeProxy, MockERC20, Vault } from "../typechain";
+import { deployChallengeContracts } from "./fixtures";
+
+describe("ERC-20 Betting Tests", function () {
+  let challengeContract: IChallengeProxy;
+  let multiplayerChallenge: IMultiplayerChallengeProxy;
+  let vaultContract: Vault;
+  let usdc: MockERC20;
+  let owner: Signer;
+  let challenger: Signer;
+  let bettor: Signer;
+  let bettor2: Signer;
+
+  let challengeContractAddress: string;
+  let vaultContractAddress: string;
+  let usdcAddress: string;
+  let challengerAddress: string;
+
+  const ethBetAmount = parseEther("1");
+  const usdcBetAmount = parseUnits("100", 6);
+  const challengeLength = BigInt(60 * 60); // 1 hour
+
+  const CHALLENGE_STEPS: BigNumberish = 0;
+  const STATUS_CHALLENGER_WON = 3;
+
+  const endChallenge = async (contract: IChallengeProxy | IMultiplayerChallengeProxy, challengeId: bigint) => {
+    const challengeStartTime = await contract.challengeToStartTime(challengeId);
+    await ethers.provider.send("evm_setNextBlockTimestamp", [Number(challengeStartTime + challengeLength + BigInt(100))]);
+    await ethers.provider.send("evm_mine", []);
+  };
+
+  beforeEach(async function () {
+    [owner, challenger, bettor, bettor2] = await ethers.getSigners();
+    challengerAddress = await challenger.getAddress();
+
+    ({ challengeContract, multiplayerChallenge, vaultContract } = await deployChallengeContracts());
+    challengeContractAddress = await challengeContract.getAddress();
+    vaultContractAddress = await vaultContract.getAddress();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    usdc = await MockERC20Factory.deploy("USD Coin", "USDC", 6);
+    usdcAddress = await usdc.getAddress();
+
+    for (const contract of [challengeContract, multiplayerChallenge]) {
+      await contract.connect(owner).setBetToken(usdcAddress, true, ethers.ZeroAddress); // valued 1:1 with USD
+      await contract.connect(owner).addNewChallenger(challengerAddress);
+      await contract.connect(owner).addNewChallenger(await bettor.getAddress());
+      await contract.connect(owner).addNewBettor(await bettor2.getAddress());
+    }
+
+    for (const signer of [challenger, bettor, bettor2]) {
+      await usdc.mint(await signer.getAddress(), parseUnits("1000", 6));
+      await usdc.connect(signer).approve(challengeContractAddress, ethers.MaxUint256);
+      await usdc.connect(signer).approve(await multiplayerChallenge.getAddress(), ethers.MaxUint256);
+    }
+  });
+
+  describe("Allowlisting bet tokens", function () {
+    it("should only let the owner allowlist tokens", async function () {
+      await expect(challengeContract.connect(bettor).setBetToken(usdcAddress, true, ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(challengeContract, "AccessControlUnauthorizedAccount");
+      await expect(challengeContract.connect(owner).setBetToken(ethers.ZeroAddress, true, ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(challengeContract, "InvalidBetToken").withArgs(ethers.ZeroAddress);
+
+      await expect(challengeContract.connect(owner).setBetToken(usdcAddress, false, ethers.ZeroAddress))
+        .to.emit(challengeContract, "BetTokenSet").withArgs(usdcAddress, false, ethers.ZeroAddress);
+      const betToken = await challengeContract.betTokens(usdcAddress);
+      expect(betToken.allowed).to.be.false;
+      expect(betToken.decimals).to.equal(6);
+    });
+
+    it("should not create a challenge in a token that is not allowlisted", async function () {
+      await challengeContract.connect(owner).setBetToken(usdcAddress, false, ethers.ZeroAddress);
+
+      await expect(challengeContract.connect(challenger).createTokenChallenge(challengeLength, [CHALLENGE_STEPS], [10000], usdcAddress))
+        .to.be.revertedWithCustomError(challengeContract, "BetTokenNotAllowed").withArgs(usdcAddress);
+    });
+  });
+
+  describe("Running ETH and token challenges side by side", function () {
+    const ethChallengeId = BigInt(0);
+    const tokenChallengeId = BigInt(1);
+
+    beforeEach(async function () {
+      await challengeContract.connect(challenger).createChallenge(challengeLength, [CHALLENGE_STEPS], [10000]);
+      await expect(challengeContract.connect(bettor).createTokenChallenge(challengeLength, [CHALLENGE_STEPS], [10000], usdcAddress))
+        .to.emit(challengeContract, "ChallengeDenominationSet").withArgs(tokenChallengeId, usdcAddress);
+    });
+
+    it("should only accept bets in the challenge's denomination", async function () {
+      await expect(challengeContract.connect(bettor2).placeBet(tokenChallengeId, false, { value: ethBetAmount }))
+        .to.be.revertedWithCustomError(challengeContract, "ChallengeDenominationMismatch").withArgs(tokenChallengeId, usdcAddress);
+      await expect(challengeContract.connect(bettor2).placeTokenBet(ethChallengeId, false, usdcBetAmount))
+        .to.be.revertedWithCustomError(challengeContract, "ChallengeDenominationMismatch").withArgs(ethChallengeId, ethers.ZeroAddress);
+    });
+
+    it("should value token bets by the token's own decimals", async function () {
+      // 0.0001 USDC is worth far less than the minimum bet
+      await expect(challengeContract.connect(bettor2).placeTokenBet(tokenChallengeId, false, BigInt(100)))
+        .to.be.revertedWithCustomError(challengeContract, "MinimumBetAmountTooSmall");
+
+      await challengeContract.connect(bettor2).placeTokenBet(tokenChallengeId, false, parseUnits("1", 6));
+      expect(await challengeContract.challengeToBetsAgainst(tokenChallengeId, bettor2.getAddress())).to.equal(parseUnits("1", 6));
+    });
+
+    it("should value bets with the token's price feed when it has one", async function () {
+      const MockV3Aggregator = await ethers.getContractFactory("MockV3Aggregator");
+      const worthlessTokenFeed = await MockV3Aggregator.deploy(8, 0);
+      await challengeContract.connect(owner).setBetToken(usdcAddress, true, await worthlessTokenFeed.getAddress());
+
+      await expect(challengeContract.connect(bettor2).placeTokenBet(tokenChallengeId, false, usdcBetAmount))
+        .to.be.revertedWithCustomError(challengeContract, "MinimumBetAmountTooSmall");
+    });
+
+    it("should settle both challenges and pay each winner in the asset they bet", async function () {
+      await challengeContract.connect(owner).setProtocolFee(500);
+
+      await challengeContract.connect(challenger).placeBet(ethChallengeId, true, { value: ethBetAmount });
+      await challengeContract.connect(bettor2).placeBet(ethChallengeId, false, { value: ethBetAmount });
+
+      await challengeContract.connect(bettor).placeTokenBet(tokenChallengeId, true, usdcBetAmount);
+      await challengeContract.connect(bettor2).placeTokenBet(tokenChallengeId, false, usdcBetAmount);
+      expect(await vaultContract.consumerToErc20Balance(challengeContractAddress, usdcAddress)).to.equal(usdcBetAmount * BigInt(2));
+      expect(await usdc.balanceOf(vaultContractAddress)).to.equal(usdcBetAmount * BigInt(2));
+
+      await challengeContract.connect(challenger).startChallenge(ethChallengeId);
+      await challengeContract.connect(bettor).startChallenge(tokenChallengeId);
+      await challengeContract.connect(challenger).submitMeasurements(ethChallengeId, [10000]);
+      await challengeContract.connect(bettor).submitMeasurements(tokenChallengeId, [10000]);
+      await endChallenge(challengeContract, tokenChallengeId);
+
+      await challengeContract.connect(owner).distributeWinnings(ethChallengeId);
+      await expect(challengeContract.connect(owner).distributeWinnings(tokenChallengeId))
+        .to.emit(vaultContract, "ERC20FeesAccrued").withArgs(challengeContractAddress, usdcAddress, usdcBetAmount / BigInt(20));
+
+      expect(await challengeContract.challengeToChallengeStatus(tokenChallengeId)).to.equal(STATUS_CHALLENGER_WON);
+      expect(await usdc.balanceOf(bettor.getAddress())).to.equal(parseUnits("1000", 6) + usdcBetAmount - usdcBetAmount / BigInt(20));
+      expect(await usdc.balanceOf(bettor2.getAddress())).to.equal(parseUnits("1000", 6) - usdcBetAmount);
+
+      // fees are kept apart per asset
+      expect(await vaultContract.treasuryEthBalance()).to.equal(ethBetAmount / BigInt(20));
+      expect(await vaultContract.treasuryErc20Balance(usdcAddress)).to.equal(usdcBetAmount / BigInt(20));
+      expect(await vaultContract.getBalance(false)).to.equal(ethBetAmount / BigInt(20));
+      expect(await usdc.balanceOf(vaultContractAddress)).to.equal(usdcBetAmount / BigInt(20));
+
+      await expect(vaultContract.connect(owner).withdrawTreasuryERC20(usdcAddress, await owner.getAddress(), usdcBetAmount / BigInt(20)))
+        .to.emit(vaultContract, "ERC20TreasuryWithdrawn").withArgs(await owner.getAddress(), usdcAddress, usdcBetAmount / BigInt(20));
+    });
+
+    it("should claim ETH and token winnings in one batch", async function () {
+      await challengeContract.connect(challenger).placeBet(ethChallengeId, true, { value: ethBetAmount });
+      await challengeContract.connect(bettor2).placeBet(ethChallengeId, false, { value: ethBetAmount });
+      await challengeContract.connect(bettor).placeTokenBet(tokenChallengeId, true, usdcBetAmount);
+      await challengeContract.connect(bettor2).placeTokenBet(tokenChallengeId, false, usdcBetAmount);
+
+      await challengeContract.connect(challenger).startChallenge(ethChallengeId);
+      await challengeContract.connect(bettor).startChallenge(tokenChallengeId);
+      await challengeContract.connect(challenger).submitMeasurements(ethChallengeId, [0]);
+      await challengeContract.connect(bettor).submitMeasurements(tokenChallengeId, [0]);
+      await endChallenge(challengeContract, tokenChallengeId);
+
+      await challengeContract.connect(bettor2).settleChallenge(ethChallengeId);
+      await challengeContract.connect(bettor2).settleChallenge(tokenChallengeId);
+
+      const claimTx = challengeContract.connect(bettor2).claimWinningsBatch([ethChallengeId, tokenChallengeId]);
+      await expect(claimTx).to.changeEtherBalance(bettor2, ethBetAmount * BigInt(2));
+      await expect(claimTx).to.changeTokenBalance(usdc, bettor2, usdcBetAmount * BigInt(2));
+    });
+
+    it("should pull and refund the difference when a token bet changes", async function () {
+      await challengeContract.connect(bettor2).placeTokenBet(tokenChallengeId, false, usdcBetAmount);
+
+      await expect(challengeContract.connect(bettor2).changeBet(tokenChallengeId, false, usdcBetAmount * BigInt(2), { value: 1 }))
+        .to.be.revertedWithCustomError(challengeContract, "IncorrectBetChangeValue").withArgs(0, 1);
+
+      await expect(challengeContract.connect(bettor2).changeBet(tokenChallengeId, false, usdcBetAmount * BigInt(2)))
+        .to.changeTokenBalance(usdc, bettor2, -usdcBetAmount);
+      await expect(challengeContract.connect(bettor2).changeBet(tokenChallengeId, false, usdcBetAmount / BigInt(2)))
+        .to.changeTokenBalance(usdc, bettor2, usdcBetAmount * BigInt(3) / BigInt(2));
+      await expect(challengeContract.connect(bettor2).cancelBet(tokenChallengeId))
+        .to.changeTokenBalance(usdc, bettor2, usdcBetAmount / BigInt(2));
+    });
+
+    it("should accept an ERC-2612 permit instead of an approval", async function () {
+      await usdc.connect(bettor2).approve(challengeContractAddress, 0);
+      const bettor2Address = await bettor2.getAddress();
+      const deadline = BigInt((await ethers.provider.getBlock("latest"))!.timestamp + 3600);
+
+      const signature = Signature.from(
+        await bettor2.signTypedData(
+          {
+            name: "USD Coin",
+            version: "1",
+            chainId: (await ethers.provider.getNetwork()).chainId,
+            verifyingContract: usdcAddress,
+          },
+          {
+            Permit: [
+              { name: "owner", type: "address" },
+              { name: "spender", type: "address" },
+              { name: "value", type: "uint256" },
+              { name: "nonce", type: "uint256" },
+              { name: "deadline", type: "uint256" },
+            ],
+          },
+          { owner: bettor2Address, spender: challengeContractAddress, value: usdcBetAmount, nonce: await usdc.nonces(bettor2Address), deadline }
+        )
+      );
+
+      await expect(
+        challengeContract.connect(bettor2).placeTokenBetWithPermit(tokenChallengeId, false, usdcBetAmount, deadline, signature.v, signature.r, signature.s)
+      ).to.changeTokenBalance(usdc, vaultContract, usdcBetAmount);
+      expect(await challengeContract.challengeToBetsAgainst(tokenChallengeId, bettor2Address)).to.equal(usdcBetAmount);
+    });
+  });
+
+  describe("Token multiplayer challenges", function () {
+    it("should pay the leader the whole token pot", async function () {
+      await multiplayerChallenge.connect(challenger).createTokenMultiplayerChallenge(challengeLength, CHALLENGE_STEPS, 2, usdcAddress, usdcBetAmount);
+      await multiplayerChallenge.connect(bettor).joinTokenChallenge(0, usdcBetAmount);
+      await expect(multiplayerChallenge.connect(bettor2).joinChallenge(0, { value: ethBetAmount }))
+        .to.be.revertedWithCustomError(multiplayerChallenge, "ChallengeDenominationMismatch");
+
+      await multiplayerChallenge.connect(challenger).startChallenge(0);
+      await multiplayerChallenge.connect(bettor).submitMeasurements(0, [12000]);
+      await endChallenge(multiplayerChallenge, BigInt(0));
+
+      await multiplayerChallenge.connect(challenger).settleChallenge(0);
+      await expect(multiplayerChallenge.connect(bettor).claimWinnings(0))
+        .to.changeTokenBalance(usdc, bettor, usdcBetAmount * BigInt(2));
+    });
+  });
+});
@@ -0,0 +1,326 @@
+import { ethers, upgrades } from "hardhat";
+import { Signer, BigNumberish, parseEther } from "ethers";
+import { expect } from "chai";
+import { IChallengeProxy, IMultiplayerChallengeProxy, LegacyVault, Vault } from "../typechain";
+import { deployChallengeContracts } from "./fixtures";
+
+describe("Vault Tests", function () {
+  let challengeContract: IChallengeProxy;
+  let multiplayerChallenge: IMultiplayerChallengeProxy;
+  let vaultContract: Vault;
+  let owner: Signer;
+  let challenger: Signer;
+  let competitor1: Signer;
+  let competitor2: Signer;
+  let bettor: Signer;
+  let rogueConsumer: Signer;
+
+  let challengeContractAddress: string;
+  let multiplayerChallengeAddress: string;
+  let challengerAddress: string;
+
+  const betAmount = parseEther("0.05");
+
+  const CHALLENGE_STEPS: BigNumberish = 0;
+
+  beforeEach(async function () {
+    [owner, challenger, competitor1, competitor2, bettor, rogueConsumer] = await ethers.getSigners();
+    challengerAddress = await challenger.getAddress();
+
+    ({ challengeContract, multiplayerChallenge, vaultContract } = await deployChallengeContracts());
+    challengeContractAddress = await challengeContract.getAddress();
+    multiplayerChallengeAddress = await multiplayerChallenge.getAddress();
+  });
+
+  describe("Managing consumers", function () {
+    it("should register the contract passed to the initializer as a consumer", async function () {
+      expect(await vaultContract.authorizedConsumers(challengeContractAddress)).to.be.true;
+      expect(await vaultContract.authorizedConsumers(multiplayerChallengeAddress)).to.be.true;
+    });
+
+    it("should allow the owner to add and remove consumers", async function () {
+      const rogueConsumerAddress = await rogueConsumer.getAddress();
+
+      await expect(vaultContract.connect(owner).addConsumer(rogueConsumerAddress))
+        .to.emit(vaultContract, "ConsumerAdded")
+        .withArgs(rogueConsumerAddress);
+      expect(await vaultContract.authorizedConsumers(rogueConsumerAddress)).to.be.true;
+
+      await expect(vaultContract.connect(owner).removeConsumer(rogueConsumerAddress))
+        .to.emit(vaultContract, "ConsumerRemoved")
+        .withArgs(rogueConsumerAddress);
+      expect(await vaultContract.authorizedConsumers(rogueConsumerAddress)).to.be.false;
+    });
+
+    it("should not allow adding a consumer twice or removing an unknown consumer", async function () {
+      await expect(vaultContract.connect(owner).addConsumer(multiplayerChallengeAddress))
+        .to.be.revertedWithCustomError(vaultContract, "ConsumerAlreadyAuthorized")
+        .withArgs(multiplayerChallengeAddress);
+      await expect(vaultContract.connect(owner).addConsumer(ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(vaultContract, "InvalidConsumer");
+      await expect(vaultContract.connect(owner).removeConsumer(await rogueConsumer.getAddress()))
+        .to.be.revertedWithCustomError(vaultContract, "ConsumerNotAuthorized");
+    });
+
+    it("should not allow a non-owner to manage consumers", async function () {
+      await expect(vaultContract.connect(rogueConsumer).addConsumer(await rogueConsumer.getAddress()))
+        .to.be.revertedWithCustomError(vaultContract, "AccessControlUnauthorizedAccount");
+      await expect(vaultContract.connect(rogueConsumer).removeConsumer(challengeContractAddress))
+        .to.be.revertedWithCustomError(vaultContract, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should not allow unauthorized callers to deposit or withdraw", async function () {
+      await expect(vaultContract.connect(rogueConsumer).depositETH({ value: betAmount }))
+        .to.be.revertedWithCustomError(vaultContract, "UnauthorizedCaller");
+      await expect(vaultContract.connect(rogueConsumer).withdrawFunds(await rogueConsumer.getAddress(), betAmount, false))
+        .to.be.revertedWithCustomError(vaultContract, "UnauthorizedCaller");
+    });
+  });
+
+  describe("Sharing the vault between game contracts", function () {
+    const challengeLength = BigInt(60 * 60); // 1 hour
+
+    beforeEach(async function () {
+      await challengeContract.connect(owner).addNewChallenger(challengerAddress);
+      await challengeContract.connect(owner).addNewBettor(await bettor.getAddress());
+
+      await multiplayerChallenge.connect(owner).addNewChallenger(challengerAddress);
+      await multiplayerChallenge.connect(owner).addNewChallenger(await competitor1.getAddress());
+      await multiplayerChallenge.connect(owner).addNewChallenger(await competitor2.getAddress());
+    });
+
+    it("should track deposits separately for each consumer", async function () {
+      await challengeContract.connect(challenger).createChallenge(challengeLength, [CHALLENGE_STEPS], [10000]);
+      await challengeContract.connect(challenger).placeBet(0, true, { value: betAmount });
+      await challengeContract.connect(bettor).placeBet(0, false, { value: betAmount });
+
+      await multiplayerChallenge.connect(challenger).createMultiplayerChallenge(challengeLength, CHALLENGE_STEPS, 3, { value: betAmount });
+
+      expect(await vaultContract.getConsumerBalance(challengeContractAddress, false)).to.equal(betAmount * BigInt(2));
+      expect(await vaultContract.getConsumerBalance(multiplayerChallengeAddress, false)).to.equal(betAmount);
+      expect(await vaultContract.getBalance(false)).to.equal(betAmount * BigInt(3));
+    });
+
+    it("should not allow one consumer to withdraw another consumer's funds", async function () {
+      await challengeContract.connect(challenger).createChallenge(challengeLength, [CHALLENGE_STEPS], [10000]);
+      await challengeContract.connect(challenger).placeBet(0, true, { value: betAmount });
+
+      const rogueConsumerAddress = await rogueConsumer.getAddress();
+      await vaultContract.connect(owner).addConsumer(rogueConsumerAddress);
+
+      await expect(vaultContract.connect(rogueConsumer).withdrawFunds(rogueConsumerAddress, betAmount, false))
+        .to.be.revertedWithCustomError(vaultContract, "InsufficientConsumerBalance")
+        .withArgs(rogueConsumerAddress, 0, betAmount);
+    });
+
+    it("should run a full multiplayer challenge end-to-end without touching the Challenge contract's funds", async function () {
+      await challengeContract.connect(challenger).createChallenge(challengeLength, [CHALLENGE_STEPS], [10000]);
+      await challengeContract.connect(challenger).placeBet(0, true, { value: betAmount });
+      await challengeContract.connect(bettor).placeBet(0, false, { value: betAmount });
+
+      await multiplayerChallenge.connect(challenger).createMultiplayerChallenge(challengeLength, CHALLENGE_STEPS, 3, { value: betAmount });
+      const challengeIds = await multiplayerChallenge.getChallengesForChallenger(challengerAddress);
+      const challengeId = challengeIds[0];
+
+      await multiplayerChallenge.connect(competitor1).joinChallenge(challengeId, { value: betAmount });
+      await multiplayerChallenge.connect(competitor2).joinChallenge(challengeId, { value: betAmount });
+      await multiplayerChallenge.connect(challenger).startChallenge(challengeId);
+
+      await multiplayerChallenge.connect(challenger).submitMeasurements(challengeId, [10000]);
+      await multiplayerChallenge.connect(competitor1).submitMeasurements(challengeId, [12000]);
+      await multiplayerChallenge.connect(competitor2).submitMeasurements(challengeId, [5000]);
+
+      const challengeStartTime = await multiplayerChallenge.challengeToStartTime(challengeId);
+      const futureTimestamp = challengeStartTime + challengeLength + BigInt(100); // 100 seconds after the challenge expires
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(futureTimestamp)]);
+      await ethers.provider.send("evm_mine", []);
+
+      const competitor1Address = await competitor1.getAddress();
+      const competitor1BalanceBefore = await ethers.provider.getBalance(competitor1Address);
+
+      await expect(multiplayerChallenge.connect(owner).distributeWinnings(challengeId))
+        .to.emit(multiplayerChallenge, "WinningsDistributed")
+        .withArgs(challengeId, competitor1Address, betAmount * BigInt(3))
+        .and.not.to.emit(multiplayerChallenge, "WinningsDistributionFailed");
+
+      expect(await multiplayerChallenge.challengeToWinningsPaid(challengeId)).to.equal(betAmount * BigInt(3));
+      expect(await ethers.provider.getBalance(competitor1Address)).to.equal(competitor1BalanceBefore + betAmount * BigInt(3));
+
+      expect(await vaultContract.getConsumerBalance(multiplayerChallengeAddress, false)).to.equal(0);
+      expect(await vaultContract.getConsumerBalance(challengeContractAddress, false)).to.equal(betAmount * BigInt(2));
+      expect(await vaultContract.getBalance(false)).to.equal(betAmount * BigInt(2));
+    });
+  });
+
+  describe("Migrating a first release vault", function () {
+    it("should let its challenge contract withdraw what it deposited before the upgrade", async function () {
+      // an externally owned account stands in for the challenge contract so it can deposit and withdraw directly
+      const legacyChallengeAddress = await rogueConsumer.getAddress();
+      const legacyVault = await upgrades.deployProxy(await ethers.getContractFactory("LegacyVault"), [legacyChallengeAddress], {
+        initializer: "initialize",
+        kind: "uups",
+      }) as unknown as LegacyVault;
+      const legacyVaultAddress = await legacyVault.getAddress();
+      await legacyVault.connect(rogueConsumer).depositETH({ value: betAmount });
+
+      await upgrades.upgradeProxy(legacyVaultAddress, await ethers.getContractFactory("Vault"), { call: "initializeConsumers" });
+      const migratedVault = await ethers.getContractAt("Vault", legacyVaultAddress);
+
+      expect(await migratedVault.authorizedConsumers(legacyChallengeAddress)).to.be.true;
+      expect(await migratedVault.consumerToEthBalance(legacyChallengeAddress)).to.equal(betAmount);
+      await expect(migratedVault.initializeConsumers()).to.be.revertedWithCustomError(migratedVault, "InvalidInitialization");
+
+      const ethWithdrawal = migratedVault.connect(rogueConsumer).withdrawFunds(await bettor.getAddress(), betAmount, false);
+      await expect(ethWithdrawal).to.changeEtherBalances([migratedVault, bettor], [-betAmount, betAmount]);
+      expect(await migratedVault.getBalance(false)).to.equal(0);
+    });
+  });
+
+  describe("Collecting protocol fees", function () {
+    const challengeLength = BigInt(60 * 60); // 1 hour
+    const protocolFeeBps = 500; // 5%
+
+    beforeEach(async function () {
+      await challengeContract.connect(owner).addNewChallenger(challengerAddress);
+      await challengeContract.connect(owner).addNewBettor(await bettor.getAddress());
+      await challengeContract.connect(owner).setProtocolFee(protocolFeeBps);
+
+      await multiplayerChallenge.connect(owner).addNewChallenger(challengerAddress);
+      await multiplayerChallenge.connect(owner).addNewChallenger(await competitor1.getAddress());
+      await multiplayerChallenge.connect(owner).setProtocolFee(protocolFeeBps);
+    });
+
+    it("should only let consumers accrue fees from their own balance", async function () {
+      await expect(vaultContract.connect(rogueConsumer).accrueFees(betAmount, false))
+        .to.be.revertedWithCustomError(vaultContract, "UnauthorizedCaller");
+
+      const rogueConsumerAddress = await rogueConsumer.getAddress();
+      await vaultContract.connect(owner).addConsumer(rogueConsumerAddress);
+      await expect(vaultContract.connect(rogueConsumer).accrueFees(betAmount, false))
+        .to.be.revertedWithCustomError(vaultContract, "InsufficientConsumerBalance")
+        .withArgs(rogueConsumerAddress, 0, betAmount);
+    });
+
+    it("should collect fees from every consumer into one treasury the owner can withdraw", async function () {
+      await challengeContract.connect(challenger).createChallenge(challengeLength, [CHALLENGE_STEPS], [10000]);
+      await challengeContract.connect(challenger).placeBet(0, true, { value: betAmount });
+      await challengeContract.connect(bettor).placeBet(0, false, { value: betAmount });
+      await challengeContract.connect(challenger).startChallenge(0);
+      await challengeContract.connect(challenger).submitMeasurements(0, [10000]);
+
+      await multiplayerChallenge.connect(challenger).createMultiplayerChallenge(challengeLength, CHALLENGE_STEPS, 2, { value: betAmount });
+      await multiplayerChallenge.connect(competitor1).joinChallenge(0, { value: betAmount });
+      await multiplayerChallenge.connect(challenger).startChallenge(0);
+      await multiplayerChallenge.connect(competitor1).submitMeasurements(0, [12000]);
+
+      const multiplayerStartTime = await multiplayerChallenge.challengeToStartTime(0);
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(multiplayerStartTime + challengeLength + BigInt(100))]);
+      await ethers.provider.send("evm_mine", []);
+
+      const expectedFee = (betAmount * BigInt(protocolFeeBps)) / BigInt(10000);
+      await expect(challengeContract.connect(bettor).settleChallenge(0))
+        .to.emit(vaultContract, "FeesAccrued").withArgs(challengeContractAddress, expectedFee, false);
+      await expect(multiplayerChallenge.connect(competitor1).settleChallenge(0))
+        .to.emit(vaultContract, "FeesAccrued").withArgs(multiplayerChallengeAddress, expectedFee, false);
+
+      expect(await vaultContract.treasuryEthBalance()).to.equal(expectedFee * BigInt(2));
+      expect(await vaultContract.getConsumerBalance(challengeContractAddress, false)).to.equal(betAmount * BigInt(2) - expectedFee);
+      expect(await vaultContract.getConsumerBalance(multiplayerChallengeAddress, false)).to.equal(betAmount * BigInt(2) - expectedFee);
+
+      const treasuryRecipient = await rogueConsumer.getAddress();
+      await expect(vaultContract.connect(rogueConsumer).withdrawTreasury(treasuryRecipient, expectedFee, false))
+        .to.be.revertedWithCustomError(vaultContract, "AccessControlUnauthorizedAccount");
+      await expect(vaultContract.connect(owner).withdrawTreasury(treasuryRecipient, expectedFee * BigInt(3), false))
+        .to.be.revertedWithCustomError(vaultContract, "InsufficientTreasuryBalance")
+        .withArgs(expectedFee * BigInt(2), expectedFee * BigInt(3));
+
+      const withdrawTx = vaultContract.connect(owner).withdrawTreasury(treasuryRecipient, expectedFee * BigInt(2), false);
+      await expect(withdrawTx).to.emit(vaultContract, "TreasuryWithdrawn").withArgs(treasuryRecipient, expectedFee * BigInt(2), false);
+      await expect(withdrawTx).to.changeEtherBalance(rogueConsumer, expectedFee * BigInt(2));
+      expect(await vaultContract.treasuryEthBalance()).to.equal(0);
+    });
+  });
+
+  describe("Migrating to roles", function () {
+    it("should make the owner of a first release vault its default admin, keeping its state", async function () {
+      const ownerAddress = await owner.getAddress();
+      const legacyVault = await upgrades.deployProxy(await ethers.getContractFactory("LegacyVault"), [challengeContractAddress], {
+        initializer: "initialize",
+        kind: "uups",
+      }) as unknown as LegacyVault;
+      const legacyVaultAddress = await legacyVault.getAddress();
+      const token = await (await ethers.getContractFactory("MockERC20")).deploy("USD Coin", "USDC", 6);
+      const tokenAddress = await token.getAddress();
+      await legacyVault.setTokenAddress(tokenAddress);
+      await legacyVault.depositETH({ value: betAmount });
+
+      await upgrades.upgradeProxy(legacyVaultAddress, await ethers.getContractFactory("Vault"), { call: "initializeAccessControl" });
+      const migratedVault = await ethers.getContractAt("Vault", legacyVaultAddress);
+
+      expect(await migratedVault.owner()).to.equal(ethers.ZeroAddress);
+      for (const role of [
+        await migratedVault.DEFAULT_ADMIN_ROLE(),
+        await migratedVault.PARAMETER_ADMIN_ROLE(),
+        await migratedVault.UPGRADER_ROLE(),
+      ]) {
+        expect(await migratedVault.hasRole(role, ownerAddress)).to.be.true;
+      }
+      expect(await migratedVault.token()).to.equal(tokenAddress);
+      expect(await migratedVault.getBalance(false)).to.equal(betAmount);
+      expect(await migratedVault.authorizedConsumers(challengeContractAddress)).to.be.true;
+      expect(await migratedVault.consumerToEthBalance(challengeContractAddress)).to.equal(betAmount);
+      await expect(migratedVault.initializeAccessControl()).to.be.revertedWithCustomError(migratedVault, "InvalidInitialization");
+
+      await expect(migratedVault.addConsumer(multiplayerChallengeAddress)).to.emit(migratedVault, "ConsumerAdded");
+    });
+
+    it("should let the challenge contract of a first release vault withdraw what it deposited before the upgrade", async function () {
+      // an externally owned account stands in for the challenge contract so it can deposit and withdraw directly
+      const legacyChallengeAddress = await rogueConsumer.getAddress();
+      const legacyVault = await upgrades.deployProxy(await ethers.getContractFactory("LegacyVault"), [legacyChallengeAddress], {
+        initializer: "initialize",
+        kind: "uups",
+      }) as unknown as LegacyVault;
+      const legacyVaultAddress = await legacyVault.getAddress();
+      const token = await (await ethers.getContractFactory("MockERC20")).deploy("USD Coin", "USDC", 6);
+      const tokenAmount = BigInt(250_000_000);
+      await legacyVault.setTokenAddress(await token.getAddress());
+      await token.mint(legacyChallengeAddress, tokenAmount);
+      await token.connect(rogueConsumer).approve(legacyVaultAddress, tokenAmount);
+      await legacyVault.connect(rogueConsumer).depositETH({ value: betAmount });
+      await legacyVault.connect(rogueConsumer).depositToken(tokenAmount);
+
+      await upgrades.upgradeProxy(legacyVaultAddress, await ethers.getContractFactory("Vault"), { call: "initializeAccessControl" });
+      const migratedVault = await ethers.getContractAt("Vault", legacyVaultAddress);
+
+      expect(await migratedVault.consumerToEthBalance(legacyChallengeAddress)).to.equal(betAmount);
+      expect(await migratedVault.consumerToTokenBalance(legacyChallengeAddress)).to.equal(tokenAmount);
+
+      const recipient = await bettor.getAddress();
+      const ethWithdrawal = migratedVault.connect(rogueConsumer).withdrawFunds(recipient, betAmount, false);
+      await expect(ethWithdrawal).to.changeEtherBalances([migratedVault, bettor], [-betAmount, betAmount]);
+      const tokenWithdrawal = migratedVault.connect(rogueConsumer).withdrawFunds(recipient, tokenAmount, true);
+      await expect(tokenWithdrawal).to.changeTokenBalances(token, [migratedVault, bettor], [-tokenAmount, tokenAmount]);
+      expect(await migratedVault.getBalance(false)).to.equal(0);
+      expect(await migratedVault.getBalance(true)).to.equal(0);
+    });
+
+    it("should not run the migrations on a new vault, which has no owner", async function () {
+      expect(await vaultContract.owner()).to.equal(ethers.ZeroAddress);
+      await expect(vaultContract.connect(owner).initializeConsumers())
+        .to.be.revertedWithCustomError(vaultContract, "InvalidInitialization");
+      await expect(vaultContract.connect(owner).initializeAccessControl())
+        .to.be.revertedWithCustomError(vaultContract, "InvalidInitialization");
+    });
+
+    it("should let a parameter admin manage consumers without being able to withdraw the treasury", async function () {
+      const adminAddress = await rogueConsumer.getAddress();
+      await vaultContract.connect(owner).grantRole(await vaultContract.PARAMETER_ADMIN_ROLE(), adminAddress);
+
+      await expect(vaultContract.connect(rogueConsumer).removeConsumer(multiplayerChallengeAddress)).to.emit(vaultContract, "ConsumerRemoved");
+      await expect(vaultContract.connect(rogueConsumer).withdrawTreasury(adminAddress, 1, false))
+        .to.be.revertedWithCustomError(vaultContract, "AccessControlUnauthorizedAccount")
+        .withArgs(adminAddress, await vaultContract.DEFAULT_ADMIN_ROLE());
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import hre, { ethers, upgrades } from "hardhat";
+import { IChallengeProxy, IMultiplayerChallengeProxy, MockV3Aggregator, Vault } from "../typechain";
+import { deployExtensionArgs, getProxyFactory } from "../scripts/extensions";
+
+export const MINIMUM_USD_BET_VALUE: bigint = BigInt(10) * BigInt(1e14);
+export const MAXIMUM_NUMBER_OF_BETTORS_PER_CHALLENGE = 100;
+export const MAXIMUM_NUMBER_OF_CHALLENGE_COMPETITORS = 5;
+export const MAXIMUM_CHALLENGE_LENGTH_IN_SECONDS = 2592000;
+export const MAXIMUM_NUMBER_OF_CHALLENGE_METRICS = 3;
+
+export interface ChallengeContracts {
+  mockPriceFeed: MockV3Aggregator;
+  challengeContract: IChallengeProxy;
+  multiplayerChallenge: IMultiplayerChallengeProxy;
+  vaultContract: Vault;
+}
+
+/**
+ * Deploys both game contracts behind proxies with a mock price feed, and one vault they share, wired the same way as
+ * the deploy script. The first signer deploys everything and so holds every role.
+ */
+export const deployChallengeContracts = async (): Promise<ChallengeContracts> => {
+  const MockV3Aggregator = await ethers.getContractFactory("MockV3Aggregator");
+  const mockPriceFeed = await MockV3Aggregator.deploy(8, 200000000000); // 8 decimals, $2000.00000000 ETH/USD price
+  const mockPriceFeedAddress = await mockPriceFeed.getAddress();
+
+  const ChallengeFactory = await getProxyFactory(hre, "Challenge");
+  const challengeContract = await upgrades.deployProxy(
+    ChallengeFactory,
+    [
+      MINIMUM_USD_BET_VALUE,
+      mockPriceFeedAddress,
+      MAXIMUM_NUMBER_OF_BETTORS_PER_CHALLENGE,
+      MAXIMUM_CHALLENGE_LENGTH_IN_SECONDS,
+      MAXIMUM_NUMBER_OF_CHALLENGE_METRICS
+    ],
+    { initializer: "initialize", constructorArgs: await deployExtensionArgs(hre, "Challenge") }
+  );
+  await challengeContract.waitForDeployment();
+
+  const MultiplayerChallengeFactory = await getProxyFactory(hre, "MultiplayerChallenge");
+  const multiplayerChallenge = await upgrades.deployProxy(
+    MultiplayerChallengeFactory,
+    [
+      MINIMUM_USD_BET_VALUE,
+      MAXIMUM_NUMBER_OF_CHALLENGE_COMPETITORS,
+      mockPriceFeedAddress,
+      MAXIMUM_NUMBER_OF_BETTORS_PER_CHALLENGE,
+      MAXIMUM_CHALLENGE_LENGTH_IN_SECONDS,
+      MAXIMUM_NUMBER_OF_CHALLENGE_METRICS
+    ],
+    { initializer: "initializeMultiplayerChallenge", constructorArgs: await deployExtensionArgs(hre, "MultiplayerChallenge") }
+  );
+  await multiplayerChallenge.waitForDeployment();
+
+  const VaultFactory = await ethers.getContractFactory("Vault");
+  const vaultContract = await upgrades.deployProxy(VaultFactory, [await challengeContract.getAddress()], { initializer: "initialize" });
+  await vaultContract.waitForDeployment();
+  const vaultContractAddress = await vaultContract.getAddress();
+
+  await vaultContract.addConsumer(await multiplayerChallenge.getAddress());
+  await challengeContract.setVault(vaultContractAddress);
+  await multiplayerChallenge.setVault(vaultContractAddress);
+
+  return { mockPriceFeed, challengeContract, multiplayerChallenge, vaultContract };
+};